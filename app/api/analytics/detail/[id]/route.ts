@@ -3,6 +3,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { getServerSession } from "next-auth/next";
 import { prisma } from "@/lib/db";
 import { authOptions } from "@/lib/auth";
+import { getVariantStats } from "@/lib/ab-test";
 
 export async function GET(
   request: NextRequest,
@@ -120,6 +121,13 @@ export async function GET(
       deviceStats,
       topLocations,
       hourlyData: hourlyDataArray,
+      abTest: campaign.abTestStatus ? {
+        status: campaign.abTestStatus,
+        metric: campaign.abTestMetric,
+        samplePercent: campaign.abTestSamplePercent,
+        decideAt: campaign.abTestDecideAt?.toISOString() ?? null,
+        variants: await getVariantStats(campaignId),
+      } : null,
     });
   } catch (error) {
     console.error("Error fetching analytics detail:", error);
@@ -0,0 +1,47 @@
+// app/api/attachments/[id]/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { prisma } from "@/lib/db";
+import { authOptions } from "@/lib/auth";
+import { deleteAttachment } from "@/lib/attachments";
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await getServerSession(authOptions);
+  
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  
+  const { id } = await params;
+  
+  try {
+    const attachment = await prisma.attachment.findFirst({
+      where: {
+        id,
+        userId: session.user.id,
+      },
+    });
+    
+    if (!attachment) {
+      return NextResponse.json({ error: "Attachment not found" }, { status: 404 });
+    }
+    
+    const deleted = await deleteAttachment(attachment);
+    
+    if (!deleted) {
+      return NextResponse.json({ 
+        error: "This file is attached to a campaign that hasn't finished sending" 
+      }, { status: 409 });
+    }
+    
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting attachment:", error);
+    return NextResponse.json({ 
+      error: error instanceof Error ? error.message : "Failed to delete attachment" 
+    }, { status: 500 });
+  }
+}
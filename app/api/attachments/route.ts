@@ -0,0 +1,90 @@
+// app/api/attachments/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { prisma } from "@/lib/db";
+import { authOptions } from "@/lib/auth";
+import { MAX_ATTACHMENT_UPLOAD_BYTES, sanitizeFileName, saveAttachment } from "@/lib/attachments";
+
+export async function GET() {
+  const session = await getServerSession(authOptions);
+  
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  
+  const attachments = await prisma.attachment.findMany({
+    where: { userId: session.user.id },
+    select: {
+      id: true,
+      fileName: true,
+      contentType: true,
+      size: true,
+      createdAt: true,
+      _count: {
+        select: { templates: true, campaigns: true },
+      },
+    },
+    orderBy: { createdAt: 'desc' },
+  });
+  
+  return NextResponse.json(attachments);
+}
+
+/**
+ * Upload a file to the attachment library
+ */
+export async function POST(request: NextRequest) {
+  const session = await getServerSession(authOptions);
+  
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  
+  try {
+    const formData = await request.formData();
+    const file = formData.get('file');
+    
+    if (!(file instanceof File) || file.size === 0) {
+      return NextResponse.json({ error: "No file uploaded" }, { status: 400 });
+    }
+    
+    if (file.size > MAX_ATTACHMENT_UPLOAD_BYTES) {
+      return NextResponse.json({ 
+        error: `Files can be at most ${MAX_ATTACHMENT_UPLOAD_BYTES / 1024 / 1024} MB` 
+      }, { status: 400 });
+    }
+    
+    const fileName = sanitizeFileName(file.name);
+    
+    // Recipient files refer to attachments by name, so names are unique per user
+    const existing = await prisma.attachment.findUnique({
+      where: { userId_fileName: { userId: session.user.id, fileName } },
+    });
+    
+    if (existing) {
+      return NextResponse.json({ 
+        error: `A file named "${fileName}" is already in the library` 
+      }, { status: 409 });
+    }
+    
+    const attachment = await saveAttachment(
+      session.user.id,
+      fileName,
+      file.type || 'application/octet-stream',
+      Buffer.from(await file.arrayBuffer())
+    );
+    
+    return NextResponse.json({
+      id: attachment.id,
+      fileName: attachment.fileName,
+      contentType: attachment.contentType,
+      size: attachment.size,
+      createdAt: attachment.createdAt,
+    });
+  } catch (error) {
+    console.error("Error uploading attachment:", error);
+    return NextResponse.json({ 
+      error: error instanceof Error ? error.message : "Failed to upload attachment" 
+    }, { status: 500 });
+  }
+}
@@ -1,18 +1,21 @@
 // app/api/cron/daily-maintenance/route.ts
 import { NextResponse } from "next/server";
 import { cleanupUnusedImages } from "@/lib/user-image";
-import { prisma } from "@/lib/db";
-import { triggerProcessBatch } from "@/lib/queue";
+import { dispatchScheduledCampaigns, resetDailySmtpQuotas, resumeStalledCampaigns } from "@/lib/scheduler";
+import { describeSendingHalt, getInstanceHalt } from "@/lib/sending-halt";
 
 export const dynamic = 'force-dynamic';
 
 export async function GET() {
   try {
+    // Housekeeping still runs while sending is stopped, campaigns are left alone
+    const halt = await getInstanceHalt();
+    
     const results = {
       cleanupImages: await runCleanupImages(),
       resetSmtpQuotas: await runResetSmtpQuotas(),
-      stalledCampaigns: await checkStalledCampaigns(),
-      scheduledCampaigns: await processScheduledCampaigns()
+      stalledCampaigns: halt ? { success: true, halted: describeSendingHalt(halt) } : await checkStalledCampaigns(),
+      scheduledCampaigns: halt ? { success: true, halted: describeSendingHalt(halt) } : await processScheduledCampaigns()
     };
     
     return NextResponse.json({
@@ -41,14 +44,8 @@ async function runCleanupImages() {
 // Fungsi untuk reset SMTP quotas
 async function runResetSmtpQuotas() {
   try {
-    await prisma.smtpConfig.updateMany({
-      data: {
-        lastUsed: null,
-        usedToday: 0,
-        lastQuotaReset: new Date()
-      }
-    });
-    return { success: true };
+    const reset = await resetDailySmtpQuotas();
+    return { success: true, reset };
   } catch (error) {
     return { success: false, error: error instanceof Error ? error.message : "Unknown error" };
   }
@@ -57,48 +54,13 @@ async function runResetSmtpQuotas() {
 // Fungsi untuk memeriksa kampanye yang terhenti
 async function checkStalledCampaigns() {
   try {
-    // Cari kampanye yang terhenti (dalam status processing tapi tidak ada aktivitas selama 24 jam)
-    // Untuk hobby plan, kita periksa kampanye yang terhenti lebih lama
-    const stalledCampaigns = await prisma.campaign.findMany({
-      where: {
-        status: 'processing',
-        lastProcessedAt: {
-          lt: new Date(Date.now() - 24 * 60 * 60 * 1000), // 24 jam yang lalu
-        },
-      },
-      select: {
-        id: true,
-        name: true,
-        userId: true,
-        lastProcessedAt: true,
-      },
-    });
-    
-    console.log(`Found ${stalledCampaigns.length} stalled campaigns`);
-    
-    // Restart kampanye yang terhenti
-    const restartResults = [];
-    for (const campaign of stalledCampaigns) {
-      console.log(`Restarting stalled campaign: ${campaign.id}`);
-      
-      // Update timestamp untuk menandai bahwa kampanye sedang diproses
-      await prisma.campaign.update({
-        where: { id: campaign.id },
-        data: {
-          lastProcessedAt: new Date(),
-          lastError: `Auto-restarted after stalling at ${campaign.lastProcessedAt}`,
-        },
-      });
-      
-      // Trigger webhook untuk melanjutkan pemrosesan
-      await triggerProcessBatch(campaign.id, 0);
-      restartResults.push({ id: campaign.id, name: campaign.name, restarted: true });
-    }
+    // Untuk hobby plan, kita periksa kampanye yang terhenti lebih lama (24 jam)
+    const results = await resumeStalledCampaigns(24 * 60 * 60 * 1000);
     
     return { 
       success: true, 
-      stalledCampaigns: stalledCampaigns.length,
-      restartedCampaigns: restartResults
+      stalledCampaigns: results.length,
+      restartedCampaigns: results
     };
   } catch (error) {
     return { success: false, error: error instanceof Error ? error.message : "Unknown error" };
@@ -108,68 +70,14 @@ async function checkStalledCampaigns() {
 // Fungsi untuk memproses kampanye terjadwal
 async function processScheduledCampaigns() {
   try {
-    const now = new Date();
-    
-    // Find scheduled campaigns that are due to run
-    const scheduledCampaigns = await prisma.campaign.findMany({
-      where: {
-        isScheduled: true,
-        scheduledFor: {
-          lte: now, // Scheduled time is before or equal to now
-        },
-        status: 'queued', // Only process queued campaigns
-      },
-      select: {
-        id: true,
-        name: true,
-        scheduledFor: true,
-      },
-    });
-    
-    console.log(`Found ${scheduledCampaigns.length} scheduled campaigns to process`);
-    
-    // Start processing each campaign
-    const results = [];
-    for (const campaign of scheduledCampaigns) {
-      console.log(`Starting scheduled campaign: ${campaign.id} (${campaign.name})`);
-      
-      try {
-        // Update campaign to processing status
-        await prisma.campaign.update({
-          where: { id: campaign.id },
-          data: {
-            status: 'processing',
-            isScheduled: false, // Mark as no longer scheduled
-            startedAt: new Date(),
-          },
-        });
-        
-        // Trigger processing via webhook
-        await triggerProcessBatch(campaign.id, 0);
-        
-        results.push({
-          id: campaign.id,
-          name: campaign.name,
-          success: true,
-        });
-      } catch (error) {
-        console.error(`Error processing scheduled campaign ${campaign.id}:`, error);
-        
-        results.push({
-          id: campaign.id,
-          name: campaign.name,
-          success: false,
-          error: error instanceof Error ? error.message : 'Unknown error',
-        });
-      }
-    }
+    const results = await dispatchScheduledCampaigns();
     
     return {
       success: true,
-      processed: scheduledCampaigns.length,
+      processed: results.length,
       results,
     };
   } catch (error) {
     return { success: false, error: error instanceof Error ? error.message : "Unknown error" };
   }
-}
\ No newline at end of file
+}
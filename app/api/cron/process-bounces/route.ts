@@ -0,0 +1,24 @@
+// app/api/cron/process-bounces/route.ts
+import { NextResponse } from "next/server";
+import { processBounceMailboxes } from "@/lib/bounce-processing";
+
+export const maxDuration = 60;
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  try {
+    // Read new DSNs and complaint reports from every configured bounce mailbox
+    const mailboxes = await processBounceMailboxes();
+    
+    return NextResponse.json({
+      success: true,
+      mailboxes,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error("Error processing bounce mailboxes:", error);
+    return NextResponse.json({ 
+      error: error instanceof Error ? error.message : "Unknown error" 
+    }, { status: 500 });
+  }
+}
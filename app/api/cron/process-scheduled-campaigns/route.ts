@@ -1,7 +1,8 @@
 // app/api/cron/process-scheduled-campaigns/route.ts
 import { NextResponse } from "next/server";
-import { prisma } from "@/lib/db";
-import { startCampaignProcessing } from "@/lib/queue";
+import { processDueSchedules } from "@/lib/campaign-schedule";
+import { dispatchScheduledCampaigns } from "@/lib/scheduler";
+import { describeSendingHalt, getInstanceHalt } from "@/lib/sending-halt";
 
 export const dynamic = 'force-dynamic';
 
@@ -9,78 +10,27 @@ export async function GET() {
   try {
     const now = new Date();
     
-    // Find scheduled campaigns that are due to run
-    const scheduledCampaigns = await prisma.campaign.findMany({
-      where: {
-        isScheduled: true,
-        scheduledFor: {
-          lte: now, // Scheduled time is before or equal to now
-        },
-        status: 'queued', // Only process queued campaigns
-      },
-      select: {
-        id: true,
-        name: true,
-        scheduledFor: true,
-      },
-    });
-    
-    console.log(`Found ${scheduledCampaigns.length} scheduled campaigns to process`);
+    // Due campaigns stay queued until sending is resumed
+    const halt = await getInstanceHalt();
     
-    // Start processing each campaign
-    const results = [];
-    for (const campaign of scheduledCampaigns) {
-      console.log(`Starting scheduled campaign: ${campaign.id} (${campaign.name})`);
-      
-      try {
-        // Process in a transaction to ensure consistency
-        await prisma.$transaction(async (tx) => {
-          // Verify the campaign is still in queued state (hasn't been processed by another instance)
-          const currentCampaign = await tx.campaign.findUnique({
-            where: { id: campaign.id },
-            select: { status: true, isScheduled: true }
-          });
-          
-          if (!currentCampaign || currentCampaign.status !== 'queued' || !currentCampaign.isScheduled) {
-            console.log(`Campaign ${campaign.id} has already been processed or status changed`);
-            return;
-          }
-          
-          // Update campaign to processing status
-          await tx.campaign.update({
-            where: { id: campaign.id },
-            data: {
-              status: 'processing',
-              isScheduled: false, // Mark as no longer scheduled
-              startedAt: new Date(),
-            },
-          });
-        });
-        
-        // Start processing (outside transaction to avoid long-running transactions)
-        const success = await startCampaignProcessing(campaign.id);
-        
-        results.push({
-          id: campaign.id,
-          name: campaign.name,
-          success,
-          error: success ? null : 'Failed to start campaign processing',
-        });
-      } catch (error) {
-        console.error(`Error processing scheduled campaign ${campaign.id}:`, error);
-        
-        results.push({
-          id: campaign.id,
-          name: campaign.name,
-          success: false,
-          error: error instanceof Error ? error.message : 'Unknown error',
-        });
-      }
+    if (halt) {
+      return NextResponse.json({
+        processed: 0,
+        halted: describeSendingHalt(halt),
+        timestamp: now.toISOString(),
+      });
     }
     
+    // Start scheduled campaigns that are due to run
+    const results = await dispatchScheduledCampaigns(now);
+    
+    // Recurring schedules spawn a fresh campaign per occurrence
+    const schedules = await processDueSchedules(now);
+    
     return NextResponse.json({
-      processed: scheduledCampaigns.length,
+      processed: results.length,
       results,
+      schedules,
       timestamp: new Date().toISOString(),
     });
   } catch (error) {
@@ -89,4 +39,4 @@ export async function GET() {
       error: error instanceof Error ? error.message : "Unknown error" 
     }, { status: 500 });
   }
-}
\ No newline at end of file
+}
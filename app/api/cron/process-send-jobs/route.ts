@@ -0,0 +1,44 @@
+// app/api/cron/process-send-jobs/route.ts
+import { NextResponse } from "next/server";
+import { runSendWorker } from "@/lib/queue";
+import { processDueSchedules } from "@/lib/campaign-schedule";
+import { describeSendingHalt, getInstanceHalt } from "@/lib/sending-halt";
+
+export const maxDuration = 60; // 60 seconds max duration
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  try {
+    // Nothing is spawned or sent while sending is stopped for everyone
+    const halt = await getInstanceHalt();
+    
+    if (halt) {
+      return NextResponse.json({
+        success: true,
+        halted: describeSendingHalt(halt),
+        timestamp: new Date().toISOString(),
+      });
+    }
+    
+    // Spawn campaigns for recurring schedules first so their jobs are drained in this run
+    const schedules = await processDueSchedules().catch(error => {
+      console.error("Error processing recurring schedules:", error);
+      return [];
+    });
+    
+    // Drain due send jobs, including ones whose lease expired on a recycled instance
+    const result = await runSendWorker();
+    
+    return NextResponse.json({
+      success: true,
+      ...result,
+      schedules,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error("Error processing send jobs:", error);
+    return NextResponse.json({ 
+      error: error instanceof Error ? error.message : "Unknown error" 
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,55 @@
+// app/api/email/[id]/cancel/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/db";
+import { cancelCampaign } from "@/lib/queue";
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await getServerSession(authOptions);
+  
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  
+  const { id: campaignId } = await params;
+  
+  try {
+    console.log(`Cancelling campaign ${campaignId}`);
+    
+    const campaign = await prisma.campaign.findFirst({
+      where: {
+        id: campaignId,
+        userId: session.user.id,
+      },
+      select: { status: true },
+    });
+    
+    if (!campaign) {
+      return NextResponse.json({ error: "Campaign not found" }, { status: 404 });
+    }
+    
+    // Finished campaigns have nothing left to cancel
+    if (!['draft', 'queued', 'processing', 'paused'].includes(campaign.status)) {
+      return NextResponse.json({ 
+        error: `Cannot cancel campaign with status '${campaign.status}'` 
+      }, { status: 400 });
+    }
+    
+    const skippedCount = await cancelCampaign(campaignId);
+    
+    return NextResponse.json({
+      success: true,
+      message: "Campaign cancelled",
+      skippedCount,
+    });
+  } catch (error) {
+    console.error("Error cancelling campaign:", error);
+    return NextResponse.json({ 
+      error: error instanceof Error ? error.message : "Failed to cancel campaign" 
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,36 @@
+// app/api/email/[id]/dry-run/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/lib/auth";
+import { runCampaignDryRun } from "@/lib/dry-run";
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await getServerSession(authOptions);
+  
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  
+  const { id: campaignId } = await params;
+  
+  try {
+    console.log(`Dry run for campaign ${campaignId}`);
+    
+    // Nothing is sent or written; the report is computed fresh every time
+    const report = await runCampaignDryRun(campaignId, session.user.id);
+    
+    if (!report) {
+      return NextResponse.json({ error: "Campaign not found" }, { status: 404 });
+    }
+    
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error("Error running campaign dry run:", error);
+    return NextResponse.json({ 
+      error: error instanceof Error ? error.message : "Failed to run dry run" 
+    }, { status: 500 });
+  }
+}
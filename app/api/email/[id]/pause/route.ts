@@ -0,0 +1,62 @@
+// app/api/email/[id]/pause/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/db";
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await getServerSession(authOptions);
+  
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  
+  const { id: campaignId } = await params;
+  
+  try {
+    console.log(`Pausing campaign ${campaignId}`);
+    
+    // Only move campaigns that are waiting or sending; the worker stops before its next email
+    const { count } = await prisma.campaign.updateMany({
+      where: {
+        id: campaignId,
+        userId: session.user.id,
+        status: { in: ['queued', 'processing'] },
+      },
+      data: {
+        status: 'paused',
+      },
+    });
+    
+    if (count === 0) {
+      const campaign = await prisma.campaign.findFirst({
+        where: {
+          id: campaignId,
+          userId: session.user.id,
+        },
+        select: { status: true },
+      });
+      
+      if (!campaign) {
+        return NextResponse.json({ error: "Campaign not found" }, { status: 404 });
+      }
+      
+      return NextResponse.json({ 
+        error: `Cannot pause campaign with status '${campaign.status}'` 
+      }, { status: 400 });
+    }
+    
+    return NextResponse.json({
+      success: true,
+      message: "Campaign paused",
+    });
+  } catch (error) {
+    console.error("Error pausing campaign:", error);
+    return NextResponse.json({ 
+      error: error instanceof Error ? error.message : "Failed to pause campaign" 
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,115 @@
+// app/api/email/[id]/recipients/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { prisma } from "@/lib/db";
+import { authOptions } from "@/lib/auth";
+import { Prisma } from "@prisma/client";
+
+/**
+ * List a campaign's recipients with their delivery receipts
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await getServerSession(authOptions);
+  
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  
+  const { id: campaignId } = await params;
+  
+  try {
+    const campaign = await prisma.campaign.findFirst({
+      where: {
+        id: campaignId,
+        userId: session.user.id,
+      },
+      select: { id: true },
+    });
+    
+    if (!campaign) {
+      return NextResponse.json({ error: "Campaign not found" }, { status: 404 });
+    }
+    
+    // Get query parameters
+    const url = new URL(request.url);
+    const status = url.searchParams.get('status');
+    const search = url.searchParams.get('search');
+    const page = parseInt(url.searchParams.get('page') ?? '1');
+    const limit = Math.min(parseInt(url.searchParams.get('limit') ?? '20'), 100);
+    
+    const where: Prisma.RecipientWhereInput = { campaignId };
+    
+    if (status) {
+      where.status = status;
+    }
+    
+    if (search) {
+      where.email = {
+        contains: search,
+        mode: 'insensitive',
+      };
+    }
+    
+    const [recipients, total] = await Promise.all([
+      prisma.recipient.findMany({
+        where,
+        select: {
+          id: true,
+          email: true,
+          name: true,
+          status: true,
+          errorMessage: true,
+          failureCategory: true,
+          retryCount: true,
+          nextAttemptAt: true,
+          sentAt: true,
+          // Send attempts only; open/click tracking rows carry no receipt
+          logs: {
+            where: { attempt: { not: null } },
+            select: {
+              id: true,
+              status: true,
+              sentAt: true,
+              messageId: true,
+              smtpResponse: true,
+              accepted: true,
+              rejected: true,
+              attempt: true,
+              durationMs: true,
+              errorMessage: true,
+              smtpConfig: {
+                select: { name: true },
+              },
+              failureCategory: true,
+              openedAt: true,
+              clickedAt: true,
+            },
+            orderBy: { sentAt: 'desc' },
+          },
+        },
+        skip: (page - 1) * limit,
+        take: limit,
+        orderBy: { createdAt: 'asc' },
+      }),
+      prisma.recipient.count({ where }),
+    ]);
+    
+    return NextResponse.json({
+      recipients,
+      pagination: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching campaign recipients:", error);
+    return NextResponse.json({ 
+      error: error instanceof Error ? error.message : "Failed to fetch recipients" 
+    }, { status: 500 });
+  }
+}
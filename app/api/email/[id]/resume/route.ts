@@ -0,0 +1,81 @@
+// app/api/email/[id]/resume/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/db";
+import { startCampaignProcessing } from "@/lib/queue";
+
+export const maxDuration = 30; // 30 seconds max duration
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await getServerSession(authOptions);
+  
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  
+  const { id: campaignId } = await params;
+  
+  try {
+    console.log(`Resuming campaign ${campaignId}`);
+    
+    const campaign = await prisma.campaign.findFirst({
+      where: {
+        id: campaignId,
+        userId: session.user.id,
+      },
+    });
+    
+    if (!campaign) {
+      return NextResponse.json({ error: "Campaign not found" }, { status: 404 });
+    }
+    
+    if (campaign.status !== 'paused') {
+      return NextResponse.json({ 
+        error: `Cannot resume campaign with status '${campaign.status}'` 
+      }, { status: 400 });
+    }
+    
+    // A campaign paused before its scheduled time goes back to waiting for it
+    if (campaign.isScheduled && campaign.scheduledFor && campaign.scheduledFor > new Date()) {
+      await prisma.campaign.update({
+        where: { id: campaignId },
+        data: { status: 'queued' },
+      });
+      
+      return NextResponse.json({
+        success: true,
+        message: "Campaign resumed and waiting for its scheduled time",
+      });
+    }
+    
+    await prisma.campaign.update({
+      where: { id: campaignId },
+      data: {
+        status: 'processing',
+        isScheduled: false,
+        startedAt: campaign.startedAt ?? new Date(),
+        lastProcessedAt: new Date(),
+      },
+    });
+    
+    const success = await startCampaignProcessing(campaignId);
+    
+    if (!success) {
+      throw new Error("Failed to resume campaign processing");
+    }
+    
+    return NextResponse.json({
+      success: true,
+      message: "Campaign resumed",
+    });
+  } catch (error) {
+    console.error("Error resuming campaign:", error);
+    return NextResponse.json({ 
+      error: error instanceof Error ? error.message : "Failed to resume campaign" 
+    }, { status: 500 });
+  }
+}
@@ -3,7 +3,8 @@ import { NextRequest, NextResponse } from "next/server";
 import { getServerSession } from "next-auth/next";
 import { authOptions } from "@/lib/auth";
 import { prisma } from "@/lib/db";
-import { sendEmailWithRetry, getNextAvailableSmtp, triggerProcessBatch } from "@/lib/queue";
+import { runSendWorker, triggerProcessBatch } from "@/lib/queue";
+import { enqueueCampaignJob } from "@/lib/send-jobs";
 
 export const maxDuration = 60; // 60 seconds max duration
 
@@ -60,69 +61,17 @@ export async function POST(
       });
     }
     
-    // Get next batch of recipients
-    const recipients = await prisma.recipient.findMany({
-      where: {
-        campaignId,
-        status: 'pending',
-      },
-      take: 10,
-      orderBy: { createdAt: 'asc' },
-    });
-    
-    console.log(`Found ${recipients.length} pending recipients to process manually`);
+    // Make sure the campaign has a due send job, then run one batch of it here
+    await enqueueCampaignJob(campaignId);
+    const result = await runSendWorker({ campaignId, maxBatches: 1 });
     
-    if (recipients.length === 0) {
-      // No more recipients to process
-      // Finalize campaign
-      await prisma.campaign.update({
-        where: { id: campaignId },
-        data: {
-          status: 'sent',
-          completedAt: new Date(),
-        },
-      });
-      
+    if (result.batches === 0) {
       return NextResponse.json({ 
-        message: "Campaign completed - no more recipients to process" 
-      });
-    }
-    
-    // Get SMTP config
-    const smtpConfig = await getNextAvailableSmtp(session.user.id);
-    
-    if (!smtpConfig) {
-      return NextResponse.json({ error: "No SMTP configuration available" }, { status: 400 });
+        error: "Campaign is already being processed by another worker" 
+      }, { status: 409 });
     }
     
-    // Process this batch
-    const results = [];
-    
-    for (const recipient of recipients) {
-      console.log(`Manually sending to ${recipient.email}`);
-      const result = await sendEmailWithRetry(campaign, smtpConfig, recipient);
-      results.push({
-        email: recipient.email,
-        success: result.success,
-        error: result.error,
-      });
-    }
-    
-    const successCount = results.filter(r => r.success).length;
-    const failCount = results.filter(r => !r.success).length;
-    
-    console.log(`Manual processing results: ${successCount} succeeded, ${failCount} failed`);
-    
-    // Update campaign stats
-    await prisma.campaign.update({
-      where: { id: campaignId },
-      data: {
-        successCount: { increment: successCount },
-        failCount: { increment: failCount },
-        processedCount: { increment: successCount + failCount },
-        lastProcessedAt: new Date(),
-      },
-    });
+    console.log(`Manual processing results: ${result.sent} succeeded, ${result.failed} failed`);
     
     // Check if campaign is complete
     const pendingCount = await prisma.recipient.count({
@@ -133,27 +82,20 @@ export async function POST(
     });
     
     if (pendingCount === 0) {
-      // Finalize campaign
-      await prisma.campaign.update({
-        where: { id: campaignId },
-        data: {
-          status: 'sent',
-          completedAt: new Date(),
-        },
-      });
-      
       return NextResponse.json({ 
         message: "Batch processed and campaign completed",
-        results,
+        sent: result.sent,
+        failed: result.failed,
       });
     }
     
-    // Trigger next batch using webhook
-    await triggerProcessBatch(campaignId, 0);
+    // Wake a worker for the remaining batches
+    await triggerProcessBatch(campaignId);
     
     return NextResponse.json({ 
       message: "Batch processed successfully, next batch triggered",
-      results,
+      sent: result.sent,
+      failed: result.failed,
       remainingCount: pendingCount,
     });
   } catch (error) {
@@ -3,6 +3,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth/next';
 import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/db';
+import { startCampaignProcessing } from '@/lib/queue';
 
 export async function POST(
   request: NextRequest
@@ -54,8 +55,8 @@ export async function POST(
       },
     });
     
-    // Anda mungkin ingin memanggil webhook atau fungsi lain untuk memproses email
-    // Misalnya: await processNextEmail(id);
+    // Queue the send job so a worker picks the campaign up
+    await startCampaignProcessing(id);
     
     return NextResponse.json({ success: true });
   } catch (error) {
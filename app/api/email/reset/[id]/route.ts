@@ -4,6 +4,7 @@ import { getServerSession } from "next-auth/next";
 import { authOptions } from "@/lib/auth";
 import { prisma } from "@/lib/db";
 import { startCampaignProcessing } from "@/lib/queue";
+import { skipSuppressedRecipients } from "@/lib/campaign-recipients";
 
 export async function POST(
   request: NextRequest,
@@ -43,6 +44,7 @@ try {
       processedCount: 0,
       successCount: 0,
       failCount: 0,
+      skippedCount: 0,
       lastError: null,
       completedAt: null,
     },
@@ -56,9 +58,21 @@ try {
       errorMessage: null,
       sentAt: null,
       retryCount: 0,
+      failureCategory: null,
+      nextAttemptAt: null,
     },
   });
   
+  // Re-apply the suppression list, including addresses suppressed by the last run
+  const skippedCount = await skipSuppressedRecipients(campaignId, session.user.id);
+  
+  if (skippedCount > 0) {
+    await prisma.campaign.update({
+      where: { id: campaignId },
+      data: { skippedCount, processedCount: skippedCount },
+    });
+  }
+  
   console.log(`Campaign ${campaignId} reset, starting processing`);
   
   // Start campaign processing
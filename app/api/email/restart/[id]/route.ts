@@ -69,7 +69,7 @@ export async function POST(
     console.log(`Campaign ${campaignId} set to processing status, triggering batch processing`);
     
     // Restart campaign processing using webhook
-    await triggerProcessBatch(campaignId, 0);
+    await triggerProcessBatch(campaignId);
     
     return NextResponse.json({
       success: true,
@@ -5,8 +5,18 @@ import { prisma } from "@/lib/db";
 import { authOptions } from "@/lib/auth";
 import { parseRecipientsFromExcel, sanitizeEmail } from "@/lib/email";
 import { startCampaignProcessing } from "@/lib/queue";
+import { addCampaignRecipients, CampaignRecipientInput, getGroupRecipients } from "@/lib/campaign-recipients";
+import { DEFAULT_SENDING_PROFILE, isSendingProfileName, resolveSendingProfile } from "@/lib/sending-profile";
+import { isSmtpRoutingPolicy } from "@/lib/smtp-routing";
+import { AB_TEST_METRICS, AbTestMetric, assignTestVariants } from "@/lib/ab-test";
+import { parseMessageOptions, toMessageOptionData } from "@/lib/message-options";
+import { parseCampaignSchedule } from "@/lib/campaign-schedule";
+import { formatDateTimeInZone } from "@/lib/utils";
 import { Prisma } from "@prisma/client";
 
+// Variants are named A, B, C... so keep the list short
+const MAX_AB_VARIANTS = 5;
+
 export async function POST(request: NextRequest) {
   const session = await getServerSession(authOptions);
   
@@ -25,15 +35,31 @@ export async function POST(request: NextRequest) {
     const groupIdsStr = formData.get('groupIds') as string;
     const contactIdsStr = formData.get('contactIds') as string;
     const batchSizeStr = formData.get('batchSize') as string;
+    const sendingProfileStr = formData.get('sendingProfile') as string;
+    const smtpRoutingPolicyStr = formData.get('smtpRoutingPolicy') as string;
+    const smtpPoolStr = formData.get('smtpPool') as string;
+    const abTestStr = formData.get('abTest') as string;
+    const attachmentIdsStr = formData.get('attachmentIds') as string;
+    const messageOptionsStr = formData.get('messageOptions') as string;
     const recipientSourceStr = formData.get('recipientSource') as string || 'file';
     
     // Automatic sending and scheduling
     const sendImmediatelyStr = formData.get('sendImmediately') as string;
     const isScheduledStr = formData.get('isScheduled') as string;
     const scheduledForStr = formData.get('scheduledFor') as string;
-    
-    // Parse batch size with a default of 20
-    const batchSize = batchSizeStr ? parseInt(batchSizeStr, 10) : 20;
+    const scheduledTimezoneStr = formData.get('scheduledTimezone') as string;
+    
+    // Resolve the sending profile; custom values only apply to the 'custom' profile
+    // Older clients send just a batch size, which is treated as a custom profile
+    const sendingProfile = isSendingProfileName(sendingProfileStr)
+      ? sendingProfileStr
+      : (batchSizeStr ? 'custom' : DEFAULT_SENDING_PROFILE);
+    const { batchSize, messageDelayMs, maxPerMinute, concurrency } = resolveSendingProfile(sendingProfile, {
+      batchSize: batchSizeStr,
+      messageDelayMs: formData.get('messageDelayMs'),
+      maxPerMinute: formData.get('maxPerMinute'),
+      concurrency: formData.get('concurrency'),
+    });
     
     // Determine schedule and sending status with defaults
     const isScheduled = isScheduledStr === 'true';
@@ -75,6 +101,86 @@ export async function POST(request: NextRequest) {
       }
     }
     
+    // Extra SMTP configs the campaign may route through, besides the primary one
+    const smtpRoutingPolicy = isSmtpRoutingPolicy(smtpRoutingPolicyStr) ? smtpRoutingPolicyStr : 'pinned';
+    let smtpPool: Array<{ smtpConfigId: string; weight: number }> = [];
+    if (smtpPoolStr && smtpRoutingPolicy !== 'pinned') {
+      try {
+        const parsed = JSON.parse(smtpPoolStr);
+        if (Array.isArray(parsed)) {
+          smtpPool = parsed
+            .filter(entry => typeof entry?.smtpConfigId === 'string')
+            .map(entry => ({
+              smtpConfigId: entry.smtpConfigId,
+              weight: Math.min(Math.max(Math.round(Number(entry.weight) || 1), 1), 100),
+            }));
+        }
+      } catch (err) {
+        console.error("Error parsing SMTP pool:", err);
+      }
+    }
+    
+    // Optional A/B test: variants override the subject and/or template of the campaign
+    let abTest: {
+      variants: Array<{ subject: string | null; templateId: string | null }>;
+      metric: AbTestMetric;
+      samplePercent: number;
+      waitMinutes: number;
+    } | null = null;
+    if (abTestStr) {
+      try {
+        const parsed = JSON.parse(abTestStr);
+        if (Array.isArray(parsed?.variants)) {
+          abTest = {
+            variants: parsed.variants.map((variant: { subject?: unknown; templateId?: unknown }) => ({
+              subject: typeof variant?.subject === 'string' && variant.subject.trim() ? variant.subject.trim() : null,
+              templateId: typeof variant?.templateId === 'string' && variant.templateId ? variant.templateId : null,
+            })),
+            metric: AB_TEST_METRICS.includes(parsed.metric) ? parsed.metric : 'open',
+            samplePercent: Math.min(Math.max(Math.round(Number(parsed.samplePercent) || 20), 1), 100),
+            waitMinutes: Math.min(Math.max(Math.round(Number(parsed.waitMinutes) || 240), 1), 7 * 24 * 60),
+          };
+        }
+      } catch (err) {
+        console.error("Error parsing A/B test:", err);
+      }
+    }
+    
+    // Library files attached on top of the template's own attachments
+    let attachmentIds: string[] = [];
+    if (attachmentIdsStr) {
+      try {
+        const parsed = JSON.parse(attachmentIdsStr);
+        if (Array.isArray(parsed)) {
+          attachmentIds = parsed.filter((id): id is string => typeof id === 'string');
+        }
+      } catch (err) {
+        console.error("Error parsing attachment IDs:", err);
+      }
+    }
+    
+    // Overrides of the template's Reply-To, CC, BCC, preheader and headers
+    let messageOptionsInput: unknown = null;
+    if (messageOptionsStr) {
+      try {
+        messageOptionsInput = JSON.parse(messageOptionsStr);
+      } catch (err) {
+        console.error("Error parsing message options:", err);
+      }
+    }
+    
+    const { options: messageOptions, error: messageOptionsError } = parseMessageOptions(messageOptionsInput);
+    
+    if (messageOptionsError) {
+      return NextResponse.json({ error: messageOptionsError }, { status: 400 });
+    }
+    
+    if (abTest && (abTest.variants.length < 2 || abTest.variants.length > MAX_AB_VARIANTS)) {
+      return NextResponse.json({ 
+        error: `An A/B test needs between 2 and ${MAX_AB_VARIANTS} variants` 
+      }, { status: 400 });
+    }
+    
     // Validate required fields
     if (!campaignName) {
       return NextResponse.json({ error: "Campaign name is required" }, { status: 400 });
@@ -113,6 +219,7 @@ export async function POST(request: NextRequest) {
     const [template, smtpConfig] = await Promise.all([
       prisma.emailTemplate.findUnique({
         where: { id: templateId, userId: session.user.id },
+        include: { attachments: { select: { attachmentId: true } } },
       }),
       prisma.smtpConfig.findUnique({
         where: { id: smtpConfigId, userId: session.user.id },
@@ -127,15 +234,66 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "SMTP configuration not found" }, { status: 404 });
     }
     
+    // The primary config may appear in the pool only to carry its weight
+    const primaryWeight = smtpPool.find(entry => entry.smtpConfigId === smtpConfigId)?.weight ?? 1;
+    smtpPool = smtpPool.filter(entry => entry.smtpConfigId !== smtpConfigId);
+    
+    if (smtpPool.length > 0) {
+      const ownedCount = await prisma.smtpConfig.count({
+        where: {
+          id: { in: smtpPool.map(entry => entry.smtpConfigId) },
+          userId: session.user.id,
+        },
+      });
+      
+      if (ownedCount !== new Set(smtpPool.map(entry => entry.smtpConfigId)).size) {
+        return NextResponse.json({ error: "SMTP configuration not found" }, { status: 404 });
+      }
+    }
+    
+    const variantTemplateIds = new Set(
+      (abTest?.variants ?? []).map(variant => variant.templateId).filter((id): id is string => id !== null)
+    );
+    
+    if (variantTemplateIds.size > 0) {
+      const ownedTemplates = await prisma.emailTemplate.count({
+        where: { id: { in: [...variantTemplateIds] }, userId: session.user.id },
+      });
+      
+      if (ownedTemplates !== variantTemplateIds.size) {
+        return NextResponse.json({ error: "Email template not found" }, { status: 404 });
+      }
+    }
+    
+    if (attachmentIds.length > 0) {
+      const ownedAttachments = await prisma.attachment.count({
+        where: { id: { in: attachmentIds }, userId: session.user.id },
+      });
+      
+      if (ownedAttachments !== new Set(attachmentIds).size) {
+        return NextResponse.json({ error: "Attachment not found" }, { status: 404 });
+      }
+    }
+    
+    // The campaign keeps its own copy of the list, so later template edits don't change it
+    const campaignAttachmentIds = [...new Set([
+      ...template.attachments.map(link => link.attachmentId),
+      ...attachmentIds,
+    ])];
+    
     // Prepare scheduling data
     let scheduledDate: Date | null = null;
+    let scheduledTimezone: string | null = null;
     if (isScheduled && scheduledForStr) {
-      scheduledDate = new Date(scheduledForStr);
+      // A wall-clock time in the sender's timezone, not the server's
+      const schedule = parseCampaignSchedule(scheduledForStr, scheduledTimezoneStr);
       
-      // Validate scheduled date is in the future
-      if (scheduledDate <= new Date()) {
-        return NextResponse.json({ error: "Scheduled time must be in the future" }, { status: 400 });
+      if (schedule.error) {
+        return NextResponse.json({ error: schedule.error }, { status: 400 });
       }
+      
+      scheduledDate = schedule.scheduledFor;
+      scheduledTimezone = schedule.timezone;
     }
     
     // Create the campaign with appropriate status
@@ -151,11 +309,54 @@ export async function POST(request: NextRequest) {
         templateId,
         smtpConfigId,
         parameterValues: paramValues as Prisma.JsonObject,
+        ...toMessageOptionData(messageOptions),
         userId: session.user.id,
         batchSize,
+        sendingProfile,
+        messageDelayMs,
+        maxPerMinute,
+        concurrency,
+        smtpRoutingPolicy,
+        ...(abTest ? {
+          abTestStatus: 'testing',
+          abTestMetric: abTest.metric,
+          abTestSamplePercent: abTest.samplePercent,
+          abTestWaitMinutes: abTest.waitMinutes,
+          variants: {
+            create: abTest.variants.map((variant, index) => ({
+              name: String.fromCharCode(65 + index),
+              subject: variant.subject,
+              templateId: variant.templateId,
+            })),
+          },
+        } : {}),
+        // Primary config first, then the pool in the order it was picked
+        ...(smtpRoutingPolicy !== 'pinned' ? {
+          smtpPool: {
+            createMany: {
+              data: [
+                { smtpConfigId, position: 0, weight: primaryWeight },
+                ...smtpPool.map((entry, index) => ({
+                  smtpConfigId: entry.smtpConfigId,
+                  position: index + 1,
+                  weight: entry.weight,
+                })),
+              ],
+              skipDuplicates: true,
+            },
+          },
+        } : {}),
+        ...(campaignAttachmentIds.length > 0 ? {
+          attachments: {
+            createMany: {
+              data: campaignAttachmentIds.map(attachmentId => ({ attachmentId })),
+            },
+          },
+        } : {}),
         // Add scheduling data
         isScheduled: isScheduled,
         scheduledFor: scheduledDate,
+        scheduledTimezone,
         // Set startedAt if processing immediately
         startedAt: sendImmediately && !isScheduled ? new Date() : null,
         // Link to target groups if provided
@@ -173,12 +374,7 @@ export async function POST(request: NextRequest) {
     console.log(`Is scheduled: ${isScheduled}, Send immediately: ${sendImmediately}`);
     
     // Process recipients based on source
-    let allRecipients: Array<{
-      email: string;
-      name: string | null;
-      metadata: Record<string, unknown>;
-      contactId: string | null;
-    }> = [];
+    let allRecipients: CampaignRecipientInput[] = [];
     
     // 1. Process file recipients if provided
     if (recipientSource === 'file' && recipientFile) {
@@ -246,43 +442,17 @@ export async function POST(request: NextRequest) {
     if (recipientSource === 'groups' && groupIds.length > 0) {
       console.log(`Processing contacts from ${groupIds.length} groups`);
       
-      const groupContacts = await prisma.contact.findMany({
-        where: {
-          userId: session.user.id,
-          groups: {
-            some: {
-              groupId: {
-                in: groupIds,
-              },
-            },
-          },
-        },
-        select: {
-          id: true,
-          email: true,
-          name: true,
-          metadata: true,
-        },
-      });
+      const groupRecipients = await getGroupRecipients(session.user.id, groupIds);
       
-      if (groupContacts.length === 0) {
+      if (groupRecipients.length === 0) {
         return NextResponse.json({ 
           error: "Selected contact groups contain no contacts" 
         }, { status: 400 });
       }
       
-      console.log(`Found ${groupContacts.length} contacts in selected groups`);
+      console.log(`Found ${groupRecipients.length} contacts in selected groups`);
       
-      // Map group contacts to the right format
-      allRecipients = [
-        ...allRecipients,
-        ...groupContacts.map(contact => ({
-          email: contact.email,
-          name: contact.name,
-          metadata: contact.metadata as Record<string, unknown> || {},
-          contactId: contact.id,
-        }))
-      ];
+      allRecipients = [...allRecipients, ...groupRecipients];
     }
     
     // Ensure we have recipients
@@ -292,44 +462,21 @@ export async function POST(request: NextRequest) {
       }, { status: 400 });
     }
     
-    // Deduplicate recipients by email
-    const uniqueEmails = new Set<string>();
-    const uniqueRecipients = allRecipients.filter(recipient => {
-      const email = recipient.email.toLowerCase();
-      if (uniqueEmails.has(email)) {
-        return false;
-      }
-      uniqueEmails.add(email);
-      return true;
-    });
-    
-    console.log(`Total unique recipients: ${uniqueRecipients.length}`);
-    
-    // Update campaign with recipient count
-    await prisma.campaign.update({
-      where: { id: campaign.id },
-      data: {
-        recipientCount: uniqueRecipients.length,
-      },
-    });
-    
-    // Create recipients in batches to avoid timeout
-    const creationBatchSize = 500; // Different from email sending batch size
-    for (let i = 0; i < uniqueRecipients.length; i += creationBatchSize) {
-      const batch = uniqueRecipients.slice(i, i + creationBatchSize);
-      
-      console.log(`Creating batch of ${batch.length} recipients (${i+1}-${i+batch.length} of ${uniqueRecipients.length})`);
-      
-      await prisma.recipient.createMany({
-        data: batch.map(recipient => ({
-          email: recipient.email,
-          name: recipient.name,
-          metadata: recipient.metadata as Prisma.JsonObject,
-          contactId: recipient.contactId,
-          campaignId: campaign.id,
-          status: 'pending',
-        })),
+    // Suppressed addresses are kept on the campaign but never sent
+    const { total: totalRecipients, suppressed: suppressedRecipients } = await addCampaignRecipients(
+      campaign.id,
+      session.user.id,
+      allRecipients
+    );
+    
+    if (abTest) {
+      const variants = await prisma.campaignVariant.findMany({
+        where: { campaignId: campaign.id },
+        orderBy: { name: 'asc' },
+        select: { id: true },
       });
+      const sampleSize = await assignTestVariants(campaign.id, variants.map(variant => variant.id), abTest.samplePercent);
+      console.log(`A/B test sample: ${sampleSize} recipients across ${variants.length} variants`);
     }
     
     // Start campaign processing if needed
@@ -342,11 +489,12 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({
       success: true,
       campaign: campaign.id,
-      totalRecipients: uniqueRecipients.length,
+      totalRecipients,
+      suppressedRecipients,
       message: sendImmediately && !isScheduled ? 
         "Campaign created and processing started" : 
         isScheduled ? 
-          `Campaign created and scheduled for ${scheduledDate?.toLocaleString()}` :
+          `Campaign created and scheduled for ${formatDateTimeInZone(scheduledDate, scheduledTimezone ?? 'UTC')}` :
           "Campaign created successfully",
     });
   } catch (error) {
@@ -3,6 +3,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth/next';
 import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/db';
+import { startCampaignProcessing } from '@/lib/queue';
 
 export async function POST(
   request: NextRequest,
@@ -37,6 +38,14 @@ export async function POST(
       );
     }
     
+    // Paused campaigns go through resume, cancelled ones never run again
+    if (campaign.status === 'paused' || campaign.status === 'cancelled') {
+      return NextResponse.json(
+        { error: `Cannot run campaign with status '${campaign.status}'` },
+        { status: 400 }
+      );
+    }
+    
     // Proses kampanye sekarang
     // Contoh: Update status campaign menjadi 'processing'
     await prisma.campaign.update({
@@ -47,8 +56,8 @@ export async function POST(
       },
     });
     
-    // Anda mungkin ingin memanggil webhook atau fungsi lain untuk memproses email
-    // Misalnya: await processNextEmail(id);
+    // Queue the send job so a worker picks the campaign up
+    await startCampaignProcessing(id);
     
     return NextResponse.json({ success: true });
   } catch (error) {
@@ -1,10 +1,21 @@
-// app/api/email/schedule/[id]/route.ts
+// app/api/email/scheduled/[id]/route.ts
 import { NextRequest, NextResponse } from "next/server";
 import { getServerSession } from "next-auth/next";
 import { authOptions } from "@/lib/auth";
 import { prisma } from "@/lib/db";
 import { startCampaignProcessing } from "@/lib/queue";
+import { parseCampaignSchedule } from "@/lib/campaign-schedule";
+import { formatDateTimeInZone } from "@/lib/utils";
 
+// Only campaigns that haven't started can be rescheduled
+const SCHEDULABLE_STATUSES = ['draft', 'queued'];
+
+/**
+ * Reschedule a draft or queued campaign, or take it off the schedule
+ * `scheduledFor` is a wall-clock "YYYY-MM-DDTHH:mm" in the IANA `timezone`, or an ISO timestamp
+ * with an offset. Without `isScheduled` the campaign goes back to draft, or starts right away
+ * with `sendImmediately`.
+ */
 export async function PUT(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -23,7 +34,7 @@ export async function PUT(
     }
     
     const data = await request.json();
-    const { isScheduled, scheduledFor, sendImmediately } = data;
+    const { isScheduled, sendImmediately } = data;
     
     // Verify campaign belongs to user
     const campaign = await prisma.campaign.findFirst({
@@ -40,8 +51,7 @@ export async function PUT(
       });
     }
     
-    // Only allow updating schedule for draft, queued campaigns or already scheduled ones
-    if (!['draft', 'queued'].includes(campaign.status) && !campaign.isScheduled) {
+    if (!SCHEDULABLE_STATUSES.includes(campaign.status)) {
       return NextResponse.json({
         error: "Cannot update schedule for campaigns that are already processing or completed"
       }, { 
@@ -50,81 +60,77 @@ export async function PUT(
       });
     }
     
-    // Validate scheduled time if scheduling
-    if (isScheduled && scheduledFor) {
-      const scheduledTime = new Date(scheduledFor);
-      const now = new Date();
+    if (isScheduled) {
+      const schedule = parseCampaignSchedule(data.scheduledFor, data.timezone);
       
-      if (scheduledTime <= now) {
-        return NextResponse.json({
-          error: "Scheduled time must be in the future"
-        }, { 
+      if (schedule.error || !schedule.scheduledFor) {
+        return NextResponse.json({ error: schedule.error }, { 
           status: 400,
           headers: { 'Content-Type': 'application/json' }
         });
       }
-    }
-    
-    // Create update data object with proper typing
-    interface UpdateData {
-      isScheduled: boolean;
-      scheduledFor: Date | null;
-      status?: string;
-    }
-    
-    // Prepare update data
-    const updateData: UpdateData = {
-      isScheduled,
-      scheduledFor: isScheduled ? new Date(scheduledFor) : null,
-    };
-    
-    // If scheduling, set status to queued
-    if (isScheduled) {
-      updateData.status = 'queued';
-    }
-    
-    // Update campaign
-    await prisma.campaign.update({
-      where: { id: campaignId },
-      data: updateData,
-    });
-    
-    // Handle immediate sending
-    if (!isScheduled && sendImmediately) {
-      // Update status to processing
-      await prisma.campaign.update({
-        where: { id: campaignId },
+      
+      // Conditional so a campaign the scheduler starts in the meantime isn't sent back to queued
+      const { count } = await prisma.campaign.updateMany({
+        where: { id: campaignId, status: { in: SCHEDULABLE_STATUSES } },
         data: {
-          status: 'processing',
-          startedAt: new Date(),
+          isScheduled: true,
+          scheduledFor: schedule.scheduledFor,
+          scheduledTimezone: schedule.timezone,
+          status: 'queued',
         },
       });
       
-      // Start processing
-      await startCampaignProcessing(campaignId);
+      if (count === 0) {
+        return NextResponse.json({ error: "Campaign has already started" }, { 
+          status: 409,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+      
+      return NextResponse.json({
+        success: true,
+        message: `Campaign scheduled for ${formatDateTimeInZone(schedule.scheduledFor, schedule.timezone ?? 'UTC')}`,
+        scheduledFor: schedule.scheduledFor.toISOString(),
+        timezone: schedule.timezone,
+      }, { 
+        headers: { 'Content-Type': 'application/json' }
+      });
     }
     
-    // Create response message based on conditions
-    let responseMessage: string;
+    const { count } = await prisma.campaign.updateMany({
+      where: { id: campaignId, status: { in: SCHEDULABLE_STATUSES } },
+      data: {
+        isScheduled: false,
+        scheduledFor: null,
+        scheduledTimezone: null,
+        status: sendImmediately ? 'processing' : 'draft',
+        ...(sendImmediately ? { startedAt: new Date() } : {}),
+      },
+    });
     
-    if (isScheduled) {
-      responseMessage = `Campaign scheduled for ${new Date(scheduledFor).toLocaleString()}`;
-    } else if (sendImmediately) {
-      responseMessage = "Campaign processing started";
-    } else {
-      responseMessage = "Campaign saved as draft";
+    if (count === 0) {
+      return NextResponse.json({ error: "Campaign has already started" }, { 
+        status: 409,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+    
+    // Handle immediate sending
+    if (sendImmediately) {
+      await startCampaignProcessing(campaignId);
     }
     
     return NextResponse.json({
       success: true,
-      message: responseMessage,
-    }, {
+      message: sendImmediately ? "Campaign processing started" : "Campaign saved as draft",
+    }, { 
       headers: { 'Content-Type': 'application/json' }
     });
   } catch (error) {
     console.error("Error updating campaign schedule:", error);
-    return NextResponse.json({ 
-      error: error instanceof Error ? error.message : "Failed to update campaign schedule" 
+    return NextResponse.json({
+      error: error instanceof Error ? error.message : "Failed to update campaign schedule"
     }, { 
       status: 500,
       headers: { 'Content-Type': 'application/json' }
@@ -132,6 +138,57 @@ export async function PUT(
   }
 }
 
+/**
+ * Take a queued campaign off the schedule; it goes back to draft
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  try {
+    const { id: campaignId } = await params;
+    
+    const session = await getServerSession(authOptions);
+    
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    
+    const campaign = await prisma.campaign.findFirst({
+      where: {
+        id: campaignId,
+        userId: session.user.id,
+      },
+      select: { id: true },
+    });
+    
+    if (!campaign) {
+      return NextResponse.json({ error: "Campaign not found" }, { status: 404 });
+    }
+    
+    const { count } = await prisma.campaign.updateMany({
+      where: { id: campaignId, status: { in: SCHEDULABLE_STATUSES } },
+      data: {
+        isScheduled: false,
+        scheduledFor: null,
+        scheduledTimezone: null,
+        status: 'draft',
+      },
+    });
+    
+    if (count === 0) {
+      return NextResponse.json({ error: "Campaign has already started" }, { status: 409 });
+    }
+    
+    return NextResponse.json({ success: true, message: "Campaign unscheduled and saved as draft" });
+  } catch (error) {
+    console.error("Error unscheduling campaign:", error);
+    return NextResponse.json({
+      error: error instanceof Error ? error.message : "Failed to unschedule campaign"
+    }, { status: 500 });
+  }
+}
+
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -161,6 +218,7 @@ export async function GET(
         status: true,
         isScheduled: true,
         scheduledFor: true,
+        scheduledTimezone: true,
       },
     });
     
@@ -177,16 +235,17 @@ export async function GET(
       status: campaign.status,
       isScheduled: campaign.isScheduled,
       scheduledFor: campaign.scheduledFor,
-    }, {
+      timezone: campaign.scheduledTimezone,
+    }, { 
       headers: { 'Content-Type': 'application/json' }
     });
   } catch (error) {
     console.error("Error fetching campaign schedule:", error);
-    return NextResponse.json({ 
-      error: error instanceof Error ? error.message : "Failed to fetch campaign schedule" 
+    return NextResponse.json({
+      error: error instanceof Error ? error.message : "Failed to fetch campaign schedule"
     }, { 
       status: 500,
       headers: { 'Content-Type': 'application/json' }
     });
   }
-}
\ No newline at end of file
+}
@@ -40,6 +40,7 @@ export async function GET() {
       status: campaign.status,
       recipientCount: campaign.recipientCount,
       scheduledFor: campaign.scheduledFor ? campaign.scheduledFor.toISOString() : null,
+      scheduledTimezone: campaign.scheduledTimezone,
       template: {
         name: campaign.template.name,
       },
@@ -3,6 +3,7 @@ import {  NextResponse } from "next/server";
 import { getServerSession } from "next-auth/next";
 import { prisma } from "@/lib/db";
 import { authOptions } from "@/lib/auth";
+import { stalledCampaignWhere } from "@/lib/scheduler";
 
 export async function GET() {
   const session = await getServerSession(authOptions);
@@ -16,10 +17,7 @@ export async function GET() {
     const stalledCampaigns = await prisma.campaign.findMany({
       where: {
         userId: session.user.id,
-        status: 'processing',
-        lastProcessedAt: {
-          lt: new Date(Date.now() - 5 * 60 * 1000), // 5 minutes ago
-        },
+        ...stalledCampaignWhere(5 * 60 * 1000),
       },
       include: {
         template: {
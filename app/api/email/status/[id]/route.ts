@@ -3,6 +3,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { getServerSession } from "next-auth/next";
 import { authOptions } from "@/lib/auth";
 import { prisma } from "@/lib/db";
+import { stalledCampaignWhere } from "@/lib/scheduler";
 
 export async function GET(
   request: NextRequest,
@@ -34,6 +35,10 @@ export async function GET(
         processedCount: true,
         successCount: true,
         failCount: true,
+        skippedCount: true,
+        deliveredCount: true,
+        bounceCount: true,
+        complaintCount: true,
         openCount: true,
         clickCount: true,
         startedAt: true,
@@ -63,6 +68,7 @@ export async function GET(
       select: {
         email: true,
         errorMessage: true,
+        failureCategory: true,
         updatedAt: true,
       },
       orderBy: {
@@ -71,10 +77,10 @@ export async function GET(
       take: 5,
     });
     
-    // Check if campaign is stalled (no activity for more than 5 minutes)
-    const isStalled = campaign.status === 'processing' && 
-                     campaign.lastProcessedAt && 
-                     (new Date().getTime() - new Date(campaign.lastProcessedAt).getTime() > 5 * 60 * 1000);
+    // Check if campaign is stalled (no activity for more than 5 minutes, and not waiting on purpose)
+    const isStalled = campaign.status === 'processing' && await prisma.campaign.count({
+      where: { id: campaignId, ...stalledCampaignWhere(5 * 60 * 1000) },
+    }) > 0;
     
     // Check for stuck campaigns - in processing state but no activity for a long time
     if (isStalled && process.env.NODE_ENV === 'development') {
@@ -87,7 +93,7 @@ export async function GET(
       isStalled,
       recentErrors,
       inProgress: campaign.status === 'processing' || campaign.status === 'queued',
-      isComplete: ['sent', 'failed', 'partial'].includes(campaign.status),
+      isComplete: ['sent', 'failed', 'partial', 'cancelled'].includes(campaign.status),
     });
   } catch (error) {
     console.error("Error fetching campaign status:", error);
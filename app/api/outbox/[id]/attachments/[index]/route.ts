@@ -0,0 +1,48 @@
+// app/api/outbox/[id]/attachments/[index]/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { prisma } from "@/lib/db";
+import { authOptions } from "@/lib/auth";
+import { CapturedAttachment } from "@/lib/capture-transport";
+
+/**
+ * Download one attachment of a captured email
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; index: string }> }
+) {
+  const session = await getServerSession(authOptions);
+  
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  
+  const { id, index } = await params;
+  
+  try {
+    const email = await prisma.capturedEmail.findFirst({
+      where: {
+        id,
+        userId: session.user.id,
+      },
+      select: { attachments: true },
+    });
+    
+    const attachment = (email?.attachments as unknown as CapturedAttachment[] | undefined)?.[Number(index)];
+    
+    if (!attachment) {
+      return NextResponse.json({ error: "Attachment not found" }, { status: 404 });
+    }
+    
+    return new NextResponse(Buffer.from(attachment.content, 'base64'), {
+      headers: {
+        'Content-Type': attachment.contentType || 'application/octet-stream',
+        'Content-Disposition': `attachment; filename*=UTF-8''${encodeURIComponent(attachment.filename)}`,
+      },
+    });
+  } catch (error) {
+    console.error("Error downloading captured attachment:", error);
+    return NextResponse.json({ error: "Failed to download attachment" }, { status: 500 });
+  }
+}
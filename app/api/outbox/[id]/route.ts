@@ -0,0 +1,80 @@
+// app/api/outbox/[id]/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { prisma } from "@/lib/db";
+import { authOptions } from "@/lib/auth";
+import { CapturedAttachment, getCampaignsByMessageId } from "@/lib/capture-transport";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await getServerSession(authOptions);
+  
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  
+  const { id } = await params;
+  
+  try {
+    const email = await prisma.capturedEmail.findFirst({
+      where: {
+        id,
+        userId: session.user.id,
+      },
+      include: {
+        smtpConfig: { select: { id: true, name: true } },
+      },
+    });
+    
+    if (!email) {
+      return NextResponse.json({ error: "Captured email not found" }, { status: 404 });
+    }
+    
+    const campaigns = await getCampaignsByMessageId([email.messageId]);
+    const attachments = email.attachments as unknown as CapturedAttachment[];
+    
+    return NextResponse.json({
+      ...email,
+      // File contents are downloaded one at a time
+      attachments: attachments.map(({ filename, contentType, size }) => ({ filename, contentType, size })),
+      campaign: campaigns.get(email.messageId) ?? null,
+      createdAt: email.createdAt.toISOString(),
+    });
+  } catch (error) {
+    console.error("Error fetching captured email:", error);
+    return NextResponse.json({ error: "Failed to fetch captured email" }, { status: 500 });
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await getServerSession(authOptions);
+  
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  
+  const { id } = await params;
+  
+  try {
+    const { count } = await prisma.capturedEmail.deleteMany({
+      where: {
+        id,
+        userId: session.user.id,
+      },
+    });
+    
+    if (count === 0) {
+      return NextResponse.json({ error: "Captured email not found" }, { status: 404 });
+    }
+    
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting captured email:", error);
+    return NextResponse.json({ error: "Failed to delete captured email" }, { status: 500 });
+  }
+}
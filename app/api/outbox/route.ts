@@ -0,0 +1,102 @@
+// app/api/outbox/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { prisma } from "@/lib/db";
+import { authOptions } from "@/lib/auth";
+import { Prisma } from "@prisma/client";
+import { getCampaignsByMessageId, isCaptureForced } from "@/lib/capture-transport";
+
+export async function GET(request: NextRequest) {
+  const session = await getServerSession(authOptions);
+  
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  
+  // Get query parameters
+  const url = new URL(request.url);
+  const search = url.searchParams.get('search')?.trim();
+  const smtpConfigId = url.searchParams.get('smtpConfigId');
+  const page = parseInt(url.searchParams.get('page') ?? '1');
+  const limit = parseInt(url.searchParams.get('limit') ?? '20');
+  
+  const where: Prisma.CapturedEmailWhereInput = {
+    userId: session.user.id,
+  };
+  
+  if (search) {
+    where.OR = [
+      { toAddress: { contains: search, mode: 'insensitive' } },
+      { fromAddress: { contains: search, mode: 'insensitive' } },
+      { subject: { contains: search, mode: 'insensitive' } },
+    ];
+  }
+  
+  if (smtpConfigId) {
+    where.smtpConfigId = smtpConfigId;
+  }
+  
+  try {
+    const [emails, total] = await Promise.all([
+      prisma.capturedEmail.findMany({
+        where,
+        // Bodies and attachments are only loaded for the preview
+        select: {
+          id: true,
+          messageId: true,
+          fromAddress: true,
+          toAddress: true,
+          subject: true,
+          createdAt: true,
+          smtpConfig: { select: { id: true, name: true } },
+        },
+        skip: (page - 1) * limit,
+        take: limit,
+        orderBy: { createdAt: 'desc' },
+      }),
+      prisma.capturedEmail.count({ where }),
+    ]);
+    
+    const campaigns = await getCampaignsByMessageId(emails.map(email => email.messageId));
+    
+    return NextResponse.json({
+      emails: emails.map(email => ({
+        ...email,
+        campaign: campaigns.get(email.messageId) ?? null,
+        createdAt: email.createdAt.toISOString(),
+      })),
+      captureForced: isCaptureForced(),
+      pagination: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching captured emails:", error);
+    return NextResponse.json({ error: "Failed to fetch captured emails" }, { status: 500 });
+  }
+}
+
+/**
+ * Empty the outbox
+ */
+export async function DELETE() {
+  const session = await getServerSession(authOptions);
+  
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  
+  try {
+    const { count } = await prisma.capturedEmail.deleteMany({
+      where: { userId: session.user.id },
+    });
+    
+    return NextResponse.json({ success: true, deleted: count });
+  } catch (error) {
+    console.error("Error clearing outbox:", error);
+    return NextResponse.json({ error: "Failed to clear outbox" }, { status: 500 });
+  }
+}
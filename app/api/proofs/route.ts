@@ -0,0 +1,174 @@
+// app/api/proofs/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { prisma } from "@/lib/db";
+import { authOptions } from "@/lib/auth";
+import { MAX_PROOF_CONTACTS, sendCampaignProof } from "@/lib/proof";
+import { MessageOptions, parseMessageOptions, pickMessageOptions } from "@/lib/message-options";
+import { describeSendingHalt, getSendingHalt } from "@/lib/sending-halt";
+
+/**
+ * Recent proof sends, optionally for one template or campaign
+ */
+export async function GET(request: NextRequest) {
+  const session = await getServerSession(authOptions);
+  
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  
+  const url = new URL(request.url);
+  const templateId = url.searchParams.get('templateId');
+  const campaignId = url.searchParams.get('campaignId');
+  
+  const proofSends = await prisma.proofSend.findMany({
+    where: {
+      userId: session.user.id,
+      ...(templateId ? { templateId } : {}),
+      ...(campaignId ? { campaignId } : {}),
+    },
+    include: {
+      smtpConfig: { select: { name: true } },
+    },
+    orderBy: { createdAt: 'desc' },
+    take: 20,
+  });
+  
+  return NextResponse.json(proofSends);
+}
+
+/**
+ * Send a proof to the seed list
+ * Takes either an existing `campaignId`, or the `templateId` and `smtpConfigId` of a campaign being set up
+ */
+export async function POST(request: NextRequest) {
+  const session = await getServerSession(authOptions);
+  
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  
+  try {
+    const body = await request.json();
+    const userId = session.user.id;
+    
+    const halt = await getSendingHalt(userId);
+    if (halt) {
+      return NextResponse.json({ error: describeSendingHalt(halt) }, { status: 409 });
+    }
+    
+    let templateId: string | null = typeof body.templateId === 'string' ? body.templateId : null;
+    let smtpConfigId: string | null = typeof body.smtpConfigId === 'string' ? body.smtpConfigId : null;
+    let parameterValues: unknown = body.parameterValues ?? null;
+    
+    // Overrides from the campaign form, applied over the template's message options
+    const parsedOptions = parseMessageOptions(body.messageOptions);
+    if (parsedOptions.error) {
+      return NextResponse.json({ error: parsedOptions.error }, { status: 400 });
+    }
+    let messageOptions: MessageOptions = parsedOptions.options;
+    
+    // Proofs of an existing campaign go out exactly as the campaign would
+    if (body.campaignId) {
+      const campaign = await prisma.campaign.findFirst({
+        where: { id: body.campaignId, userId },
+        select: {
+          templateId: true,
+          smtpConfigId: true,
+          parameterValues: true,
+          replyTo: true,
+          cc: true,
+          bcc: true,
+          preheader: true,
+          listId: true,
+          customHeaders: true,
+        },
+      });
+      
+      if (!campaign) {
+        return NextResponse.json({ error: "Campaign not found" }, { status: 404 });
+      }
+      
+      templateId = campaign.templateId;
+      smtpConfigId = campaign.smtpConfigId;
+      parameterValues = campaign.parameterValues;
+      messageOptions = pickMessageOptions(campaign);
+    }
+    
+    if (!templateId || !smtpConfigId) {
+      return NextResponse.json({ error: "Template and SMTP configuration are required" }, { status: 400 });
+    }
+    
+    const [template, smtpConfig] = await Promise.all([
+      prisma.emailTemplate.findFirst({ where: { id: templateId, userId } }),
+      prisma.smtpConfig.findFirst({ where: { id: smtpConfigId, userId } }),
+    ]);
+    
+    if (!template) {
+      return NextResponse.json({ error: "Template not found" }, { status: 404 });
+    }
+    
+    if (!smtpConfig) {
+      return NextResponse.json({ error: "SMTP configuration not found" }, { status: 404 });
+    }
+    
+    const contactIds: string[] = Array.isArray(body.contactIds)
+      ? body.contactIds.filter((id: unknown): id is string => typeof id === 'string')
+      : [];
+    
+    if (contactIds.length > MAX_PROOF_CONTACTS) {
+      return NextResponse.json({ 
+        error: `Select at most ${MAX_PROOF_CONTACTS} contacts for a proof` 
+      }, { status: 400 });
+    }
+    
+    const seedAddressIds: string[] | null = Array.isArray(body.seedAddressIds)
+      ? body.seedAddressIds.filter((id: unknown): id is string => typeof id === 'string')
+      : null;
+    
+    const [contacts, seeds] = await Promise.all([
+      prisma.contact.findMany({
+        where: { id: { in: contactIds }, userId },
+        select: { email: true, name: true, metadata: true },
+      }),
+      // Defaults to the whole seed list
+      prisma.seedAddress.findMany({
+        where: {
+          userId,
+          ...(seedAddressIds ? { id: { in: seedAddressIds } } : {}),
+        },
+        orderBy: { createdAt: 'asc' },
+      }),
+    ]);
+    
+    if (seeds.length === 0) {
+      return NextResponse.json({ error: "Add at least one reviewer to the seed list" }, { status: 400 });
+    }
+    
+    const results = await sendCampaignProof({
+      userId,
+      template,
+      smtpConfig,
+      campaignId: body.campaignId ?? null,
+      parameterValues,
+      messageOptions,
+      subject: typeof body.subject === 'string' ? body.subject.trim() : null,
+      contacts,
+      seeds,
+    });
+    
+    const failed = results.filter(result => result.status === 'failed');
+    
+    return NextResponse.json({
+      success: failed.length === 0,
+      sent: results.length - failed.length,
+      failed: failed.length,
+      results,
+    });
+  } catch (error) {
+    console.error("Error sending proof:", error);
+    return NextResponse.json({ 
+      error: error instanceof Error ? error.message : "Failed to send proof" 
+    }, { status: 500 });
+  }
+}
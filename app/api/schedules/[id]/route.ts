@@ -0,0 +1,90 @@
+// app/api/schedules/[id]/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { prisma } from "@/lib/db";
+import { authOptions } from "@/lib/auth";
+import { getScheduleNextRunAt } from "@/lib/campaign-schedule";
+
+/**
+ * Pause or resume a schedule
+ * Resuming picks up at the next occurrence from now; missed ones are not sent
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await getServerSession(authOptions);
+  
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  
+  try {
+    const { id } = await params;
+    const body = await request.json();
+    
+    if (typeof body.isActive !== 'boolean') {
+      return NextResponse.json({ error: "isActive must be true or false" }, { status: 400 });
+    }
+    
+    const schedule = await prisma.campaignSchedule.findUnique({
+      where: { id, userId: session.user.id },
+    });
+    
+    if (!schedule) {
+      return NextResponse.json({ error: "Schedule not found" }, { status: 404 });
+    }
+    
+    const updated = await prisma.campaignSchedule.update({
+      where: { id },
+      data: {
+        isActive: body.isActive,
+        nextRunAt: body.isActive ? getScheduleNextRunAt(schedule, new Date()) : schedule.nextRunAt,
+      },
+    });
+    
+    return NextResponse.json({
+      success: true,
+      isActive: updated.isActive,
+      nextRunAt: updated.nextRunAt?.toISOString() ?? null,
+    });
+  } catch (error) {
+    console.error("Error updating schedule:", error);
+    return NextResponse.json({ 
+      error: error instanceof Error ? error.message : "Failed to update schedule" 
+    }, { status: 500 });
+  }
+}
+
+/**
+ * Delete a schedule; campaigns it already spawned are kept
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await getServerSession(authOptions);
+  
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  
+  try {
+    const { id } = await params;
+    
+    const { count } = await prisma.campaignSchedule.deleteMany({
+      where: { id, userId: session.user.id },
+    });
+    
+    if (count === 0) {
+      return NextResponse.json({ error: "Schedule not found" }, { status: 404 });
+    }
+    
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting schedule:", error);
+    return NextResponse.json({ 
+      error: error instanceof Error ? error.message : "Failed to delete schedule" 
+    }, { status: 500 });
+  }
+}
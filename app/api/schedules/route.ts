@@ -0,0 +1,192 @@
+// app/api/schedules/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { prisma } from "@/lib/db";
+import { authOptions } from "@/lib/auth";
+import { Prisma } from "@prisma/client";
+import { isValidTimezone, parseCronExpression } from "@/lib/cron";
+import { getScheduleNextRunAt } from "@/lib/campaign-schedule";
+import { DEFAULT_SENDING_PROFILE, isSendingProfileName } from "@/lib/sending-profile";
+
+// Runs shown per schedule in the history
+const RUN_HISTORY_LIMIT = 10;
+
+export async function GET() {
+  const session = await getServerSession(authOptions);
+  
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  
+  try {
+    const schedules = await prisma.campaignSchedule.findMany({
+      where: { userId: session.user.id },
+      include: {
+        template: { select: { name: true } },
+        targetGroups: {
+          include: {
+            group: { select: { id: true, name: true } },
+          },
+        },
+        campaigns: {
+          select: {
+            id: true,
+            name: true,
+            status: true,
+            scheduledRunAt: true,
+            recipientCount: true,
+            successCount: true,
+            failCount: true,
+            skippedCount: true,
+          },
+          orderBy: { scheduledRunAt: 'desc' },
+          take: RUN_HISTORY_LIMIT,
+        },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+    
+    return NextResponse.json(schedules.map(schedule => ({
+      id: schedule.id,
+      name: schedule.name,
+      cronExpression: schedule.cronExpression,
+      timezone: schedule.timezone,
+      startDate: schedule.startDate?.toISOString() ?? null,
+      endDate: schedule.endDate?.toISOString() ?? null,
+      isActive: schedule.isActive,
+      nextRunAt: schedule.nextRunAt?.toISOString() ?? null,
+      lastRunAt: schedule.lastRunAt?.toISOString() ?? null,
+      lastError: schedule.lastError,
+      sendingProfile: schedule.sendingProfile,
+      template: schedule.template,
+      groups: schedule.targetGroups.map(target => target.group),
+      runs: schedule.campaigns.map(campaign => ({
+        ...campaign,
+        scheduledRunAt: campaign.scheduledRunAt?.toISOString() ?? null,
+      })),
+    })));
+  } catch (error) {
+    console.error("Error fetching schedules:", error);
+    return NextResponse.json({ 
+      error: error instanceof Error ? error.message : "Failed to fetch schedules" 
+    }, { status: 500 });
+  }
+}
+
+/**
+ * Create a recurring schedule that spawns a campaign for its target groups at each occurrence
+ */
+export async function POST(request: NextRequest) {
+  const session = await getServerSession(authOptions);
+  
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  
+  try {
+    const body = await request.json();
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+    const cronExpression = typeof body.cronExpression === 'string' ? body.cronExpression.trim() : '';
+    const timezone = typeof body.timezone === 'string' && body.timezone ? body.timezone : 'UTC';
+    const groupIds: string[] = Array.isArray(body.groupIds)
+      ? body.groupIds.filter((groupId: unknown): groupId is string => typeof groupId === 'string')
+      : [];
+    const startDate = body.startDate ? new Date(body.startDate) : null;
+    const endDate = body.endDate ? new Date(body.endDate) : null;
+    const sendingProfile = isSendingProfileName(body.sendingProfile) && body.sendingProfile !== 'custom'
+      ? body.sendingProfile
+      : DEFAULT_SENDING_PROFILE;
+    
+    if (!name) {
+      return NextResponse.json({ error: "Schedule name is required" }, { status: 400 });
+    }
+    
+    if (!body.templateId || !body.smtpConfigId) {
+      return NextResponse.json({ error: "Email template and SMTP configuration are required" }, { status: 400 });
+    }
+    
+    if (groupIds.length === 0) {
+      return NextResponse.json({ error: "At least one contact group must be selected" }, { status: 400 });
+    }
+    
+    try {
+      parseCronExpression(cronExpression);
+    } catch (error) {
+      return NextResponse.json({ 
+        error: error instanceof Error ? error.message : "Invalid cron expression" 
+      }, { status: 400 });
+    }
+    
+    if (!isValidTimezone(timezone)) {
+      return NextResponse.json({ error: `Unknown timezone "${timezone}"` }, { status: 400 });
+    }
+    
+    if ((startDate && isNaN(startDate.getTime())) || (endDate && isNaN(endDate.getTime()))) {
+      return NextResponse.json({ error: "Invalid start or end date" }, { status: 400 });
+    }
+    
+    if (startDate && endDate && endDate <= startDate) {
+      return NextResponse.json({ error: "End date must be after the start date" }, { status: 400 });
+    }
+    
+    const [template, smtpConfig, groupCount] = await Promise.all([
+      prisma.emailTemplate.findUnique({
+        where: { id: body.templateId, userId: session.user.id },
+      }),
+      prisma.smtpConfig.findUnique({
+        where: { id: body.smtpConfigId, userId: session.user.id },
+      }),
+      prisma.contactGroup.count({
+        where: { id: { in: groupIds }, userId: session.user.id },
+      }),
+    ]);
+    
+    if (!template) {
+      return NextResponse.json({ error: "Email template not found" }, { status: 404 });
+    }
+    
+    if (!smtpConfig) {
+      return NextResponse.json({ error: "SMTP configuration not found" }, { status: 404 });
+    }
+    
+    if (groupCount !== new Set(groupIds).size) {
+      return NextResponse.json({ error: "Contact group not found" }, { status: 404 });
+    }
+    
+    const timing = { cronExpression, timezone, startDate, endDate };
+    const nextRunAt = getScheduleNextRunAt(timing, new Date());
+    
+    if (!nextRunAt) {
+      return NextResponse.json({ error: "Schedule has no upcoming occurrences" }, { status: 400 });
+    }
+    
+    const schedule = await prisma.campaignSchedule.create({
+      data: {
+        name,
+        ...timing,
+        nextRunAt,
+        templateId: template.id,
+        smtpConfigId: smtpConfig.id,
+        parameterValues: (body.paramValues ?? {}) as Prisma.JsonObject,
+        sendingProfile,
+        userId: session.user.id,
+        targetGroups: {
+          createMany: {
+            data: Array.from(new Set(groupIds)).map(groupId => ({ groupId })),
+          },
+        },
+      },
+    });
+    
+    return NextResponse.json({
+      success: true,
+      schedule: schedule.id,
+      nextRunAt: nextRunAt.toISOString(),
+    });
+  } catch (error) {
+    console.error("Error creating schedule:", error);
+    return NextResponse.json({ 
+      error: error instanceof Error ? error.message : "Failed to create schedule" 
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,38 @@
+// app/api/seed-addresses/[id]/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { prisma } from "@/lib/db";
+import { authOptions } from "@/lib/auth";
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await getServerSession(authOptions);
+  
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  
+  const { id } = await params;
+  
+  try {
+    const { count } = await prisma.seedAddress.deleteMany({
+      where: {
+        id,
+        userId: session.user.id,
+      },
+    });
+    
+    if (count === 0) {
+      return NextResponse.json({ error: "Seed address not found" }, { status: 404 });
+    }
+    
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting seed address:", error);
+    return NextResponse.json({ 
+      error: error instanceof Error ? error.message : "Failed to delete seed address" 
+    }, { status: 500 });
+  }
+}
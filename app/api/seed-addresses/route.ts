@@ -0,0 +1,67 @@
+// app/api/seed-addresses/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { prisma } from "@/lib/db";
+import { authOptions } from "@/lib/auth";
+import { isValidEmail } from "@/lib/utils";
+import { MAX_SEED_ADDRESSES } from "@/lib/proof";
+
+export async function GET() {
+  const session = await getServerSession(authOptions);
+  
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  
+  const seedAddresses = await prisma.seedAddress.findMany({
+    where: { userId: session.user.id },
+    orderBy: { createdAt: 'asc' },
+  });
+  
+  return NextResponse.json(seedAddresses);
+}
+
+export async function POST(request: NextRequest) {
+  const session = await getServerSession(authOptions);
+  
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  
+  try {
+    const body = await request.json();
+    const email = typeof body.email === 'string' ? body.email.trim().toLowerCase() : '';
+    const name = typeof body.name === 'string' && body.name.trim() ? body.name.trim() : null;
+    
+    if (!isValidEmail(email)) {
+      return NextResponse.json({ error: "Invalid email address" }, { status: 400 });
+    }
+    
+    const count = await prisma.seedAddress.count({
+      where: { userId: session.user.id },
+    });
+    
+    if (count >= MAX_SEED_ADDRESSES) {
+      return NextResponse.json({ 
+        error: `A seed list can hold at most ${MAX_SEED_ADDRESSES} addresses` 
+      }, { status: 400 });
+    }
+    
+    const seedAddress = await prisma.seedAddress.upsert({
+      where: { email_userId: { email, userId: session.user.id } },
+      create: {
+        email,
+        name,
+        userId: session.user.id,
+      },
+      update: { name },
+    });
+    
+    return NextResponse.json(seedAddress);
+  } catch (error) {
+    console.error("Error adding seed address:", error);
+    return NextResponse.json({ 
+      error: error instanceof Error ? error.message : "Failed to add seed address" 
+    }, { status: 500 });
+  }
+}
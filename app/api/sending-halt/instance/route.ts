@@ -0,0 +1,50 @@
+// app/api/sending-halt/instance/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { kickSendWorker } from "@/lib/queue";
+import { getInstanceHalt, haltInstanceSending, resumeInstanceSending } from "@/lib/sending-halt";
+
+/**
+ * Operator switch that stops sending for every user
+ * Protected by WEBHOOK_SECRET, e.g.
+ * curl -X POST -d '{"secret":"...","reason":"Provider incident"}' /api/sending-halt/instance
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { secret, reason } = await request.json();
+    
+    if (secret !== process.env.WEBHOOK_SECRET) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    
+    await haltInstanceSending(typeof reason === 'string' && reason.trim() ? reason.trim() : null);
+    
+    return NextResponse.json({ halt: await getInstanceHalt() });
+  } catch (error) {
+    console.error("Error halting instance sending:", error);
+    return NextResponse.json({ error: "Failed to stop sending" }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const { secret } = await request.json();
+    
+    if (secret !== process.env.WEBHOOK_SECRET) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    
+    await resumeInstanceSending();
+    
+    // SENDING_HALTED=true still holds everything until the deployment changes
+    const halt = await getInstanceHalt();
+    
+    if (!halt) {
+      await kickSendWorker();
+    }
+    
+    return NextResponse.json({ halt });
+  } catch (error) {
+    console.error("Error resuming instance sending:", error);
+    return NextResponse.json({ error: "Failed to resume sending" }, { status: 500 });
+  }
+}
@@ -0,0 +1,75 @@
+// app/api/sending-halt/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/lib/auth";
+import { kickSendWorker } from "@/lib/queue";
+import { getInstanceHalt, getSendingHalt, haltUserSending, resumeUserSending } from "@/lib/sending-halt";
+
+/**
+ * Whether sending is stopped for the signed-in user, and why
+ */
+export async function GET() {
+  const session = await getServerSession(authOptions);
+  
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  
+  try {
+    const halt = await getSendingHalt(session.user.id);
+    return NextResponse.json({ halt });
+  } catch (error) {
+    console.error("Error getting sending halt:", error);
+    return NextResponse.json({ error: "Failed to get sending status" }, { status: 500 });
+  }
+}
+
+/**
+ * Stop all of the user's sending; running campaigns pause after the current email
+ */
+export async function POST(request: NextRequest) {
+  const session = await getServerSession(authOptions);
+  
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  
+  try {
+    const body = await request.json().catch(() => ({}));
+    const reason = typeof body.reason === 'string' && body.reason.trim() ? body.reason.trim() : null;
+    
+    await haltUserSending(session.user.id, reason);
+    
+    const halt = await getSendingHalt(session.user.id);
+    return NextResponse.json({ halt });
+  } catch (error) {
+    console.error("Error halting sending:", error);
+    return NextResponse.json({ error: "Failed to stop sending" }, { status: 500 });
+  }
+}
+
+/**
+ * Resume the user's sending; held campaigns carry on where they stopped
+ */
+export async function DELETE() {
+  const session = await getServerSession(authOptions);
+  
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  
+  try {
+    await resumeUserSending(session.user.id);
+    
+    // Held jobs would otherwise wait for their next recheck
+    if (!(await getInstanceHalt())) {
+      await kickSendWorker();
+    }
+    
+    const halt = await getSendingHalt(session.user.id);
+    return NextResponse.json({ halt });
+  } catch (error) {
+    console.error("Error resuming sending:", error);
+    return NextResponse.json({ error: "Failed to resume sending" }, { status: 500 });
+  }
+}
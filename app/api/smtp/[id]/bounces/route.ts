@@ -0,0 +1,47 @@
+// app/api/smtp/[id]/bounces/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { prisma } from "@/lib/db";
+import { authOptions } from "@/lib/auth";
+import { processBounceMailbox } from "@/lib/bounce-processing";
+
+/**
+ * Check the bounce mailbox of an SMTP config now instead of waiting for the cron job
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await getServerSession(authOptions);
+  
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  
+  const { id } = await params;
+  
+  try {
+    const smtpConfig = await prisma.smtpConfig.findFirst({
+      where: { id, userId: session.user.id },
+    });
+    
+    if (!smtpConfig) {
+      return NextResponse.json({ error: "SMTP configuration not found" }, { status: 404 });
+    }
+    
+    if (!smtpConfig.bounceImapHost || !smtpConfig.bounceImapUsername || !smtpConfig.bounceImapPassword) {
+      return NextResponse.json({ error: "No bounce mailbox configured" }, { status: 400 });
+    }
+    
+    const result = await processBounceMailbox(smtpConfig);
+    
+    if (result.error) {
+      return NextResponse.json({ error: `Bounce mailbox check failed: ${result.error}` }, { status: 502 });
+    }
+    
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Error checking bounce mailbox:", error);
+    return NextResponse.json({ error: "Failed to check bounce mailbox" }, { status: 500 });
+  }
+}
@@ -3,6 +3,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { getServerSession } from "next-auth/next";
 import { prisma } from "@/lib/db";
 import { authOptions } from "@/lib/auth";
+import { invalidateSmtpTransport } from "@/lib/email";
 
 export async function DELETE(
   request: NextRequest,
@@ -51,6 +52,8 @@ export async function DELETE(
       },
     });
     
+    invalidateSmtpTransport(id);
+    
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error("Error deleting SMTP config:", error);
@@ -87,6 +90,9 @@ export async function GET(
         fromEmail: true,
         fromName: true,
         isDefault: true,
+        perMinute: true,
+        perHour: true,
+        maxAttachmentMb: true,
         createdAt: true,
         updatedAt: true,
       },
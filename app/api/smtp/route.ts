@@ -3,6 +3,8 @@ import { NextRequest, NextResponse } from "next/server";
 import { getServerSession } from "next-auth/next";
 import { prisma } from "@/lib/db";
 import { authOptions } from "@/lib/auth";
+import { invalidateSmtpTransport } from "@/lib/email";
+import { isTransportType, TransportType } from "@/lib/mail-transport";
 
 // Email validation function
 function validateEmail(email: string): boolean {
@@ -15,6 +17,44 @@ function sanitizeEmail(email: string): string {
   return email.replace(/[^\x00-\x7F]/g, '');
 }
 
+// Parse an optional rate limit; empty or non-positive means unlimited
+function parseRateLimit(value: unknown): number | null {
+  const limit = parseInt(String(value ?? ''), 10);
+  return Number.isNaN(limit) || limit <= 0 ? null : limit;
+}
+
+// Bounce mailbox settings; an empty host turns bounce processing off
+function parseBounceMailbox(data: Record<string, unknown>) {
+  const text = (value: unknown) => typeof value === 'string' && value.trim() ? value.trim() : null;
+  const port = parseInt(String(data.bounceImapPort ?? ''), 10);
+  
+  return {
+    bounceImapHost: text(data.bounceImapHost),
+    bounceImapPort: Number.isNaN(port) || port <= 0 ? 993 : port,
+    bounceImapSecure: data.bounceImapSecure !== false,
+    bounceImapUsername: text(data.bounceImapUsername),
+    bounceImapMailbox: text(data.bounceImapMailbox) ?? 'INBOX',
+  };
+}
+
+// Brevo API and capture configs don't connect to an SMTP server, placeholders fill the connection fields
+function parseConnection(data: Record<string, unknown>, transportType: TransportType) {
+  if (transportType === 'brevo-api') {
+    return { host: 'api.brevo.com', port: 443, secure: true, username: '' };
+  }
+  
+  if (transportType === 'capture') {
+    return { host: '', port: 0, secure: false, username: '' };
+  }
+  
+  return {
+    host: String(data.host),
+    port: parseInt(String(data.port)),
+    secure: !!data.secure,
+    username: String(data.username),
+  };
+}
+
 export async function GET() {
   const session = await getServerSession(authOptions);
   
@@ -29,6 +69,7 @@ export async function GET() {
     select: {
       id: true,
       name: true,
+      transportType: true,
       host: true,
       port: true,
       secure: true,
@@ -36,6 +77,12 @@ export async function GET() {
       fromEmail: true,
       fromName: true,
       isDefault: true,
+      perMinute: true,
+      perHour: true,
+      maxAttachmentMb: true,
+      bounceImapHost: true,
+      bounceCheckedAt: true,
+      bounceLastError: true,
       createdAt: true,
       updatedAt: true,
     },
@@ -54,8 +101,20 @@ export async function POST(request: NextRequest) {
   const data = await request.json();
   
   try {
+    const transportType = data.transportType ?? 'smtp';
+    
+    if (!isTransportType(transportType)) {
+      return NextResponse.json({ error: "Invalid transport type" }, { status: 400 });
+    }
+    
     // Basic validation
-    if (!data.name || !data.host || !data.port || !data.username || !data.password || !data.fromEmail) {
+    const missingFields = {
+      smtp: !data.host || !data.port || !data.username || !data.password,
+      'brevo-api': !data.apiKey,
+      capture: false,
+    }[transportType] || !data.name || !data.fromEmail;
+    
+    if (missingFields) {
       return NextResponse.json({ error: "Missing required fields" }, { status: 400 });
     }
     
@@ -78,14 +137,18 @@ export async function POST(request: NextRequest) {
     const smtpConfig = await prisma.smtpConfig.create({
       data: {
         name: data.name,
-        host: data.host,
-        port: parseInt(data.port),
-        secure: !!data.secure,
-        username: data.username,
-        password: data.password,
+        transportType,
+        ...parseConnection(data, transportType),
+        password: transportType === 'smtp' ? data.password : '',
+        apiKey: transportType === 'brevo-api' ? data.apiKey : null,
         fromEmail: sanitizedFromEmail,
         fromName: data.fromName || sanitizedFromEmail,
         isDefault: !!data.isDefault,
+        perMinute: parseRateLimit(data.perMinute),
+        perHour: parseRateLimit(data.perHour),
+        maxAttachmentMb: parseRateLimit(data.maxAttachmentMb),
+        ...parseBounceMailbox(data),
+        bounceImapPassword: data.bounceImapPassword || null,
         userId: session.user.id,
       },
     });
@@ -111,8 +174,17 @@ export async function PUT(request: NextRequest) {
   const data = await request.json();
   
   try {
+    const transportType = data.transportType ?? 'smtp';
+    
+    if (!isTransportType(transportType)) {
+      return NextResponse.json({ error: "Invalid transport type" }, { status: 400 });
+    }
+    
     // Basic validation
-    if (!data.id || !data.name || !data.host || !data.port || !data.username || !data.fromEmail) {
+    const missingFields = (transportType === 'smtp' && (!data.host || !data.port || !data.username))
+      || !data.id || !data.name || !data.fromEmail;
+    
+    if (missingFields) {
       return NextResponse.json({ error: "Missing required fields" }, { status: 400 });
     }
     
@@ -136,6 +208,17 @@ export async function PUT(request: NextRequest) {
       return NextResponse.json({ error: "SMTP configuration not found" }, { status: 404 });
     }
     
+    // Switching transports needs the credentials of the new one
+    if (transportType !== existingConfig.transportType && transportType !== 'capture') {
+      const hasCredentials = transportType === 'brevo-api' ? !!data.apiKey : !!data.password;
+      
+      if (!hasCredentials) {
+        return NextResponse.json({ 
+          error: transportType === 'brevo-api' ? "API key is required" : "Password is required" 
+        }, { status: 400 });
+      }
+    }
+    
     // If this is set as default, unset other defaults
     if (data.isDefault) {
       await prisma.smtpConfig.updateMany({
@@ -150,6 +233,7 @@ export async function PUT(request: NextRequest) {
     // Create update data object
     interface UpdateData {
       name: string;
+      transportType: TransportType;
       host: string;
       port: number;
       secure: boolean;
@@ -157,30 +241,68 @@ export async function PUT(request: NextRequest) {
       fromEmail: string;
       fromName: string;
       isDefault: boolean;
+      perMinute: number | null;
+      perHour: number | null;
+      maxAttachmentMb: number | null;
       password?: string;
+      apiKey?: string | null;
+      bounceImapPassword?: string;
+      bounceUidValidity?: null;
+      bounceLastUid?: number;
     }
     
     const updateData: UpdateData = {
       name: data.name,
-      host: data.host,
-      port: parseInt(data.port),
-      secure: !!data.secure,
-      username: data.username,
+      transportType,
+      ...parseConnection(data, transportType),
       fromEmail: sanitizedFromEmail,
       fromName: data.fromName || sanitizedFromEmail,
       isDefault: !!data.isDefault,
+      perMinute: parseRateLimit(data.perMinute),
+      perHour: parseRateLimit(data.perHour),
+      maxAttachmentMb: parseRateLimit(data.maxAttachmentMb),
     };
     
-    // Only update password if provided
-    if (data.password) {
-      updateData.password = data.password;
+    // Only update password and API key if provided; each transport drops the other's secret
+    if (transportType === 'brevo-api') {
+      updateData.password = '';
+      
+      if (data.apiKey) {
+        updateData.apiKey = data.apiKey;
+      }
+    } else if (transportType === 'smtp') {
+      updateData.apiKey = null;
+      
+      if (data.password) {
+        updateData.password = data.password;
+      }
+    } else {
+      updateData.password = '';
+      updateData.apiKey = null;
+    }
+    
+    const bounceMailbox = parseBounceMailbox(data);
+    
+    if (data.bounceImapPassword) {
+      updateData.bounceImapPassword = data.bounceImapPassword;
+    }
+    
+    // A different mailbox starts reading from the beginning
+    if (bounceMailbox.bounceImapHost !== existingConfig.bounceImapHost
+      || bounceMailbox.bounceImapUsername !== existingConfig.bounceImapUsername
+      || bounceMailbox.bounceImapMailbox !== existingConfig.bounceImapMailbox) {
+      updateData.bounceUidValidity = null;
+      updateData.bounceLastUid = 0;
     }
     
     const updatedConfig = await prisma.smtpConfig.update({
       where: { id: data.id },
-      data: updateData,
+      data: { ...updateData, ...bounceMailbox },
     });
     
+    // Close pooled connections that still use the old settings
+    invalidateSmtpTransport(updatedConfig.id);
+    
     return NextResponse.json({
       id: updatedConfig.id,
       name: updatedConfig.name,
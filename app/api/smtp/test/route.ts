@@ -4,9 +4,17 @@ import { getServerSession } from "next-auth/next";
 import { prisma } from "@/lib/db";
 import { authOptions } from "@/lib/auth";
 import { createSmtpTransport } from "@/lib/email";
+import { isTransportType, TransportType } from "@/lib/mail-transport";
+import { isCaptureForced } from "@/lib/capture-transport";
+import { waitForSmtpSendSlot } from "@/lib/rate-limit";
+import { describeSendingHalt, getSendingHalt } from "@/lib/sending-halt";
 import { SmtpConfig } from "@prisma/client";
 
 interface TempSmtpConfig {
+  // Owner of emails captured while testing
+  userId: string;
+  transportType: TransportType;
+  apiKey: string | null;
   host: string;
   port: number;
   secure: boolean;
@@ -16,6 +24,20 @@ interface TempSmtpConfig {
   fromName: string;
 }
 
+// Connection summary shown in the test email
+function describeTransport(config: Pick<SmtpConfig, 'transportType' | 'host' | 'port' | 'secure'>): string {
+  if (config.transportType === 'brevo-api') {
+    return '<p style="margin: 5px 0;"><strong>Transport:</strong> Brevo API</p>';
+  }
+  
+  if (config.transportType === 'capture') {
+    return '<p style="margin: 5px 0;"><strong>Transport:</strong> Capture (Outbox)</p>';
+  }
+  
+  return `<p style="margin: 5px 0;"><strong>Server:</strong> ${config.host}:${config.port}</p>
+              <p style="margin: 5px 0;"><strong>Security:</strong> ${config.secure ? 'SSL/TLS' : 'None'}</p>`;
+}
+
 export async function POST(request: NextRequest) {
   const session = await getServerSession(authOptions);
   
@@ -34,6 +56,15 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "Invalid test email format" }, { status: 400 });
     }
     
+    // Checking the connection is fine, sending the test email is not
+    if (testEmail) {
+      const halt = await getSendingHalt(session.user.id);
+      
+      if (halt) {
+        return NextResponse.json({ error: describeSendingHalt(halt) }, { status: 409 });
+      }
+    }
+    
     // If smtpId is provided, use existing config
     if (data.smtpId) {
       const smtpConfig = await prisma.smtpConfig.findUnique({
@@ -47,6 +78,20 @@ export async function POST(request: NextRequest) {
         return NextResponse.json({ error: "SMTP configuration not found" }, { status: 404 });
       }
       
+      // Test emails count against the config's rate limits too
+      const slot = await waitForSmtpSendSlot(smtpConfig, 15000);
+      
+      if (!slot.allowed) {
+        const retryAfterSeconds = Math.ceil(slot.retryAfterMs / 1000);
+        return NextResponse.json({ 
+          error: "SMTP rate limit reached",
+          details: `This configuration has reached its sending limit. Try again in ${retryAfterSeconds} seconds.`
+        }, { 
+          status: 429,
+          headers: { 'Retry-After': String(retryAfterSeconds) }
+        });
+      }
+      
       // Create the transporter
       const transporter = await createSmtpTransport(smtpConfig);
       
@@ -56,7 +101,7 @@ export async function POST(request: NextRequest) {
       
       // Send test email
       const info = await transporter.sendMail({
-        from: `"${smtpConfig.fromName}" <${fromEmail}>`,
+        from: { name: smtpConfig.fromName, address: fromEmail },
         to: toEmail,
         subject: "SMTP Test Email",
         text: "This is a test email to verify your SMTP configuration is working correctly.",
@@ -65,8 +110,7 @@ export async function POST(request: NextRequest) {
             <h2 style="color: #4a5568;">SMTP Configuration Test</h2>
             <p>This is a test email to verify your SMTP configuration is working correctly.</p>
             <div style="margin-top: 20px; padding: 15px; background-color: #f7fafc; border-radius: 5px;">
-              <p style="margin: 5px 0;"><strong>Server:</strong> ${smtpConfig.host}:${smtpConfig.port}</p>
-              <p style="margin: 5px 0;"><strong>Security:</strong> ${smtpConfig.secure ? 'SSL/TLS' : 'None'}</p>
+              ${describeTransport(smtpConfig)}
               <p style="margin: 5px 0;"><strong>From:</strong> ${smtpConfig.fromName} &lt;${smtpConfig.fromEmail}&gt;</p>
               <p style="margin: 5px 0;"><strong>Date:</strong> ${new Date().toLocaleString()}</p>
             </div>
@@ -80,23 +124,39 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ 
         success: true, 
         messageId: info.messageId,
-        recipient: toEmail
+        recipient: toEmail,
+        // Stored in the Outbox rather than delivered
+        captured: smtpConfig.transportType === 'capture' || isCaptureForced(),
       });
     } 
     // Otherwise use provided config without saving
     else if (data.config) {
-      const { host, port, secure, username, password, fromEmail, fromName } = data.config;
+      const { host, port, secure, username, password, apiKey, fromEmail, fromName } = data.config;
+      const transportType = data.config.transportType ?? 'smtp';
+      
+      if (!isTransportType(transportType)) {
+        return NextResponse.json({ error: "Invalid transport type" }, { status: 400 });
+      }
+      
+      const missingFields = {
+        smtp: !host || !port || !username || !password,
+        'brevo-api': !apiKey,
+        capture: false,
+      }[transportType] || !fromEmail;
       
-      if (!host || !port || !username || !password || !fromEmail) {
+      if (missingFields) {
         return NextResponse.json({ error: "Missing required fields" }, { status: 400 });
       }
       
       const tempConfig: TempSmtpConfig = {
-        host,
-        port: parseInt(port),
+        userId: session.user.id,
+        transportType,
+        apiKey: apiKey || null,
+        host: host || '',
+        port: parseInt(port) || 0,
         secure: !!secure,
-        username,
-        password,
+        username: username || '',
+        password: password || '',
         fromEmail,
         fromName: fromName || fromEmail,
       };
@@ -110,7 +170,7 @@ export async function POST(request: NextRequest) {
       
       // Send test email
       const info = await transporter.sendMail({
-        from: `"${tempConfig.fromName}" <${fromEmailSanitized}>`,
+        from: { name: tempConfig.fromName, address: fromEmailSanitized },
         to: toEmail,
         subject: "SMTP Test Email",
         text: "This is a test email to verify your SMTP configuration is working correctly.",
@@ -119,8 +179,7 @@ export async function POST(request: NextRequest) {
             <h2 style="color: #4a5568;">SMTP Configuration Test</h2>
             <p>This is a test email to verify your SMTP configuration is working correctly.</p>
             <div style="margin-top: 20px; padding: 15px; background-color: #f7fafc; border-radius: 5px;">
-              <p style="margin: 5px 0;"><strong>Server:</strong> ${tempConfig.host}:${tempConfig.port}</p>
-              <p style="margin: 5px 0;"><strong>Security:</strong> ${tempConfig.secure ? 'SSL/TLS' : 'None'}</p>
+              ${describeTransport(tempConfig)}
               <p style="margin: 5px 0;"><strong>From:</strong> ${tempConfig.fromName} &lt;${tempConfig.fromEmail}&gt;</p>
               <p style="margin: 5px 0;"><strong>Date:</strong> ${new Date().toLocaleString()}</p>
             </div>
@@ -134,7 +193,9 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ 
         success: true, 
         messageId: info.messageId,
-        recipient: toEmail
+        recipient: toEmail,
+        // Stored in the Outbox rather than delivered
+        captured: tempConfig.transportType === 'capture' || isCaptureForced(),
       });
     } else {
       return NextResponse.json({ error: "Either smtpId or config must be provided" }, { status: 400 });
@@ -153,6 +214,8 @@ export async function POST(request: NextRequest) {
         errorDetails = "Connection refused. Please check your SMTP server address and port.";
       } else if (error.message.includes('ETIMEDOUT')) {
         errorDetails = "Connection timed out. Please check your SMTP server address and port.";
+      } else if (error.message.includes('Brevo API error 401')) {
+        errorDetails = "Invalid Brevo API key. Please check the key in your Brevo account settings.";
       } else if (error.message.includes('Invalid login')) {
         errorDetails = "Invalid login credentials. Please check your username and password.";
       } else if (error.message.includes('certificate')) {
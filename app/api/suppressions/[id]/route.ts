@@ -0,0 +1,43 @@
+// app/api/suppressions/[id]/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { prisma } from "@/lib/db";
+import { authOptions } from "@/lib/auth";
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await getServerSession(authOptions);
+  
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  
+  const { id } = await params;
+  
+  try {
+    // Check if suppression exists and belongs to user
+    const suppression = await prisma.suppression.findFirst({
+      where: {
+        id,
+        userId: session.user.id,
+      },
+    });
+    
+    if (!suppression) {
+      return NextResponse.json({ error: "Suppression not found" }, { status: 404 });
+    }
+    
+    await prisma.suppression.delete({
+      where: { id },
+    });
+    
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting suppression:", error);
+    return NextResponse.json({ 
+      error: error instanceof Error ? error.message : "Failed to delete suppression" 
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,136 @@
+// app/api/suppressions/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { prisma } from "@/lib/db";
+import { authOptions } from "@/lib/auth";
+import { Prisma } from "@prisma/client";
+import { isValidEmail } from "@/lib/utils";
+import { normalizeSuppressedEmail, SUPPRESSION_REASONS, SuppressionReason } from "@/lib/suppression";
+
+export async function GET(request: NextRequest) {
+  const session = await getServerSession(authOptions);
+  
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  
+  try {
+    // Get query parameters
+    const url = new URL(request.url);
+    const search = url.searchParams.get('search');
+    const reason = url.searchParams.get('reason');
+    const page = Math.max(parseInt(url.searchParams.get('page') ?? '1') || 1, 1);
+    const limit = Math.min(Math.max(parseInt(url.searchParams.get('limit') ?? '20') || 20, 1), 100);
+    
+    const where: Prisma.SuppressionWhereInput = {
+      userId: session.user.id,
+    };
+    
+    if (search) {
+      where.email = {
+        contains: search.trim(),
+        mode: 'insensitive',
+      };
+    }
+    
+    if (reason) {
+      where.reason = reason;
+    }
+    
+    const [suppressions, total] = await Promise.all([
+      prisma.suppression.findMany({
+        where,
+        include: {
+          campaign: {
+            select: {
+              id: true,
+              name: true,
+            },
+          },
+        },
+        skip: (page - 1) * limit,
+        take: limit,
+        orderBy: { createdAt: 'desc' },
+      }),
+      prisma.suppression.count({ where }),
+    ]);
+    
+    return NextResponse.json({
+      suppressions: suppressions.map(suppression => ({
+        id: suppression.id,
+        email: suppression.email,
+        reason: suppression.reason,
+        campaign: suppression.campaign,
+        createdAt: suppression.createdAt.toISOString(),
+      })),
+      pagination: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching suppressions:", error);
+    return NextResponse.json({ 
+      error: error instanceof Error ? error.message : "Failed to fetch suppressions" 
+    }, { status: 500 });
+  }
+}
+
+/**
+ * Add suppressions manually
+ * Accepts a single `email` or a list of `emails` for imports
+ */
+export async function POST(request: NextRequest) {
+  const session = await getServerSession(authOptions);
+  
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  
+  try {
+    const body = await request.json();
+    const reason: SuppressionReason = SUPPRESSION_REASONS.includes(body.reason) ? body.reason : 'manual';
+    
+    const rawEmails: unknown[] = Array.isArray(body.emails)
+      ? body.emails
+      : [body.email];
+    
+    const emails = Array.from(new Set(
+      rawEmails
+        .filter((email): email is string => typeof email === 'string')
+        .map(normalizeSuppressedEmail)
+        .filter(email => email.length > 0)
+    ));
+    
+    const validEmails = emails.filter(isValidEmail);
+    const invalidCount = emails.length - validEmails.length;
+    
+    if (validEmails.length === 0) {
+      return NextResponse.json({ error: "No valid email addresses provided" }, { status: 400 });
+    }
+    
+    // Existing suppressions keep their original reason
+    const { count } = await prisma.suppression.createMany({
+      data: validEmails.map(email => ({
+        email,
+        reason,
+        userId: session.user.id,
+      })),
+      skipDuplicates: true,
+    });
+    
+    return NextResponse.json({
+      success: true,
+      added: count,
+      alreadySuppressed: validEmails.length - count,
+      invalid: invalidCount,
+    });
+  } catch (error) {
+    console.error("Error adding suppressions:", error);
+    return NextResponse.json({ 
+      error: error instanceof Error ? error.message : "Failed to add suppressions" 
+    }, { status: 500 });
+  }
+}
@@ -3,6 +3,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { getServerSession } from "next-auth/next";
 import { prisma } from "@/lib/db";
 import { authOptions } from "@/lib/auth";
+import { getMessageOptionsContent, parseMessageOptions, toMessageOptionData } from "@/lib/message-options";
 
 export async function GET() {
   const session = await getServerSession(authOptions);
@@ -15,6 +16,9 @@ export async function GET() {
     where: {
       userId: session.user.id,
     },
+    include: {
+      attachments: { select: { attachmentId: true } },
+    },
   });
   
   return NextResponse.json(templates);
@@ -35,9 +39,34 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "Missing required fields" }, { status: 400 });
     }
     
-    // Extract parameters from HTML content
+    const attachmentIds: string[] = Array.isArray(data.attachmentIds)
+      ? [...new Set<string>(data.attachmentIds.filter((id: unknown): id is string => typeof id === 'string'))]
+      : [];
+    
+    if (attachmentIds.length > 0) {
+      const ownedAttachments = await prisma.attachment.count({
+        where: { id: { in: attachmentIds }, userId: session.user.id },
+      });
+      
+      if (ownedAttachments !== attachmentIds.length) {
+        return NextResponse.json({ error: "Attachment not found" }, { status: 404 });
+      }
+    }
+    
+    // Empty means the text part is generated from the HTML
+    const textContent = typeof data.textContent === 'string' && data.textContent.trim()
+      ? data.textContent
+      : null;
+    
+    const { options: messageOptions, error: messageOptionsError } = parseMessageOptions(data);
+    
+    if (messageOptionsError) {
+      return NextResponse.json({ error: messageOptionsError }, { status: 400 });
+    }
+    
+    // Extract parameters from HTML and plain-text content and the message options
     const paramRegex = /{{([^{}]+)}}/g;
-    const matches = [...data.htmlContent.matchAll(paramRegex)];
+    const matches = [...`${data.htmlContent}\n${textContent ?? ''}\n${getMessageOptionsContent(messageOptions)}`.matchAll(paramRegex)];
     const parameters = [...new Set(matches.map(match => match[1].trim()))];
     
     // Check if updating existing template
@@ -61,7 +90,14 @@ export async function POST(request: NextRequest) {
           name: data.name,
           subject: data.subject,
           htmlContent: data.htmlContent,
+          textContent,
+          ...toMessageOptionData(messageOptions),
           parameters,
+          // Replace the attachment list; campaigns already created keep theirs
+          attachments: {
+            deleteMany: {},
+            create: attachmentIds.map(attachmentId => ({ attachmentId })),
+          },
         },
       });
       
@@ -74,8 +110,13 @@ export async function POST(request: NextRequest) {
         name: data.name,
         subject: data.subject,
         htmlContent: data.htmlContent,
+        textContent,
+        ...toMessageOptionData(messageOptions),
         parameters,
         userId: session.user.id,
+        attachments: {
+          create: attachmentIds.map(attachmentId => ({ attachmentId })),
+        },
       },
     });
     
@@ -89,6 +89,8 @@ async function recordClickEvent(
         where: {
           campaignId,
           recipientId,
+          // Deferred attempts and failures were never delivered
+          status: { notIn: ['deferred', 'failed'] },
         },
       });
       
@@ -84,6 +84,8 @@ async function recordOpenEvent(
         where: {
           campaignId,
           recipientId,
+          // Deferred attempts and failures were never delivered
+          status: { notIn: ['deferred', 'failed'] },
         },
       });
       
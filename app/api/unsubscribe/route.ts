@@ -0,0 +1,50 @@
+// app/api/unsubscribe/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { unsubscribeRecipient, verifyUnsubscribeToken } from "@/lib/unsubscribe";
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Link clicked in the email: show the hosted confirmation page
+ * Unsubscribing only happens on POST so link scanners can't trigger it
+ */
+export async function GET(request: NextRequest) {
+  const token = request.nextUrl.searchParams.get('token');
+  const pageUrl = new URL('/unsubscribe', request.url);
+  
+  if (verifyUnsubscribeToken(token)) {
+    pageUrl.searchParams.set('token', token as string);
+  } else {
+    pageUrl.searchParams.set('error', 'invalid');
+  }
+  
+  return NextResponse.redirect(pageUrl);
+}
+
+/**
+ * One-click unsubscribe (RFC 8058) from the mail client, or the confirm button on the hosted page
+ */
+export async function POST(request: NextRequest) {
+  const recipientId = verifyUnsubscribeToken(request.nextUrl.searchParams.get('token'));
+  
+  if (!recipientId) {
+    return NextResponse.json({ error: "Invalid unsubscribe link" }, { status: 400 });
+  }
+  
+  try {
+    const result = await unsubscribeRecipient(recipientId);
+    
+    if (!result) {
+      return NextResponse.json({ error: "Subscription not found" }, { status: 404 });
+    }
+    
+    console.log(`Recipient ${recipientId} unsubscribed`);
+    
+    return NextResponse.json({ success: true, email: result.email });
+  } catch (error) {
+    console.error("Error processing unsubscribe:", error);
+    return NextResponse.json({ 
+      error: "Failed to unsubscribe" 
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,53 @@
+// app/api/webhooks/brevo/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { BrevoEventOutcome, BrevoEventPayload, handleBrevoEvent } from "@/lib/brevo-webhook";
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Brevo transactional webhook
+ * Authenticated with the user's webhook token, sent as a bearer token or the `token` query parameter.
+ * Accepts a single event or a batch.
+ */
+export async function POST(request: NextRequest) {
+  const bearer = request.headers.get('authorization')?.match(/^Bearer\s+(.+)$/i)?.[1];
+  const token = bearer ?? request.nextUrl.searchParams.get('token');
+  
+  if (!token) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  
+  const user = await prisma.user.findUnique({
+    where: { brevoWebhookToken: token },
+    select: { id: true },
+  });
+  
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+  }
+  
+  const events = (Array.isArray(body) ? body : [body])
+    .filter((event): event is BrevoEventPayload => Boolean(event) && typeof event === 'object');
+  
+  try {
+    const outcomes: Record<BrevoEventOutcome, number> = { applied: 0, duplicate: 0, unmatched: 0, ignored: 0 };
+    
+    for (const event of events) {
+      outcomes[await handleBrevoEvent(user.id, event)]++;
+    }
+    
+    return NextResponse.json({ success: true, ...outcomes });
+  } catch (error) {
+    // A 5xx makes Brevo retry; events already applied are skipped as duplicates
+    console.error("Error processing Brevo webhook:", error);
+    return NextResponse.json({ error: "Failed to process webhook" }, { status: 500 });
+  }
+}
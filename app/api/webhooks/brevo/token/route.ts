@@ -0,0 +1,43 @@
+// app/api/webhooks/brevo/token/route.ts
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { prisma } from "@/lib/db";
+import { authOptions } from "@/lib/auth";
+import { rotateBrevoWebhookToken } from "@/lib/brevo-webhook";
+
+/**
+ * The current user's Brevo webhook token, null until one is generated
+ */
+export async function GET() {
+  const session = await getServerSession(authOptions);
+  
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  
+  const user = await prisma.user.findUnique({
+    where: { id: session.user.id },
+    select: { brevoWebhookToken: true },
+  });
+  
+  return NextResponse.json({ token: user?.brevoWebhookToken ?? null });
+}
+
+/**
+ * Generate a new token; the webhook URL configured in Brevo must be updated afterwards
+ */
+export async function POST() {
+  const session = await getServerSession(authOptions);
+  
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  
+  try {
+    const token = await rotateBrevoWebhookToken(session.user.id);
+    return NextResponse.json({ token });
+  } catch (error) {
+    console.error("Error generating Brevo webhook token:", error);
+    return NextResponse.json({ error: "Failed to generate webhook token" }, { status: 500 });
+  }
+}
@@ -0,0 +1,52 @@
+// app/api/webhooks/process-campaign/route.ts
+import { NextRequest, NextResponse, after } from "next/server";
+import { runSendWorker, kickSendWorker } from "@/lib/queue";
+
+export const maxDuration = 60; // 60 seconds max duration
+export const dynamic = 'force-dynamic'; // Ensure this is not cached
+
+/**
+ * Wake-up call for the send worker. Progress lives in the SendJob table, so this
+ * only runs a worker pass; losing a call never loses a batch.
+ */
+export async function POST(request: NextRequest) {
+  console.log("Webhook handler triggered");
+  
+  try {
+    const { secret } = await request.json();
+    
+    if (secret !== process.env.WEBHOOK_SECRET) {
+      console.error("Webhook secret verification failed");
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    
+    // Answer right away and let the worker run after the response
+    after(async () => {
+      try {
+        const result = await runSendWorker();
+        
+        // Hand over to a fresh invocation if there is still due work
+        if (result.hasMoreWork) {
+          await kickSendWorker();
+        }
+      } catch (error) {
+        console.error("Error running send worker:", error);
+      }
+    });
+    
+    const headers = new Headers();
+    headers.append('X-Webhook-Processed', 'true');
+    headers.append('Cache-Control', 'no-store, no-cache');
+    
+    return NextResponse.json({ message: "Send worker started" }, {
+      headers,
+      status: 202
+    });
+  } catch (error) {
+    console.error("Error handling process-campaign webhook:", error);
+    
+    return NextResponse.json({ 
+      error: error instanceof Error ? error.message : "Unknown error"
+    }, { status: 500 });
+  }
+}
@@ -6,6 +6,8 @@ import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/db';
 import Header from '@/components/dashboard/Header';
 import CampaignStatusMonitor from '@/components/email/CampaignStatusMonitor';
+import CampaignRecipients from '@/components/email/CampaignRecipients';
+import CampaignDryRunReport from '@/components/email/CampaignDryRunReport';
 
 export default async function CampaignDetailPage({ 
   params 
@@ -36,6 +38,12 @@ export default async function CampaignDetailPage({
           fromName: true,
         },
       },
+      smtpPool: {
+        include: {
+          smtpConfig: { select: { name: true } },
+        },
+        orderBy: { position: 'asc' },
+      },
     },
   });
   
@@ -60,6 +68,15 @@ export default async function CampaignDetailPage({
           
           <CampaignStatusMonitor campaignId={campaign.id} />
           
+          <CampaignRecipients campaignId={campaign.id} />
+          
+          {/* Pre-flight check is only useful while there is still something left to send */}
+          {['draft', 'queued', 'paused'].includes(campaign.status) && (
+            <div className="mt-8">
+              <CampaignDryRunReport campaignId={campaign.id} />
+            </div>
+          )}
+          
           <div className="mt-8 bg-white p-6 rounded-lg shadow-sm border border-gray-200">
             <h3 className="text-lg font-medium mb-4">Campaign Details</h3>
             
@@ -76,6 +93,24 @@ export default async function CampaignDetailPage({
                 <p className="mt-1 text-sm text-gray-500">
                   From: {campaign.smtpConfig?.fromName} &lt;{campaign.smtpConfig?.fromEmail}&gt;
                 </p>
+                {campaign.smtpRoutingPolicy !== 'pinned' && (
+                  <p className="mt-1 text-sm text-gray-500">
+                    Routing: {campaign.smtpRoutingPolicy.replace('_', ' ')} across{' '}
+                    {campaign.smtpPool
+                      .map(member => campaign.smtpRoutingPolicy === 'weighted'
+                        ? `${member.smtpConfig.name} (${member.weight})`
+                        : member.smtpConfig.name)
+                      .join(', ')}
+                  </p>
+                )}
+              </div>
+              
+              <div>
+                <h4 className="text-sm font-medium text-gray-500">Sending Profile</h4>
+                <p className="mt-1 capitalize">{campaign.sendingProfile}</p>
+                <p className="mt-1 text-sm text-gray-500">
+                  Batches of {campaign.batchSize} · {campaign.concurrency} in parallel · {campaign.messageDelayMs} ms delay · {campaign.maxPerMinute ? `${campaign.maxPerMinute}/min` : 'no per-minute cap'}
+                </p>
               </div>
             </div>
             
@@ -36,8 +36,8 @@ export default async function EditCampaignSchedulePage({
     notFound();
   }
   
-  // Only allow editing schedule for draft, queued, or scheduled campaigns
-  if (!['draft', 'queued'].includes(campaign.status) && !campaign.isScheduled) {
+  // Only campaigns that haven't started can be rescheduled
+  if (!['draft', 'queued'].includes(campaign.status)) {
     redirect(`/dashboard/campaigns/${id}`);
   }
   
@@ -51,6 +51,7 @@ export default async function EditCampaignSchedulePage({
             name: campaign.name,
             isScheduled: campaign.isScheduled,
             scheduledFor: campaign.scheduledFor ? campaign.scheduledFor.toISOString() : null,
+            scheduledTimezone: campaign.scheduledTimezone,
           }} />
         </div>
       </div>
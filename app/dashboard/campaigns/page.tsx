@@ -4,6 +4,8 @@ import Link from 'next/link';
 import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/db';
 import Header from '@/components/dashboard/Header';
+import SendingHaltControl from '@/components/campaigns/SendingHaltControl';
+import { getSendingHalt } from '@/lib/sending-halt';
 import { FiClock } from 'react-icons/fi';
 
 export default async function CampaignsPage() {
@@ -32,12 +34,18 @@ export default async function CampaignsPage() {
     },
   });
   
+  const halt = await getSendingHalt(session.user.id);
+  
   return (
     <div>
       <Header title="Email Campaigns" />
       
       <div className="py-6 mx-auto max-w-7xl sm:px-6 lg:px-8">
         <div className="px-4 sm:px-0">
+          <SendingHaltControl
+            initialHalt={halt ? { ...halt, haltedAt: halt.haltedAt?.toISOString() ?? null } : null}
+          />
+          
           <div className="flex items-center justify-between mb-6">
             <h2 className="text-lg font-medium text-gray-900">Your Campaigns</h2>
             <div className="flex space-x-3">
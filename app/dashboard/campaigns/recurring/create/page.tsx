@@ -0,0 +1,26 @@
+// app/dashboard/campaigns/recurring/create/page.tsx
+import { getServerSession } from 'next-auth/next';
+import { redirect } from 'next/navigation';
+import { authOptions } from '@/lib/auth';
+import Header from '@/components/dashboard/Header';
+import RecurringScheduleForm from '@/components/campaigns/RecurringScheduleForm';
+
+export default async function CreateRecurringSchedulePage() {
+  const session = await getServerSession(authOptions);
+  
+  if (!session?.user) {
+    redirect('/login');
+  }
+  
+  return (
+    <div>
+      <Header title="Create Recurring Schedule" />
+      
+      <div className="py-6 mx-auto max-w-7xl sm:px-6 lg:px-8">
+        <div className="px-4 sm:px-0">
+          <RecurringScheduleForm />
+        </div>
+      </div>
+    </div>
+  );
+}
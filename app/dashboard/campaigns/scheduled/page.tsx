@@ -5,6 +5,7 @@ import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/db';
 import Header from '@/components/dashboard/Header';
 import ScheduledCampaignsList from '@/components/campaigns/ScheduledCampaignsList';
+import RecurringSchedulesList from '@/components/campaigns/RecurringSchedulesList';
 
 export default async function ScheduledCampaignsPage() {
   const session = await getServerSession(authOptions);
@@ -38,6 +39,7 @@ export default async function ScheduledCampaignsPage() {
     status: campaign.status,
     recipientCount: campaign.recipientCount,
     scheduledFor: campaign.scheduledFor ? campaign.scheduledFor.toISOString() : null,
+    scheduledTimezone: campaign.scheduledTimezone,
     template: {
       name: campaign.template.name,
     },
@@ -60,6 +62,18 @@ export default async function ScheduledCampaignsPage() {
           </div>
           
           <ScheduledCampaignsList initialCampaigns={serializedCampaigns} />
+          
+          <div className="flex items-center justify-between mt-10 mb-6">
+            <h2 className="text-lg font-medium text-gray-900">Recurring Schedules</h2>
+            <Link
+              href="/dashboard/campaigns/recurring/create"
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
+            >
+              Create Recurring Schedule
+            </Link>
+          </div>
+          
+          <RecurringSchedulesList />
         </div>
       </div>
     </div>
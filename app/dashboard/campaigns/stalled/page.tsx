@@ -3,6 +3,7 @@ import { getServerSession } from 'next-auth/next';
 import Link from 'next/link';
 import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/db';
+import { stalledCampaignWhere } from '@/lib/scheduler';
 import Header from '@/components/dashboard/Header';
 import StalledCampaignsList from '@/components/campaigns/StalledCampaignsList';
 
@@ -17,10 +18,7 @@ export default async function StalledCampaignsPage() {
   const stalledCampaignsData = await prisma.campaign.findMany({
     where: {
       userId: session.user.id,
-      status: 'processing',
-      lastProcessedAt: {
-        lt: new Date(Date.now() - 5 * 60 * 1000), // 5 minutes ago
-      },
+      ...stalledCampaignWhere(5 * 60 * 1000),
     },
     include: {
       template: {
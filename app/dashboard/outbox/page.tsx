@@ -0,0 +1,72 @@
+// app/dashboard/outbox/page.tsx
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/db';
+import { getCampaignsByMessageId, isCaptureForced } from '@/lib/capture-transport';
+import Header from '@/components/dashboard/Header';
+import OutboxList from '@/components/outbox/OutboxList';
+
+export default async function OutboxPage() {
+  const session = await getServerSession(authOptions);
+  
+  if (!session?.user) {
+    return <div>Please sign in to access this page</div>;
+  }
+  
+  const where = { userId: session.user.id };
+  
+  // Get first page of captured emails
+  const [emails, totalEmails] = await Promise.all([
+    prisma.capturedEmail.findMany({
+      where,
+      select: {
+        id: true,
+        messageId: true,
+        fromAddress: true,
+        toAddress: true,
+        subject: true,
+        createdAt: true,
+        smtpConfig: { select: { id: true, name: true } },
+      },
+      take: 20,
+      orderBy: { createdAt: 'desc' },
+    }),
+    prisma.capturedEmail.count({ where }),
+  ]);
+  
+  const campaigns = await getCampaignsByMessageId(emails.map(email => email.messageId));
+  
+  const formattedEmails = emails.map(email => ({
+    ...email,
+    campaign: campaigns.get(email.messageId) ?? null,
+    createdAt: email.createdAt.toISOString(),
+  }));
+  
+  return (
+    <div>
+      <Header title="Outbox" />
+      
+      <div className="py-6 mx-auto max-w-7xl sm:px-6 lg:px-8">
+        <div className="px-4 sm:px-0">
+          <div className="mb-6">
+            <h2 className="text-lg font-medium text-gray-900">Captured Emails</h2>
+            <p className="mt-1 text-sm text-gray-500">
+              Emails sent through a configuration with the Capture transport are stored here instead of being delivered.
+              Tracking links and the open pixel are kept, so campaigns can be clicked through end to end.
+            </p>
+            {isCaptureForced() && (
+              <p className="p-3 mt-3 text-sm text-yellow-800 bg-yellow-100 rounded-md">
+                Capture mode is on for this deployment (MAIL_CAPTURE): every email is captured, whatever the transport of its configuration.
+              </p>
+            )}
+          </div>
+          
+          <OutboxList
+            initialEmails={formattedEmails}
+            totalEmails={totalEmails}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
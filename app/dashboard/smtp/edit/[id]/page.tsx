@@ -16,25 +16,54 @@ export default async function EditSmtpPage({ params }: { params: Params }) {
     redirect('/login');
   }
   
-  // Fetch the SMTP configuration
-  const smtpConfig = await prisma.smtpConfig.findUnique({
+  // Fetch the SMTP configuration, without secrets since it is passed to a client component
+  const config = await prisma.smtpConfig.findUnique({
     where: {
       id: id,
       userId: session.user.id,
     },
+    select: {
+      id: true,
+      name: true,
+      transportType: true,
+      host: true,
+      port: true,
+      secure: true,
+      username: true,
+      fromEmail: true,
+      fromName: true,
+      isDefault: true,
+      perMinute: true,
+      perHour: true,
+      maxAttachmentMb: true,
+      bounceImapHost: true,
+      bounceImapPort: true,
+      bounceImapSecure: true,
+      bounceImapUsername: true,
+      bounceImapMailbox: true,
+      bounceCheckedAt: true,
+      bounceLastError: true,
+      apiKey: true,
+      bounceImapPassword: true,
+    },
   });
   
-  if (!smtpConfig) {
+  if (!config) {
     notFound();
   }
   
+  // Only tell the form whether a secret is saved; blank fields keep it on update
+  const { apiKey, bounceImapPassword, ...smtpConfig } = config;
+  const hasApiKey = !!apiKey;
+  const hasBounceImapPassword = !!bounceImapPassword;
+  
   return (
     <div>
       <Header title={`Edit SMTP Configuration: ${smtpConfig.name}`} />
       
       <div className="py-6 mx-auto max-w-7xl sm:px-6 lg:px-8">
         <div className="px-4 sm:px-0">
-          <SmtpForm smtpConfig={smtpConfig} />
+          <SmtpForm smtpConfig={{ ...smtpConfig, hasApiKey, hasBounceImapPassword }} />
         </div>
       </div>
     </div>
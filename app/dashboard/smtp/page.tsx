@@ -1,6 +1,7 @@
 // app/dashboard/smtp/page.tsx
 import Header from '@/components/dashboard/Header';
 import SmtpList from '@/components/smtp/SmtpList';
+import BrevoWebhookSettings from '@/components/smtp/BrevoWebhookSettings';
 
 export default function SmtpPage() {
   return (
@@ -8,8 +9,9 @@ export default function SmtpPage() {
       <Header title="SMTP Configurations" />
       
       <div className="py-6 mx-auto max-w-7xl sm:px-6 lg:px-8">
-        <div className="px-4 sm:px-0">
+        <div className="px-4 space-y-6 sm:px-0">
           <SmtpList />
+          <BrevoWebhookSettings />
         </div>
       </div>
     </div>
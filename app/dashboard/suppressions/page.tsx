@@ -0,0 +1,64 @@
+// app/dashboard/suppressions/page.tsx
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/db';
+import Header from '@/components/dashboard/Header';
+import SuppressionList from '@/components/suppressions/SuppressionList';
+
+export default async function SuppressionsPage() {
+  const session = await getServerSession(authOptions);
+  
+  if (!session?.user) {
+    return <div>Please sign in to access this page</div>;
+  }
+  
+  const where = { userId: session.user.id };
+  
+  // Get first page of suppressions
+  const [suppressions, totalSuppressions] = await Promise.all([
+    prisma.suppression.findMany({
+      where,
+      include: {
+        campaign: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+      },
+      take: 20,
+      orderBy: { createdAt: 'desc' },
+    }),
+    prisma.suppression.count({ where }),
+  ]);
+  
+  const formattedSuppressions = suppressions.map(suppression => ({
+    id: suppression.id,
+    email: suppression.email,
+    reason: suppression.reason,
+    campaign: suppression.campaign,
+    createdAt: suppression.createdAt.toISOString(),
+  }));
+  
+  return (
+    <div>
+      <Header title="Suppression List" />
+      
+      <div className="py-6 mx-auto max-w-7xl sm:px-6 lg:px-8">
+        <div className="px-4 sm:px-0">
+          <div className="mb-6">
+            <h2 className="text-lg font-medium text-gray-900">Suppressed Addresses</h2>
+            <p className="mt-1 text-sm text-gray-500">
+              Emails on this list are skipped by every campaign. Hard bounces and unsubscribes are added automatically.
+            </p>
+          </div>
+          
+          <SuppressionList
+            initialSuppressions={formattedSuppressions}
+            totalSuppressions={totalSuppressions}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -30,6 +30,9 @@ export default async function EditTemplatePage({ params }: { params: Params }) {
       id: id,  // Use the extracted id
       userId: session.user.id,
     },
+    include: {
+      attachments: { select: { attachmentId: true } },
+    },
   });
   
   if (!template) {
@@ -49,7 +52,7 @@ export default async function EditTemplatePage({ params }: { params: Params }) {
       
       <div className="py-6 mx-auto max-w-7xl sm:px-6 lg:px-8">
         <div className="px-4 sm:px-0">
-          <TemplateEditor template={template} />
+          <TemplateEditor template={{ ...template, attachmentIds: template.attachments.map(link => link.attachmentId) }} />
         </div>
       </div>
     </div>
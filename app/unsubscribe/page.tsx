@@ -0,0 +1,27 @@
+// app/unsubscribe/page.tsx
+import UnsubscribeConfirm from '@/components/unsubscribe/UnsubscribeConfirm';
+
+export default async function UnsubscribePage({
+  searchParams,
+}: {
+  searchParams: Promise<{ token?: string; error?: string }>;
+}) {
+  const { token, error } = await searchParams;
+  
+  return (
+    <div className="flex items-center justify-center min-h-screen bg-gray-100">
+      <div className="w-full max-w-md p-8 bg-white rounded-lg shadow-md">
+        {error || !token ? (
+          <>
+            <h1 className="text-xl font-semibold text-gray-900">Invalid link</h1>
+            <p className="mt-2 text-sm text-gray-600">
+              This unsubscribe link is invalid or has been modified. Please use the link from the email you received.
+            </p>
+          </>
+        ) : (
+          <UnsubscribeConfirm token={token} />
+        )}
+      </div>
+    </div>
+  );
+}
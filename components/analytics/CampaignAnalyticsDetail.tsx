@@ -29,12 +29,43 @@ interface DeviceData {
   other: number;
 }
 
+interface VariantStats {
+  id: string;
+  name: string;
+  subject: string | null;
+  templateName: string | null;
+  isWinner: boolean;
+  recipients: number;
+  sent: number;
+  opened: number;
+  clicked: number;
+  openRate: number;
+  clickRate: number;
+}
+
+interface AbTestSummary {
+  status: string;
+  metric: string;
+  samplePercent: number;
+  decideAt: string | null;
+  variants: VariantStats[];
+}
+
 interface AnalyticsDetail {
   deviceStats: DeviceData;
   topLocations: Array<{ location: string; count: number }>;
   hourlyData: Array<{ hour: number; opens: number; clicks: number }>;
+  abTest: AbTestSummary | null;
 }
 
+const AB_TEST_STATUS_LABELS: Record<string, string> = {
+  testing: 'Sending test sample',
+  waiting: 'Collecting results',
+  decided: 'Winner sent to remaining recipients',
+};
+
+const formatRate = (rate: number) => `${(rate * 100).toFixed(1)}%`;
+
 export default function CampaignAnalyticsDetail({ campaignId }: CampaignAnalyticsDetailProps) {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -121,6 +152,59 @@ export default function CampaignAnalyticsDetail({ campaignId }: CampaignAnalytic
   
   return (
     <div className="space-y-6">
+      {/* A/B Test */}
+      {analyticsData.abTest && (
+        <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-200">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-medium text-gray-900">A/B Test</h3>
+            <span className="text-sm text-gray-500">
+              {AB_TEST_STATUS_LABELS[analyticsData.abTest.status] ?? analyticsData.abTest.status}
+              {analyticsData.abTest.status === 'waiting' && analyticsData.abTest.decideAt &&
+                ` · winner picked ${new Date(analyticsData.abTest.decideAt).toLocaleString()}`}
+            </span>
+          </div>
+          <p className="text-sm text-gray-500 mb-4">
+            {analyticsData.abTest.samplePercent}% of recipients were split across the variants; the best {analyticsData.abTest.metric} rate wins.
+          </p>
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-3 py-2 text-left font-medium text-gray-500">Variant</th>
+                  <th className="px-3 py-2 text-left font-medium text-gray-500">Subject / Template</th>
+                  <th className="px-3 py-2 text-right font-medium text-gray-500">Sent</th>
+                  <th className="px-3 py-2 text-right font-medium text-gray-500">Opens</th>
+                  <th className="px-3 py-2 text-right font-medium text-gray-500">Clicks</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {analyticsData.abTest.variants.map((variant) => (
+                  <tr key={variant.id} className={variant.isWinner ? 'bg-green-50' : ''}>
+                    <td className="px-3 py-2 font-medium text-gray-900">
+                      {variant.name}
+                      {variant.isWinner && (
+                        <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-green-100 text-green-800">Winner</span>
+                      )}
+                    </td>
+                    <td className="px-3 py-2 text-gray-600">
+                      <div>{variant.subject ?? 'Template subject'}</div>
+                      <div className="text-xs text-gray-400">{variant.templateName ?? 'Campaign template'}</div>
+                    </td>
+                    <td className="px-3 py-2 text-right text-gray-600">{variant.sent} / {variant.recipients}</td>
+                    <td className="px-3 py-2 text-right text-gray-600">
+                      {variant.opened} ({formatRate(variant.openRate)})
+                    </td>
+                    <td className="px-3 py-2 text-right text-gray-600">
+                      {variant.clicked} ({formatRate(variant.clickRate)})
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+      
       <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
         {/* Device Distribution */}
         <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-200">
@@ -4,7 +4,8 @@
 import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
-import { FiClock, FiCalendar } from 'react-icons/fi';
+import { FiClock, FiCalendar, FiGlobe } from 'react-icons/fi';
+import { dateToZonedTime, isValidTimezone, zonedTimeToDate } from '@/lib/cron';
 
 interface CampaignScheduleFormProps {
   campaignId: string;
@@ -12,6 +13,7 @@ interface CampaignScheduleFormProps {
     name: string;
     isScheduled: boolean;
     scheduledFor: string | null;
+    scheduledTimezone: string | null;
   };
 }
 
@@ -20,32 +22,26 @@ export default function CampaignScheduleForm({ campaignId, initialData }: Campai
   const [isScheduled, setIsScheduled] = useState(initialData.isScheduled);
   const [scheduledDate, setScheduledDate] = useState('');
   const [scheduledTime, setScheduledTime] = useState('');
+  const [timezone, setTimezone] = useState(initialData.scheduledTimezone ?? 'UTC');
   const [sendImmediately, setSendImmediately] = useState(!initialData.isScheduled);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   
   useEffect(() => {
-    // Set initial date and time if scheduledFor exists
-    if (initialData.scheduledFor) {
-      const date = new Date(initialData.scheduledFor);
-      setScheduledDate(date.toISOString().split('T')[0]);
-      
-      // Format time as HH:MM
-      const hours = date.getHours().toString().padStart(2, '0');
-      const minutes = date.getMinutes().toString().padStart(2, '0');
-      setScheduledTime(`${hours}:${minutes}`);
-    } else {
-      // Set default to tomorrow at current time
-      const tomorrow = new Date();
-      tomorrow.setDate(tomorrow.getDate() + 1);
-      setScheduledDate(tomorrow.toISOString().split('T')[0]);
-      
-      const now = new Date();
-      const hours = now.getHours().toString().padStart(2, '0');
-      const minutes = now.getMinutes().toString().padStart(2, '0');
-      setScheduledTime(`${hours}:${minutes}`);
-    }
-  }, [initialData.scheduledFor]);
+    // Show the schedule in the timezone it was entered in, otherwise the browser's
+    const zone = initialData.scheduledTimezone && isValidTimezone(initialData.scheduledTimezone)
+      ? initialData.scheduledTimezone
+      : Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+    setTimezone(zone);
+    
+    // Default to tomorrow at the current time
+    const date = initialData.scheduledFor
+      ? new Date(initialData.scheduledFor)
+      : new Date(Date.now() + 24 * 60 * 60 * 1000);
+    const [datePart, timePart] = dateToZonedTime(date, zone).split('T');
+    setScheduledDate(datePart);
+    setScheduledTime(timePart);
+  }, [initialData.scheduledFor, initialData.scheduledTimezone]);
   
   // Update sendImmediately when isScheduled changes
   useEffect(() => {
@@ -67,21 +63,26 @@ export default function CampaignScheduleForm({ campaignId, initialData }: Campai
           throw new Error('Please set a complete schedule date and time');
         }
         
-        const scheduledDateTime = new Date(`${scheduledDate}T${scheduledTime}`);
-        if (scheduledDateTime <= new Date()) {
+        if (!isValidTimezone(timezone)) {
+          throw new Error(`Unknown timezone "${timezone}"`);
+        }
+        
+        const scheduledDateTime = zonedTimeToDate(`${scheduledDate}T${scheduledTime}`, timezone);
+        if (!scheduledDateTime || scheduledDateTime <= new Date()) {
           throw new Error('Scheduled time must be in the future');
         }
       }
       
-      // Prepare data for API
+      // Prepare data for API; the time is wall-clock in the chosen timezone
       const updateData = {
         isScheduled,
-        scheduledFor: isScheduled ? new Date(`${scheduledDate}T${scheduledTime}`).toISOString() : null,
+        scheduledFor: isScheduled ? `${scheduledDate}T${scheduledTime}` : null,
+        timezone: isScheduled ? timezone : null,
         sendImmediately: !isScheduled && sendImmediately,
       };
       
       // Send request to update campaign
-      const response = await fetch(`/api/email/schedule/${campaignId}`, {
+      const response = await fetch(`/api/email/scheduled/${campaignId}`, {
         method: 'PUT',
         headers: {
           'Content-Type': 'application/json',
@@ -205,13 +206,33 @@ export default function CampaignScheduleForm({ campaignId, initialData }: Campai
                   />
                 </div>
               </div>
+              
+              <div className="md:col-span-2">
+                <label htmlFor="timezone" className="block text-sm font-medium text-gray-700">
+                  Timezone
+                </label>
+                <div className="mt-1 relative rounded-md shadow-sm">
+                  <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                    <FiGlobe className="h-5 w-5 text-gray-400" />
+                  </div>
+                  <input
+                    type="text"
+                    id="timezone"
+                    value={timezone}
+                    onChange={(e) => setTimezone(e.target.value)}
+                    className="focus:ring-blue-500 focus:border-blue-500 block w-full pl-10 sm:text-sm border-gray-300 rounded-md"
+                    placeholder="Asia/Jakarta"
+                    required={isScheduled}
+                  />
+                </div>
+              </div>
             </div>
           )}
           
           <div className="mt-4 flex items-center text-sm text-gray-500">
             <FiClock className="mr-2" />
             {isScheduled ? (
-              <span>Campaign will be sent on {scheduledDate} at {scheduledTime}</span>
+              <span>Campaign will be sent on {scheduledDate} at {scheduledTime} ({timezone})</span>
             ) : (
               <span>
                 Campaign will be {sendImmediately ? 'processed immediately' : 'saved as draft'} after updating
@@ -32,6 +32,7 @@ export default function CampaignsList({ initialCampaigns }: CampaignsListProps)
   const [campaigns, setCampaigns] = useState<Campaign[]>(initialCampaigns);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [actionCampaignId, setActionCampaignId] = useState<string | null>(null);
   
   useEffect(() => {
     // Check for stalled campaigns every 2 minutes
@@ -61,27 +62,28 @@ export default function CampaignsList({ initialCampaigns }: CampaignsListProps)
   };
   
   // Check for stalled campaigns and offer to restart them
-  const checkForStalledCampaigns = () => {
-    const now = new Date();
-    const stalledCampaigns = campaigns.filter(campaign => {
-      if (campaign.status !== 'processing' || !campaign.lastProcessedAt) return false;
-      
-      const lastActivity = new Date(campaign.lastProcessedAt);
-      const diffMs = now.getTime() - lastActivity.getTime();
-      const diffMins = Math.floor(diffMs / 60000);
-      
-      return diffMins > 5; // Stalled if no activity for more than 5 minutes
-    });
+  // The server decides, so campaigns waiting for an A/B test or a retry aren't flagged
+  const checkForStalledCampaigns = async () => {
+    if (!campaigns.some(campaign => campaign.status === 'processing')) return;
     
-    if (stalledCampaigns.length > 0) {
-      const campaignNames = stalledCampaigns.map(c => c.name).join(', ');
-      const shouldView = window.confirm(
-        `You have ${stalledCampaigns.length} stalled campaign(s): ${campaignNames}. Would you like to view them?`
-      );
+    try {
+      const response = await fetch('/api/email/stalled');
+      if (!response.ok) return;
       
-      if (shouldView) {
-        router.push('/dashboard/campaigns/stalled');
+      const stalledCampaigns: Campaign[] = await response.json();
+      
+      if (stalledCampaigns.length > 0) {
+        const campaignNames = stalledCampaigns.map(c => c.name).join(', ');
+        const shouldView = window.confirm(
+          `You have ${stalledCampaigns.length} stalled campaign(s): ${campaignNames}. Would you like to view them?`
+        );
+        
+        if (shouldView) {
+          router.push('/dashboard/campaigns/stalled');
+        }
       }
+    } catch (error) {
+      console.error('Error checking for stalled campaigns:', error);
     }
   };
   
@@ -110,6 +112,31 @@ export default function CampaignsList({ initialCampaigns }: CampaignsListProps)
     }
   };
   
+  // Pause, resume or cancel a campaign from the list
+  const handleLifecycleAction = async (campaign: Campaign, action: 'pause' | 'resume' | 'cancel') => {
+    if (action === 'cancel' && !confirm(`Cancel the campaign "${campaign.name}"? Emails that have not been sent yet will be skipped.`)) {
+      return;
+    }
+    
+    try {
+      setActionCampaignId(campaign.id);
+      const response = await fetch(`/api/email/${campaign.id}/${action}`, {
+        method: 'POST',
+      });
+      
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || `Failed to ${action} campaign`);
+      }
+      
+      await fetchCampaigns();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'An error occurred');
+    } finally {
+      setActionCampaignId(null);
+    }
+  };
+  
   // Check if campaign is stalled
   const isStalledCampaign = (campaign: Campaign): boolean => {
     if (campaign.status !== 'processing' || !campaign.lastProcessedAt) return false;
@@ -193,6 +220,8 @@ export default function CampaignsList({ initialCampaigns }: CampaignsListProps)
                           campaign.status === 'partial' ? 'bg-yellow-100 text-yellow-800' :
                           campaign.status === 'processing' && isStalledCampaign(campaign) ? 'bg-red-100 text-red-800' :
                           campaign.status === 'processing' ? 'bg-blue-100 text-blue-800' :
+                          campaign.status === 'paused' ? 'bg-orange-100 text-orange-800' :
+                          campaign.status === 'cancelled' ? 'bg-gray-200 text-gray-600' :
                           'bg-gray-100 text-gray-800'}
                       `}>
                         {campaign.status === 'processing' && isStalledCampaign(campaign) 
@@ -209,6 +238,33 @@ export default function CampaignsList({ initialCampaigns }: CampaignsListProps)
                   >
                     View Details
                   </Link>
+                  {(campaign.status === 'processing' || campaign.status === 'queued') && (
+                    <button
+                      onClick={() => handleLifecycleAction(campaign, 'pause')}
+                      disabled={actionCampaignId === campaign.id}
+                      className="font-medium text-orange-600 hover:text-orange-500 disabled:opacity-50"
+                    >
+                      Pause
+                    </button>
+                  )}
+                  {campaign.status === 'paused' && (
+                    <button
+                      onClick={() => handleLifecycleAction(campaign, 'resume')}
+                      disabled={actionCampaignId === campaign.id}
+                      className="font-medium text-green-600 hover:text-green-500 disabled:opacity-50"
+                    >
+                      Resume
+                    </button>
+                  )}
+                  {['draft', 'queued', 'processing', 'paused'].includes(campaign.status) && (
+                    <button
+                      onClick={() => handleLifecycleAction(campaign, 'cancel')}
+                      disabled={actionCampaignId === campaign.id}
+                      className="font-medium text-gray-600 hover:text-gray-500 disabled:opacity-50"
+                    >
+                      Cancel
+                    </button>
+                  )}
                   <button
                     onClick={() => handleDeleteCampaign(campaign.id, campaign.name)}
                     className="font-medium text-red-600 hover:text-red-500"
@@ -264,7 +320,7 @@ export default function CampaignsList({ initialCampaigns }: CampaignsListProps)
               </div>
               
               {/* Progress bar for campaigns in progress */}
-              {campaign.status === 'processing' && campaign.recipientCount > 0 && (
+              {(campaign.status === 'processing' || campaign.status === 'paused') && campaign.recipientCount > 0 && (
                 <div className="mt-3">
                   <div className="flex justify-between text-xs text-gray-500 mb-1">
                     <span>Progress</span>
@@ -0,0 +1,403 @@
+// components/campaigns/RecurringScheduleForm.tsx
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import { useRouter } from 'next/navigation';
+import { getNextCronOccurrence, isValidTimezone } from '@/lib/cron';
+import { SENDING_PROFILE_PRESETS, DEFAULT_SENDING_PROFILE, SendingProfilePreset } from '@/lib/sending-profile';
+
+interface Template {
+  id: string;
+  name: string;
+  parameters: string[];
+}
+
+interface SmtpConfig {
+  id: string;
+  name: string;
+  isDefault: boolean;
+}
+
+interface ContactGroup {
+  id: string;
+  name: string;
+  contactCount: number;
+}
+
+const CRON_PRESETS = [
+  { label: 'Every Monday at 09:00', value: '0 9 * * 1' },
+  { label: 'Every weekday at 09:00', value: '0 9 * * 1-5' },
+  { label: 'Every day at 08:00', value: '0 8 * * *' },
+  { label: 'First day of the month at 09:00', value: '0 9 1 * *' },
+];
+
+// Occurrences shown as a preview while editing the expression
+const PREVIEW_COUNT = 3;
+
+export default function RecurringScheduleForm() {
+  const router = useRouter();
+  const [name, setName] = useState('');
+  const [templates, setTemplates] = useState<Template[]>([]);
+  const [smtpConfigs, setSmtpConfigs] = useState<SmtpConfig[]>([]);
+  const [contactGroups, setContactGroups] = useState<ContactGroup[]>([]);
+  const [templateId, setTemplateId] = useState('');
+  const [smtpConfigId, setSmtpConfigId] = useState('');
+  const [groupIds, setGroupIds] = useState<string[]>([]);
+  const [paramValues, setParamValues] = useState<Record<string, string>>({});
+  const [cronExpression, setCronExpression] = useState(CRON_PRESETS[0].value);
+  const [timezone, setTimezone] = useState('UTC');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [sendingProfile, setSendingProfile] = useState<SendingProfilePreset>(DEFAULT_SENDING_PROFILE);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    // Default to the browser's timezone
+    setTimezone(Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC');
+
+    const fetchData = async () => {
+      try {
+        const [templatesRes, smtpRes, groupsRes] = await Promise.all([
+          fetch('/api/templates'),
+          fetch('/api/smtp'),
+          fetch('/api/contact-groups'),
+        ]);
+
+        if (templatesRes.ok) {
+          setTemplates(await templatesRes.json());
+        }
+
+        if (smtpRes.ok) {
+          const smtpData: SmtpConfig[] = await smtpRes.json();
+          setSmtpConfigs(smtpData);
+
+          const defaultSmtp = smtpData.find(config => config.isDefault) ?? smtpData[0];
+          if (defaultSmtp) {
+            setSmtpConfigId(defaultSmtp.id);
+          }
+        }
+
+        if (groupsRes.ok) {
+          setContactGroups(await groupsRes.json() || []);
+        }
+      } catch (error) {
+        console.error('Failed to fetch required data:', error);
+        setError('Failed to load required data');
+      }
+    };
+
+    fetchData();
+  }, []);
+
+  const selectedTemplate = templates.find(template => template.id === templateId);
+
+  // Upcoming occurrences, or the reason the expression is invalid
+  const preview = useMemo(() => {
+    if (!isValidTimezone(timezone)) {
+      return { error: `Unknown timezone "${timezone}"`, occurrences: [] };
+    }
+
+    try {
+      const occurrences: Date[] = [];
+      let after = startDate ? new Date(new Date(startDate).getTime() - 1) : new Date();
+
+      while (occurrences.length < PREVIEW_COUNT) {
+        const next = getNextCronOccurrence(cronExpression, timezone, after);
+        if (!next || (endDate && next > new Date(endDate))) {
+          break;
+        }
+        occurrences.push(next);
+        after = next;
+      }
+
+      return { error: null, occurrences };
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : 'Invalid cron expression', occurrences: [] };
+    }
+  }, [cronExpression, timezone, startDate, endDate]);
+
+  const toggleGroup = (groupId: string) => {
+    setGroupIds(prev => prev.includes(groupId)
+      ? prev.filter(id => id !== groupId)
+      : [...prev, groupId]);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      if (groupIds.length === 0) {
+        throw new Error('Please select at least one contact group');
+      }
+
+      if (preview.error) {
+        throw new Error(preview.error);
+      }
+
+      const response = await fetch('/api/schedules', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name,
+          templateId,
+          smtpConfigId,
+          groupIds,
+          paramValues,
+          cronExpression,
+          timezone,
+          startDate: startDate ? new Date(startDate).toISOString() : null,
+          endDate: endDate ? new Date(endDate).toISOString() : null,
+          sendingProfile,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to create schedule');
+      }
+
+      router.push('/dashboard/campaigns/scheduled');
+      router.refresh();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'An error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const formatOccurrence = (date: Date) => new Intl.DateTimeFormat(undefined, {
+    timeZone: isValidTimezone(timezone) ? timezone : 'UTC',
+    dateStyle: 'full',
+    timeStyle: 'short',
+  }).format(date);
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6 bg-white p-6 rounded-lg shadow-sm border border-gray-200">
+      {error && (
+        <div className="p-3 text-sm text-red-700 bg-red-100 rounded-md">{error}</div>
+      )}
+
+      <div>
+        <label htmlFor="scheduleName" className="block text-sm font-medium text-gray-700">
+          Schedule Name*
+        </label>
+        <input
+          id="scheduleName"
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm p-2"
+          placeholder="Weekly newsletter"
+          required
+        />
+        <p className="mt-1 text-xs text-gray-500">Each run creates a campaign named after the schedule and its date.</p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="template" className="block text-sm font-medium text-gray-700">
+            Email Template*
+          </label>
+          <select
+            id="template"
+            value={templateId}
+            onChange={(e) => setTemplateId(e.target.value)}
+            className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm p-2"
+            required
+          >
+            <option value="">Select a template</option>
+            {templates.map((template) => (
+              <option key={template.id} value={template.id}>
+                {template.name}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label htmlFor="smtp" className="block text-sm font-medium text-gray-700">
+            SMTP Configuration*
+          </label>
+          <select
+            id="smtp"
+            value={smtpConfigId}
+            onChange={(e) => setSmtpConfigId(e.target.value)}
+            className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm p-2"
+            required
+          >
+            <option value="">Select SMTP configuration</option>
+            {smtpConfigs.map((config) => (
+              <option key={config.id} value={config.id}>
+                {config.name}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {selectedTemplate && selectedTemplate.parameters.filter(param => param !== 'unsubscribe_url').length > 0 && (
+        <div>
+          <h3 className="text-sm font-medium text-gray-700 mb-2">Default Parameter Values</h3>
+          <div className="space-y-2">
+            {/* unsubscribe_url is filled in per recipient when sending */}
+            {selectedTemplate.parameters.filter(param => param !== 'unsubscribe_url').map((param) => (
+              <div key={param} className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="text-sm text-gray-700">{`{{${param}}}`}</div>
+                <input
+                  type="text"
+                  value={paramValues[param] || ''}
+                  onChange={(e) => setParamValues(prev => ({ ...prev, [param]: e.target.value }))}
+                  className="border border-gray-300 rounded-md shadow-sm p-2"
+                  placeholder={`Default value for ${param}`}
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div>
+        <h3 className="text-sm font-medium text-gray-700 mb-2">Contact Groups*</h3>
+        <p className="text-xs text-gray-500 mb-2">Group members are looked up again at every run.</p>
+        {contactGroups.length === 0 ? (
+          <p className="text-sm text-gray-500">No contact groups found.</p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+            {contactGroups.map((group) => (
+              <label key={group.id} className="flex items-center p-2 border border-gray-200 rounded-md text-sm">
+                <input
+                  type="checkbox"
+                  checked={groupIds.includes(group.id)}
+                  onChange={() => toggleGroup(group.id)}
+                  className="mr-2"
+                />
+                {group.name}
+                <span className="ml-auto text-xs text-gray-500">{group.contactCount} contacts</span>
+              </label>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="cronExpression" className="block text-sm font-medium text-gray-700">
+            Repeat*
+          </label>
+          <select
+            value={CRON_PRESETS.some(preset => preset.value === cronExpression) ? cronExpression : ''}
+            onChange={(e) => e.target.value && setCronExpression(e.target.value)}
+            className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm p-2"
+          >
+            {CRON_PRESETS.map((preset) => (
+              <option key={preset.value} value={preset.value}>
+                {preset.label}
+              </option>
+            ))}
+            <option value="">Custom cron expression</option>
+          </select>
+          <input
+            id="cronExpression"
+            type="text"
+            value={cronExpression}
+            onChange={(e) => setCronExpression(e.target.value)}
+            className="mt-2 block w-full border border-gray-300 rounded-md shadow-sm p-2 font-mono"
+            placeholder="minute hour day-of-month month day-of-week"
+            required
+          />
+        </div>
+
+        <div>
+          <label htmlFor="timezone" className="block text-sm font-medium text-gray-700">
+            Timezone*
+          </label>
+          <input
+            id="timezone"
+            type="text"
+            value={timezone}
+            onChange={(e) => setTimezone(e.target.value)}
+            className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm p-2"
+            placeholder="Asia/Jakarta"
+            required
+          />
+        </div>
+
+        <div>
+          <label htmlFor="startDate" className="block text-sm font-medium text-gray-700">
+            Start Date
+          </label>
+          <input
+            id="startDate"
+            type="datetime-local"
+            value={startDate}
+            onChange={(e) => setStartDate(e.target.value)}
+            className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm p-2"
+          />
+        </div>
+
+        <div>
+          <label htmlFor="endDate" className="block text-sm font-medium text-gray-700">
+            End Date
+          </label>
+          <input
+            id="endDate"
+            type="datetime-local"
+            value={endDate}
+            onChange={(e) => setEndDate(e.target.value)}
+            className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm p-2"
+          />
+        </div>
+      </div>
+
+      <div className="p-3 bg-gray-50 rounded-md text-sm">
+        {preview.error ? (
+          <p className="text-red-600">{preview.error}</p>
+        ) : preview.occurrences.length === 0 ? (
+          <p className="text-red-600">This schedule has no upcoming runs.</p>
+        ) : (
+          <>
+            <p className="font-medium text-gray-700">Next runs</p>
+            <ul className="mt-1 text-gray-600">
+              {preview.occurrences.map((occurrence) => (
+                <li key={occurrence.toISOString()}>{formatOccurrence(occurrence)}</li>
+              ))}
+            </ul>
+          </>
+        )}
+      </div>
+
+      <div>
+        <label htmlFor="sendingProfile" className="block text-sm font-medium text-gray-700">
+          Sending Speed
+        </label>
+        <select
+          id="sendingProfile"
+          value={sendingProfile}
+          onChange={(e) => setSendingProfile(e.target.value as SendingProfilePreset)}
+          className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm p-2"
+        >
+          {(Object.keys(SENDING_PROFILE_PRESETS) as SendingProfilePreset[]).map((preset) => (
+            <option key={preset} value={preset}>
+              {SENDING_PROFILE_PRESETS[preset].label} - {SENDING_PROFILE_PRESETS[preset].description}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex justify-end">
+        <button
+          type="submit"
+          disabled={isLoading || !name || !templateId || !smtpConfigId || groupIds.length === 0}
+          className="px-4 py-2 bg-blue-600 text-white rounded-md disabled:opacity-50 hover:bg-blue-700"
+        >
+          {isLoading ? 'Saving...' : 'Create Schedule'}
+        </button>
+      </div>
+    </form>
+  );
+}
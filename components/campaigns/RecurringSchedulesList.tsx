@@ -0,0 +1,260 @@
+// components/campaigns/RecurringSchedulesList.tsx
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { FiRepeat, FiPause, FiPlay, FiTrash2, FiChevronDown, FiChevronRight } from 'react-icons/fi';
+import { formatDateTime } from '@/lib/utils';
+
+interface ScheduleRun {
+  id: string;
+  name: string;
+  status: string;
+  scheduledRunAt: string | null;
+  recipientCount: number;
+  successCount: number;
+  failCount: number;
+  skippedCount: number;
+}
+
+interface RecurringSchedule {
+  id: string;
+  name: string;
+  cronExpression: string;
+  timezone: string;
+  startDate: string | null;
+  endDate: string | null;
+  isActive: boolean;
+  nextRunAt: string | null;
+  lastRunAt: string | null;
+  lastError: string | null;
+  sendingProfile: string;
+  template: { name: string };
+  groups: Array<{ id: string; name: string }>;
+  runs: ScheduleRun[];
+}
+
+const STATUS_CLASSES: Record<string, string> = {
+  sent: 'bg-green-100 text-green-800',
+  processing: 'bg-blue-100 text-blue-800',
+  partial: 'bg-yellow-100 text-yellow-800',
+  failed: 'bg-red-100 text-red-800',
+  paused: 'bg-orange-100 text-orange-800',
+  cancelled: 'bg-gray-200 text-gray-600',
+};
+
+export default function RecurringSchedulesList() {
+  const [schedules, setSchedules] = useState<RecurringSchedule[]>([]);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [actionId, setActionId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchSchedules = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const response = await fetch('/api/schedules');
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch recurring schedules');
+      }
+
+      setSchedules(await response.json());
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'An error occurred');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchSchedules();
+  }, []);
+
+  const handleToggleActive = async (schedule: RecurringSchedule) => {
+    try {
+      setActionId(schedule.id);
+      const response = await fetch(`/api/schedules/${schedule.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ isActive: !schedule.isActive }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update schedule');
+      }
+
+      setSchedules(prev => prev.map(item => item.id === schedule.id
+        ? { ...item, isActive: data.isActive, nextRunAt: data.nextRunAt }
+        : item));
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'An error occurred');
+    } finally {
+      setActionId(null);
+    }
+  };
+
+  const handleDelete = async (schedule: RecurringSchedule) => {
+    if (!confirm(`Delete the schedule "${schedule.name}"? Campaigns it already sent are kept.`)) {
+      return;
+    }
+
+    try {
+      setActionId(schedule.id);
+      const response = await fetch(`/api/schedules/${schedule.id}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to delete schedule');
+      }
+
+      setSchedules(prev => prev.filter(item => item.id !== schedule.id));
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'An error occurred');
+    } finally {
+      setActionId(null);
+    }
+  };
+
+  if (loading && schedules.length === 0) {
+    return (
+      <div className="flex items-center justify-center h-32">
+        <div className="w-6 h-6 border-t-2 border-b-2 border-blue-500 rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="p-4 text-red-700 bg-red-100 rounded-md">
+        <p>{error}</p>
+        <button
+          onClick={fetchSchedules}
+          className="px-4 py-2 mt-2 text-sm font-medium text-white bg-red-600 rounded-md hover:bg-red-700"
+        >
+          Try Again
+        </button>
+      </div>
+    );
+  }
+
+  if (schedules.length === 0) {
+    return (
+      <div className="p-8 text-center border-2 border-dashed border-gray-300 rounded-md">
+        <p className="text-gray-500">No recurring schedules yet.</p>
+        <p className="mt-2 text-gray-500">
+          Send the same template to a contact group on a repeating schedule.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="overflow-hidden bg-white shadow sm:rounded-md">
+      <ul className="divide-y divide-gray-200">
+        {schedules.map((schedule) => {
+          const isExpanded = expandedId === schedule.id;
+
+          return (
+            <li key={schedule.id} className="px-4 py-4 sm:px-6">
+              <div className="flex items-center justify-between">
+                <div className="truncate">
+                  <div className="flex items-center">
+                    <FiRepeat className="flex-shrink-0 mr-2 w-4 h-4 text-gray-400" />
+                    <p className="font-medium text-blue-600 truncate">{schedule.name}</p>
+                    <span className={`ml-2 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                      !schedule.isActive
+                        ? 'bg-orange-100 text-orange-800'
+                        : schedule.nextRunAt ? 'bg-green-100 text-green-800' : 'bg-gray-200 text-gray-600'
+                    }`}>
+                      {!schedule.isActive ? 'Paused' : schedule.nextRunAt ? 'Active' : 'Ended'}
+                    </span>
+                  </div>
+                  <p className="mt-1 text-sm text-gray-500 truncate">
+                    Template: {schedule.template.name} · Groups: {schedule.groups.map(group => group.name).join(', ')}
+                  </p>
+                  <p className="mt-1 text-sm text-gray-500">
+                    <span className="font-mono">{schedule.cronExpression}</span> ({schedule.timezone})
+                    {schedule.isActive && schedule.nextRunAt && ` · Next run: ${formatDateTime(schedule.nextRunAt)}`}
+                  </p>
+                  {schedule.lastError && (
+                    <p className="mt-1 text-sm text-red-600">Last run failed: {schedule.lastError}</p>
+                  )}
+                </div>
+                <div className="flex space-x-2">
+                  <button
+                    onClick={() => handleToggleActive(schedule)}
+                    disabled={actionId === schedule.id}
+                    className="p-2 text-orange-600 bg-orange-100 rounded-full hover:bg-orange-200 disabled:opacity-50"
+                    title={schedule.isActive ? 'Pause Schedule' : 'Resume Schedule'}
+                  >
+                    {schedule.isActive ? <FiPause className="w-5 h-5" /> : <FiPlay className="w-5 h-5" />}
+                  </button>
+                  <button
+                    onClick={() => handleDelete(schedule)}
+                    disabled={actionId === schedule.id}
+                    className="p-2 text-red-600 bg-red-100 rounded-full hover:bg-red-200 disabled:opacity-50"
+                    title="Delete Schedule"
+                  >
+                    <FiTrash2 className="w-5 h-5" />
+                  </button>
+                </div>
+              </div>
+
+              <button
+                onClick={() => setExpandedId(isExpanded ? null : schedule.id)}
+                className="inline-flex items-center mt-2 text-sm text-gray-600 hover:text-gray-900"
+              >
+                {isExpanded ? <FiChevronDown className="w-4 h-4 mr-1" /> : <FiChevronRight className="w-4 h-4 mr-1" />}
+                Run history ({schedule.runs.length})
+              </button>
+
+              {isExpanded && (
+                schedule.runs.length === 0 ? (
+                  <p className="mt-2 text-sm text-gray-500">This schedule hasn&apos;t run yet.</p>
+                ) : (
+                  <table className="min-w-full mt-2 divide-y divide-gray-200 text-sm">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-3 py-2 text-left font-medium text-gray-500">Run</th>
+                        <th className="px-3 py-2 text-left font-medium text-gray-500">Status</th>
+                        <th className="px-3 py-2 text-left font-medium text-gray-500">Recipients</th>
+                        <th className="px-3 py-2 text-left font-medium text-gray-500">Sent / Failed / Skipped</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200">
+                      {schedule.runs.map((run) => (
+                        <tr key={run.id}>
+                          <td className="px-3 py-2">
+                            <Link href={`/dashboard/campaigns/${run.id}`} className="text-blue-600 hover:text-blue-500">
+                              {formatDateTime(run.scheduledRunAt)}
+                            </Link>
+                          </td>
+                          <td className="px-3 py-2">
+                            <span className={`px-2 py-0.5 text-xs rounded-full ${STATUS_CLASSES[run.status] ?? 'bg-gray-100 text-gray-800'}`}>
+                              {run.status}
+                            </span>
+                          </td>
+                          <td className="px-3 py-2 text-gray-600">{run.recipientCount}</td>
+                          <td className="px-3 py-2 text-gray-600">
+                            {run.successCount} / {run.failCount} / {run.skippedCount}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -4,7 +4,8 @@
 import { useState, useEffect } from 'react';
 import Link from 'next/link';
 import { useRouter } from 'next/navigation';
-import { FiCalendar, FiClock, FiPlay, FiEdit, FiTrash2 } from 'react-icons/fi';
+import { FiCalendar, FiClock, FiPlay, FiEdit, FiTrash2, FiXCircle } from 'react-icons/fi';
+import { formatDateTimeInZone } from '@/lib/utils';
 
 interface Campaign {
   id: string;
@@ -12,6 +13,7 @@ interface Campaign {
   status: string;
   recipientCount: number;
   scheduledFor: string | null; // Keep as string to avoid hydration issues
+  scheduledTimezone: string | null; // Zone the schedule was entered in
   template: {
     name: string;
   };
@@ -77,6 +79,31 @@ export default function ScheduledCampaignsList({ initialCampaigns }: ScheduledCa
     }
   };
   
+  const handleUnschedule = async (campaignId: string) => {
+    if (!confirm('Take this campaign off the schedule? It will be saved as a draft.')) {
+      return;
+    }
+    
+    try {
+      setLoading(true);
+      const response = await fetch(`/api/email/scheduled/${campaignId}`, {
+        method: 'DELETE',
+      });
+      
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to unschedule campaign');
+      }
+      
+      setCampaigns(campaigns.filter(c => c.id !== campaignId));
+      router.refresh();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'An error occurred');
+    } finally {
+      setLoading(false);
+    }
+  };
+  
   const handleDeleteCampaign = async (campaignId: string) => {
     if (!confirm('Are you sure you want to delete this scheduled campaign?')) {
       return;
@@ -104,7 +131,7 @@ export default function ScheduledCampaignsList({ initialCampaigns }: ScheduledCa
   };
   
   // Client-side only function - safe to use after hydration
-  const formatScheduledTime = (dateStr: string | null) => {
+  const formatScheduledTime = (dateStr: string | null, timezone: string | null) => {
     if (!dateStr) return 'Not scheduled';
     
     // Only format on client side to avoid hydration mismatch
@@ -112,13 +139,15 @@ export default function ScheduledCampaignsList({ initialCampaigns }: ScheduledCa
       return dateStr; // Return the raw string during server rendering
     }
     
-    try {
-      const date = new Date(dateStr);
-      return date.toLocaleString();
-    // eslint-disable-next-line @typescript-eslint/no-unused-vars
-    } catch (e) {
-      return 'Invalid date';
+    // In the user's timezone, plus the one it was scheduled in if that differs
+    const localTime = formatDateTimeInZone(dateStr);
+    const browserTimezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+    
+    if (!timezone || timezone === browserTimezone) {
+      return localTime;
     }
+    
+    return `${localTime} (${formatDateTimeInZone(dateStr, timezone)} ${timezone})`;
   };
   
   // Client-side only function - safe to use after hydration
@@ -225,12 +254,19 @@ export default function ScheduledCampaignsList({ initialCampaigns }: ScheduledCa
                     <FiPlay className="w-5 h-5" />
                   </button>
                   <Link
-                    href={`/dashboard/campaigns/edit/${campaign.id}`}
+                    href={`/dashboard/campaigns/edit/${campaign.id}/schedule`}
                     className="p-2 text-blue-600 bg-blue-100 rounded-full hover:bg-blue-200"
-                    title="Edit Campaign"
+                    title="Reschedule"
                   >
                     <FiEdit className="w-5 h-5" />
                   </Link>
+                  <button
+                    onClick={() => handleUnschedule(campaign.id)}
+                    className="p-2 text-gray-600 bg-gray-100 rounded-full hover:bg-gray-200"
+                    title="Unschedule"
+                  >
+                    <FiXCircle className="w-5 h-5" />
+                  </button>
                   <button
                     onClick={() => handleDeleteCampaign(campaign.id)}
                     className="p-2 text-red-600 bg-red-100 rounded-full hover:bg-red-200"
@@ -245,7 +281,7 @@ export default function ScheduledCampaignsList({ initialCampaigns }: ScheduledCa
                   <div className="flex items-center text-sm text-gray-500">
                     <FiCalendar className="flex-shrink-0 mr-1.5 h-5 w-5 text-gray-400" />
                     {isClient ? (
-                      <span>Scheduled for: {formatScheduledTime(campaign.scheduledFor)}</span>
+                      <span>Scheduled for: {formatScheduledTime(campaign.scheduledFor, campaign.scheduledTimezone)}</span>
                     ) : (
                       <span>Scheduled for: {campaign.scheduledFor ? new Date(campaign.scheduledFor).toISOString() : 'Not scheduled'}</span>
                     )}
@@ -0,0 +1,115 @@
+// components/campaigns/SendingHaltControl.tsx
+'use client';
+
+import { useState } from 'react';
+import { FiAlertOctagon, FiPlay } from 'react-icons/fi';
+
+interface SendingHalt {
+  scope: 'instance' | 'user';
+  reason: string | null;
+  haltedAt: string | null;
+}
+
+interface SendingHaltControlProps {
+  initialHalt: SendingHalt | null;
+}
+
+export default function SendingHaltControl({ initialHalt }: SendingHaltControlProps) {
+  const [halt, setHalt] = useState<SendingHalt | null>(initialHalt);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  
+  const updateHalt = async (method: 'POST' | 'DELETE', reason?: string) => {
+    try {
+      setLoading(true);
+      setError(null);
+      
+      const response = await fetch('/api/sending-halt', {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: method === 'POST' ? JSON.stringify({ reason }) : undefined,
+      });
+      
+      const data = await response.json();
+      
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update sending status');
+      }
+      
+      setHalt(data.halt);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'An error occurred');
+    } finally {
+      setLoading(false);
+    }
+  };
+  
+  const handleStop = () => {
+    const reason = prompt('Stop all sending for your account? Running campaigns pause after the email in flight.\n\nReason (optional):');
+    
+    // Cancelled
+    if (reason === null) {
+      return;
+    }
+    
+    updateHalt('POST', reason);
+  };
+  
+  if (!halt) {
+    return (
+      <div className="flex flex-col items-end mb-4">
+        <button
+          type="button"
+          onClick={handleStop}
+          disabled={loading}
+          className="flex items-center px-4 py-2 text-sm font-medium text-red-600 bg-red-100 rounded-md hover:bg-red-200 focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-2 disabled:opacity-50"
+        >
+          <FiAlertOctagon className="w-4 h-4 mr-2" />
+          {loading ? 'Stopping...' : 'Stop all sending'}
+        </button>
+        {error && <p className="mt-1 text-xs text-red-600">{error}</p>}
+      </div>
+    );
+  }
+  
+  return (
+    <div className="p-4 mb-6 border border-red-200 rounded-md bg-red-50">
+      <div className="flex items-start justify-between">
+        <div className="flex">
+          <FiAlertOctagon className="flex-shrink-0 w-5 h-5 mt-0.5 text-red-500" />
+          <div className="ml-3">
+            <h3 className="text-sm font-medium text-red-800">
+              {halt.scope === 'instance' ? 'Sending is stopped for all users' : 'Sending is stopped for your account'}
+            </h3>
+            <p className="mt-1 text-sm text-red-700">
+              {halt.reason && <>Reason: {halt.reason}. </>}
+              Campaigns, schedules and proofs are on hold and nothing is lost; they carry on once sending is resumed.
+            </p>
+            {halt.haltedAt && (
+              <p className="mt-1 text-xs text-red-600">
+                Since {new Date(halt.haltedAt).toLocaleString()}
+              </p>
+            )}
+            {halt.scope === 'instance' && (
+              <p className="mt-1 text-xs text-red-600">
+                Only an administrator can resume sending.
+              </p>
+            )}
+          </div>
+        </div>
+        {halt.scope === 'user' && (
+          <button
+            type="button"
+            onClick={() => updateHalt('DELETE')}
+            disabled={loading}
+            className="flex items-center flex-shrink-0 px-3 py-1.5 ml-4 text-sm font-medium text-white bg-green-600 rounded-md hover:bg-green-700 disabled:opacity-50"
+          >
+            <FiPlay className="w-4 h-4 mr-1" />
+            {loading ? 'Resuming...' : 'Resume sending'}
+          </button>
+        )}
+      </div>
+      {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
@@ -14,6 +14,8 @@ import {
   FiBarChart2, 
   FiLogOut,
   FiClock,
+  FiSlash,
+  FiInbox,
   FiMenu,
   FiX
 } from 'react-icons/fi';
@@ -116,6 +118,16 @@ export default function Sidebar() {
       href: '/dashboard/contacts',
       icon: <FiUsers className="w-5 h-5" />,
     },
+    {
+      name: 'Suppressions',
+      href: '/dashboard/suppressions',
+      icon: <FiSlash className="w-5 h-5" />,
+    },
+    {
+      name: 'Outbox',
+      href: '/dashboard/outbox',
+      icon: <FiInbox className="w-5 h-5" />,
+    },
     {
       name: 'Analytics',
       href: '/dashboard/analytics',
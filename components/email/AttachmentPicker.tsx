@@ -0,0 +1,165 @@
+// components/email/AttachmentPicker.tsx
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import { FiPaperclip, FiTrash2, FiUpload } from 'react-icons/fi';
+import { formatFileSize } from '@/lib/utils';
+
+interface LibraryAttachment {
+  id: string;
+  fileName: string;
+  contentType: string;
+  size: number;
+}
+
+interface AttachmentPickerProps {
+  selectedIds: string[];
+  onChange: (ids: string[]) => void;
+  // Attachments that are already included elsewhere (e.g. by the template) and can't be unticked
+  lockedIds?: string[];
+}
+
+export default function AttachmentPicker({ selectedIds, onChange, lockedIds = [] }: Readonly<AttachmentPickerProps>) {
+  const [attachments, setAttachments] = useState<LibraryAttachment[]>([]);
+  const [uploading, setUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    const fetchAttachments = async () => {
+      const response = await fetch('/api/attachments');
+      if (response.ok) {
+        setAttachments(await response.json());
+      }
+    };
+
+    fetchAttachments();
+  }, []);
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) {
+      return;
+    }
+
+    try {
+      setUploading(true);
+      setError(null);
+
+      const formData = new FormData();
+      formData.append('file', file);
+
+      const response = await fetch('/api/attachments', {
+        method: 'POST',
+        body: formData,
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to upload file');
+      }
+
+      setAttachments(prev => [data, ...prev]);
+      onChange([...selectedIds, data.id]);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'An error occurred');
+    } finally {
+      setUploading(false);
+      if (fileInputRef.current) {
+        fileInputRef.current.value = '';
+      }
+    }
+  };
+
+  const handleDelete = async (attachment: LibraryAttachment) => {
+    if (!confirm(`Delete "${attachment.fileName}" from the library? Templates using it will lose it.`)) {
+      return;
+    }
+
+    try {
+      setError(null);
+      const response = await fetch(`/api/attachments/${attachment.id}`, { method: 'DELETE' });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to delete file');
+      }
+
+      setAttachments(prev => prev.filter(item => item.id !== attachment.id));
+      onChange(selectedIds.filter(id => id !== attachment.id));
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'An error occurred');
+    }
+  };
+
+  const toggle = (id: string) => {
+    onChange(selectedIds.includes(id) ? selectedIds.filter(item => item !== id) : [...selectedIds, id]);
+  };
+
+  const totalBytes = attachments
+    .filter(attachment => selectedIds.includes(attachment.id) || lockedIds.includes(attachment.id))
+    .reduce((sum, attachment) => sum + attachment.size, 0);
+
+  return (
+    <div className="space-y-2">
+      {error && (
+        <div className="p-3 text-sm text-red-700 bg-red-100 rounded-md">{error}</div>
+      )}
+
+      {attachments.length === 0 ? (
+        <p className="text-sm text-gray-500">The attachment library is empty.</p>
+      ) : (
+        <ul className="max-h-56 overflow-y-auto divide-y divide-gray-200 border border-gray-200 rounded-md">
+          {attachments.map(attachment => {
+            const locked = lockedIds.includes(attachment.id);
+
+            return (
+              <li key={attachment.id} className="flex items-center justify-between px-3 py-2 text-sm">
+                <label className="flex items-center">
+                  <input
+                    type="checkbox"
+                    checked={locked || selectedIds.includes(attachment.id)}
+                    disabled={locked}
+                    onChange={() => toggle(attachment.id)}
+                    className="mr-2"
+                  />
+                  <FiPaperclip className="w-4 h-4 mr-1 text-gray-400" />
+                  {attachment.fileName}
+                  <span className="ml-2 text-gray-500">{formatFileSize(attachment.size)}</span>
+                  {locked && <span className="ml-2 text-xs text-gray-500">(from template)</span>}
+                </label>
+                <button
+                  type="button"
+                  onClick={() => handleDelete(attachment)}
+                  className="text-red-600 hover:text-red-800"
+                  title="Delete from library"
+                >
+                  <FiTrash2 className="w-4 h-4" />
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <div className="flex items-center justify-between">
+        <p className="text-xs text-gray-500">
+          {totalBytes > 0 && `${formatFileSize(totalBytes)} attached. `}
+          Each SMTP configuration limits the total per email (10 MB unless set).
+        </p>
+        <label className="inline-flex items-center px-3 py-1.5 text-sm font-medium text-blue-600 border border-blue-600 rounded-md cursor-pointer hover:bg-blue-50">
+          <FiUpload className="w-4 h-4 mr-1" />
+          {uploading ? 'Uploading...' : 'Upload File'}
+          <input
+            ref={fileInputRef}
+            type="file"
+            onChange={handleUpload}
+            disabled={uploading}
+            className="hidden"
+          />
+        </label>
+      </div>
+    </div>
+  );
+}
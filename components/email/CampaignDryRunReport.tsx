@@ -0,0 +1,222 @@
+// components/email/CampaignDryRunReport.tsx
+'use client';
+
+import { useState } from 'react';
+import { FiCheckCircle, FiAlertTriangle, FiChevronLeft, FiChevronRight } from 'react-icons/fi';
+import { formatDateTime, formatFileSize } from '@/lib/utils';
+
+type IssueType = 'missing_parameter' | 'empty_field' | 'invalid_email' | 'suppressed' | 'duplicate' | 'oversized';
+
+interface DryRunReport {
+  checkedAt: string;
+  totalRecipients: number;
+  readyCount: number;
+  issueCounts: Record<IssueType, number>;
+  issues: Array<{
+    recipientId: string;
+    email: string;
+    type: IssueType;
+    message: string;
+  }>;
+  size: {
+    averageBytes: number;
+    maxBytes: number;
+  };
+  samples: Array<{
+    recipientId: string;
+    email: string;
+    subject: string;
+    html: string;
+    sizeBytes: number;
+  }>;
+}
+
+const ISSUE_LABELS: Record<IssueType, string> = {
+  missing_parameter: 'Missing parameters',
+  empty_field: 'Empty fields',
+  invalid_email: 'Invalid addresses',
+  suppressed: 'Suppressed addresses',
+  duplicate: 'Duplicates',
+  oversized: 'Oversized emails',
+};
+
+interface CampaignDryRunReportProps {
+  campaignId: string;
+}
+
+export default function CampaignDryRunReport({ campaignId }: Readonly<CampaignDryRunReportProps>) {
+  const [report, setReport] = useState<DryRunReport | null>(null);
+  const [sampleIndex, setSampleIndex] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const runDryRun = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const response = await fetch(`/api/email/${campaignId}/dry-run`, {
+        method: 'POST',
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to run dry run');
+      }
+
+      setReport(data);
+      setSampleIndex(0);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'An error occurred');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const sample = report?.samples[sampleIndex];
+  const issueTotal = report ? Object.values(report.issueCounts).reduce((sum, count) => sum + count, 0) : 0;
+
+  return (
+    <div className="space-y-6">
+      <div className="p-6 bg-white rounded-lg shadow">
+        <div className="flex justify-between items-center">
+          <div>
+            <h3 className="text-lg font-medium text-gray-900">Pre-flight Check</h3>
+            <p className="mt-1 text-sm text-gray-500">
+              Renders the email for every recipient without sending anything.
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={runDryRun}
+            disabled={loading}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            {loading ? 'Checking...' : report ? 'Run Again' : 'Run Dry Run'}
+          </button>
+        </div>
+
+        {error && (
+          <div className="p-4 mt-4 text-red-700 bg-red-100 rounded-md">
+            <p>{error}</p>
+          </div>
+        )}
+
+        {report && (
+          <div className="mt-6 space-y-4">
+            <div className={`flex items-center p-4 rounded-md ${issueTotal === 0 ? 'bg-green-50 text-green-800' : 'bg-yellow-50 text-yellow-800'}`}>
+              {issueTotal === 0
+                ? <FiCheckCircle className="flex-shrink-0 w-5 h-5 mr-2" />
+                : <FiAlertTriangle className="flex-shrink-0 w-5 h-5 mr-2" />}
+              <p className="text-sm">
+                {report.readyCount} of {report.totalRecipients} recipients are ready to send
+                {issueTotal > 0 && `; ${issueTotal} issues found`}.
+                <span className="ml-1 text-gray-500">Checked {formatDateTime(report.checkedAt)}</span>
+              </p>
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              {(Object.keys(ISSUE_LABELS) as IssueType[]).map(type => (
+                <div key={type}>
+                  <p className="text-sm font-medium text-gray-500">{ISSUE_LABELS[type]}</p>
+                  <p className={`mt-1 text-sm ${report.issueCounts[type] > 0 ? 'font-semibold text-red-600' : 'text-gray-900'}`}>
+                    {report.issueCounts[type]}
+                  </p>
+                </div>
+              ))}
+              <div>
+                <p className="text-sm font-medium text-gray-500">Average size</p>
+                <p className="mt-1 text-sm text-gray-900">{formatFileSize(report.size.averageBytes)}</p>
+              </div>
+              <div>
+                <p className="text-sm font-medium text-gray-500">Largest email</p>
+                <p className="mt-1 text-sm text-gray-900">{formatFileSize(report.size.maxBytes)}</p>
+              </div>
+            </div>
+
+            {report.issues.length > 0 && (
+              <div className="overflow-x-auto max-h-80 border border-gray-200 rounded-md">
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                  <thead className="bg-gray-50 sticky top-0">
+                    <tr>
+                      <th className="px-4 py-2 text-left font-medium text-gray-500">Recipient</th>
+                      <th className="px-4 py-2 text-left font-medium text-gray-500">Issue</th>
+                      <th className="px-4 py-2 text-left font-medium text-gray-500">Details</th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {report.issues.map((issue, index) => (
+                      <tr key={`${issue.recipientId}-${index}`}>
+                        <td className="px-4 py-2 text-gray-900">{issue.email || '-'}</td>
+                        <td className="px-4 py-2 text-gray-600">{ISSUE_LABELS[issue.type]}</td>
+                        <td className="px-4 py-2 text-gray-600">{issue.message}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+            {report.issues.length < issueTotal && (
+              <p className="text-sm text-gray-500">
+                Showing the first {report.issues.length} of {issueTotal} issues.
+              </p>
+            )}
+          </div>
+        )}
+      </div>
+
+      {sample && (
+        <div className="p-6 bg-white rounded-lg shadow">
+          <div className="flex justify-between items-center mb-4">
+            <h3 className="text-lg font-medium text-gray-900">Rendered Samples</h3>
+            <div className="flex items-center space-x-2 text-sm text-gray-600">
+              <button
+                type="button"
+                onClick={() => setSampleIndex(index => index - 1)}
+                disabled={sampleIndex === 0}
+                className="p-1 rounded hover:bg-gray-100 disabled:opacity-30"
+                title="Previous sample"
+              >
+                <FiChevronLeft className="w-5 h-5" />
+              </button>
+              <span>{sampleIndex + 1} / {report!.samples.length}</span>
+              <button
+                type="button"
+                onClick={() => setSampleIndex(index => index + 1)}
+                disabled={sampleIndex >= report!.samples.length - 1}
+                className="p-1 rounded hover:bg-gray-100 disabled:opacity-30"
+                title="Next sample"
+              >
+                <FiChevronRight className="w-5 h-5" />
+              </button>
+            </div>
+          </div>
+
+          <div className="mb-4 grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+            <div>
+              <p className="font-medium text-gray-500">To</p>
+              <p className="mt-1 text-gray-900">{sample.email}</p>
+            </div>
+            <div>
+              <p className="font-medium text-gray-500">Subject</p>
+              <p className="mt-1 text-gray-900">{sample.subject}</p>
+            </div>
+            <div>
+              <p className="font-medium text-gray-500">Size</p>
+              <p className="mt-1 text-gray-900">{formatFileSize(sample.sizeBytes)}</p>
+            </div>
+          </div>
+
+          {/* Sandboxed so template scripts can't run in the dashboard */}
+          <iframe
+            title={`Rendered email for ${sample.email}`}
+            srcDoc={sample.html}
+            sandbox=""
+            className="w-full h-96 border border-gray-200 rounded-md"
+          />
+        </div>
+      )}
+    </div>
+  );
+}
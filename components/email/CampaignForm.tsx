@@ -5,11 +5,33 @@ import { useState, useEffect } from 'react';
 import { useRouter, useSearchParams } from 'next/navigation';
 import { FiClock, FiUpload, FiUsers, FiUserPlus } from 'react-icons/fi';
 import ExcelFileUploader from './ExcelFileUploader';
+import ProofSendPanel from './ProofSendPanel';
+import AttachmentPicker from './AttachmentPicker';
+import MessageOptionsFields, {
+  EMPTY_MESSAGE_OPTIONS,
+  MessageOptionsValue,
+  toMessageOptionsPayload,
+  toMessageOptionsValue,
+} from './MessageOptionsFields';
+import {
+  SENDING_PROFILE_PRESETS,
+  DEFAULT_SENDING_PROFILE,
+  SendingProfileName,
+  SendingProfilePreset,
+} from '@/lib/sending-profile';
+import { isValidTimezone, zonedTimeToDate } from '@/lib/cron';
 
 interface Template {
   id: string;
   name: string;
   parameters: string[];
+  attachments: Array<{ attachmentId: string }>;
+  replyTo: string | null;
+  cc: string | null;
+  bcc: string | null;
+  preheader: string | null;
+  listId: string | null;
+  customHeaders: unknown;
 }
 
 interface SmtpConfig {
@@ -18,6 +40,13 @@ interface SmtpConfig {
   isDefault: boolean;
 }
 
+const ROUTING_POLICY_OPTIONS = [
+  { value: 'pinned', label: 'Pinned', description: 'Send everything through the selected SMTP' },
+  { value: 'fallback', label: 'Primary with fallback', description: 'Use the selected SMTP, switch to the others when it fails or runs out of quota' },
+  { value: 'round_robin', label: 'Round-robin', description: 'Rotate through all selected SMTPs one email at a time' },
+  { value: 'weighted', label: 'Weighted', description: 'Spread emails across the selected SMTPs by weight' },
+];
+
 interface Contact {
   id: string;
   email: string;
@@ -38,7 +67,14 @@ export default function CampaignForm() {
   const [selectedSmtp, setSelectedSmtp] = useState('');
   const [templates, setTemplates] = useState<Template[]>([]);
   const [smtpConfigs, setSmtpConfigs] = useState<SmtpConfig[]>([]);
+  const [smtpRoutingPolicy, setSmtpRoutingPolicy] = useState('pinned');
+  // Extra SMTP configs in the pool, keyed by id with their weight
+  const [smtpPoolWeights, setSmtpPoolWeights] = useState<Record<string, string>>({});
   const [paramValues, setParamValues] = useState<Record<string, string>>({});
+  // Library files added on top of the template's attachments
+  const [attachmentIds, setAttachmentIds] = useState<string[]>([]);
+  // Overrides of the template's message options, empty fields inherit
+  const [messageOptions, setMessageOptions] = useState<MessageOptionsValue>(EMPTY_MESSAGE_OPTIONS);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [step, setStep] = useState(1);
@@ -52,14 +88,54 @@ export default function CampaignForm() {
   const [contacts, setContacts] = useState<Contact[]>([]);
   const [contactGroups, setContactGroups] = useState<ContactGroup[]>([]);
   
+  // Sending profile
+  const [sendingProfile, setSendingProfile] = useState<SendingProfileName>(DEFAULT_SENDING_PROFILE);
+  // Custom values start from the default preset
+  const defaultPreset = SENDING_PROFILE_PRESETS[DEFAULT_SENDING_PROFILE];
+  const [customProfile, setCustomProfile] = useState({
+    batchSize: String(defaultPreset.batchSize),
+    messageDelayMs: String(defaultPreset.messageDelayMs),
+    maxPerMinute: String(defaultPreset.maxPerMinute ?? ''),
+    concurrency: String(defaultPreset.concurrency),
+  });
+  
+  const profileOptions: Array<{ name: SendingProfileName; label: string; description: string; summary?: string }> = [
+    ...(Object.keys(SENDING_PROFILE_PRESETS) as SendingProfilePreset[]).map(name => {
+      const preset = SENDING_PROFILE_PRESETS[name];
+      return {
+        name,
+        label: preset.label,
+        description: preset.description,
+        summary: `${preset.maxPerMinute ? `${preset.maxPerMinute}/min` : 'No cap'} · batches of ${preset.batchSize}`,
+      };
+    }),
+    { name: 'custom', label: 'Custom', description: 'Set your own batch size, delay and limits' },
+  ];
+  
   // Scheduling
   const [isScheduled, setIsScheduled] = useState(false);
   const [scheduledDate, setScheduledDate] = useState('');
   const [scheduledTime, setScheduledTime] = useState('');
+  const [scheduledTimezone, setScheduledTimezone] = useState('UTC');
 
   // Automatic sending - default to true if not scheduled
   const [sendImmediately, setSendImmediately] = useState(true);
   
+  // A/B test; an empty subject or template means "same as the campaign"
+  const [abTestEnabled, setAbTestEnabled] = useState(false);
+  const [abVariants, setAbVariants] = useState([
+    { subject: '', templateId: '' },
+    { subject: '', templateId: '' },
+  ]);
+  const [abTestMetric, setAbTestMetric] = useState<'open' | 'click'>('open');
+  const [abTestSamplePercent, setAbTestSamplePercent] = useState('20');
+  const [abTestWaitHours, setAbTestWaitHours] = useState('4');
+  
+  useEffect(() => {
+    // Schedules are entered in the browser's timezone unless changed
+    setScheduledTimezone(Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC');
+  }, []);
+  
   useEffect(() => {
     // Fetch templates, SMTP configs, contacts, and groups
     const fetchData = async () => {
@@ -175,14 +251,25 @@ export default function CampaignForm() {
         throw new Error('Please select at least one contact');
       }
       
+      if (abTestEnabled) {
+        const distinctVariants = new Set(abVariants.map(variant => `${variant.subject.trim()}|${variant.templateId}`));
+        if (distinctVariants.size !== abVariants.length) {
+          throw new Error('Each A/B test variant needs a different subject or template');
+        }
+      }
+      
       // Validate schedule if enabled
       if (isScheduled) {
         if (!scheduledDate || !scheduledTime) {
           throw new Error('Please set a complete schedule date and time');
         }
         
-        const scheduledDateTime = new Date(`${scheduledDate}T${scheduledTime}`);
-        if (scheduledDateTime <= new Date()) {
+        if (!isValidTimezone(scheduledTimezone)) {
+          throw new Error(`Unknown timezone "${scheduledTimezone}"`);
+        }
+        
+        const scheduledDateTime = zonedTimeToDate(`${scheduledDate}T${scheduledTime}`, scheduledTimezone);
+        if (!scheduledDateTime || scheduledDateTime <= new Date()) {
           throw new Error('Scheduled time must be in the future');
         }
       }
@@ -192,12 +279,18 @@ export default function CampaignForm() {
       formData.append('name', campaignName);
       formData.append('templateId', selectedTemplateId);
       formData.append('smtpConfigId', selectedSmtp);
+      formData.append('smtpRoutingPolicy', smtpRoutingPolicy);
+      if (smtpRoutingPolicy !== 'pinned') {
+        const smtpPool = Object.entries(smtpPoolWeights).map(([smtpConfigId, weight]) => ({ smtpConfigId, weight: Number(weight) || 1 }));
+        formData.append('smtpPool', JSON.stringify(smtpPool));
+      }
       
       // Add scheduling parameters
       formData.append('isScheduled', isScheduled.toString());
       if (isScheduled) {
-        const scheduledDateTime = new Date(`${scheduledDate}T${scheduledTime}`);
-        formData.append('scheduledFor', scheduledDateTime.toISOString());
+        // Sent as wall-clock time; the server converts it in the chosen timezone
+        formData.append('scheduledFor', `${scheduledDate}T${scheduledTime}`);
+        formData.append('scheduledTimezone', scheduledTimezone);
       }
       
       // Add automatic sending parameter
@@ -218,6 +311,30 @@ export default function CampaignForm() {
       // Add parameter values
       formData.append('paramValues', JSON.stringify(paramValues));
       
+      // Add sending profile; the server resolves presets and clamps custom values
+      formData.append('sendingProfile', sendingProfile);
+      if (sendingProfile === 'custom') {
+        formData.append('batchSize', customProfile.batchSize);
+        formData.append('messageDelayMs', customProfile.messageDelayMs);
+        formData.append('maxPerMinute', customProfile.maxPerMinute);
+        formData.append('concurrency', customProfile.concurrency);
+      }
+      
+      if (attachmentIds.length > 0) {
+        formData.append('attachmentIds', JSON.stringify(attachmentIds));
+      }
+      
+      formData.append('messageOptions', JSON.stringify(toMessageOptionsPayload(messageOptions)));
+      
+      if (abTestEnabled) {
+        formData.append('abTest', JSON.stringify({
+          variants: abVariants,
+          metric: abTestMetric,
+          samplePercent: Number(abTestSamplePercent),
+          waitMinutes: Math.round(Number(abTestWaitHours) * 60),
+        }));
+      }
+      
       // Send request
       const response = await fetch('/api/email', {
         method: 'POST',
@@ -311,6 +428,73 @@ export default function CampaignForm() {
             </select>
           </div>
           
+          {smtpConfigs.length > 1 && (
+            <div>
+              <label htmlFor="smtpRoutingPolicy" className="block text-sm font-medium text-gray-700">
+                SMTP Routing
+              </label>
+              <select
+                id="smtpRoutingPolicy"
+                value={smtpRoutingPolicy}
+                onChange={(e) => setSmtpRoutingPolicy(e.target.value)}
+                className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm p-2"
+              >
+                {ROUTING_POLICY_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+              <p className="mt-1 text-xs text-gray-500">
+                {ROUTING_POLICY_OPTIONS.find(option => option.value === smtpRoutingPolicy)?.description}
+              </p>
+              
+              {smtpRoutingPolicy !== 'pinned' && (
+                <div className="mt-3 space-y-2">
+                  {smtpConfigs.map((config) => {
+                    const isPrimary = config.id === selectedSmtp;
+                    const inPool = isPrimary || config.id in smtpPoolWeights;
+                    
+                    return (
+                      <div key={config.id} className="flex items-center justify-between p-2 border border-gray-200 rounded-md">
+                        <label className="flex items-center text-sm text-gray-700">
+                          <input
+                            type="checkbox"
+                            checked={inPool}
+                            disabled={isPrimary}
+                            onChange={(e) => setSmtpPoolWeights(prev => {
+                              const next = { ...prev };
+                              if (e.target.checked) {
+                                next[config.id] = '1';
+                              } else {
+                                delete next[config.id];
+                              }
+                              return next;
+                            })}
+                            className="mr-2"
+                          />
+                          {config.name}
+                          {isPrimary && <span className="ml-2 text-xs text-gray-500">(primary)</span>}
+                        </label>
+                        {smtpRoutingPolicy === 'weighted' && inPool && (
+                          <input
+                            type="number"
+                            min={1}
+                            max={100}
+                            aria-label={`Weight for ${config.name}`}
+                            value={smtpPoolWeights[config.id] ?? '1'}
+                            onChange={(e) => setSmtpPoolWeights(prev => ({ ...prev, [config.id]: e.target.value }))}
+                            className="w-20 border border-gray-300 rounded-md p-1 text-sm"
+                          />
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+          )}
+          
           <div className="flex justify-end">
             <button
               type="button"
@@ -500,7 +684,8 @@ export default function CampaignForm() {
               </p>
               
               <div className="space-y-4">
-                {templateDetails.parameters.map((param) => (
+                {/* unsubscribe_url is filled in per recipient when sending */}
+                {templateDetails.parameters.filter(param => param !== 'unsubscribe_url').map((param) => (
                   <div key={param} className="grid grid-cols-1 md:grid-cols-2 gap-4">
                     <div className="text-sm font-medium text-gray-700">
                       {`{{${param}}}`}
@@ -518,6 +703,253 @@ export default function CampaignForm() {
             </div>
           )}
           
+          {/* Attachments */}
+          <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-200">
+            <h3 className="text-lg font-medium mb-2">Attachments</h3>
+            <p className="text-sm text-gray-500 mb-4">
+              The template&apos;s attachments are always included. A column named &quot;attachment&quot; in the
+              recipient file can name library files to add for individual recipients.
+            </p>
+            <AttachmentPicker
+              selectedIds={attachmentIds}
+              onChange={setAttachmentIds}
+              lockedIds={templateDetails?.attachments.map(link => link.attachmentId) ?? []}
+            />
+          </div>
+          
+          {/* Message options */}
+          <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-200">
+            <h3 className="text-lg font-medium mb-2">Message Options</h3>
+            <p className="text-sm text-gray-500 mb-4">
+              Reply-To, copies, preview text and extra headers for this campaign.
+            </p>
+            <MessageOptionsFields
+              value={messageOptions}
+              onChange={setMessageOptions}
+              inherited={toMessageOptionsValue(templateDetails)}
+            />
+          </div>
+          
+          {/* Proof */}
+          {selectedTemplateId && selectedSmtp && (
+            <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-200">
+              <h3 className="text-lg font-medium mb-4">Send a Proof</h3>
+              <ProofSendPanel
+                templateId={selectedTemplateId}
+                smtpConfigId={selectedSmtp}
+                parameterValues={paramValues}
+                messageOptions={toMessageOptionsPayload(messageOptions)}
+              />
+            </div>
+          )}
+          
+          {/* A/B test */}
+          <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-200">
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-lg font-medium">A/B Test</h3>
+              <label className="flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={abTestEnabled}
+                  onChange={(e) => setAbTestEnabled(e.target.checked)}
+                  className="mr-2"
+                />
+                Test variants before sending to everyone
+              </label>
+            </div>
+            
+            {abTestEnabled && (
+              <div className="space-y-4 mt-4">
+                <p className="text-sm text-gray-500">
+                  A sample of recipients is split across the variants. After the wait period the variant
+                  with the best rate is sent to everyone else.
+                </p>
+                
+                {abVariants.map((variant, index) => (
+                  <div key={index} className="grid grid-cols-1 md:grid-cols-[auto_1fr_1fr_auto] gap-3 items-center">
+                    <span className="font-medium text-gray-700">{String.fromCharCode(65 + index)}</span>
+                    <input
+                      type="text"
+                      value={variant.subject}
+                      onChange={(e) => setAbVariants(prev => prev.map((item, i) => i === index ? { ...item, subject: e.target.value } : item))}
+                      className="border border-gray-300 rounded-md shadow-sm p-2"
+                      placeholder={templateDetails ? `Subject (default: template subject)` : 'Subject'}
+                    />
+                    <select
+                      value={variant.templateId}
+                      onChange={(e) => setAbVariants(prev => prev.map((item, i) => i === index ? { ...item, templateId: e.target.value } : item))}
+                      className="border border-gray-300 rounded-md shadow-sm p-2"
+                    >
+                      <option value="">Campaign template</option>
+                      {templates.map((template) => (
+                        <option key={template.id} value={template.id}>
+                          {template.name}
+                        </option>
+                      ))}
+                    </select>
+                    <button
+                      type="button"
+                      onClick={() => setAbVariants(prev => prev.filter((_, i) => i !== index))}
+                      disabled={abVariants.length <= 2}
+                      className="text-sm text-red-600 hover:text-red-800 disabled:opacity-30"
+                    >
+                      Remove
+                    </button>
+                  </div>
+                ))}
+                
+                {abVariants.length < 5 && (
+                  <button
+                    type="button"
+                    onClick={() => setAbVariants(prev => [...prev, { subject: '', templateId: '' }])}
+                    className="text-sm text-blue-600 hover:text-blue-800"
+                  >
+                    + Add variant
+                  </button>
+                )}
+                
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div>
+                    <label htmlFor="abTestSamplePercent" className="block text-sm font-medium text-gray-700">
+                      Test Sample (%)
+                    </label>
+                    <input
+                      type="number"
+                      id="abTestSamplePercent"
+                      min={1}
+                      max={100}
+                      value={abTestSamplePercent}
+                      onChange={(e) => setAbTestSamplePercent(e.target.value)}
+                      className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm p-2"
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="abTestWaitHours" className="block text-sm font-medium text-gray-700">
+                      Wait Before Picking (hours)
+                    </label>
+                    <input
+                      type="number"
+                      id="abTestWaitHours"
+                      min={0.5}
+                      max={168}
+                      step={0.5}
+                      value={abTestWaitHours}
+                      onChange={(e) => setAbTestWaitHours(e.target.value)}
+                      className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm p-2"
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="abTestMetric" className="block text-sm font-medium text-gray-700">
+                      Winner By
+                    </label>
+                    <select
+                      id="abTestMetric"
+                      value={abTestMetric}
+                      onChange={(e) => setAbTestMetric(e.target.value as 'open' | 'click')}
+                      className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm p-2"
+                    >
+                      <option value="open">Open rate</option>
+                      <option value="click">Click rate</option>
+                    </select>
+                  </div>
+                </div>
+              </div>
+            )}
+          </div>
+          
+          {/* Sending profile */}
+          <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-200">
+            <h3 className="text-lg font-medium mb-4">Sending Speed</h3>
+            
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+              {profileOptions.map((option) => (
+                <label
+                  key={option.name}
+                  className={`p-3 border rounded-md cursor-pointer ${sendingProfile === option.name ? 'border-blue-500 bg-blue-50' : 'border-gray-300'}`}
+                >
+                  <input
+                    type="radio"
+                    name="sendingProfile"
+                    value={option.name}
+                    checked={sendingProfile === option.name}
+                    onChange={() => setSendingProfile(option.name)}
+                    className="sr-only"
+                  />
+                  <div className="font-medium text-gray-900">{option.label}</div>
+                  <div className="text-xs text-gray-500 mt-1">{option.description}</div>
+                  {option.summary && (
+                    <div className="text-xs text-gray-400 mt-2">{option.summary}</div>
+                  )}
+                </label>
+              ))}
+            </div>
+            
+            {sendingProfile === 'custom' && (
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mt-4">
+                <div>
+                  <label htmlFor="batchSize" className="block text-sm font-medium text-gray-700">
+                    Batch Size
+                  </label>
+                  <input
+                    type="number"
+                    id="batchSize"
+                    min={1}
+                    max={100}
+                    value={customProfile.batchSize}
+                    onChange={(e) => setCustomProfile(prev => ({ ...prev, batchSize: e.target.value }))}
+                    className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm p-2"
+                  />
+                </div>
+                <div>
+                  <label htmlFor="messageDelayMs" className="block text-sm font-medium text-gray-700">
+                    Delay Between Emails (ms)
+                  </label>
+                  <input
+                    type="number"
+                    id="messageDelayMs"
+                    min={0}
+                    max={60000}
+                    value={customProfile.messageDelayMs}
+                    onChange={(e) => setCustomProfile(prev => ({ ...prev, messageDelayMs: e.target.value }))}
+                    className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm p-2"
+                  />
+                </div>
+                <div>
+                  <label htmlFor="maxPerMinute" className="block text-sm font-medium text-gray-700">
+                    Max Emails per Minute
+                  </label>
+                  <input
+                    type="number"
+                    id="maxPerMinute"
+                    min={1}
+                    placeholder="Unlimited"
+                    value={customProfile.maxPerMinute}
+                    onChange={(e) => setCustomProfile(prev => ({ ...prev, maxPerMinute: e.target.value }))}
+                    className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm p-2"
+                  />
+                </div>
+                <div>
+                  <label htmlFor="concurrency" className="block text-sm font-medium text-gray-700">
+                    Parallel Sends
+                  </label>
+                  <input
+                    type="number"
+                    id="concurrency"
+                    min={1}
+                    max={10}
+                    value={customProfile.concurrency}
+                    onChange={(e) => setCustomProfile(prev => ({ ...prev, concurrency: e.target.value }))}
+                    className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm p-2"
+                  />
+                </div>
+              </div>
+            )}
+            
+            <p className="mt-3 text-xs text-gray-500">
+              SMTP per-minute and per-hour limits still apply on top of these settings.
+            </p>
+          </div>
+          
           {/* Scheduling */}
           <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-200">
             <h3 className="text-lg font-medium mb-4">Campaign Scheduling</h3>
@@ -562,7 +994,7 @@ export default function CampaignForm() {
               
               {/* Schedule Date/Time Fields */}
               {isScheduled && (
-                <div className="ml-6 mt-2 grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="ml-6 mt-2 grid grid-cols-1 md:grid-cols-3 gap-4">
                   <div>
                     <label htmlFor="scheduledDate" className="block text-sm font-medium text-gray-700">
                       Date
@@ -591,13 +1023,28 @@ export default function CampaignForm() {
                       required={isScheduled}
                     />
                   </div>
+                  
+                  <div>
+                    <label htmlFor="scheduledTimezone" className="block text-sm font-medium text-gray-700">
+                      Timezone
+                    </label>
+                    <input
+                      type="text"
+                      id="scheduledTimezone"
+                      value={scheduledTimezone}
+                      onChange={(e) => setScheduledTimezone(e.target.value)}
+                      className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm p-2"
+                      placeholder="Asia/Jakarta"
+                      required={isScheduled}
+                    />
+                  </div>
                 </div>
               )}
               
               <div className="mt-4 flex items-center text-sm text-gray-500">
                 <FiClock className="mr-2" />
                 {isScheduled ? (
-                  <span>Campaign will be sent on {scheduledDate} at {scheduledTime}</span>
+                  <span>Campaign will be sent on {scheduledDate} at {scheduledTime} ({scheduledTimezone})</span>
                 ) : (
                   <span>
                     Campaign will be {sendImmediately ? 'processed immediately' : 'saved as draft'} after creation
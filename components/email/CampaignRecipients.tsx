@@ -0,0 +1,256 @@
+// components/email/CampaignRecipients.tsx
+'use client';
+
+import { useState, useEffect, Fragment } from 'react';
+import { FiChevronDown, FiChevronRight, FiChevronLeft } from 'react-icons/fi';
+import { formatDate } from '@/lib/utils';
+
+interface DeliveryLog {
+  id: string;
+  status: string;
+  sentAt: string;
+  messageId: string | null;
+  smtpResponse: string | null;
+  accepted: string[];
+  rejected: string[];
+  attempt: number | null;
+  durationMs: number | null;
+  errorMessage: string | null;
+  failureCategory: string | null;
+  smtpConfig: { name: string };
+}
+
+interface CampaignRecipient {
+  id: string;
+  email: string;
+  name: string | null;
+  status: string;
+  errorMessage: string | null;
+  failureCategory: string | null;
+  retryCount: number;
+  nextAttemptAt: string | null;
+  sentAt: string | null;
+  logs: DeliveryLog[];
+}
+
+interface CampaignRecipientsProps {
+  campaignId: string;
+}
+
+const STATUS_CLASSES: Record<string, string> = {
+  sent: 'bg-green-100 text-green-800',
+  opened: 'bg-green-100 text-green-800',
+  clicked: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+  deferred: 'bg-yellow-100 text-yellow-800',
+  pending: 'bg-blue-100 text-blue-800',
+  skipped: 'bg-gray-200 text-gray-600',
+  bounced: 'bg-red-100 text-red-800',
+  complained: 'bg-orange-100 text-orange-800',
+};
+
+export default function CampaignRecipients({ campaignId }: CampaignRecipientsProps) {
+  const [recipients, setRecipients] = useState<CampaignRecipient[]>([]);
+  const [pagination, setPagination] = useState({ page: 1, totalPages: 1, total: 0 });
+  const [statusFilter, setStatusFilter] = useState('');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchRecipients = async (page: number, status = statusFilter) => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const url = new URL(`/api/email/${campaignId}/recipients`, window.location.origin);
+      url.searchParams.append('page', page.toString());
+      url.searchParams.append('limit', '20');
+
+      if (status) {
+        url.searchParams.append('status', status);
+      }
+
+      const response = await fetch(url.toString());
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch recipients');
+      }
+
+      const data = await response.json();
+      setRecipients(data.recipients);
+      setPagination({
+        page: data.pagination.page,
+        totalPages: data.pagination.totalPages,
+        total: data.pagination.total,
+      });
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'An error occurred');
+      console.error('Error fetching recipients:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchRecipients(1);
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [campaignId]);
+
+  const handleStatusChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    setStatusFilter(e.target.value);
+    fetchRecipients(1, e.target.value);
+  };
+
+  return (
+    <div className="mt-8 bg-white p-6 rounded-lg shadow-sm border border-gray-200">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-medium">Delivery Log</h3>
+        <select
+          value={statusFilter}
+          onChange={handleStatusChange}
+          className="py-1 pl-3 pr-8 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+        >
+          <option value="">All Recipients</option>
+          <option value="pending">Pending</option>
+          <option value="sent">Sent</option>
+          <option value="failed">Failed</option>
+          <option value="skipped">Skipped</option>
+          <option value="bounced">Bounced</option>
+          <option value="complained">Complained</option>
+        </select>
+      </div>
+
+      {error && (
+        <div className="p-3 mb-4 text-sm text-red-700 bg-red-100 rounded-md">{error}</div>
+      )}
+
+      {loading && recipients.length === 0 ? (
+        <div className="flex items-center justify-center h-32">
+          <div className="w-6 h-6 border-t-2 border-b-2 border-blue-500 rounded-full animate-spin"></div>
+        </div>
+      ) : recipients.length === 0 ? (
+        <p className="text-sm text-gray-500">No recipients found.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="w-8"></th>
+                <th className="px-3 py-2 text-left font-medium text-gray-500">Recipient</th>
+                <th className="px-3 py-2 text-left font-medium text-gray-500">Status</th>
+                <th className="px-3 py-2 text-left font-medium text-gray-500">Message-ID</th>
+                <th className="px-3 py-2 text-left font-medium text-gray-500">Attempts</th>
+                <th className="px-3 py-2 text-left font-medium text-gray-500">Last Update</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {recipients.map((recipient) => {
+                const latestLog = recipient.logs[0];
+                const isExpanded = expandedId === recipient.id;
+
+                return (
+                  <Fragment key={recipient.id}>
+                    <tr
+                      className="cursor-pointer hover:bg-gray-50"
+                      onClick={() => setExpandedId(isExpanded ? null : recipient.id)}
+                    >
+                      <td className="px-2 py-2 text-gray-400">
+                        {recipient.logs.length > 0 && (isExpanded
+                          ? <FiChevronDown className="w-4 h-4" />
+                          : <FiChevronRight className="w-4 h-4" />)}
+                      </td>
+                      <td className="px-3 py-2">
+                        <div className="font-medium text-gray-900">{recipient.email}</div>
+                        {recipient.errorMessage && (
+                          <div className="text-xs text-red-600 truncate max-w-xs">{recipient.errorMessage}</div>
+                        )}
+                      </td>
+                      <td className="px-3 py-2">
+                        <span className={`px-2 py-0.5 text-xs rounded-full ${STATUS_CLASSES[recipient.status] ?? 'bg-gray-100 text-gray-800'}`}>
+                          {recipient.status}
+                        </span>
+                        {recipient.nextAttemptAt && recipient.status === 'pending' && (
+                          <div className="text-xs text-gray-500 mt-1">Retry {formatDate(recipient.nextAttemptAt)}</div>
+                        )}
+                      </td>
+                      <td className="px-3 py-2 font-mono text-xs text-gray-600 truncate max-w-xs">
+                        {latestLog?.messageId ?? '—'}
+                      </td>
+                      <td className="px-3 py-2 text-gray-600">{recipient.logs.length}</td>
+                      <td className="px-3 py-2 text-gray-600">
+                        {formatDate(latestLog?.sentAt ?? recipient.sentAt)}
+                      </td>
+                    </tr>
+
+                    {isExpanded && recipient.logs.map((log) => (
+                      <tr key={log.id} className="bg-gray-50">
+                        <td></td>
+                        <td colSpan={5} className="px-3 py-2">
+                          <div className="grid grid-cols-1 md:grid-cols-2 gap-2 text-xs">
+                            <div>
+                              <span className="font-medium text-gray-700">Attempt {log.attempt}</span>{' '}
+                              <span className={`px-2 py-0.5 rounded-full ${STATUS_CLASSES[log.status] ?? 'bg-gray-100 text-gray-800'}`}>
+                                {log.status}
+                              </span>
+                              {log.failureCategory && (
+                                <span className="ml-1 text-gray-500">({log.failureCategory.replace('_', ' ')})</span>
+                              )}
+                            </div>
+                            <div className="text-gray-600">
+                              {formatDate(log.sentAt)}
+                              {log.durationMs !== null && ` · ${log.durationMs} ms`}
+                              {log.smtpConfig && ` · via ${log.smtpConfig.name}`}
+                            </div>
+                            {log.messageId && (
+                              <div className="md:col-span-2 font-mono text-gray-600 break-all">Message-ID: {log.messageId}</div>
+                            )}
+                            {log.smtpResponse && (
+                              <div className="md:col-span-2 font-mono text-gray-600 break-all">Response: {log.smtpResponse}</div>
+                            )}
+                            {log.accepted.length > 0 && (
+                              <div className="text-green-700">Accepted: {log.accepted.join(', ')}</div>
+                            )}
+                            {log.rejected.length > 0 && (
+                              <div className="text-red-700">Rejected: {log.rejected.join(', ')}</div>
+                            )}
+                            {log.errorMessage && !log.smtpResponse && (
+                              <div className="md:col-span-2 text-red-700">{log.errorMessage}</div>
+                            )}
+                          </div>
+                        </td>
+                      </tr>
+                    ))}
+                  </Fragment>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {pagination.totalPages > 1 && (
+        <div className="flex items-center justify-between mt-4">
+          <p className="text-sm text-gray-700">
+            Page {pagination.page} of {pagination.totalPages} ({pagination.total} recipients)
+          </p>
+          <div className="flex space-x-2">
+            <button
+              onClick={() => fetchRecipients(pagination.page - 1)}
+              disabled={pagination.page <= 1 || loading}
+              className="inline-flex items-center px-3 py-1 text-sm text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+            >
+              <FiChevronLeft className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => fetchRecipients(pagination.page + 1)}
+              disabled={pagination.page >= pagination.totalPages || loading}
+              className="inline-flex items-center px-3 py-1 text-sm text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+            >
+              <FiChevronRight className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
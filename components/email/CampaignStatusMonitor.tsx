@@ -21,6 +21,11 @@ export default function CampaignStatusMonitor({
       processedCount: number;
       successCount: number;
       failCount: number;
+      skippedCount: number;
+      // Reported later by the provider or the bounce mailbox
+      deliveredCount: number;
+      bounceCount: number;
+      complaintCount: number;
       openCount: number;
       clickCount: number;
       startedAt: string | null;
@@ -35,6 +40,7 @@ export default function CampaignStatusMonitor({
     recentErrors: Array<{
       email: string;
       errorMessage: string | null;
+      failureCategory: string | null;
       updatedAt: string;
     }>;
   } | null>(null);
@@ -45,6 +51,7 @@ export default function CampaignStatusMonitor({
   const [resetLoading, setResetLoading] = useState(false);
   const [processNextLoading, setProcessNextLoading] = useState(false);
   const [sendNowLoading, setSendNowLoading] = useState(false);
+  const [lifecycleLoading, setLifecycleLoading] = useState<'pause' | 'resume' | 'cancel' | null>(null);
   
   useEffect(() => {
     fetchStatus();
@@ -229,6 +236,34 @@ export default function CampaignStatusMonitor({
     }
   };
   
+  // Pause, resume or cancel the campaign
+  const handleLifecycleAction = async (action: 'pause' | 'resume' | 'cancel') => {
+    if (action === 'cancel' && !confirm('Cancel this campaign? Emails that have not been sent yet will be skipped. This cannot be undone.')) {
+      return;
+    }
+    
+    try {
+      setLifecycleLoading(action);
+      
+      const response = await fetch(`/api/email/${campaignId}/${action}`, {
+        method: 'POST',
+      });
+      
+      const data = await response.json();
+      
+      if (!response.ok) {
+        throw new Error(data.error || `Failed to ${action} campaign`);
+      }
+      
+      await fetchStatus();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'An error occurred');
+      console.error(`Error trying to ${action} campaign:`, error);
+    } finally {
+      setLifecycleLoading(null);
+    }
+  };
+  
   if (loading && !status) {
     return (
       <div className="flex items-center justify-center p-8">
@@ -309,6 +344,39 @@ export default function CampaignStatusMonitor({
               </button>
             )}
             
+            {/* Pause button for campaigns that are waiting or sending */}
+            {(campaign.status === 'processing' || campaign.status === 'queued') && (
+              <button
+                onClick={() => handleLifecycleAction('pause')}
+                disabled={lifecycleLoading !== null}
+                className="px-4 py-2 bg-orange-500 text-white rounded-md hover:bg-orange-600 disabled:opacity-50"
+              >
+                {lifecycleLoading === 'pause' ? 'Pausing...' : 'Pause'}
+              </button>
+            )}
+            
+            {/* Resume button for paused campaigns */}
+            {campaign.status === 'paused' && (
+              <button
+                onClick={() => handleLifecycleAction('resume')}
+                disabled={lifecycleLoading !== null}
+                className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50"
+              >
+                {lifecycleLoading === 'resume' ? 'Resuming...' : 'Resume'}
+              </button>
+            )}
+            
+            {/* Cancel button for campaigns that haven't finished */}
+            {['draft', 'queued', 'processing', 'paused'].includes(campaign.status) && (
+              <button
+                onClick={() => handleLifecycleAction('cancel')}
+                disabled={lifecycleLoading !== null}
+                className="px-4 py-2 bg-gray-700 text-white rounded-md hover:bg-gray-800 disabled:opacity-50"
+              >
+                {lifecycleLoading === 'cancel' ? 'Cancelling...' : 'Cancel Campaign'}
+              </button>
+            )}
+            
             {/* Restart button for stalled campaigns */}
             {isStalled && (
               <button
@@ -349,6 +417,8 @@ export default function CampaignStatusMonitor({
                   campaign.status === 'failed' ? 'bg-red-100 text-red-800' :
                   campaign.status === 'partial' ? 'bg-yellow-100 text-yellow-800' :
                   campaign.status === 'processing' ? 'bg-blue-100 text-blue-800' :
+                  campaign.status === 'paused' ? 'bg-orange-100 text-orange-800' :
+                  campaign.status === 'cancelled' ? 'bg-gray-200 text-gray-600' :
                   'bg-gray-100 text-gray-800'}
               `}>
                 {campaign.status.charAt(0).toUpperCase() + campaign.status.slice(1)}
@@ -379,6 +449,16 @@ export default function CampaignStatusMonitor({
                 ({deliveryRate.toFixed(1)}%)
               </span>
             </div>
+            {campaign.deliveredCount > 0 && (
+              <div className="text-xs text-gray-500 mt-1">
+                {campaign.deliveredCount} confirmed by Brevo
+              </div>
+            )}
+            {(campaign.bounceCount > 0 || campaign.complaintCount > 0) && (
+              <div className="text-xs text-gray-500 mt-1">
+                {campaign.bounceCount} bounced later, {campaign.complaintCount} complaints
+              </div>
+            )}
           </div>
           
           <div className="bg-gray-50 p-4 rounded-md">
@@ -391,6 +471,11 @@ export default function CampaignStatusMonitor({
                 </span>
               )}
             </div>
+            {campaign.skippedCount > 0 && (
+              <div className="text-xs text-gray-500 mt-1">
+                {campaign.skippedCount} skipped
+              </div>
+            )}
           </div>
         </div>
         
@@ -473,7 +558,14 @@ export default function CampaignStatusMonitor({
           <div className="space-y-3">
             {recentErrors.map((err, index) => (
               <div key={index} className="p-3 bg-red-50 rounded-md">
-                <div className="font-medium">{err.email}</div>
+                <div className="font-medium">
+                  {err.email}
+                  {err.failureCategory && (
+                    <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-red-100 text-red-800">
+                      {err.failureCategory.replace('_', ' ')}
+                    </span>
+                  )}
+                </div>
                 <div className="text-sm text-red-700">{err.errorMessage || 'Unknown error'}</div>
                 <div className="text-xs text-gray-500 mt-1">{formatDate(err.updatedAt)}</div>
               </div>
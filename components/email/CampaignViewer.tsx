@@ -3,7 +3,8 @@
 
 import { useState } from 'react';
 import Link from 'next/link';
-import { formatDate } from '@/lib/utils';
+import { formatDate, formatDateTimeInZone } from '@/lib/utils';
+import CampaignDryRunReport from './CampaignDryRunReport';
 
 interface Recipient {
   id: string;
@@ -32,6 +33,9 @@ interface Campaign {
   parameterValues?: Record<string, unknown> | null;  // Changed from any to unknown
   createdAt: Date | string;
   updatedAt: Date | string;
+  isScheduled?: boolean;
+  scheduledFor?: Date | string | null;
+  scheduledTimezone?: string | null;
   recipients: Recipient[];
 }
 
@@ -49,7 +53,7 @@ interface CampaignViewerProps {
 }
 
 export default function CampaignViewer({ campaign, smtpConfig }: Readonly<CampaignViewerProps>) {
-  const [activeTab, setActiveTab] = useState<'overview' | 'recipients' | 'template'>('overview');
+  const [activeTab, setActiveTab] = useState<'overview' | 'recipients' | 'template' | 'preflight'>('overview');
   const [showTemplatePreview, setShowTemplatePreview] = useState(false);
   
   // Format status for display
@@ -99,6 +103,18 @@ export default function CampaignViewer({ campaign, smtpConfig }: Readonly<Campai
               <p className="mt-1 text-sm text-gray-900">{formatDate(campaign.updatedAt)}</p>
             </div>
             
+            {campaign.isScheduled && campaign.scheduledFor && (
+              <div>
+                <p className="text-sm font-medium text-gray-500">Scheduled For</p>
+                <p className="mt-1 text-sm text-gray-900">{formatDateTimeInZone(campaign.scheduledFor)}</p>
+                {campaign.scheduledTimezone && (
+                  <p className="text-xs text-gray-500">
+                    {formatDateTimeInZone(campaign.scheduledFor, campaign.scheduledTimezone)} in {campaign.scheduledTimezone}
+                  </p>
+                )}
+              </div>
+            )}
+            
             <div>
               <p className="text-sm font-medium text-gray-500">Email Template</p>
               <p className="mt-1 text-sm text-gray-900">{campaign.template.name}</p>
@@ -311,6 +327,16 @@ export default function CampaignViewer({ campaign, smtpConfig }: Readonly<Campai
           >
             Template
           </button>
+          <button
+            onClick={() => setActiveTab('preflight')}
+            className={`${
+              activeTab === 'preflight'
+                ? 'border-blue-500 text-blue-600'
+                : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+            } whitespace-nowrap py-4 px-1 border-b-2 font-medium text-sm`}
+          >
+            Pre-flight
+          </button>
         </nav>
       </div>
       
@@ -318,6 +344,7 @@ export default function CampaignViewer({ campaign, smtpConfig }: Readonly<Campai
       {activeTab === 'overview' && renderOverview()}
       {activeTab === 'recipients' && renderRecipients()}
       {activeTab === 'template' && renderTemplate()}
+      {activeTab === 'preflight' && <CampaignDryRunReport campaignId={campaign.id} />}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,191 @@
+// components/email/MessageOptionsFields.tsx
+'use client';
+
+import { FiPlus, FiTrash2 } from 'react-icons/fi';
+
+export interface MessageOptionsValue {
+  replyTo: string;
+  cc: string;
+  bcc: string;
+  preheader: string;
+  listId: string;
+  customHeaders: Array<{ name: string; value: string }>;
+}
+
+interface StoredMessageOptions {
+  replyTo?: string | null;
+  cc?: string | null;
+  bcc?: string | null;
+  preheader?: string | null;
+  listId?: string | null;
+  customHeaders?: unknown;
+}
+
+interface MessageOptionsFieldsProps {
+  value: MessageOptionsValue;
+  onChange: (value: MessageOptionsValue) => void;
+  // Values inherited from the template, shown when a campaign leaves a field empty
+  inherited?: MessageOptionsValue;
+}
+
+const MAX_CUSTOM_HEADERS = 10;
+
+export const EMPTY_MESSAGE_OPTIONS: MessageOptionsValue = {
+  replyTo: '',
+  cc: '',
+  bcc: '',
+  preheader: '',
+  listId: '',
+  customHeaders: [],
+};
+
+/**
+ * Convert message options from a template or campaign row into form values
+ */
+export function toMessageOptionsValue(stored: StoredMessageOptions | null | undefined): MessageOptionsValue {
+  const headers = stored?.customHeaders && typeof stored.customHeaders === 'object'
+    ? Object.entries(stored.customHeaders as Record<string, string>)
+    : [];
+
+  return {
+    replyTo: stored?.replyTo ?? '',
+    cc: stored?.cc ?? '',
+    bcc: stored?.bcc ?? '',
+    preheader: stored?.preheader ?? '',
+    listId: stored?.listId ?? '',
+    customHeaders: headers.map(([name, value]) => ({ name, value: String(value) })),
+  };
+}
+
+/**
+ * Convert form values into the request payload; empty fields are sent as null
+ */
+export function toMessageOptionsPayload(value: MessageOptionsValue) {
+  const headers = value.customHeaders.filter(header => header.name.trim());
+
+  return {
+    replyTo: value.replyTo.trim() || null,
+    cc: value.cc.trim() || null,
+    bcc: value.bcc.trim() || null,
+    preheader: value.preheader.trim() || null,
+    listId: value.listId.trim() || null,
+    customHeaders: headers.length > 0
+      ? Object.fromEntries(headers.map(header => [header.name.trim(), header.value]))
+      : null,
+  };
+}
+
+export default function MessageOptionsFields({ value, onChange, inherited }: Readonly<MessageOptionsFieldsProps>) {
+  const update = (field: keyof Omit<MessageOptionsValue, 'customHeaders'>, fieldValue: string) => {
+    onChange({ ...value, [field]: fieldValue });
+  };
+
+  const updateHeader = (index: number, field: 'name' | 'value', fieldValue: string) => {
+    onChange({
+      ...value,
+      customHeaders: value.customHeaders.map((header, i) => i === index ? { ...header, [field]: fieldValue } : header),
+    });
+  };
+
+  const inputClass = 'block w-full px-3 py-2 mt-1 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm';
+
+  const textFields: Array<{ field: keyof Omit<MessageOptionsValue, 'customHeaders'>; label: string; placeholder: string }> = [
+    { field: 'replyTo', label: 'Reply-To', placeholder: 'sales@example.com' },
+    { field: 'cc', label: 'CC', placeholder: '{{account_manager}}' },
+    { field: 'bcc', label: 'BCC', placeholder: 'archive@example.com' },
+    { field: 'listId', label: 'List-Id', placeholder: 'Newsletter <newsletter.example.com>' },
+  ];
+
+  const inheritedHeaders = inherited?.customHeaders ?? [];
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+        {textFields.map(({ field, label, placeholder }) => (
+          <div key={field}>
+            <label htmlFor={`messageOption-${field}`} className="block text-sm font-medium text-gray-700">
+              {label}
+            </label>
+            <input
+              id={`messageOption-${field}`}
+              type="text"
+              value={value[field]}
+              onChange={(e) => update(field, e.target.value)}
+              className={inputClass}
+              placeholder={inherited?.[field] ? `${inherited[field]} (from template)` : placeholder}
+            />
+          </div>
+        ))}
+      </div>
+
+      <div>
+        <label htmlFor="messageOption-preheader" className="block text-sm font-medium text-gray-700">
+          Preheader
+        </label>
+        <input
+          id="messageOption-preheader"
+          type="text"
+          value={value.preheader}
+          onChange={(e) => update('preheader', e.target.value)}
+          className={inputClass}
+          placeholder={inherited?.preheader ? `${inherited.preheader} (from template)` : 'Preview text shown after the subject in the inbox'}
+        />
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between">
+          <span className="block text-sm font-medium text-gray-700">Custom Headers</span>
+          <button
+            type="button"
+            onClick={() => onChange({ ...value, customHeaders: [...value.customHeaders, { name: 'X-', value: '' }] })}
+            disabled={value.customHeaders.length >= MAX_CUSTOM_HEADERS}
+            className="inline-flex items-center text-sm text-blue-600 hover:text-blue-500 disabled:text-gray-400"
+          >
+            <FiPlus className="w-4 h-4 mr-1" />
+            Add Header
+          </button>
+        </div>
+        {value.customHeaders.length === 0 && inheritedHeaders.length > 0 && (
+          <p className="mt-1 text-sm text-gray-500">
+            From template: {inheritedHeaders.map(header => `${header.name}: ${header.value}`).join(', ')}
+          </p>
+        )}
+        {value.customHeaders.map((header, index) => (
+          <div key={index} className="flex items-center mt-2 space-x-2">
+            <input
+              type="text"
+              value={header.name}
+              onChange={(e) => updateHeader(index, 'name', e.target.value)}
+              className={`${inputClass} mt-0 w-1/3`}
+              placeholder="X-Campaign-Type"
+            />
+            <input
+              type="text"
+              value={header.value}
+              onChange={(e) => updateHeader(index, 'value', e.target.value)}
+              className={`${inputClass} mt-0`}
+              placeholder="Value, may use {{parameter}}"
+            />
+            <button
+              type="button"
+              onClick={() => onChange({ ...value, customHeaders: value.customHeaders.filter((_, i) => i !== index) })}
+              className="text-red-600 hover:text-red-800"
+              title="Remove header"
+            >
+              <FiTrash2 className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+        <p className="mt-1 text-xs text-gray-500">
+          Header names must start with &quot;X-&quot;.
+          {inherited && ' Headers set here replace the template\'s headers.'}
+        </p>
+      </div>
+
+      <p className="text-xs text-gray-500">
+        Separate multiple addresses with commas. Every field supports {'{{parameter}}'} personalization.
+        {inherited && ' Leave a field empty to use the template\'s value.'}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,333 @@
+// components/email/ProofSendPanel.tsx
+'use client';
+
+import { useState, useEffect } from 'react';
+import { FiSend, FiTrash2 } from 'react-icons/fi';
+import { formatDateTime } from '@/lib/utils';
+
+interface SeedAddress {
+  id: string;
+  email: string;
+  name: string | null;
+}
+
+interface ContactOption {
+  id: string;
+  email: string;
+  name: string | null;
+}
+
+interface ProofSend {
+  id: string;
+  seedEmail: string;
+  contactEmail: string | null;
+  subject: string;
+  status: string;
+  errorMessage: string | null;
+  createdAt: string;
+}
+
+interface SmtpOption {
+  id: string;
+  name: string;
+  isDefault: boolean;
+}
+
+interface ProofSendPanelProps {
+  templateId: string;
+  // Without one the panel lets the user pick an SMTP config
+  smtpConfigId?: string;
+  parameterValues?: Record<string, string>;
+  // Campaign overrides of the template's Reply-To, preheader and headers
+  messageOptions?: Record<string, unknown>;
+}
+
+// Mirrors MAX_PROOF_CONTACTS in lib/proof.ts
+const MAX_PROOF_CONTACTS = 5;
+
+export default function ProofSendPanel({ templateId, smtpConfigId, parameterValues, messageOptions }: Readonly<ProofSendPanelProps>) {
+  const [seedAddresses, setSeedAddresses] = useState<SeedAddress[]>([]);
+  const [newSeedEmail, setNewSeedEmail] = useState('');
+  const [smtpOptions, setSmtpOptions] = useState<SmtpOption[]>([]);
+  const [selectedSmtp, setSelectedSmtp] = useState('');
+  const [contactSearch, setContactSearch] = useState('');
+  const [contactOptions, setContactOptions] = useState<ContactOption[]>([]);
+  const [selectedContacts, setSelectedContacts] = useState<ContactOption[]>([]);
+  const [history, setHistory] = useState<ProofSend[]>([]);
+  const [sending, setSending] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const fetchHistory = async () => {
+    if (!templateId) {
+      return;
+    }
+
+    const response = await fetch(`/api/proofs?templateId=${templateId}`);
+    if (response.ok) {
+      setHistory(await response.json());
+    }
+  };
+
+  useEffect(() => {
+    const fetchSeedAddresses = async () => {
+      const response = await fetch('/api/seed-addresses');
+      if (response.ok) {
+        setSeedAddresses(await response.json());
+      }
+    };
+
+    fetchSeedAddresses();
+  }, []);
+
+  useEffect(() => {
+    fetchHistory();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [templateId]);
+
+  useEffect(() => {
+    if (smtpConfigId) {
+      return;
+    }
+
+    const fetchSmtpOptions = async () => {
+      const response = await fetch('/api/smtp');
+      if (response.ok) {
+        const data: SmtpOption[] = await response.json();
+        setSmtpOptions(data);
+        setSelectedSmtp((data.find(config => config.isDefault) ?? data[0])?.id ?? '');
+      }
+    };
+
+    fetchSmtpOptions();
+  }, [smtpConfigId]);
+
+  useEffect(() => {
+    // Debounce the contact search
+    const timer = setTimeout(async () => {
+      const params = new URLSearchParams({ limit: '10' });
+      if (contactSearch.trim()) {
+        params.set('search', contactSearch.trim());
+      }
+
+      const response = await fetch(`/api/contacts?${params}`);
+      if (response.ok) {
+        const data = await response.json();
+        setContactOptions(data.contacts || []);
+      }
+    }, 300);
+
+    return () => clearTimeout(timer);
+  }, [contactSearch]);
+
+  const handleAddSeed = async () => {
+    try {
+      const response = await fetch('/api/seed-addresses', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email: newSeedEmail }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to add reviewer');
+      }
+
+      setSeedAddresses(prev => [...prev.filter(seed => seed.id !== data.id), data]);
+      setNewSeedEmail('');
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'An error occurred' });
+    }
+  };
+
+  const handleRemoveSeed = async (seed: SeedAddress) => {
+    const response = await fetch(`/api/seed-addresses/${seed.id}`, { method: 'DELETE' });
+    if (response.ok) {
+      setSeedAddresses(prev => prev.filter(item => item.id !== seed.id));
+    }
+  };
+
+  const toggleContact = (contact: ContactOption) => {
+    setSelectedContacts(prev => prev.some(item => item.id === contact.id)
+      ? prev.filter(item => item.id !== contact.id)
+      : prev.length < MAX_PROOF_CONTACTS ? [...prev, contact] : prev);
+  };
+
+  const handleSendProof = async () => {
+    try {
+      setSending(true);
+      setMessage(null);
+
+      const response = await fetch('/api/proofs', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          templateId,
+          smtpConfigId: smtpConfigId ?? selectedSmtp,
+          parameterValues,
+          messageOptions,
+          contactIds: selectedContacts.map(contact => contact.id),
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to send proof');
+      }
+
+      setMessage(data.failed > 0
+        ? { type: 'error', text: `${data.sent} proofs sent, ${data.failed} failed` }
+        : { type: 'success', text: `${data.sent} proofs sent` });
+      fetchHistory();
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'An error occurred' });
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const smtpReady = Boolean(smtpConfigId ?? selectedSmtp);
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-500">
+        Proofs are personalized with the selected contacts&apos; data and sent to every reviewer
+        on the seed list. Tracking is off and they don&apos;t count towards campaign statistics.
+      </p>
+
+      {message && (
+        <div className={`p-3 text-sm rounded-md ${message.type === 'success' ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'}`}>
+          {message.text}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div>
+          <h4 className="text-sm font-medium text-gray-700">Seed List</h4>
+          {seedAddresses.length === 0 ? (
+            <p className="mt-2 text-sm text-gray-500">No reviewers yet.</p>
+          ) : (
+            <ul className="mt-2 divide-y divide-gray-200 border border-gray-200 rounded-md">
+              {seedAddresses.map(seed => (
+                <li key={seed.id} className="flex items-center justify-between px-3 py-2 text-sm">
+                  <span>{seed.name ? `${seed.name} <${seed.email}>` : seed.email}</span>
+                  <button
+                    type="button"
+                    onClick={() => handleRemoveSeed(seed)}
+                    className="text-red-600 hover:text-red-800"
+                    title="Remove reviewer"
+                  >
+                    <FiTrash2 className="w-4 h-4" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+          <div className="flex mt-2 space-x-2">
+            <input
+              type="email"
+              value={newSeedEmail}
+              onChange={(e) => setNewSeedEmail(e.target.value)}
+              placeholder="reviewer@example.com"
+              className="flex-1 border border-gray-300 rounded-md shadow-sm p-2 text-sm"
+            />
+            <button
+              type="button"
+              onClick={handleAddSeed}
+              disabled={!newSeedEmail.trim()}
+              className="px-3 py-2 text-sm font-medium text-blue-600 border border-blue-600 rounded-md hover:bg-blue-50 disabled:opacity-50"
+            >
+              Add
+            </button>
+          </div>
+        </div>
+
+        <div>
+          <h4 className="text-sm font-medium text-gray-700">
+            Personalize With ({selectedContacts.length}/{MAX_PROOF_CONTACTS})
+          </h4>
+          <input
+            type="text"
+            value={contactSearch}
+            onChange={(e) => setContactSearch(e.target.value)}
+            placeholder="Search contacts"
+            className="mt-2 w-full border border-gray-300 rounded-md shadow-sm p-2 text-sm"
+          />
+          <div className="mt-2 max-h-40 overflow-y-auto border border-gray-200 rounded-md">
+            {[...selectedContacts, ...contactOptions.filter(contact => !selectedContacts.some(item => item.id === contact.id))].map(contact => (
+              <label key={contact.id} className="flex items-center px-3 py-1.5 text-sm">
+                <input
+                  type="checkbox"
+                  checked={selectedContacts.some(item => item.id === contact.id)}
+                  onChange={() => toggleContact(contact)}
+                  className="mr-2"
+                />
+                {contact.name ? `${contact.name} <${contact.email}>` : contact.email}
+              </label>
+            ))}
+          </div>
+          <p className="mt-1 text-xs text-gray-500">
+            With no contacts selected, each reviewer&apos;s own address is used.
+          </p>
+        </div>
+      </div>
+
+      <div className="flex items-center justify-end space-x-3">
+        {!smtpConfigId && (
+          <select
+            value={selectedSmtp}
+            onChange={(e) => setSelectedSmtp(e.target.value)}
+            className="border border-gray-300 rounded-md shadow-sm p-2 text-sm"
+          >
+            {smtpOptions.map(config => (
+              <option key={config.id} value={config.id}>{config.name}</option>
+            ))}
+          </select>
+        )}
+        <button
+          type="button"
+          onClick={handleSendProof}
+          disabled={sending || !templateId || !smtpReady || seedAddresses.length === 0}
+          className="inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+        >
+          <FiSend className="w-4 h-4 mr-2" />
+          {sending ? 'Sending...' : 'Send Proof'}
+        </button>
+      </div>
+
+      {history.length > 0 && (
+        <div className="overflow-x-auto">
+          <h4 className="text-sm font-medium text-gray-700 mb-2">Recent Proofs</h4>
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-3 py-2 text-left font-medium text-gray-500">Sent</th>
+                <th className="px-3 py-2 text-left font-medium text-gray-500">Reviewer</th>
+                <th className="px-3 py-2 text-left font-medium text-gray-500">Data From</th>
+                <th className="px-3 py-2 text-left font-medium text-gray-500">Status</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {history.map(proof => (
+                <tr key={proof.id}>
+                  <td className="px-3 py-2 text-gray-600">{formatDateTime(proof.createdAt)}</td>
+                  <td className="px-3 py-2 text-gray-900">{proof.seedEmail}</td>
+                  <td className="px-3 py-2 text-gray-600">{proof.contactEmail ?? '-'}</td>
+                  <td className="px-3 py-2">
+                    <span
+                      className={proof.status === 'sent' ? 'text-green-700' : 'text-red-600'}
+                      title={proof.errorMessage ?? undefined}
+                    >
+                      {proof.status}
+                    </span>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -4,7 +4,15 @@
 import { useState, useEffect, useRef } from 'react';
 import { useRouter } from 'next/navigation';
 import CustomEditor from './CustomEditor';
+import AttachmentPicker from './AttachmentPicker';
+import MessageOptionsFields, {
+  EMPTY_MESSAGE_OPTIONS,
+  MessageOptionsValue,
+  toMessageOptionsPayload,
+  toMessageOptionsValue,
+} from './MessageOptionsFields';
 import { extractTemplateParameters } from '@/lib/utils';
+import { htmlToText } from '@/lib/html-to-text';
 
 interface ApiError {
   message?: string;
@@ -18,7 +26,15 @@ interface TemplateEditorProps {
     name: string;
     subject: string;
     htmlContent: string;
+    textContent?: string | null;
     parameters: string[];
+    attachmentIds?: string[];
+    replyTo?: string | null;
+    cc?: string | null;
+    bcc?: string | null;
+    preheader?: string | null;
+    listId?: string | null;
+    customHeaders?: unknown;
   };
 }
 
@@ -33,6 +49,11 @@ export default function TemplateEditor({ template }: Readonly<TemplateEditorProp
   const [showPreview, setShowPreview] = useState(false);
   const [activeTab, setActiveTab] = useState<'visual' | 'html'>('visual');
   const [htmlSource, setHtmlSource] = useState('');
+  // Custom plain-text part; when off it is generated from the HTML at send time
+  const [useCustomText, setUseCustomText] = useState(false);
+  const [textContent, setTextContent] = useState('');
+  const [attachmentIds, setAttachmentIds] = useState<string[]>([]);
+  const [messageOptions, setMessageOptions] = useState<MessageOptionsValue>(EMPTY_MESSAGE_OPTIONS);
   
   // Example values for preview
   const exampleValues = useRef({
@@ -47,6 +68,10 @@ export default function TemplateEditor({ template }: Readonly<TemplateEditorProp
       setSubject(template.subject ?? '');
       setHtmlContent(template.htmlContent ?? '');
       setHtmlSource(template.htmlContent ?? '');
+      setUseCustomText(Boolean(template.textContent));
+      setTextContent(template.textContent ?? '');
+      setAttachmentIds(template.attachmentIds ?? []);
+      setMessageOptions(toMessageOptionsValue(template));
       setParameters(template.parameters ?? []);
     }
   }, [template]);
@@ -65,12 +90,14 @@ export default function TemplateEditor({ template }: Readonly<TemplateEditorProp
     if (content || subject) {
       const extractedParams = extractTemplateParameters(content);
       const subjectParams = extractTemplateParameters(subject);
+      const textParams = useCustomText ? extractTemplateParameters(textContent) : [];
+      const optionParams = extractTemplateParameters(JSON.stringify(toMessageOptionsPayload(messageOptions)));
       
-      // Combine parameters from both sources
-      const allParams = [...new Set([...extractedParams, ...subjectParams])];
+      // Combine parameters from all sources
+      const allParams = [...new Set([...extractedParams, ...subjectParams, ...textParams, ...optionParams])];
       setParameters(allParams);
     }
-  }, [htmlContent, htmlSource, subject, activeTab]);
+  }, [htmlContent, htmlSource, subject, activeTab, useCustomText, textContent, messageOptions]);
   
   // Apply HTML source changes to visual editor when switching tabs
   const handleTabChange = (tab: 'visual' | 'html') => {
@@ -104,6 +131,9 @@ export default function TemplateEditor({ template }: Readonly<TemplateEditorProp
           name,
           subject,
           htmlContent: finalHtmlContent,
+          textContent: useCustomText ? textContent : null,
+          attachmentIds,
+          ...toMessageOptionsPayload(messageOptions),
           parameters,
         }),
       });
@@ -292,6 +322,54 @@ export default function TemplateEditor({ template }: Readonly<TemplateEditorProp
           </div>
         </div>
         
+        <div>
+          <div className="flex items-center justify-between">
+            <label htmlFor="textContent" className="block text-sm font-medium text-gray-700">
+              Plain-Text Version
+            </label>
+            <label className="flex items-center text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={useCustomText}
+                onChange={(e) => {
+                  setUseCustomText(e.target.checked);
+                  // Start from the generated version rather than a blank page
+                  if (e.target.checked && !textContent.trim()) {
+                    setTextContent(htmlToText(activeTab === 'visual' ? htmlContent : htmlSource));
+                  }
+                }}
+                className="mr-2"
+              />
+              Write a custom plain-text version
+            </label>
+          </div>
+          {useCustomText ? (
+            <textarea
+              id="textContent"
+              value={textContent}
+              onChange={(e) => setTextContent(e.target.value)}
+              className="w-full min-h-[200px] mt-2 p-4 font-mono text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              placeholder="Plain-text content... Use {{parameter}} for dynamic content."
+            />
+          ) : (
+            <p className="mt-1 text-sm text-gray-500">
+              Generated automatically from the HTML for every recipient, with links listed as footnotes.
+            </p>
+          )}
+        </div>
+        
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Attachments
+          </label>
+          <AttachmentPicker selectedIds={attachmentIds} onChange={setAttachmentIds} />
+        </div>
+        
+        <div>
+          <h3 className="mb-2 text-sm font-medium text-gray-700">Message Options</h3>
+          <MessageOptionsFields value={messageOptions} onChange={setMessageOptions} />
+        </div>
+        
         <div className="p-4 bg-gray-50 rounded-md">
           <h3 className="text-sm font-medium text-gray-700">Detected Parameters</h3>
           <div className="mt-2">
@@ -4,6 +4,8 @@
 import { useState, useRef } from 'react';
 import { formatDate } from '@/lib/utils';
 import { useRouter } from 'next/navigation';
+import ProofSendPanel from './ProofSendPanel';
+import { htmlToText } from '@/lib/html-to-text';
 
 interface TemplateViewerProps {
   template: {
@@ -11,6 +13,13 @@ interface TemplateViewerProps {
     name: string;
     subject: string;
     htmlContent: string;
+    textContent?: string | null;
+    replyTo?: string | null;
+    cc?: string | null;
+    bcc?: string | null;
+    preheader?: string | null;
+    listId?: string | null;
+    customHeaders?: unknown;
     parameters: string[];
     createdAt: Date | string;
     updatedAt: Date | string;
@@ -18,6 +27,15 @@ interface TemplateViewerProps {
 }
 
 export default function TemplateViewer({ template }: TemplateViewerProps) {
+  const messageOptions = [
+    { label: 'Reply-To', value: template.replyTo },
+    { label: 'CC', value: template.cc },
+    { label: 'BCC', value: template.bcc },
+    { label: 'Preheader', value: template.preheader },
+    { label: 'List-Id', value: template.listId },
+    ...Object.entries((template.customHeaders ?? {}) as Record<string, string>)
+      .map(([label, value]) => ({ label, value })),
+  ].filter(option => option.value);
   const [showPreview, setShowPreview] = useState(true);
   const [isDeleting, setIsDeleting] = useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
@@ -233,6 +251,11 @@ export default function TemplateViewer({ template }: TemplateViewerProps) {
         )}
       </div>
       
+      <div className="p-6 bg-white rounded-lg shadow">
+        <h3 className="text-lg font-medium text-gray-900 mb-4">Send a Proof</h3>
+        <ProofSendPanel templateId={template.id} />
+      </div>
+      
       <div className="p-6 bg-white rounded-lg shadow">
         <h3 className="text-lg font-medium text-gray-900 mb-4">HTML Source</h3>
         <div className="bg-gray-50 p-4 rounded-md">
@@ -241,6 +264,32 @@ export default function TemplateViewer({ template }: TemplateViewerProps) {
           </pre>
         </div>
       </div>
+      
+      <div className="p-6 bg-white rounded-lg shadow">
+        <h3 className="text-lg font-medium text-gray-900 mb-1">Plain-Text Version</h3>
+        <p className="text-sm text-gray-500 mb-4">
+          {template.textContent ? 'Custom version' : 'Generated from the HTML'}
+        </p>
+        <div className="bg-gray-50 p-4 rounded-md">
+          <pre className="text-xs overflow-x-auto whitespace-pre-wrap break-words text-gray-800">
+            {template.textContent || htmlToText(template.htmlContent)}
+          </pre>
+        </div>
+      </div>
+      
+      {messageOptions.length > 0 && (
+        <div className="p-6 bg-white rounded-lg shadow">
+          <h3 className="text-lg font-medium text-gray-900 mb-4">Message Options</h3>
+          <dl className="grid grid-cols-1 gap-x-4 gap-y-2 sm:grid-cols-4">
+            {messageOptions.map(option => (
+              <div key={option.label} className="contents">
+                <dt className="text-sm font-medium text-gray-500">{option.label}</dt>
+                <dd className="text-sm text-gray-900 sm:col-span-3 break-words">{option.value}</dd>
+              </div>
+            ))}
+          </dl>
+        </div>
+      )}
     </div>
   );
 }
\ No newline at end of file
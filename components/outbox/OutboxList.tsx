@@ -0,0 +1,355 @@
+// components/outbox/OutboxList.tsx
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { FiTrash2, FiSearch, FiChevronLeft, FiChevronRight, FiPaperclip } from 'react-icons/fi';
+
+interface CapturedEmailSummary {
+  id: string;
+  messageId: string;
+  fromAddress: string;
+  toAddress: string;
+  subject: string;
+  createdAt: string;
+  smtpConfig: { id: string; name: string } | null;
+  campaign: { id: string; name: string } | null;
+}
+
+interface CapturedEmail extends CapturedEmailSummary {
+  cc: string[];
+  bcc: string[];
+  replyTo: string[];
+  html: string;
+  text: string | null;
+  headers: Record<string, string>;
+  attachments: Array<{ filename: string; contentType: string; size: number }>;
+}
+
+interface OutboxListProps {
+  initialEmails: CapturedEmailSummary[];
+  totalEmails: number;
+}
+
+type PreviewTab = 'html' | 'text' | 'headers';
+
+const PAGE_SIZE = 20;
+
+// Links in the preview open in a new tab, so tracked redirects can be followed end to end
+function toPreviewDocument(html: string): string {
+  const base = '<base target="_blank">';
+  return /<head[^>]*>/i.test(html) ? html.replace(/<head[^>]*>/i, match => `${match}${base}`) : `${base}${html}`;
+}
+
+function formatSize(bytes: number): string {
+  return bytes < 1024 * 1024 ? `${Math.ceil(bytes / 1024)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+export default function OutboxList({ initialEmails, totalEmails }: OutboxListProps) {
+  const [emails, setEmails] = useState<CapturedEmailSummary[]>(initialEmails);
+  const [pagination, setPagination] = useState({
+    total: totalEmails,
+    page: 1,
+    totalPages: Math.ceil(totalEmails / PAGE_SIZE),
+  });
+  const [search, setSearch] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<CapturedEmail | null>(null);
+  const [loadingPreview, setLoadingPreview] = useState(false);
+  const [tab, setTab] = useState<PreviewTab>('html');
+
+  const fetchEmails = async (page: number, searchQuery = search) => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const url = new URL('/api/outbox', window.location.origin);
+      url.searchParams.append('page', page.toString());
+      url.searchParams.append('limit', PAGE_SIZE.toString());
+
+      if (searchQuery) {
+        url.searchParams.append('search', searchQuery);
+      }
+
+      const response = await fetch(url.toString());
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch captured emails');
+      }
+
+      const data = await response.json();
+      setEmails(data.emails);
+      setPagination({
+        total: data.pagination.total,
+        page: data.pagination.page,
+        totalPages: data.pagination.totalPages,
+      });
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'An error occurred');
+      console.error('Error fetching captured emails:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    fetchEmails(1);
+  };
+
+  const handleSelect = async (email: CapturedEmailSummary) => {
+    try {
+      setLoadingPreview(true);
+      setError(null);
+
+      const response = await fetch(`/api/outbox/${email.id}`);
+
+      if (!response.ok) {
+        throw new Error('Failed to load captured email');
+      }
+
+      setSelected(await response.json());
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'An error occurred');
+    } finally {
+      setLoadingPreview(false);
+    }
+  };
+
+  const handleDelete = async (email: CapturedEmailSummary) => {
+    try {
+      const response = await fetch(`/api/outbox/${email.id}`, { method: 'DELETE' });
+
+      if (!response.ok) {
+        throw new Error('Failed to delete captured email');
+      }
+
+      setEmails(emails.filter(item => item.id !== email.id));
+      setPagination(prev => ({
+        ...prev,
+        total: prev.total - 1,
+        totalPages: Math.ceil((prev.total - 1) / PAGE_SIZE),
+      }));
+
+      if (selected?.id === email.id) {
+        setSelected(null);
+      }
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'An error occurred');
+    }
+  };
+
+  const handleClear = async () => {
+    if (!confirm('Delete every captured email in the outbox?')) {
+      return;
+    }
+
+    try {
+      const response = await fetch('/api/outbox', { method: 'DELETE' });
+
+      if (!response.ok) {
+        throw new Error('Failed to clear outbox');
+      }
+
+      setSelected(null);
+      await fetchEmails(1);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'An error occurred');
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+        <form onSubmit={handleSearch} className="flex flex-1 max-w-md">
+          <div className="relative flex-grow">
+            <div className="absolute inset-y-0 left-0 flex items-center pl-3 pointer-events-none">
+              <FiSearch className="w-5 h-5 text-gray-400" />
+            </div>
+            <input
+              type="text"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="block w-full py-2 pl-10 pr-3 text-sm leading-5 text-gray-900 placeholder-gray-500 bg-white border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              placeholder="Search recipient, sender or subject..."
+            />
+          </div>
+          <button
+            type="submit"
+            className="px-4 py-2 ml-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
+          >
+            Search
+          </button>
+        </form>
+
+        {pagination.total > 0 && (
+          <button
+            type="button"
+            onClick={handleClear}
+            className="inline-flex items-center px-4 py-2 text-sm font-medium text-red-700 bg-red-100 rounded-md hover:bg-red-200"
+          >
+            <FiTrash2 className="w-4 h-4 mr-2" />
+            Clear Outbox
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="p-4 text-red-700 bg-red-100 rounded-md">
+          <p>{error}</p>
+        </div>
+      )}
+
+      {emails.length === 0 ? (
+        <div className="p-8 text-center border-2 border-dashed border-gray-300 rounded-md">
+          <p className="text-gray-500">{loading ? 'Loading captured emails...' : 'No captured emails found.'}</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 gap-4 lg:grid-cols-5">
+          <div className="overflow-hidden bg-white shadow sm:rounded-md lg:col-span-2">
+            <ul className="divide-y divide-gray-200">
+              {emails.map((email) => (
+                <li
+                  key={email.id}
+                  className={`px-4 py-3 cursor-pointer hover:bg-gray-50 ${selected?.id === email.id ? 'bg-blue-50' : ''}`}
+                  onClick={() => handleSelect(email)}
+                >
+                  <div className="flex items-start justify-between">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-gray-900 truncate">{email.toAddress}</p>
+                      <p className="text-sm text-gray-700 truncate">{email.subject}</p>
+                      <p className="mt-1 text-xs text-gray-500 truncate">
+                        {new Date(email.createdAt).toLocaleString()}
+                        {email.campaign && ` · ${email.campaign.name}`}
+                      </p>
+                    </div>
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleDelete(email);
+                      }}
+                      className="p-1 ml-2 text-gray-400 rounded hover:text-red-600"
+                      title="Delete"
+                    >
+                      <FiTrash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+
+            {pagination.totalPages > 1 && (
+              <div className="flex items-center justify-between px-4 py-3 bg-white border-t border-gray-200">
+                <p className="text-sm text-gray-700">
+                  Page <span className="font-medium">{pagination.page}</span> of{' '}
+                  <span className="font-medium">{pagination.totalPages}</span> ({pagination.total} emails)
+                </p>
+                <div className="flex space-x-2">
+                  <button
+                    onClick={() => fetchEmails(pagination.page - 1)}
+                    disabled={pagination.page <= 1 || loading}
+                    className="inline-flex items-center px-3 py-2 text-sm text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    <FiChevronLeft className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => fetchEmails(pagination.page + 1)}
+                    disabled={pagination.page >= pagination.totalPages || loading}
+                    className="inline-flex items-center px-3 py-2 text-sm text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    <FiChevronRight className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+
+          <div className="bg-white shadow sm:rounded-md lg:col-span-3">
+            {loadingPreview ? (
+              <div className="flex items-center justify-center h-64">
+                <div className="w-8 h-8 border-t-2 border-b-2 border-blue-500 rounded-full animate-spin"></div>
+              </div>
+            ) : !selected ? (
+              <div className="flex items-center justify-center h-64 text-sm text-gray-500">
+                Select an email to preview it.
+              </div>
+            ) : (
+              <div>
+                <div className="p-4 space-y-1 text-sm border-b border-gray-200">
+                  <p className="text-base font-medium text-gray-900">{selected.subject}</p>
+                  <p><span className="text-gray-500">From:</span> {selected.fromAddress}</p>
+                  <p><span className="text-gray-500">To:</span> {selected.toAddress}</p>
+                  {selected.cc.length > 0 && <p><span className="text-gray-500">CC:</span> {selected.cc.join(', ')}</p>}
+                  {selected.bcc.length > 0 && <p><span className="text-gray-500">BCC:</span> {selected.bcc.join(', ')}</p>}
+                  {selected.replyTo.length > 0 && <p><span className="text-gray-500">Reply-To:</span> {selected.replyTo.join(', ')}</p>}
+                  <p className="text-xs text-gray-500">
+                    Captured {new Date(selected.createdAt).toLocaleString()}
+                    {selected.smtpConfig && ` via ${selected.smtpConfig.name}`}
+                    {selected.campaign && (
+                      <>
+                        {' '}for{' '}
+                        <Link href={`/dashboard/campaigns/${selected.campaign.id}`} className="text-blue-600 hover:text-blue-500">
+                          {selected.campaign.name}
+                        </Link>
+                      </>
+                    )}
+                  </p>
+
+                  {selected.attachments.length > 0 && (
+                    <div className="flex flex-wrap gap-2 pt-2">
+                      {selected.attachments.map((attachment, index) => (
+                        <a
+                          key={`${attachment.filename}-${index}`}
+                          href={`/api/outbox/${selected.id}/attachments/${index}`}
+                          className="inline-flex items-center px-2 py-1 text-xs text-gray-700 bg-gray-100 rounded hover:bg-gray-200"
+                        >
+                          <FiPaperclip className="w-3 h-3 mr-1" />
+                          {attachment.filename} ({formatSize(attachment.size)})
+                        </a>
+                      ))}
+                    </div>
+                  )}
+                </div>
+
+                <div className="flex px-4 border-b border-gray-200">
+                  {(['html', 'text', 'headers'] as PreviewTab[]).map((item) => (
+                    <button
+                      key={item}
+                      type="button"
+                      onClick={() => setTab(item)}
+                      className={`px-3 py-2 text-sm font-medium border-b-2 ${tab === item ? 'border-blue-500 text-blue-600' : 'border-transparent text-gray-500 hover:text-gray-700'}`}
+                    >
+                      {item === 'html' ? 'HTML' : item === 'text' ? 'Plain Text' : 'Headers'}
+                    </button>
+                  ))}
+                </div>
+
+                {tab === 'html' && (
+                  <iframe
+                    title="Email preview"
+                    srcDoc={toPreviewDocument(selected.html)}
+                    sandbox="allow-popups allow-popups-to-escape-sandbox"
+                    className="w-full border-0 h-[600px]"
+                  />
+                )}
+
+                {tab === 'text' && (
+                  <pre className="p-4 overflow-auto text-sm text-gray-800 whitespace-pre-wrap h-[600px]">
+                    {selected.text ?? 'No plain-text part.'}
+                  </pre>
+                )}
+
+                {tab === 'headers' && (
+                  <pre className="p-4 overflow-auto text-xs text-gray-800 whitespace-pre-wrap">
+                    {[`Message-ID: ${selected.messageId}`, ...Object.entries(selected.headers).map(([name, value]) => `${name}: ${value}`)].join('\n')}
+                  </pre>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+// components/smtp/BrevoWebhookSettings.tsx
+'use client';
+
+import { useState, useEffect } from 'react';
+import { FiCopy, FiRefreshCw } from 'react-icons/fi';
+
+// Keep in sync with BREVO_WEBHOOK_EVENTS in lib/brevo-webhook.ts
+const EVENTS = ['Delivered', 'Soft bounce', 'Hard bounce', 'Spam', 'Blocked', 'Invalid email', 'Opened', 'Clicked', 'Unsubscribed'];
+
+export default function BrevoWebhookSettings() {
+  const [token, setToken] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchToken = async () => {
+      try {
+        const response = await fetch('/api/webhooks/brevo/token');
+        if (response.ok) {
+          const data = await response.json();
+          setToken(data.token);
+        }
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchToken();
+  }, []);
+
+  const handleGenerate = async () => {
+    if (token && !confirm('Generate a new webhook URL? The current URL stops working and must be replaced in Brevo.')) {
+      return;
+    }
+
+    try {
+      setIsGenerating(true);
+      setError(null);
+
+      const response = await fetch('/api/webhooks/brevo/token', { method: 'POST' });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to generate webhook URL');
+      }
+
+      setToken(data.token);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'An error occurred');
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const webhookUrl = token && typeof window !== 'undefined'
+    ? `${window.location.origin}/api/webhooks/brevo?token=${encodeURIComponent(token)}`
+    : null;
+
+  const handleCopy = async () => {
+    if (webhookUrl) {
+      await navigator.clipboard.writeText(webhookUrl);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    }
+  };
+
+  return (
+    <div className="p-6 bg-white rounded-lg shadow">
+      <h3 className="text-lg font-medium text-gray-900">Brevo Webhook</h3>
+      <p className="mt-1 text-sm text-gray-500">
+        Add this URL as a transactional webhook in Brevo to record deliveries, bounces, spam reports,
+        opens, clicks and unsubscribes for campaigns sent through Brevo.
+      </p>
+
+      {error && (
+        <div className="p-3 mt-4 text-sm text-red-700 bg-red-100 rounded-md">{error}</div>
+      )}
+
+      {!isLoading && (
+        <div className="mt-4 space-y-3">
+          {webhookUrl ? (
+            <div className="flex items-center space-x-2">
+              <input
+                type="text"
+                readOnly
+                value={webhookUrl}
+                className="block w-full px-3 py-2 font-mono text-xs border border-gray-300 rounded-md bg-gray-50"
+                onFocus={(e) => e.target.select()}
+              />
+              <button
+                type="button"
+                onClick={handleCopy}
+                className="inline-flex items-center px-3 py-2 text-sm text-blue-600 border border-blue-600 rounded-md hover:bg-blue-50"
+              >
+                <FiCopy className="w-4 h-4 mr-1" />
+                {copied ? 'Copied' : 'Copy'}
+              </button>
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500">No webhook URL has been generated yet.</p>
+          )}
+
+          <div className="flex items-center justify-between">
+            <p className="text-xs text-gray-500">Events: {EVENTS.join(', ')}.</p>
+            <button
+              type="button"
+              onClick={handleGenerate}
+              disabled={isGenerating}
+              className="inline-flex items-center text-sm text-blue-600 hover:text-blue-500 disabled:opacity-50"
+            >
+              <FiRefreshCw className="w-4 h-4 mr-1" />
+              {token ? 'Regenerate URL' : 'Generate URL'}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -8,6 +8,7 @@ interface SmtpFormProps {
   smtpConfig?: {
     id?: string;
     name: string;
+    transportType?: string;
     host: string;
     port: number;
     secure: boolean;
@@ -15,6 +16,19 @@ interface SmtpFormProps {
     fromEmail: string;
     fromName: string;
     isDefault: boolean;
+    perMinute?: number | null;
+    perHour?: number | null;
+    maxAttachmentMb?: number | null;
+    bounceImapHost?: string | null;
+    bounceImapPort?: number;
+    bounceImapSecure?: boolean;
+    bounceImapUsername?: string | null;
+    bounceImapMailbox?: string;
+    bounceCheckedAt?: Date | string | null;
+    bounceLastError?: string | null;
+    // Secrets never reach the browser, only whether one is saved
+    hasApiKey?: boolean;
+    hasBounceImapPassword?: boolean;
   };
   onSuccess?: () => void;
 }
@@ -23,6 +37,7 @@ export default function SmtpForm({ smtpConfig, onSuccess }: Readonly<SmtpFormPro
   const router = useRouter();
   const [isLoading, setIsLoading] = useState(false);
   const [isTesting, setIsTesting] = useState(false);
+  const [isCheckingBounces, setIsCheckingBounces] = useState(false);
   const [testResult, setTestResult] = useState<{ success: boolean; message: string } | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [isEditMode, setIsEditMode] = useState(false);
@@ -30,30 +45,57 @@ export default function SmtpForm({ smtpConfig, onSuccess }: Readonly<SmtpFormPro
   const [formData, setFormData] = useState({
     id: '',
     name: '',
+    // smtp, brevo-api to send through Brevo's HTTP API with an API key, or capture to only store emails
+    transportType: 'smtp',
     host: '',
     port: 587,
     secure: false,
     username: '',
     password: '',
+    apiKey: '',
     fromEmail: '',
     fromName: '',
     isDefault: false,
+    // Empty means no limit
+    perMinute: '' as number | '',
+    perHour: '' as number | '',
+    maxAttachmentMb: '' as number | '',
+    // Mailbox that receives bounces and complaint reports, empty host to turn off
+    bounceImapHost: '',
+    bounceImapPort: 993 as number | '',
+    bounceImapSecure: true,
+    bounceImapUsername: '',
+    bounceImapPassword: '',
+    bounceImapMailbox: 'INBOX',
   });
   
   useEffect(() => {
     if (smtpConfig?.id) {
+      const usesSmtp = (smtpConfig.transportType || 'smtp') === 'smtp';
       setIsEditMode(true);
       setFormData({
         id: smtpConfig.id,
         name: smtpConfig.name || '',
-        host: smtpConfig.host || '',
-        port: smtpConfig.port || 587,
-        secure: smtpConfig.secure || false,
+        transportType: smtpConfig.transportType || 'smtp',
+        // Other transports keep placeholder connection fields, start from blank ones
+        host: usesSmtp ? smtpConfig.host || '' : '',
+        port: usesSmtp ? smtpConfig.port || 587 : 587,
+        secure: usesSmtp ? smtpConfig.secure || false : false,
         username: smtpConfig.username || '',
         password: '', // Password is not returned from API for security
+        apiKey: '', // Neither is the API key
         fromEmail: smtpConfig.fromEmail || '',
         fromName: smtpConfig.fromName || '',
         isDefault: smtpConfig.isDefault || false,
+        perMinute: smtpConfig.perMinute ?? '',
+        perHour: smtpConfig.perHour ?? '',
+        maxAttachmentMb: smtpConfig.maxAttachmentMb ?? '',
+        bounceImapHost: smtpConfig.bounceImapHost ?? '',
+        bounceImapPort: smtpConfig.bounceImapPort ?? 993,
+        bounceImapSecure: smtpConfig.bounceImapSecure ?? true,
+        bounceImapUsername: smtpConfig.bounceImapUsername ?? '',
+        bounceImapPassword: '', // Not returned from API either
+        bounceImapMailbox: smtpConfig.bounceImapMailbox ?? 'INBOX',
       });
     }
   }, [smtpConfig]);
@@ -65,7 +107,7 @@ export default function SmtpForm({ smtpConfig, onSuccess }: Readonly<SmtpFormPro
     if (type === 'checkbox') {
       newValue = (e.target as HTMLInputElement).checked;
     } else if (type === 'number') {
-      newValue = parseInt(value, 10);
+      newValue = value === '' ? '' : parseInt(value, 10);
     } else {
       newValue = value;
     }
@@ -76,6 +118,13 @@ export default function SmtpForm({ smtpConfig, onSuccess }: Readonly<SmtpFormPro
     }));
   };
   
+  const isSmtp = formData.transportType === 'smtp';
+  
+  // Saved configs keep their secret when the field is left empty, unless the transport changes
+  const keepsSecret = isEditMode
+    && formData.transportType === (smtpConfig?.transportType || 'smtp')
+    && (formData.transportType !== 'brevo-api' || !!smtpConfig?.hasApiKey);
+  
   const validateEmail = (email: string): boolean => {
     const emailRegex = /^[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}$/;
     return emailRegex.test(email);
@@ -98,6 +147,8 @@ export default function SmtpForm({ smtpConfig, onSuccess }: Readonly<SmtpFormPro
         },
         body: JSON.stringify({
           config: {
+            transportType: formData.transportType,
+            apiKey: formData.apiKey,
             host: formData.host,
             port: formData.port,
             secure: formData.secure,
@@ -117,7 +168,7 @@ export default function SmtpForm({ smtpConfig, onSuccess }: Readonly<SmtpFormPro
       
       setTestResult({
         success: true,
-        message: 'Connection successful! Test email sent.',
+        message: result.captured ? 'Test email captured in the Outbox.' : 'Connection successful! Test email sent.',
       });
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
@@ -130,13 +181,40 @@ export default function SmtpForm({ smtpConfig, onSuccess }: Readonly<SmtpFormPro
     }
   };
   
+  const handleCheckBounces = async () => {
+    setError(null);
+    setTestResult(null);
+    setIsCheckingBounces(true);
+    
+    try {
+      const response = await fetch(`/api/smtp/${formData.id}/bounces`, { method: 'POST' });
+      const result = await response.json();
+      
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to check bounce mailbox');
+      }
+      
+      setTestResult({
+        success: true,
+        message: `Checked ${result.scanned} new messages: ${result.bounces} bounces, ${result.complaints} complaints, ${result.unmatched} not matched to a sent email.`,
+      });
+    } catch (error) {
+      setTestResult({
+        success: false,
+        message: error instanceof Error ? error.message : 'An unknown error occurred',
+      });
+    } finally {
+      setIsCheckingBounces(false);
+    }
+  };
+  
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError(null);
     setIsLoading(true);
     
     try {
-      if (!formData.name || !formData.host || !formData.port || !formData.username || !formData.fromEmail) {
+      if (!formData.name || !formData.fromEmail || (isSmtp && (!formData.host || !formData.port || !formData.username))) {
         throw new Error('Please fill in all required fields');
       }
       
@@ -144,10 +222,14 @@ export default function SmtpForm({ smtpConfig, onSuccess }: Readonly<SmtpFormPro
         throw new Error('Please enter a valid email address for From Email');
       }
       
-      if (!isEditMode && !formData.password) {
+      if (isSmtp && !keepsSecret && !formData.password) {
         throw new Error('Password is required');
       }
       
+      if (formData.transportType === 'brevo-api' && !keepsSecret && !formData.apiKey) {
+        throw new Error('API key is required');
+      }
+      
       const method = isEditMode ? 'PUT' : 'POST';
       
       const payload = {
@@ -224,32 +306,120 @@ export default function SmtpForm({ smtpConfig, onSuccess }: Readonly<SmtpFormPro
           />
         </div>
         
+        <div>
+          <label htmlFor="transportType" className="block text-sm font-medium text-gray-700">
+            Transport *
+          </label>
+          <select
+            id="transportType"
+            name="transportType"
+            value={formData.transportType}
+            onChange={handleChange}
+            className="block w-full px-3 py-2 mt-1 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm md:w-1/2"
+          >
+            <option value="smtp">SMTP</option>
+            <option value="brevo-api">Brevo API (HTTPS)</option>
+            <option value="capture">Capture (store in Outbox, never send)</option>
+          </select>
+          <p className="mt-1 text-xs text-gray-500">
+            {formData.transportType === 'capture'
+              ? 'Emails are rendered and stored in the Outbox instead of being sent, for testing campaigns end to end.'
+              : 'The Brevo API sends over HTTPS, for hosts that block outbound SMTP ports.'}
+          </p>
+        </div>
+        
         <div className="grid grid-cols-1 gap-6 mt-6 md:grid-cols-2">
-          <div>
-            <label htmlFor="host" className="block text-sm font-medium text-gray-700">
-              SMTP Host *
-            </label>
-            <input
-              id="host"
-              name="host"
-              type="text"
-              value={formData.host}
-              onChange={handleChange}
-              className="block w-full px-3 py-2 mt-1 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
-              placeholder="e.g., smtp-relay.brevo.com"
-              required
-            />
-          </div>
+          {isSmtp ? (
+            <>
+              <div>
+                <label htmlFor="host" className="block text-sm font-medium text-gray-700">
+                  SMTP Host *
+                </label>
+                <input
+                  id="host"
+                  name="host"
+                  type="text"
+                  value={formData.host}
+                  onChange={handleChange}
+                  className="block w-full px-3 py-2 mt-1 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                  placeholder="e.g., smtp-relay.brevo.com"
+                  required
+                />
+              </div>
+              
+              <div>
+                <label htmlFor="port" className="block text-sm font-medium text-gray-700">
+                  SMTP Port *
+                </label>
+                <input
+                  id="port"
+                  name="port"
+                  type="number"
+                  value={formData.port}
+                  onChange={handleChange}
+                  className="block w-full px-3 py-2 mt-1 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                  required
+                />
+              </div>
+              
+              <div>
+                <label htmlFor="username" className="block text-sm font-medium text-gray-700">
+                  SMTP Username *
+                </label>
+                <input
+                  id="username"
+                  name="username"
+                  type="text"
+                  value={formData.username}
+                  onChange={handleChange}
+                  className="block w-full px-3 py-2 mt-1 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                  required
+                />
+              </div>
+              
+              <div>
+                <label htmlFor="password" className="block text-sm font-medium text-gray-700">
+                  SMTP Password {!keepsSecret && '*'}
+                </label>
+                <input
+                  id="password"
+                  name="password"
+                  type="password"
+                  value={formData.password}
+                  onChange={handleChange}
+                  className="block w-full px-3 py-2 mt-1 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                  required={!keepsSecret}
+                  placeholder={keepsSecret ? '(unchanged)' : ''}
+                />
+              </div>
+            </>
+          ) : formData.transportType === 'brevo-api' && (
+            <div className="md:col-span-2">
+              <label htmlFor="apiKey" className="block text-sm font-medium text-gray-700">
+                Brevo API Key {!keepsSecret && '*'}
+              </label>
+              <input
+                id="apiKey"
+                name="apiKey"
+                type="password"
+                value={formData.apiKey}
+                onChange={handleChange}
+                className="block w-full px-3 py-2 mt-1 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                required={!keepsSecret}
+                placeholder={keepsSecret ? '(unchanged)' : 'xkeysib-...'}
+              />
+            </div>
+          )}
           
           <div>
-            <label htmlFor="port" className="block text-sm font-medium text-gray-700">
-              SMTP Port *
+            <label htmlFor="fromEmail" className="block text-sm font-medium text-gray-700">
+              From Email *
             </label>
             <input
-              id="port"
-              name="port"
-              type="number"
-              value={formData.port}
+              id="fromEmail"
+              name="fromEmail"
+              type="email"
+              value={formData.fromEmail}
               onChange={handleChange}
               className="block w-full px-3 py-2 mt-1 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
               required
@@ -257,80 +427,92 @@ export default function SmtpForm({ smtpConfig, onSuccess }: Readonly<SmtpFormPro
           </div>
           
           <div>
-            <label htmlFor="username" className="block text-sm font-medium text-gray-700">
-              SMTP Username *
+            <label htmlFor="fromName" className="block text-sm font-medium text-gray-700">
+              From Name
             </label>
             <input
-              id="username"
-              name="username"
+              id="fromName"
+              name="fromName"
               type="text"
-              value={formData.username}
-              onChange={handleChange}
-              className="block w-full px-3 py-2 mt-1 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
-              required
-            />
-          </div>
-          
-          <div>
-            <label htmlFor="password" className="block text-sm font-medium text-gray-700">
-              SMTP Password {!isEditMode && '*'}
-            </label>
-            <input
-              id="password"
-              name="password"
-              type="password"
-              value={formData.password}
+              value={formData.fromName}
               onChange={handleChange}
               className="block w-full px-3 py-2 mt-1 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
-              required={!isEditMode}
-              placeholder={isEditMode ? '(unchanged)' : ''}
             />
           </div>
-          
+        </div>
+        
+        <div className="grid grid-cols-1 gap-6 md:grid-cols-2">
           <div>
-            <label htmlFor="fromEmail" className="block text-sm font-medium text-gray-700">
-              From Email *
+            <label htmlFor="perMinute" className="block text-sm font-medium text-gray-700">
+              Max Emails per Minute
             </label>
             <input
-              id="fromEmail"
-              name="fromEmail"
-              type="email"
-              value={formData.fromEmail}
+              id="perMinute"
+              name="perMinute"
+              type="number"
+              min={1}
+              value={formData.perMinute}
               onChange={handleChange}
               className="block w-full px-3 py-2 mt-1 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
-              required
+              placeholder="Unlimited"
             />
           </div>
           
           <div>
-            <label htmlFor="fromName" className="block text-sm font-medium text-gray-700">
-              From Name
+            <label htmlFor="perHour" className="block text-sm font-medium text-gray-700">
+              Max Emails per Hour
             </label>
             <input
-              id="fromName"
-              name="fromName"
-              type="text"
-              value={formData.fromName}
+              id="perHour"
+              name="perHour"
+              type="number"
+              min={1}
+              value={formData.perHour}
               onChange={handleChange}
               className="block w-full px-3 py-2 mt-1 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+              placeholder="Unlimited"
             />
           </div>
         </div>
+        <p className="text-xs text-gray-500">
+          Sending waits or is rescheduled when these limits are reached. Leave empty for no limit.
+        </p>
         
-        <div className="flex items-center">
+        <div>
+          <label htmlFor="maxAttachmentMb" className="block text-sm font-medium text-gray-700">
+            Max Attachment Size per Email (MB)
+          </label>
           <input
-            id="secure"
-            name="secure"
-            type="checkbox"
-            checked={formData.secure}
+            id="maxAttachmentMb"
+            name="maxAttachmentMb"
+            type="number"
+            min={1}
+            value={formData.maxAttachmentMb}
             onChange={handleChange}
-            className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+            className="block w-full px-3 py-2 mt-1 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm md:w-1/2"
+            placeholder="10"
           />
-          <label htmlFor="secure" className="block ml-2 text-sm font-medium text-gray-700">
-            Use Secure Connection (SSL/TLS)
-          </label>
+          <p className="mt-1 text-xs text-gray-500">
+            Emails whose attachments add up to more than this are not sent through this server.
+          </p>
         </div>
         
+        {isSmtp && (
+          <div className="flex items-center">
+            <input
+              id="secure"
+              name="secure"
+              type="checkbox"
+              checked={formData.secure}
+              onChange={handleChange}
+              className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+            />
+            <label htmlFor="secure" className="block ml-2 text-sm font-medium text-gray-700">
+              Use Secure Connection (SSL/TLS)
+            </label>
+          </div>
+        )}
+        
         <div className="flex items-center">
           <input
             id="isDefault"
@@ -345,6 +527,124 @@ export default function SmtpForm({ smtpConfig, onSuccess }: Readonly<SmtpFormPro
           </label>
         </div>
         
+        <div className="pt-6 border-t border-gray-200">
+          <h3 className="text-sm font-medium text-gray-900">Bounce Mailbox (IMAP)</h3>
+          <p className="mt-1 text-xs text-gray-500">
+            Bounces and spam complaints that arrive later by email are read from this mailbox every 15 minutes.
+            Matching recipients are marked bounced or complained and added to the suppression list.
+          </p>
+          
+          <div className="grid grid-cols-1 gap-6 mt-4 md:grid-cols-2">
+            <div>
+              <label htmlFor="bounceImapHost" className="block text-sm font-medium text-gray-700">
+                IMAP Host
+              </label>
+              <input
+                id="bounceImapHost"
+                name="bounceImapHost"
+                type="text"
+                value={formData.bounceImapHost}
+                onChange={handleChange}
+                className="block w-full px-3 py-2 mt-1 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                placeholder="e.g., imap.example.com"
+              />
+            </div>
+            
+            <div>
+              <label htmlFor="bounceImapPort" className="block text-sm font-medium text-gray-700">
+                IMAP Port
+              </label>
+              <input
+                id="bounceImapPort"
+                name="bounceImapPort"
+                type="number"
+                min={1}
+                value={formData.bounceImapPort}
+                onChange={handleChange}
+                className="block w-full px-3 py-2 mt-1 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+              />
+            </div>
+            
+            <div>
+              <label htmlFor="bounceImapUsername" className="block text-sm font-medium text-gray-700">
+                IMAP Username
+              </label>
+              <input
+                id="bounceImapUsername"
+                name="bounceImapUsername"
+                type="text"
+                value={formData.bounceImapUsername}
+                onChange={handleChange}
+                className="block w-full px-3 py-2 mt-1 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+              />
+            </div>
+            
+            <div>
+              <label htmlFor="bounceImapPassword" className="block text-sm font-medium text-gray-700">
+                IMAP Password
+              </label>
+              <input
+                id="bounceImapPassword"
+                name="bounceImapPassword"
+                type="password"
+                value={formData.bounceImapPassword}
+                onChange={handleChange}
+                className="block w-full px-3 py-2 mt-1 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                placeholder={smtpConfig?.hasBounceImapPassword ? '(unchanged)' : ''}
+              />
+            </div>
+            
+            <div>
+              <label htmlFor="bounceImapMailbox" className="block text-sm font-medium text-gray-700">
+                Folder
+              </label>
+              <input
+                id="bounceImapMailbox"
+                name="bounceImapMailbox"
+                type="text"
+                value={formData.bounceImapMailbox}
+                onChange={handleChange}
+                className="block w-full px-3 py-2 mt-1 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+              />
+            </div>
+            
+            <div className="flex items-center md:mt-6">
+              <input
+                id="bounceImapSecure"
+                name="bounceImapSecure"
+                type="checkbox"
+                checked={formData.bounceImapSecure}
+                onChange={handleChange}
+                className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+              />
+              <label htmlFor="bounceImapSecure" className="block ml-2 text-sm font-medium text-gray-700">
+                Use SSL/TLS (off upgrades with STARTTLS)
+              </label>
+            </div>
+          </div>
+          
+          {isEditMode && smtpConfig?.bounceImapHost && (
+            <div className="flex items-center justify-between mt-4">
+              <p className="text-xs text-gray-500">
+                {smtpConfig.bounceCheckedAt
+                  ? `Last checked ${new Date(smtpConfig.bounceCheckedAt).toLocaleString()}`
+                  : 'Not checked yet'}
+                {smtpConfig.bounceLastError && (
+                  <span className="ml-2 text-red-600">Last error: {smtpConfig.bounceLastError}</span>
+                )}
+              </p>
+              <button
+                type="button"
+                onClick={handleCheckBounces}
+                disabled={isCheckingBounces}
+                className="text-sm text-blue-600 hover:text-blue-500 disabled:opacity-50"
+              >
+                {isCheckingBounces ? 'Checking...' : 'Check Now'}
+              </button>
+            </div>
+          )}
+        </div>
+        
         <div className="flex flex-col gap-4 pt-4 mt-6 border-t border-gray-200 sm:flex-row-reverse">
           <button
             type="submit"
@@ -357,7 +657,9 @@ export default function SmtpForm({ smtpConfig, onSuccess }: Readonly<SmtpFormPro
           <button
             type="button"
             onClick={handleTestConnection}
-            disabled={isTesting || !formData.host || !formData.port || !formData.username || (!formData.password && !isEditMode) || !formData.fromEmail}
+            disabled={isTesting || !formData.fromEmail || (isSmtp
+              ? !formData.host || !formData.port || !formData.username || (!formData.password && !isEditMode)
+              : formData.transportType === 'brevo-api' && !formData.apiKey && !isEditMode)}
             className="inline-flex justify-center w-full px-4 py-2 text-sm font-medium text-blue-700 bg-blue-100 border border-transparent rounded-md shadow-sm hover:bg-blue-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 sm:w-auto disabled:opacity-50"
           >
             {isTesting ? 'Testing...' : 'Test Connection'}
@@ -10,6 +10,7 @@ import { FiEdit, FiSend } from 'react-icons/fi';
 interface SmtpConfig {
   id: string;
   name: string;
+  transportType: string;
   host: string;
   port: number;
   secure: boolean;
@@ -137,10 +138,24 @@ export default function SmtpList() {
                   </div>
                 </td>
                 <td className="px-6 py-4 whitespace-nowrap">
-                  <div className="text-sm text-gray-900">{config.host}:{config.port}</div>
-                  <div className="text-sm text-gray-500">
-                    {config.secure ? 'SSL/TLS' : 'Unencrypted'}
-                  </div>
+                  {config.transportType === 'capture' ? (
+                    <>
+                      <div className="text-sm text-gray-900">Capture</div>
+                      <div className="text-sm text-gray-500">Stored in Outbox</div>
+                    </>
+                  ) : config.transportType === 'brevo-api' ? (
+                    <>
+                      <div className="text-sm text-gray-900">Brevo API</div>
+                      <div className="text-sm text-gray-500">HTTPS</div>
+                    </>
+                  ) : (
+                    <>
+                      <div className="text-sm text-gray-900">{config.host}:{config.port}</div>
+                      <div className="text-sm text-gray-500">
+                        {config.secure ? 'SSL/TLS' : 'Unencrypted'}
+                      </div>
+                    </>
+                  )}
                 </td>
                 <td className="px-6 py-4 whitespace-nowrap">
                   <div className="text-sm text-gray-900">{config.fromEmail}</div>
@@ -7,6 +7,7 @@ import Link from 'next/link';
 interface SmtpConfig {
   id: string;
   name: string;
+  transportType: string;
   host: string;
   port: number;
   secure: boolean;
@@ -55,7 +56,9 @@ export default function SmtpTestForm({ smtpConfig }: Readonly<SmtpTestFormProps>
       
       setTestResult({
         success: true,
-        message: `Connection successful! Test email sent to ${testEmail}.`,
+        message: result.captured
+          ? `Test email to ${testEmail} captured in the Outbox.`
+          : `Connection successful! Test email sent to ${testEmail}.`,
       });
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
@@ -90,18 +93,27 @@ export default function SmtpTestForm({ smtpConfig }: Readonly<SmtpTestFormProps>
       <div className="mb-6">
         <h3 className="mb-4 text-lg font-medium">SMTP Configuration Details</h3>
         <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
-          <div>
-            <p className="text-sm font-medium text-gray-500">Server</p>
-            <p className="text-sm">{smtpConfig.host}:{smtpConfig.port}</p>
-          </div>
-          <div>
-            <p className="text-sm font-medium text-gray-500">Security</p>
-            <p className="text-sm">{smtpConfig.secure ? 'SSL/TLS' : 'None'}</p>
-          </div>
-          <div>
-            <p className="text-sm font-medium text-gray-500">Username</p>
-            <p className="text-sm">{smtpConfig.username}</p>
-          </div>
+          {smtpConfig.transportType !== 'smtp' ? (
+            <div>
+              <p className="text-sm font-medium text-gray-500">Transport</p>
+              <p className="text-sm">{smtpConfig.transportType === 'capture' ? 'Capture (Outbox)' : 'Brevo API (HTTPS)'}</p>
+            </div>
+          ) : (
+            <>
+              <div>
+                <p className="text-sm font-medium text-gray-500">Server</p>
+                <p className="text-sm">{smtpConfig.host}:{smtpConfig.port}</p>
+              </div>
+              <div>
+                <p className="text-sm font-medium text-gray-500">Security</p>
+                <p className="text-sm">{smtpConfig.secure ? 'SSL/TLS' : 'None'}</p>
+              </div>
+              <div>
+                <p className="text-sm font-medium text-gray-500">Username</p>
+                <p className="text-sm">{smtpConfig.username}</p>
+              </div>
+            </>
+          )}
           <div>
             <p className="text-sm font-medium text-gray-500">From Email</p>
             <p className="text-sm">{smtpConfig.fromEmail}</p>
@@ -0,0 +1,378 @@
+// components/suppressions/SuppressionList.tsx
+'use client';
+
+import { useState, useRef } from 'react';
+import Link from 'next/link';
+import { FiTrash2, FiSearch, FiUpload, FiChevronLeft, FiChevronRight } from 'react-icons/fi';
+
+interface Suppression {
+  id: string;
+  email: string;
+  reason: string;
+  campaign: { id: string; name: string } | null;
+  createdAt: string;
+}
+
+interface SuppressionListProps {
+  initialSuppressions: Suppression[];
+  totalSuppressions: number;
+}
+
+const REASON_LABELS: Record<string, string> = {
+  hard_bounce: 'Hard bounce',
+  unsubscribe: 'Unsubscribed',
+  complaint: 'Complaint',
+  manual: 'Manual',
+};
+
+const REASON_CLASSES: Record<string, string> = {
+  hard_bounce: 'bg-red-100 text-red-800',
+  unsubscribe: 'bg-yellow-100 text-yellow-800',
+  complaint: 'bg-purple-100 text-purple-800',
+  manual: 'bg-gray-100 text-gray-800',
+};
+
+const PAGE_SIZE = 20;
+
+export default function SuppressionList({ initialSuppressions, totalSuppressions }: SuppressionListProps) {
+  const [suppressions, setSuppressions] = useState<Suppression[]>(initialSuppressions);
+  const [pagination, setPagination] = useState({
+    total: totalSuppressions,
+    page: 1,
+    totalPages: Math.ceil(totalSuppressions / PAGE_SIZE),
+  });
+  const [search, setSearch] = useState('');
+  const [reasonFilter, setReasonFilter] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const [newEmail, setNewEmail] = useState('');
+  const [newReason, setNewReason] = useState('manual');
+  const [adding, setAdding] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const fetchSuppressions = async (page: number, searchQuery = search, reason = reasonFilter) => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const url = new URL('/api/suppressions', window.location.origin);
+      url.searchParams.append('page', page.toString());
+      url.searchParams.append('limit', PAGE_SIZE.toString());
+
+      if (searchQuery) {
+        url.searchParams.append('search', searchQuery);
+      }
+
+      if (reason) {
+        url.searchParams.append('reason', reason);
+      }
+
+      const response = await fetch(url.toString());
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch suppressions');
+      }
+
+      const data = await response.json();
+      setSuppressions(data.suppressions);
+      setPagination({
+        total: data.pagination.total,
+        page: data.pagination.page,
+        totalPages: data.pagination.totalPages,
+      });
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'An error occurred');
+      console.error('Error fetching suppressions:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Send a list of addresses to the API and refresh the first page
+  const submitEmails = async (emails: string[], reason: string) => {
+    const response = await fetch('/api/suppressions', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ emails, reason }),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to add suppressions');
+    }
+
+    const parts = [`${data.added} added`];
+    if (data.alreadySuppressed > 0) parts.push(`${data.alreadySuppressed} already suppressed`);
+    if (data.invalid > 0) parts.push(`${data.invalid} invalid`);
+    setMessage(parts.join(', '));
+
+    await fetchSuppressions(1);
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    fetchSuppressions(1);
+  };
+
+  const handleReasonChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    setReasonFilter(e.target.value);
+    fetchSuppressions(1, search, e.target.value);
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newEmail.trim()) return;
+
+    try {
+      setAdding(true);
+      setMessage(null);
+      await submitEmails([newEmail], newReason);
+      setNewEmail('');
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'An error occurred');
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  // Import every address found in a CSV or text file
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      setImporting(true);
+      setMessage(null);
+
+      const text = await file.text();
+      const emails = text.match(/[^\s,;"'<>]+@[^\s,;"'<>]+\.[^\s,;"'<>]+/g) ?? [];
+
+      if (emails.length === 0) {
+        throw new Error('No email addresses found in file');
+      }
+
+      await submitEmails(emails, 'manual');
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'An error occurred');
+    } finally {
+      setImporting(false);
+      if (fileInputRef.current) {
+        fileInputRef.current.value = '';
+      }
+    }
+  };
+
+  const handleRemove = async (suppression: Suppression) => {
+    if (!confirm(`Remove ${suppression.email} from the suppression list? Future campaigns will be able to email this address again.`)) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/suppressions/${suppression.id}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to remove suppression');
+      }
+
+      // Remove from local state
+      setSuppressions(suppressions.filter(s => s.id !== suppression.id));
+      setPagination(prev => ({
+        ...prev,
+        total: prev.total - 1,
+        totalPages: Math.ceil((prev.total - 1) / PAGE_SIZE),
+      }));
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'An error occurred');
+      console.error('Error removing suppression:', error);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Add and import */}
+      <div className="p-4 bg-white rounded-lg shadow-sm border border-gray-200">
+        <div className="flex flex-col gap-4 md:flex-row md:items-end">
+          <form onSubmit={handleAdd} className="flex flex-1 gap-2">
+            <div className="flex-1">
+              <label htmlFor="suppressionEmail" className="block text-sm font-medium text-gray-700">
+                Add Address
+              </label>
+              <input
+                id="suppressionEmail"
+                type="email"
+                value={newEmail}
+                onChange={(e) => setNewEmail(e.target.value)}
+                className="block w-full mt-1 px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                placeholder="name@example.com"
+              />
+            </div>
+            <select
+              value={newReason}
+              onChange={(e) => setNewReason(e.target.value)}
+              className="self-end py-2 pl-3 pr-8 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+            >
+              {Object.entries(REASON_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+            <button
+              type="submit"
+              disabled={adding}
+              className="self-end px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              {adding ? 'Adding...' : 'Add'}
+            </button>
+          </form>
+
+          <div>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,.txt"
+              onChange={handleImport}
+              className="hidden"
+            />
+            <button
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={importing}
+              className="inline-flex items-center px-4 py-2 text-sm font-medium text-blue-700 bg-blue-100 rounded-md hover:bg-blue-200 disabled:opacity-50"
+            >
+              <FiUpload className="w-4 h-4 mr-2" />
+              {importing ? 'Importing...' : 'Import CSV'}
+            </button>
+          </div>
+        </div>
+
+        {message && (
+          <p className="mt-3 text-sm text-green-700">{message}</p>
+        )}
+      </div>
+
+      {/* Search and filter */}
+      <div className="flex flex-col gap-4 md:flex-row">
+        <form onSubmit={handleSearch} className="flex flex-1 max-w-md">
+          <div className="relative flex-grow">
+            <div className="absolute inset-y-0 left-0 flex items-center pl-3 pointer-events-none">
+              <FiSearch className="w-5 h-5 text-gray-400" />
+            </div>
+            <input
+              type="text"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="block w-full py-2 pl-10 pr-3 text-sm leading-5 text-gray-900 placeholder-gray-500 bg-white border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              placeholder="Search addresses..."
+            />
+          </div>
+          <button
+            type="submit"
+            className="px-4 py-2 ml-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
+          >
+            Search
+          </button>
+        </form>
+
+        <div className="flex-1 max-w-xs">
+          <select
+            value={reasonFilter}
+            onChange={handleReasonChange}
+            className="block w-full py-2 pl-3 pr-10 text-sm leading-5 text-gray-900 bg-white border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+          >
+            <option value="">All Reasons</option>
+            {Object.entries(REASON_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-4 text-red-700 bg-red-100 rounded-md">
+          <p>{error}</p>
+        </div>
+      )}
+
+      {loading && suppressions.length === 0 ? (
+        <div className="flex items-center justify-center h-64">
+          <div className="w-8 h-8 border-t-2 border-b-2 border-blue-500 rounded-full animate-spin"></div>
+          <span className="ml-2 text-gray-600">Loading suppressions...</span>
+        </div>
+      ) : suppressions.length === 0 ? (
+        <div className="p-8 text-center border-2 border-dashed border-gray-300 rounded-md">
+          <p className="text-gray-500">No suppressed addresses found.</p>
+        </div>
+      ) : (
+        <div className="overflow-hidden bg-white shadow sm:rounded-md">
+          <ul className="divide-y divide-gray-200">
+            {suppressions.map((suppression) => (
+              <li key={suppression.id} className="px-4 py-4 sm:px-6">
+                <div className="flex items-center justify-between">
+                  <div className="truncate">
+                    <div className="flex items-center">
+                      <p className="font-medium text-gray-900 truncate">{suppression.email}</p>
+                      <span className={`ml-2 px-2 py-0.5 text-xs font-medium rounded-full ${REASON_CLASSES[suppression.reason] ?? REASON_CLASSES.manual}`}>
+                        {REASON_LABELS[suppression.reason] ?? suppression.reason}
+                      </span>
+                    </div>
+                    <p className="mt-1 text-sm text-gray-500">
+                      Added on {new Date(suppression.createdAt).toLocaleDateString()}
+                      {suppression.campaign && (
+                        <>
+                          {' '}from{' '}
+                          <Link
+                            href={`/dashboard/campaigns/${suppression.campaign.id}`}
+                            className="text-blue-600 hover:text-blue-500"
+                          >
+                            {suppression.campaign.name}
+                          </Link>
+                        </>
+                      )}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => handleRemove(suppression)}
+                    className="p-2 ml-2 text-red-600 bg-red-100 rounded-full hover:bg-red-200"
+                    title="Remove Suppression"
+                  >
+                    <FiTrash2 className="w-5 h-5" />
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+
+          {pagination.totalPages > 1 && (
+            <div className="flex items-center justify-between px-4 py-3 bg-white border-t border-gray-200 sm:px-6">
+              <p className="text-sm text-gray-700">
+                Page <span className="font-medium">{pagination.page}</span> of{' '}
+                <span className="font-medium">{pagination.totalPages}</span> ({pagination.total} addresses)
+              </p>
+              <div className="flex space-x-2">
+                <button
+                  onClick={() => fetchSuppressions(pagination.page - 1)}
+                  disabled={pagination.page <= 1 || loading}
+                  className="inline-flex items-center px-3 py-2 text-sm text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+                >
+                  <FiChevronLeft className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => fetchSuppressions(pagination.page + 1)}
+                  disabled={pagination.page >= pagination.totalPages || loading}
+                  className="inline-flex items-center px-3 py-2 text-sm text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+                >
+                  <FiChevronRight className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
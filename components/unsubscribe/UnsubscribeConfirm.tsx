@@ -0,0 +1,71 @@
+// components/unsubscribe/UnsubscribeConfirm.tsx
+'use client';
+
+import { useState } from 'react';
+
+interface UnsubscribeConfirmProps {
+  token: string;
+}
+
+export default function UnsubscribeConfirm({ token }: UnsubscribeConfirmProps) {
+  const [loading, setLoading] = useState(false);
+  const [email, setEmail] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  
+  const handleUnsubscribe = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      
+      const response = await fetch(`/api/unsubscribe?token=${encodeURIComponent(token)}`, {
+        method: 'POST',
+      });
+      
+      const data = await response.json();
+      
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to unsubscribe');
+      }
+      
+      setEmail(data.email);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'An error occurred');
+    } finally {
+      setLoading(false);
+    }
+  };
+  
+  if (email) {
+    return (
+      <>
+        <h1 className="text-xl font-semibold text-gray-900">You have been unsubscribed</h1>
+        <p className="mt-2 text-sm text-gray-600">
+          <span className="font-medium">{email}</span> will no longer receive these emails.
+        </p>
+      </>
+    );
+  }
+  
+  return (
+    <>
+      <h1 className="text-xl font-semibold text-gray-900">Unsubscribe</h1>
+      <p className="mt-2 text-sm text-gray-600">
+        Confirm that you no longer want to receive emails from this sender.
+      </p>
+      
+      {error && (
+        <div className="p-3 mt-4 text-sm text-red-700 bg-red-100 rounded-md">
+          {error}
+        </div>
+      )}
+      
+      <button
+        onClick={handleUnsubscribe}
+        disabled={loading}
+        className="w-full px-4 py-2 mt-6 text-sm font-medium text-white bg-red-600 rounded-md hover:bg-red-700 disabled:opacity-50"
+      >
+        {loading ? 'Unsubscribing...' : 'Unsubscribe'}
+      </button>
+    </>
+  );
+}
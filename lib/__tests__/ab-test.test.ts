@@ -0,0 +1,155 @@
+// lib/__tests__/ab-test.test.ts
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Campaign } from '@prisma/client';
+import { createFakeModel, Row } from './fake-prisma';
+import { advanceAbTest, assignTestVariants, decideAbTest } from '../ab-test';
+
+const db = vi.hoisted(() => ({}) as Row);
+vi.mock('../db', () => ({ prisma: db }));
+
+const NOW = new Date('2025-01-06T09:00:00Z');
+const later = (ms: number) => new Date(NOW.getTime() + ms);
+
+type AbCampaign = Pick<Campaign, 'id' | 'abTestStatus' | 'abTestMetric' | 'abTestWaitMinutes' | 'abTestDecideAt'>;
+
+const testing: AbCampaign = { id: 'campaign-1', abTestStatus: 'testing', abTestMetric: 'open', abTestWaitMinutes: 60, abTestDecideAt: null };
+
+beforeEach(() => {
+  vi.useFakeTimers({ now: NOW, toFake: ['Date'] });
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+
+  db.campaign = createFakeModel([{ id: 'campaign-1', abTestStatus: 'testing', abTestDecideAt: null }]);
+  db.campaignVariant = createFakeModel([
+    { id: 'v-a', campaignId: 'campaign-1', name: 'A', subject: 'Hello', template: null, isWinner: false },
+    { id: 'v-b', campaignId: 'campaign-1', name: 'B', subject: 'Hi there', template: { name: 'Alt' }, isWinner: false },
+  ]);
+  db.recipient = createFakeModel();
+  db.$transaction = vi.fn(async (operations: Promise<unknown>[]) => Promise.all(operations));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+/**
+ * Add sent sample recipients to a variant, the first `opened` and `clicked` of them with that activity
+ */
+function addSample(variantId: string, sent: number, opened: number, clicked = 0) {
+  for (let i = 0; i < sent; i++) {
+    db.recipient.rows.push({
+      id: `${variantId}-${i}`,
+      campaignId: 'campaign-1',
+      variantId,
+      status: 'sent',
+      nextAttemptAt: null,
+      logs: [{ openedAt: i < opened ? NOW : null, clickedAt: i < clicked ? NOW : null }],
+    });
+  }
+}
+
+function addHeldBack(count: number) {
+  for (let i = 0; i < count; i++) {
+    db.recipient.rows.push({ id: `rest-${i}`, campaignId: 'campaign-1', variantId: null, status: 'pending', nextAttemptAt: null, logs: [] });
+  }
+}
+
+describe('assignTestVariants', () => {
+  it('spreads the sample over every variant and holds back the rest', async () => {
+    addHeldBack(10);
+
+    expect(await assignTestVariants('campaign-1', ['v-a', 'v-b'], 40)).toBe(4);
+
+    const assigned = db.recipient.rows.filter((row: Row) => row.variantId);
+    expect(assigned.filter((row: Row) => row.variantId === 'v-a')).toHaveLength(2);
+    expect(assigned.filter((row: Row) => row.variantId === 'v-b')).toHaveLength(2);
+  });
+
+  it('gives every variant at least one recipient', async () => {
+    addHeldBack(10);
+
+    expect(await assignTestVariants('campaign-1', ['v-a', 'v-b'], 1)).toBe(2);
+  });
+});
+
+describe('decideAbTest', () => {
+  it('picks the best open rate and hands it the held-back recipients', async () => {
+    addSample('v-a', 10, 2);
+    addSample('v-b', 10, 5);
+    addHeldBack(3);
+
+    const winner = await decideAbTest({ id: 'campaign-1', abTestMetric: 'open' });
+
+    expect(winner).toMatchObject({ id: 'v-b', sent: 10, opened: 5, openRate: 0.5, templateName: 'Alt' });
+    expect(db.campaignVariant.rows.map((row: Row) => row.isWinner)).toEqual([false, true]);
+    expect(db.recipient.rows.filter((row: Row) => row.id.startsWith('rest')).map((row: Row) => row.variantId)).toEqual(['v-b', 'v-b', 'v-b']);
+    expect(db.campaign.rows[0].abTestStatus).toBe('decided');
+  });
+
+  it('compares click rates when the test is on clicks', async () => {
+    addSample('v-a', 10, 8, 1);
+    addSample('v-b', 10, 3, 2);
+
+    expect((await decideAbTest({ id: 'campaign-1', abTestMetric: 'click' }))?.id).toBe('v-b');
+  });
+
+  it('breaks a tie on rate with the number of opens', async () => {
+    addSample('v-a', 10, 2, 1);
+    addSample('v-b', 20, 4, 2);
+
+    expect((await decideAbTest({ id: 'campaign-1', abTestMetric: 'click' }))?.id).toBe('v-b');
+  });
+
+  it('falls back to the earliest variant on a full tie', async () => {
+    addSample('v-a', 10, 2);
+    addSample('v-b', 10, 2);
+
+    expect((await decideAbTest({ id: 'campaign-1', abTestMetric: 'open' }))?.id).toBe('v-a');
+  });
+});
+
+describe('advanceAbTest', () => {
+  it('waits for sample retries before starting the clock', async () => {
+    addSample('v-a', 2, 0);
+    db.recipient.rows.push({ id: 'retry', campaignId: 'campaign-1', variantId: 'v-b', status: 'pending', nextAttemptAt: later(90000) });
+
+    expect(await advanceAbTest(testing)).toBe(90000);
+    expect(db.campaign.rows[0].abTestStatus).toBe('testing');
+  });
+
+  it('starts the wait window once the sample is sent', async () => {
+    addSample('v-a', 2, 0);
+    addHeldBack(5);
+
+    expect(await advanceAbTest(testing)).toBe(60 * 60 * 1000);
+    expect(db.campaign.rows[0]).toMatchObject({ abTestStatus: 'waiting', abTestDecideAt: later(60 * 60 * 1000) });
+  });
+
+  it('skips the wait window when the sample reached nobody', async () => {
+    db.recipient.rows.push(
+      { id: 'gone', campaignId: 'campaign-1', variantId: 'v-a', status: 'skipped', nextAttemptAt: null, logs: [] },
+      { id: 'bad', campaignId: 'campaign-1', variantId: 'v-b', status: 'failed', nextAttemptAt: null, logs: [] },
+    );
+    addHeldBack(2);
+
+    expect(await advanceAbTest(testing)).toBe(0);
+    expect(db.campaign.rows[0]).toMatchObject({ abTestStatus: 'decided', abTestDecideAt: null });
+    expect(db.recipient.rows.filter((row: Row) => row.id.startsWith('rest')).map((row: Row) => row.variantId)).toEqual(['v-a', 'v-a']);
+  });
+
+  it('keeps waiting until the decision time', async () => {
+    const waiting = { ...testing, abTestStatus: 'waiting', abTestDecideAt: later(1000) };
+
+    expect(await advanceAbTest(waiting)).toBe(1000);
+    expect(db.campaign.rows[0].abTestStatus).toBe('testing');
+  });
+
+  it('decides once the wait is over', async () => {
+    addSample('v-a', 2, 1);
+    addSample('v-b', 2, 0);
+    addHeldBack(1);
+
+    expect(await advanceAbTest({ ...testing, abTestStatus: 'waiting', abTestDecideAt: NOW })).toBe(0);
+    expect(db.recipient.rows.at(-1).variantId).toBe('v-a');
+    expect(db.campaign.rows[0].abTestStatus).toBe('decided');
+  });
+});
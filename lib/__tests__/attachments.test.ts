@@ -0,0 +1,73 @@
+// lib/__tests__/attachments.test.ts
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { Attachment } from '@prisma/client';
+import { createFakeModel, Row } from './fake-prisma';
+import { deleteAttachment, getMailAttachments } from '../attachments';
+
+const db = vi.hoisted(() => ({}) as Row);
+vi.mock('../db', () => ({ prisma: db }));
+
+const storage = vi.hoisted(() => ({
+  put: vi.fn(),
+  get: vi.fn(async (path: string) => Buffer.alloc(path.endsWith('big') ? 20 * 1024 * 1024 : 4, 1)),
+  remove: vi.fn(),
+}));
+vi.mock('../attachment-storage', () => ({ getAttachmentStorage: () => storage }));
+
+const MB = 1024 * 1024;
+
+function attachment(id: string, size = 4, campaigns: Row[] = []): Row {
+  return { id, fileName: `${id}.pdf`, contentType: 'application/pdf', size, storagePath: `user-1/${id}${size > 4 ? '-big' : ''}`, userId: 'user-1', campaigns };
+}
+
+// Send one email with the given library files attached
+function send(...attachments: Row[]) {
+  return getMailAttachments(
+    { userId: 'user-1', attachments: attachments.map(item => ({ attachment: item as Attachment })) },
+    { metadata: {} },
+    { id: 'smtp-1', maxAttachmentMb: 100 }
+  );
+}
+
+beforeEach(() => {
+  storage.get.mockClear();
+  storage.remove.mockClear();
+});
+
+describe('deleteAttachment', () => {
+  it('refuses while a campaign that has not finished sending uses the file', async () => {
+    const inUse = attachment('a1', 4, [{ campaign: { status: 'completed' } }, { campaign: { status: 'processing' } }]);
+    db.attachment = createFakeModel([inUse]);
+
+    expect(await deleteAttachment(inUse as Attachment)).toBe(false);
+    expect(db.attachment.rows).toHaveLength(1);
+    expect(storage.remove).not.toHaveBeenCalled();
+  });
+
+  it('removes a file only finished campaigns used', async () => {
+    const done = attachment('a1', 4, [{ campaign: { status: 'completed' } }]);
+    db.attachment = createFakeModel([done]);
+
+    expect(await deleteAttachment(done as Attachment)).toBe(true);
+    expect(db.attachment.rows).toHaveLength(0);
+    expect(storage.remove).toHaveBeenCalledWith('user-1/a1');
+  });
+
+  it('frees the cache space of a deleted file', async () => {
+    const deleted = attachment('gone', 20 * MB);
+    const first = attachment('first', 20 * MB);
+    const second = attachment('second', 20 * MB);
+    db.attachment = createFakeModel([deleted]);
+
+    await send(deleted);
+    await deleteAttachment(deleted as Attachment);
+
+    // Both fit in the 50 MB cache once the deleted file no longer counts
+    await send(first);
+    await send(second);
+    storage.get.mockClear();
+    await send(first, second);
+
+    expect(storage.get).not.toHaveBeenCalled();
+  });
+});
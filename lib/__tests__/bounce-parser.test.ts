@@ -0,0 +1,142 @@
+// lib/__tests__/bounce-parser.test.ts
+import { describe, expect, it } from 'vitest';
+import { parseBounceReport } from '../bounce-parser';
+
+const crlf = (lines: string[]) => lines.join('\r\n');
+
+const deliveryStatusReport = crlf([
+  'From: Mail Delivery System <MAILER-DAEMON@mx.example.net>',
+  'To: bounces@example.com',
+  'Subject: Undelivered Mail Returned to Sender',
+  'MIME-Version: 1.0',
+  'Content-Type: multipart/report; report-type=delivery-status;',
+  '\tboundary="DSN-BOUNDARY"',
+  '',
+  '--DSN-BOUNDARY',
+  'Content-Type: text/plain; charset=us-ascii',
+  '',
+  'This is the mail system at host mx.example.net.',
+  '',
+  '--DSN-BOUNDARY',
+  'Content-Type: message/delivery-status',
+  '',
+  'Reporting-MTA: dns; mx.example.net',
+  'Arrival-Date: Mon, 6 Jan 2025 09:00:00 +0000',
+  '',
+  'Final-Recipient: rfc822; Missing@Example.org',
+  'Original-Recipient: rfc822;missing@example.org',
+  'Action: failed',
+  'Status: 5.1.1',
+  'Diagnostic-Code: smtp; 550 5.1.1 <missing@example.org>: Recipient address',
+  ' rejected: User unknown',
+  '',
+  'Final-Recipient: rfc822; slow@example.org',
+  'Action: delayed',
+  'Status: 4.4.1',
+  '',
+  '--DSN-BOUNDARY',
+  'Content-Type: message/rfc822',
+  '',
+  'From: news@example.com',
+  'To: missing@example.org',
+  'Subject: Hello',
+  'Message-ID: <abc123@example.com>',
+  '',
+  'Hello',
+  '',
+  '--DSN-BOUNDARY--',
+  '',
+]);
+
+const feedbackReport = crlf([
+  'From: feedback@provider.example',
+  'MIME-Version: 1.0',
+  'Content-Type: multipart/report; report-type=feedback-report; boundary="ARF"',
+  '',
+  '--ARF',
+  'Content-Type: text/plain',
+  '',
+  'This is an email abuse report.',
+  '',
+  '--ARF',
+  'Content-Type: message/feedback-report',
+  '',
+  'Feedback-Type: abuse',
+  'User-Agent: SomeGenerator/1.0',
+  'Version: 1',
+  'Original-Rcpt-To: <Reader@example.org>',
+  '',
+  '--ARF',
+  'Content-Type: text/rfc822-headers',
+  '',
+  'From: news@example.com',
+  'To: reader@example.org',
+  'Message-ID: <def456@example.com>',
+  '',
+  '--ARF--',
+  '',
+]);
+
+describe('parseBounceReport', () => {
+  it('reads every recipient of a delivery status notification', () => {
+    const report = parseBounceReport(deliveryStatusReport);
+
+    expect(report).toEqual({
+      type: 'bounce',
+      originalMessageId: '<abc123@example.com>',
+      feedbackType: null,
+      recipients: [
+        {
+          email: 'missing@example.org',
+          action: 'failed',
+          status: '5.1.1',
+          diagnostic: '550 5.1.1 <missing@example.org>: Recipient address rejected: User unknown',
+          permanent: true,
+        },
+        { email: 'slow@example.org', action: 'delayed', status: '4.4.1', diagnostic: null, permanent: false },
+      ],
+    });
+  });
+
+  it('accepts the raw message as a buffer', () => {
+    expect(parseBounceReport(Buffer.from(deliveryStatusReport))?.recipients).toHaveLength(2);
+  });
+
+  it('decodes a base64 delivery status part', () => {
+    const status = crlf(['Reporting-MTA: dns; mx.example.net', '', 'Final-Recipient: rfc822; gone@example.org', 'Action: failed', 'Status: 5.1.1', '']);
+    const raw = crlf([
+      'Content-Type: multipart/report; report-type=delivery-status; boundary=b',
+      '',
+      '--b',
+      'Content-Type: message/delivery-status',
+      'Content-Transfer-Encoding: base64',
+      '',
+      Buffer.from(status).toString('base64'),
+      '--b--',
+      '',
+    ]);
+
+    expect(parseBounceReport(raw)?.recipients.map(recipient => recipient.email)).toEqual(['gone@example.org']);
+  });
+
+  it('reads a complaint feedback report', () => {
+    expect(parseBounceReport(feedbackReport)).toEqual({
+      type: 'complaint',
+      originalMessageId: '<def456@example.com>',
+      feedbackType: 'abuse',
+      recipients: [{ email: 'reader@example.org', action: null, status: null, diagnostic: 'abuse', permanent: true }],
+    });
+  });
+
+  it('falls back to the returned To header when the recipient is redacted', () => {
+    const redacted = feedbackReport.replace('Original-Rcpt-To: <Reader@example.org>\r\n', '');
+
+    expect(parseBounceReport(redacted)?.recipients[0]?.email).toBe('reader@example.org');
+  });
+
+  it('ignores mail that is not a report', () => {
+    const reply = crlf(['From: reader@example.org', 'Content-Type: text/plain', '', 'Thanks!']);
+
+    expect(parseBounceReport(reply)).toBeNull();
+  });
+});
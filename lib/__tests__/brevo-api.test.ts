@@ -0,0 +1,133 @@
+// lib/__tests__/brevo-api.test.ts
+import http from 'http';
+import { AddressInfo } from 'net';
+import { SmtpConfig } from '@prisma/client';
+import { afterAll, afterEach, beforeAll, describe, expect, it } from 'vitest';
+import { createBrevoApiTransport } from '../brevo-api';
+import type { MailMessage } from '../mail-transport';
+import { classifySmtpError } from '../smtp-errors';
+
+interface ReceivedRequest {
+  method?: string;
+  url?: string;
+  headers: http.IncomingHttpHeaders;
+  body: unknown;
+}
+
+// Local stand-in for the Brevo API; each test sets the reply
+let reply: { status: number; body: string } = { status: 201, body: '{"messageId":"<test@smtp-relay.brevo.com>"}' };
+let received: ReceivedRequest[] = [];
+
+const server = http.createServer((request, response) => {
+  let data = '';
+  request.on('data', chunk => (data += chunk));
+  request.on('end', () => {
+    received.push({ method: request.method, url: request.url, headers: request.headers, body: data ? JSON.parse(data) : null });
+    response.writeHead(reply.status, { 'content-type': 'application/json' });
+    response.end(reply.body);
+  });
+});
+
+const smtpConfig = { apiKey: 'test-key' } as SmtpConfig;
+
+const message: MailMessage = {
+  from: { name: 'Newsletter', address: 'news@example.com' },
+  to: '"Jane Doe" <jane@example.org>',
+  cc: ['cc@example.org'],
+  subject: 'Hello',
+  html: '<p>Hello</p>',
+  text: 'Hello',
+  headers: { 'List-Unsubscribe': '<https://example.com/u>' },
+  attachments: [{ filename: 'note.txt', content: Buffer.from('note'), contentType: 'text/plain' }],
+};
+
+beforeAll(async () => {
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  process.env.BREVO_API_URL = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v3/`;
+});
+
+afterAll(async () => {
+  delete process.env.BREVO_API_URL;
+  await new Promise(resolve => server.close(resolve));
+});
+
+afterEach(() => {
+  reply = { status: 201, body: '{"messageId":"<test@smtp-relay.brevo.com>"}' };
+  received = [];
+});
+
+describe('createBrevoApiTransport', () => {
+  it('posts the message to /smtp/email', async () => {
+    const sent = await createBrevoApiTransport(smtpConfig).sendMail(message);
+
+    expect(received).toHaveLength(1);
+    expect(received[0]).toMatchObject({ method: 'POST', url: '/v3/smtp/email' });
+    expect(received[0].headers['api-key']).toBe('test-key');
+    expect(received[0].body).toEqual({
+      sender: { name: 'Newsletter', email: 'news@example.com' },
+      to: [{ email: 'jane@example.org', name: 'Jane Doe' }],
+      cc: [{ email: 'cc@example.org' }],
+      subject: 'Hello',
+      htmlContent: '<p>Hello</p>',
+      textContent: 'Hello',
+      headers: { 'List-Unsubscribe': '<https://example.com/u>' },
+      attachment: [{ name: 'note.txt', content: Buffer.from('note').toString('base64') }],
+    });
+
+    expect(sent).toEqual({
+      messageId: '<test@smtp-relay.brevo.com>',
+      response: '201 <test@smtp-relay.brevo.com>',
+      accepted: ['jane@example.org', 'cc@example.org'],
+      rejected: [],
+    });
+  });
+
+  it('raises API errors with their HTTP status', async () => {
+    reply = { status: 400, body: '{"code":"invalid_parameter","message":"sender is not valid"}' };
+
+    const error = await createBrevoApiTransport(smtpConfig).sendMail(message).catch(caught => caught);
+
+    expect(error).toMatchObject({
+      message: 'Brevo API error 400: sender is not valid',
+      httpStatus: 400,
+      response: '400 sender is not valid',
+    });
+    expect(classifySmtpError(error).category).toBe('unknown');
+  });
+
+  it('reports rate limiting and server errors as retryable', async () => {
+    reply = { status: 429, body: '{"message":"Too many requests"}' };
+    const throttled = await createBrevoApiTransport(smtpConfig).sendMail(message).catch(caught => caught);
+
+    reply = { status: 502, body: '<html>Bad Gateway</html>' };
+    const unavailable = await createBrevoApiTransport(smtpConfig).sendMail(message).catch(caught => caught);
+
+    expect(classifySmtpError(throttled)).toMatchObject({ category: 'throttled', retryable: true });
+    expect(unavailable.message).toBe('Brevo API error 502: <html>Bad Gateway</html>');
+    expect(classifySmtpError(unavailable)).toMatchObject({ category: 'network', retryable: true });
+  });
+
+  it('fails when the API accepts the email without a message ID', async () => {
+    reply = { status: 201, body: '{}' };
+
+    await expect(createBrevoApiTransport(smtpConfig).sendMail(message)).rejects.toThrow('returned no message ID');
+  });
+
+  it('turns an unreachable API into a network error', async () => {
+    process.env.BREVO_API_URL = 'http://127.0.0.1:1/v3';
+
+    try {
+      const error = await createBrevoApiTransport(smtpConfig).sendMail(message).catch(caught => caught);
+
+      expect(error.code).toBe('ECONNECTION');
+      expect(classifySmtpError(error).category).toBe('network');
+    } finally {
+      process.env.BREVO_API_URL = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v3/`;
+    }
+  });
+
+  it('needs an API key', async () => {
+    await expect(createBrevoApiTransport({ apiKey: null } as SmtpConfig).verify()).rejects.toMatchObject({ httpStatus: 401 });
+    expect(received).toHaveLength(0);
+  });
+});
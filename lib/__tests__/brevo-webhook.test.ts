@@ -0,0 +1,106 @@
+// lib/__tests__/brevo-webhook.test.ts
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { Prisma } from '@prisma/client';
+import { createFakeModel, Row } from './fake-prisma';
+import { recordLateFailure } from '../bounce-processing';
+import { handleBrevoEvent } from '../brevo-webhook';
+
+const db = vi.hoisted(() => ({}) as Row);
+vi.mock('../db', () => ({ prisma: db }));
+vi.mock('../bounce-processing', () => ({ recordLateFailure: vi.fn(async () => true) }));
+vi.mock('../unsubscribe', () => ({ unsubscribeRecipient: vi.fn() }));
+
+const log = {
+  id: 'log-1',
+  messageId: '<abc@smtp-relay.brevo.com>',
+  status: 'sent',
+  recipientId: 'r1',
+  recipient: { id: 'r1', email: 'Reader@example.org' },
+  campaign: { id: 'campaign-1', userId: 'user-1' },
+  deliveredAt: null,
+  openedAt: null,
+  clickedAt: null,
+};
+
+beforeEach(() => {
+  vi.mocked(recordLateFailure).mockClear();
+
+  db.emailLog = createFakeModel([{ ...log }]);
+  db.campaign = createFakeModel([{ id: 'campaign-1', deliveredCount: 0 }]);
+  db.webhookEvent = createFakeModel();
+  db.$transaction = vi.fn(async (operations: Promise<unknown>[]) => Promise.all(operations));
+});
+
+function event(name: string, fields: Row = {}) {
+  return { event: name, email: 'reader@example.org', 'message-id': 'abc@smtp-relay.brevo.com', ts_epoch: 1736154000000, ...fields };
+}
+
+describe('handleBrevoEvent', () => {
+  it('records delivery on the matching send', async () => {
+    expect(await handleBrevoEvent('user-1', event('delivered'))).toBe('applied');
+
+    expect(db.emailLog.rows[0].deliveredAt).toEqual(new Date(1736154000000));
+    expect(db.campaign.rows[0].deliveredCount).toBe(1);
+    expect(db.webhookEvent.rows).toEqual([expect.objectContaining({ provider: 'brevo', event: 'delivered', emailLogId: 'log-1' })]);
+  });
+
+  it('suppresses hard bounces and invalid addresses', async () => {
+    await handleBrevoEvent('user-1', event('hard_bounce', { reason: 'mailbox does not exist' }));
+    await handleBrevoEvent('user-1', event('invalid_email'));
+
+    expect(vi.mocked(recordLateFailure).mock.calls.map(([, type, details]) => [type, details])).toEqual([
+      ['bounce', { failureCategory: 'hard_bounce', errorMessage: 'Brevo hard bounce: mailbox does not exist' }],
+      ['bounce', { failureCategory: 'hard_bounce', errorMessage: 'Brevo invalid email' }],
+    ]);
+  });
+
+  it('records a blocked send as rejected so the address is not suppressed', async () => {
+    await handleBrevoEvent('user-1', event('blocked', { reason: 'blocklisted' }));
+
+    expect(recordLateFailure).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'log-1' }),
+      'bounce',
+      { failureCategory: 'rejected', errorMessage: 'Brevo blocked: blocklisted' }
+    );
+  });
+
+  it('applies a redelivered event only once', async () => {
+    db.webhookEvent.create = vi.fn(async ({ data }: Row) => {
+      if (db.webhookEvent.rows.some((row: Row) => row.eventKey === data.eventKey)) {
+        throw new Prisma.PrismaClientKnownRequestError('Unique constraint failed', { code: 'P2002', clientVersion: 'test' });
+      }
+      db.webhookEvent.rows.push({ id: `event-${db.webhookEvent.rows.length}`, ...data });
+      return db.webhookEvent.rows.at(-1);
+    });
+
+    expect(await handleBrevoEvent('user-1', event('blocked'))).toBe('applied');
+    expect(await handleBrevoEvent('user-1', event('blocked'))).toBe('duplicate');
+    expect(recordLateFailure).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not claim an event for an unknown send, so a later redelivery still applies', async () => {
+    const early = event('delivered', { 'message-id': 'later@smtp-relay.brevo.com' });
+
+    expect(await handleBrevoEvent('user-1', early)).toBe('unmatched');
+    expect(await handleBrevoEvent('user-2', event('delivered'))).toBe('unmatched');
+    expect(db.webhookEvent.rows).toHaveLength(0);
+
+    db.emailLog.rows[0].messageId = 'later@smtp-relay.brevo.com';
+    expect(await handleBrevoEvent('user-1', early)).toBe('applied');
+  });
+
+  it('releases the claim when applying the event fails', async () => {
+    vi.mocked(recordLateFailure).mockRejectedValueOnce(new Error('database down'));
+
+    await expect(handleBrevoEvent('user-1', event('hard_bounce'))).rejects.toThrow('database down');
+    expect(db.webhookEvent.rows).toHaveLength(0);
+
+    expect(await handleBrevoEvent('user-1', event('hard_bounce'))).toBe('applied');
+  });
+
+  it('ignores events it does not handle', async () => {
+    expect(await handleBrevoEvent('user-1', event('request'))).toBe('ignored');
+    expect(await handleBrevoEvent('user-1', event('delivered', { email: undefined }))).toBe('ignored');
+    expect(db.webhookEvent.rows).toHaveLength(0);
+  });
+});
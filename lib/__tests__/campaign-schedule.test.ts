@@ -0,0 +1,103 @@
+// lib/__tests__/campaign-schedule.test.ts
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createFakeModel, Row } from './fake-prisma';
+import { addCampaignRecipients, getGroupRecipients } from '../campaign-recipients';
+import { startCampaignProcessing } from '../queue';
+import { processDueSchedules } from '../campaign-schedule';
+
+const db = vi.hoisted(() => ({}) as Row);
+vi.mock('../db', () => ({ prisma: db }));
+vi.mock('../queue', () => ({ startCampaignProcessing: vi.fn(async () => true) }));
+vi.mock('../campaign-recipients', () => ({
+  getGroupRecipients: vi.fn(async () => [{ email: 'reader@example.org', name: null, metadata: {}, contactId: 'c1' }]),
+  addCampaignRecipients: vi.fn(async () => ({ total: 1, suppressed: 0 })),
+}));
+
+const OCCURRENCE = new Date('2025-01-06T09:00:00Z');
+const NOW = new Date('2025-01-06T09:00:30Z');
+const NEXT_OCCURRENCE = new Date('2025-01-07T09:00:00Z');
+const LAST_RUN = new Date('2025-01-05T09:00:10Z');
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  vi.mocked(getGroupRecipients).mockClear();
+  vi.mocked(addCampaignRecipients).mockClear();
+  vi.mocked(startCampaignProcessing).mockClear();
+
+  db.campaignSchedule = createFakeModel([{
+    id: 'schedule-1',
+    name: 'Daily digest',
+    cronExpression: '0 9 * * *',
+    timezone: 'UTC',
+    startDate: null,
+    endDate: null,
+    isActive: true,
+    nextRunAt: OCCURRENCE,
+    lastRunAt: LAST_RUN,
+    lastError: 'previous failure',
+    templateId: 'template-1',
+    smtpConfigId: 'smtp-1',
+    parameterValues: null,
+    sendingProfile: 'standard',
+    userId: 'user-1',
+    user: { sendingHaltedAt: null },
+    targetGroups: [{ groupId: 'group-1' }],
+  }]);
+  db.campaign = createFakeModel();
+  db.templateAttachment = createFakeModel();
+});
+
+describe('processDueSchedules', () => {
+  it('spawns a campaign for a due occurrence and moves on to the next one', async () => {
+    const [result] = await processDueSchedules(NOW);
+
+    expect(result).toMatchObject({ scheduleId: 'schedule-1', success: true });
+    expect(db.campaign.rows).toEqual([expect.objectContaining({ id: result.campaignId, status: 'draft', scheduledRunAt: OCCURRENCE })]);
+    expect(startCampaignProcessing).toHaveBeenCalledWith(result.campaignId);
+    expect(db.campaignSchedule.rows[0]).toMatchObject({ nextRunAt: NEXT_OCCURRENCE, lastRunAt: NOW, lastError: null });
+  });
+
+  it('skips schedules that are not due, inactive or halted', async () => {
+    expect(await processDueSchedules(new Date('2025-01-06T08:59:59Z'))).toEqual([]);
+
+    db.campaignSchedule.rows[0].user.sendingHaltedAt = NOW;
+    expect(await processDueSchedules(NOW)).toEqual([]);
+    expect(db.campaign.rows).toHaveLength(0);
+  });
+
+  it('hands the occurrence back and removes the draft when adding recipients fails', async () => {
+    vi.mocked(addCampaignRecipients).mockRejectedValueOnce(new Error('connection reset'));
+
+    const [result] = await processDueSchedules(NOW);
+
+    expect(result).toEqual({ scheduleId: 'schedule-1', success: false, error: 'connection reset' });
+    expect(db.campaign.rows).toHaveLength(0);
+    expect(startCampaignProcessing).not.toHaveBeenCalled();
+    expect(db.campaignSchedule.rows[0]).toMatchObject({ nextRunAt: OCCURRENCE, lastRunAt: LAST_RUN, lastError: 'connection reset' });
+
+    // The next cron run spawns it
+    expect((await processDueSchedules(new Date('2025-01-06T09:01:00Z')))[0].success).toBe(true);
+    expect(db.campaign.rows).toHaveLength(1);
+  });
+
+  it('retries an occurrence whose groups are empty', async () => {
+    vi.mocked(getGroupRecipients).mockResolvedValueOnce([]);
+
+    const [result] = await processDueSchedules(NOW);
+
+    expect(result.error).toBe('Target groups contain no contacts');
+    expect(db.campaignSchedule.rows[0]).toMatchObject({ nextRunAt: OCCURRENCE, lastError: 'Target groups contain no contacts' });
+  });
+
+  it('keeps an edit made while the occurrence was running', async () => {
+    vi.mocked(addCampaignRecipients).mockImplementationOnce(async () => {
+      db.campaignSchedule.rows[0].nextRunAt = new Date('2025-01-08T12:00:00Z');
+      throw new Error('connection reset');
+    });
+
+    await processDueSchedules(NOW);
+
+    expect(db.campaignSchedule.rows[0]).toMatchObject({ nextRunAt: new Date('2025-01-08T12:00:00Z'), lastError: 'connection reset' });
+  });
+});
@@ -0,0 +1,91 @@
+// lib/__tests__/cron.test.ts
+import { describe, expect, it } from 'vitest';
+import { dateToZonedTime, getNextCronOccurrence, parseCronExpression, zonedTimeToDate } from '../cron';
+
+describe('parseCronExpression', () => {
+  it('parses ranges, steps and names', () => {
+    const fields = parseCronExpression('*/15 9-17 * jan,jul mon-fri');
+
+    expect([...fields.minutes]).toEqual([0, 15, 30, 45]);
+    expect([...fields.hours]).toEqual([9, 10, 11, 12, 13, 14, 15, 16, 17]);
+    expect([...fields.months]).toEqual([1, 7]);
+    expect([...fields.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it('treats 7 as Sunday', () => {
+    expect([...parseCronExpression('0 0 * * 7').daysOfWeek]).toEqual([0]);
+  });
+
+  it('rejects invalid expressions', () => {
+    expect(() => parseCronExpression('0 0 * *')).toThrow('5 fields');
+    expect(() => parseCronExpression('60 0 * * *')).toThrow('outside');
+    expect(() => parseCronExpression('*/0 0 * * *')).toThrow('step');
+    expect(() => parseCronExpression('0 0 * foo *')).toThrow('Invalid month');
+  });
+});
+
+describe('getNextCronOccurrence', () => {
+  it('finds the next run strictly after the given time', () => {
+    const after = new Date('2025-01-06T09:00:00Z');
+
+    expect(getNextCronOccurrence('0 9 * * *', 'UTC', after)?.toISOString()).toBe('2025-01-07T09:00:00.000Z');
+    expect(getNextCronOccurrence('30 9 * * *', 'UTC', after)?.toISOString()).toBe('2025-01-06T09:30:00.000Z');
+  });
+
+  it('evaluates the expression on the wall clock of the timezone', () => {
+    // 09:00 in Jakarta (UTC+7) is 02:00 UTC
+    const next = getNextCronOccurrence('0 9 * * *', 'Asia/Jakarta', new Date('2025-01-06T03:00:00Z'));
+
+    expect(next?.toISOString()).toBe('2025-01-07T02:00:00.000Z');
+  });
+
+  it('matches either day field when both are restricted', () => {
+    // The 15th or any Monday; 2025-01-13 is a Monday
+    const next = getNextCronOccurrence('0 0 15 * 1', 'UTC', new Date('2025-01-10T00:00:00Z'));
+
+    expect(next?.toISOString()).toBe('2025-01-13T00:00:00.000Z');
+  });
+
+  it('moves a time skipped by the spring DST change forward by the gap', () => {
+    // New York skips 02:00-03:00 on 2025-03-09, so 02:30 runs at 03:30 EDT
+    const next = getNextCronOccurrence('30 2 * * *', 'America/New_York', new Date('2025-03-08T12:00:00Z'));
+
+    expect(next?.toISOString()).toBe('2025-03-09T07:30:00.000Z');
+  });
+
+  it('runs once in the hour repeated by the autumn DST change', () => {
+    // New York repeats 01:00-02:00 on 2025-11-02
+    const first = getNextCronOccurrence('30 1 * * *', 'America/New_York', new Date('2025-11-02T04:00:00Z'));
+    const second = getNextCronOccurrence('30 1 * * *', 'America/New_York', first!);
+
+    expect(first?.toISOString()).toBe('2025-11-02T05:30:00.000Z');
+    expect(second?.toISOString()).toBe('2025-11-03T06:30:00.000Z');
+  });
+
+  it('returns null for expressions that never fire', () => {
+    expect(getNextCronOccurrence('0 0 31 2 *', 'UTC', new Date('2025-01-01T00:00:00Z'))).toBeNull();
+  });
+});
+
+describe('zonedTimeToDate', () => {
+  it('converts a wall-clock time in a timezone to an instant', () => {
+    expect(zonedTimeToDate('2025-07-01T09:00', 'Europe/London')?.toISOString()).toBe('2025-07-01T08:00:00.000Z');
+    expect(zonedTimeToDate('2025-01-01T09:00', 'Europe/London')?.toISOString()).toBe('2025-01-01T09:00:00.000Z');
+  });
+
+  it('moves a time in the spring DST gap forward by the gap', () => {
+    expect(zonedTimeToDate('2025-03-09T02:30', 'America/New_York')?.toISOString()).toBe('2025-03-09T07:30:00.000Z');
+  });
+
+  it('rejects values that are not a real date and time', () => {
+    expect(zonedTimeToDate('2025-02-30T09:00', 'UTC')).toBeNull();
+    expect(zonedTimeToDate('2025-01-01T24:00', 'UTC')).toBeNull();
+    expect(zonedTimeToDate('tomorrow', 'UTC')).toBeNull();
+  });
+
+  it('round-trips with dateToZonedTime', () => {
+    const date = zonedTimeToDate('2025-10-15T18:45', 'Asia/Jakarta')!;
+
+    expect(dateToZonedTime(date, 'Asia/Jakarta')).toBe('2025-10-15T18:45');
+  });
+});
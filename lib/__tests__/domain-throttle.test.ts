@@ -0,0 +1,120 @@
+// lib/__tests__/domain-throttle.test.ts
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createFakeModel, rawSql, Row } from './fake-prisma';
+import { refundToken, takeToken } from '../rate-limit';
+import {
+  acquireDomainSendSlot,
+  coolDownDomain,
+  getDomainLimit,
+  interleaveByDomain,
+  releaseDomainSendSlot,
+} from '../domain-throttle';
+
+const db = vi.hoisted(() => ({}) as Row);
+vi.mock('../db', () => ({ prisma: db }));
+vi.mock('../rate-limit', () => ({
+  takeToken: vi.fn(async () => ({ allowed: true, retryAfterMs: 0 })),
+  refundToken: vi.fn(async () => {}),
+}));
+
+const NOW = new Date('2025-01-06T09:00:00Z');
+const later = (ms: number) => new Date(NOW.getTime() + ms);
+
+beforeAll(() => {
+  // Read once, on first use
+  vi.stubEnv('DOMAIN_THROTTLE_LIMITS', '{"gmail":{"perMinute":120},"example.com":{"perMinute":10,"concurrency":0}}');
+});
+
+afterAll(() => {
+  vi.unstubAllEnvs();
+});
+
+beforeEach(() => {
+  vi.useFakeTimers({ now: NOW, toFake: ['Date'] });
+  vi.mocked(takeToken).mockClear();
+  vi.mocked(refundToken).mockClear();
+
+  db.domainCooldown = createFakeModel([], { unique: ['key'] });
+
+  // Same upsert as coolDownDomain, applied to the fake table
+  db.$executeRaw = vi.fn(async (_strings, key: string, until: Date) => {
+    const existing = db.domainCooldown.rows.find((row: Row) => row.key === key);
+    if (existing) {
+      existing.until = new Date(Math.max(existing.until.getTime(), until.getTime()));
+    } else {
+      db.domainCooldown.rows.push({ key, until });
+    }
+    return 1;
+  });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('getDomainLimit', () => {
+  it('layers configured overrides over the defaults', () => {
+    expect(getDomainLimit('gmail')).toEqual({ perMinute: 120, concurrency: 2 });
+    expect(getDomainLimit('yahoo')).toEqual({ perMinute: 20, concurrency: 1 });
+    expect(getDomainLimit('example.com')).toEqual({ perMinute: 10, concurrency: 1 });
+    expect(getDomainLimit('example.net')).toEqual({ perMinute: null, concurrency: 5 });
+  });
+});
+
+describe('interleaveByDomain', () => {
+  it('alternates providers and keeps the order within each', () => {
+    const emails = ['a@gmail', 'b@gmail', 'c@gmail', 'd@yahoo', 'e@other'];
+
+    expect(interleaveByDomain(emails, email => email.split('@')[1])).toEqual(['a@gmail', 'd@yahoo', 'e@other', 'b@gmail', 'c@gmail']);
+  });
+});
+
+describe('acquireDomainSendSlot', () => {
+  it('takes a token from the provider bucket of the user', async () => {
+    expect(await acquireDomainSendSlot('user-1', 'gmail')).toEqual({ allowed: true, retryAfterMs: 0 });
+    expect(takeToken).toHaveBeenCalledWith('domain:user-1:gmail:minute', 120, 60000);
+  });
+
+  it('does not rate limit providers without a cap', async () => {
+    expect(await acquireDomainSendSlot('user-1', 'example.net')).toEqual({ allowed: true, retryAfterMs: 0 });
+    expect(takeToken).not.toHaveBeenCalled();
+  });
+
+  it('holds off a provider that is cooling down, for every instance', async () => {
+    await coolDownDomain('user-1', 'gmail', later(45000));
+
+    expect(await acquireDomainSendSlot('user-1', 'gmail')).toEqual({ allowed: false, retryAfterMs: 45000 });
+    expect(takeToken).not.toHaveBeenCalled();
+
+    // Other users and providers are unaffected
+    expect((await acquireDomainSendSlot('user-2', 'gmail')).allowed).toBe(true);
+    expect((await acquireDomainSendSlot('user-1', 'yahoo')).allowed).toBe(true);
+  });
+
+  it('sends again once the cooldown is over', async () => {
+    await coolDownDomain('user-1', 'gmail', later(45000));
+    vi.setSystemTime(later(45000));
+
+    expect((await acquireDomainSendSlot('user-1', 'gmail')).allowed).toBe(true);
+  });
+});
+
+describe('coolDownDomain', () => {
+  it('never shortens an existing cooldown', async () => {
+    await coolDownDomain('user-1', 'gmail', later(60000));
+    await coolDownDomain('user-1', 'gmail', later(10000));
+
+    expect(rawSql(db.$executeRaw.mock.calls[0][0])).toContain('SET "until" = GREATEST("DomainCooldown"."until", EXCLUDED."until")');
+    expect(db.domainCooldown.rows).toEqual([{ key: 'user-1:gmail', until: later(60000) }]);
+  });
+});
+
+describe('releaseDomainSendSlot', () => {
+  it('refunds the token of a capped provider', async () => {
+    await releaseDomainSendSlot('user-1', 'outlook');
+    await releaseDomainSendSlot('user-1', 'example.net');
+
+    expect(refundToken).toHaveBeenCalledTimes(1);
+    expect(refundToken).toHaveBeenCalledWith('domain:user-1:outlook:minute', 30);
+  });
+});
@@ -0,0 +1,121 @@
+// lib/__tests__/dry-run.test.ts
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createFakeModel, Row } from './fake-prisma';
+import { runCampaignDryRun } from '../dry-run';
+
+const db = vi.hoisted(() => ({}) as Row);
+vi.mock('../db', () => ({ prisma: db }));
+
+beforeAll(() => {
+  vi.stubEnv('UNSUBSCRIBE_SECRET', 'test-secret');
+});
+
+afterAll(() => {
+  vi.unstubAllEnvs();
+});
+
+function template(fields: Row = {}): Row {
+  return {
+    id: 'template-1',
+    subject: 'Hello {{name}}',
+    htmlContent: '<p>Your code is {{code}}</p><a href="{{unsubscribe_url}}">Unsubscribe</a>',
+    textContent: null,
+    replyTo: null,
+    cc: null,
+    bcc: null,
+    preheader: null,
+    listId: null,
+    customHeaders: null,
+    ...fields,
+  };
+}
+
+function recipient(id: string, email: string, metadata: Row = { code: 'A1' }): Row {
+  return { id, campaignId: 'campaign-1', email, name: null, metadata, variantId: null, status: 'pending' };
+}
+
+beforeEach(() => {
+  db.campaign = createFakeModel([{
+    id: 'campaign-1',
+    userId: 'user-1',
+    parameterValues: null,
+    template: template(),
+    variants: [],
+    replyTo: null,
+    cc: null,
+    bcc: null,
+    preheader: null,
+    listId: null,
+    customHeaders: null,
+  }]);
+  db.recipient = createFakeModel();
+  db.suppression = createFakeModel([{ id: 's1', email: 'gone@example.org', reason: 'hard_bounce', userId: 'user-1' }]);
+});
+
+describe('runCampaignDryRun', () => {
+  it("returns null for another user's campaign", async () => {
+    expect(await runCampaignDryRun('campaign-1', 'user-2')).toBeNull();
+  });
+
+  it('renders every recipient and reports what would go wrong', async () => {
+    db.recipient.rows.push(
+      recipient('r1', 'reader@example.org'),
+      recipient('r2', 'not-an-address'),
+      recipient('r3', 'Reader@Example.org'),
+      recipient('r4', 'gone@example.org'),
+      recipient('r5', 'nocode@example.org', {}),
+      recipient('r6', 'blank@example.org', { code: ' ' }),
+    );
+
+    const report = await runCampaignDryRun('campaign-1', 'user-1');
+
+    expect(report).toMatchObject({
+      campaignId: 'campaign-1',
+      totalRecipients: 6,
+      readyCount: 1,
+      issueCounts: { missing_parameter: 1, empty_field: 1, invalid_email: 1, suppressed: 1, duplicate: 1, oversized: 0 },
+    });
+    expect(report?.issues.map(issue => [issue.recipientId, issue.type, issue.message])).toEqual([
+      ['r2', 'invalid_email', '"not-an-address" is not a valid email address'],
+      ['r3', 'duplicate', 'Address appears more than once in this campaign'],
+      ['r4', 'suppressed', 'Address is suppressed (hard_bounce)'],
+      ['r5', 'missing_parameter', 'No value for {{code}}'],
+      ['r6', 'empty_field', '{{code}} is empty'],
+    ]);
+
+    const [sample] = report!.samples;
+    expect(sample).toMatchObject({ recipientId: 'r1', subject: 'Hello reader@example.org' });
+    expect(sample.html).toContain('Your code is A1');
+    expect(sample.html).toContain('/api/unsubscribe?token=r1.');
+  });
+
+  it('checks placeholders in the message options too', async () => {
+    db.campaign.rows[0].replyTo = '{{owner}}';
+    db.recipient.rows.push(recipient('r1', 'reader@example.org'));
+
+    const report = await runCampaignDryRun('campaign-1', 'user-1');
+
+    expect(report?.issues).toEqual([expect.objectContaining({ type: 'missing_parameter', message: 'No value for {{owner}}' })]);
+  });
+
+  it('flags HTML that Gmail would clip', async () => {
+    db.campaign.rows[0].template = template({ htmlContent: `<p>${'x'.repeat(103 * 1024)}</p>` });
+    db.recipient.rows.push(recipient('r1', 'reader@example.org'));
+
+    const report = await runCampaignDryRun('campaign-1', 'user-1');
+
+    expect(report?.issueCounts.oversized).toBe(1);
+    expect(report?.size.maxBytes).toBeGreaterThan(2 * 103 * 1024);
+  });
+
+  it('pages through large campaigns and keeps ten samples', async () => {
+    for (let i = 0; i < 1005; i++) {
+      db.recipient.rows.push(recipient(`r${String(i).padStart(4, '0')}`, `reader${i}@example.org`));
+    }
+
+    const report = await runCampaignDryRun('campaign-1', 'user-1');
+
+    expect(report).toMatchObject({ totalRecipients: 1005, readyCount: 1005 });
+    expect(report?.samples).toHaveLength(10);
+  });
+});
@@ -0,0 +1,231 @@
+// lib/__tests__/fake-prisma.ts
+/**
+ * In-memory stand-in for the Prisma model delegates the tests touch
+ * Understands the query shapes this codebase uses: equality, null, gt/gte/lt/lte, in, not,
+ * OR/AND/NOT, compound unique keys, orderBy on one field, cursor paging and increment/decrement updates.
+ * Relation filters (some/none/every/is) work on relations embedded in the row.
+ * Raw SQL is not emulated; tests stub that per case.
+ */
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+export type Row = Record<string, any>;
+
+const OPERATORS = [
+  'equals', 'gt', 'gte', 'lt', 'lte', 'in', 'notIn', 'not', 'contains', 'startsWith', 'mode',
+  'some', 'none', 'every', 'is', 'isNot',
+];
+
+function comparable(value: unknown): unknown {
+  return value instanceof Date ? value.getTime() : value;
+}
+
+function isPlainObject(value: unknown): value is Row {
+  return typeof value === 'object' && value !== null && !(value instanceof Date) && !Array.isArray(value);
+}
+
+function matchesFilter(value: unknown, filter: unknown): boolean {
+  if (!isPlainObject(filter)) {
+    return comparable(value ?? null) === comparable(filter);
+  }
+
+  const insensitive = filter.mode === 'insensitive';
+  const fold = (item: unknown) => (insensitive && typeof item === 'string' ? item.toLowerCase() : item);
+  const actual = fold(comparable(value ?? null)) as any;
+
+  return Object.entries(filter).every(([operator, expected]) => {
+    const target = fold(comparable(expected)) as any;
+
+    switch (operator) {
+      case 'equals': return actual === target;
+      case 'gt': return actual !== null && actual > target;
+      case 'gte': return actual !== null && actual >= target;
+      case 'lt': return actual !== null && actual < target;
+      case 'lte': return actual !== null && actual <= target;
+      case 'in': return (expected as unknown[]).map(comparable).includes(actual);
+      case 'notIn': return !(expected as unknown[]).map(comparable).includes(actual);
+      // Like SQL, a null column matches neither a value nor its negation
+      case 'not': return expected === null ? actual !== null : actual !== null && !matchesFilter(value, expected);
+      case 'contains': return typeof actual === 'string' && actual.includes(target);
+      case 'startsWith': return typeof actual === 'string' && actual.startsWith(target);
+      case 'mode': return true;
+      case 'some': return ((value ?? []) as Row[]).some(item => matchesWhere(item, expected as Row));
+      case 'none': return !((value ?? []) as Row[]).some(item => matchesWhere(item, expected as Row));
+      case 'every': return ((value ?? []) as Row[]).every(item => matchesWhere(item, expected as Row));
+      case 'is': return expected === null ? value == null : value != null && matchesWhere(value as Row, expected as Row);
+      case 'isNot': return expected === null ? value != null : value == null || !matchesWhere(value as Row, expected as Row);
+      default: throw new Error(`fake-prisma: unsupported filter "${operator}"`);
+    }
+  });
+}
+
+export function matchesWhere(row: Row, where: Row | undefined): boolean {
+  if (!where) {
+    return true;
+  }
+
+  return Object.entries(where).every(([key, condition]) => {
+    if (condition === undefined) {
+      return true;
+    }
+
+    if (key === 'OR') {
+      return (condition as Row[]).some(part => matchesWhere(row, part));
+    }
+
+    if (key === 'AND') {
+      return ([] as Row[]).concat(condition).every(part => matchesWhere(row, part));
+    }
+
+    if (key === 'NOT') {
+      return !([] as Row[]).concat(condition).some(part => matchesWhere(row, part));
+    }
+
+    if (isPlainObject(condition) && !Object.keys(condition).some(name => OPERATORS.includes(name))) {
+      // Embedded to-one relation, e.g. campaign: { status: 'queued' }
+      if (isPlainObject(row[key])) {
+        return matchesWhere(row[key], condition);
+      }
+
+      // Compound unique key, e.g. email_userId: { email, userId }
+      if (!(key in row)) {
+        return matchesWhere(row, condition);
+      }
+    }
+
+    return matchesFilter(row[key], condition);
+  });
+}
+
+function applyData(row: Row, data: Row): Row {
+  for (const [key, value] of Object.entries(data)) {
+    if (value === undefined) {
+      continue;
+    }
+
+    if (isPlainObject(value) && ('increment' in value || 'decrement' in value)) {
+      row[key] = (row[key] ?? 0) + (value.increment ?? 0) - (value.decrement ?? 0);
+    } else if (isPlainObject(value) && 'set' in value) {
+      row[key] = value.set;
+    } else {
+      row[key] = value;
+    }
+  }
+
+  return row;
+}
+
+function sortRows(rows: Row[], orderBy: Row | Row[] | undefined): Row[] {
+  const [order] = ([] as Row[]).concat(orderBy ?? []);
+
+  if (!order) {
+    return rows;
+  }
+
+  const [[field, direction]] = Object.entries(order);
+  const { sort, nulls } = typeof direction === 'string' ? { sort: direction, nulls: 'last' } : direction;
+  const sign = sort === 'desc' ? -1 : 1;
+
+  return [...rows].sort((a, b) => {
+    const left = comparable(a[field] ?? null) as any;
+    const right = comparable(b[field] ?? null) as any;
+
+    if (left === null || right === null) {
+      if (left === right) return 0;
+      return (left === null) === (nulls === 'first') ? -1 : 1;
+    }
+
+    return left < right ? -sign : left > right ? sign : 0;
+  });
+}
+
+let idCounter = 0;
+
+interface FakeModelOptions {
+  // Columns a create leaves out
+  defaults?: () => Row;
+  // Columns that together must be unique, for createMany's skipDuplicates
+  unique?: string[];
+}
+
+/**
+ * A model delegate backed by an array
+ */
+export function createFakeModel(rows: Row[] = [], options: FakeModelOptions = {}) {
+  const { defaults = () => ({}), unique = ['id'] } = options;
+
+  const find = (args: Row = {}) => {
+    const matching = sortRows(rows.filter(row => matchesWhere(row, args.where)), args.orderBy);
+    const start = (args.cursor ? matching.findIndex(row => matchesWhere(row, args.cursor)) : 0) + (args.skip ?? 0);
+    return matching.slice(start, args.take === undefined ? undefined : start + args.take);
+  };
+
+  const create = (data: Row) => {
+    const row = applyData({ id: `fake-${++idCounter}`, ...defaults() }, data);
+    rows.push(row);
+    return row;
+  };
+
+  const findOrThrow = (where: Row) => {
+    const row = rows.find(item => matchesWhere(item, where));
+    if (!row) {
+      throw new Error('fake-prisma: record not found');
+    }
+    return row;
+  };
+
+  return {
+    rows,
+    findMany: async (args?: Row) => find(args).map(row => ({ ...row })),
+    findFirst: async (args?: Row) => {
+      const [row] = find(args);
+      return row ? { ...row } : null;
+    },
+    findUnique: async (args: Row) => {
+      const row = rows.find(item => matchesWhere(item, args.where));
+      return row ? { ...row } : null;
+    },
+    count: async (args?: Row) => find(args).length,
+    create: async (args: Row) => ({ ...create(args.data) }),
+    createMany: async (args: Row) => {
+      const data = ([] as Row[]).concat(args.data);
+      let count = 0;
+      for (const item of data) {
+        if (args.skipDuplicates && rows.some(row => unique.every(key => row[key] === item[key]))) {
+          continue;
+        }
+        create(item);
+        count++;
+      }
+      return { count };
+    },
+    update: async (args: Row) => ({ ...applyData(findOrThrow(args.where), args.data) }),
+    updateMany: async (args: Row) => {
+      const matching = rows.filter(row => matchesWhere(row, args.where));
+      matching.forEach(row => applyData(row, args.data));
+      return { count: matching.length };
+    },
+    upsert: async (args: Row) => {
+      const existing = rows.find(row => matchesWhere(row, args.where));
+      return existing ? { ...applyData(existing, args.update) } : { ...create(args.create) };
+    },
+    delete: async (args: Row) => {
+      const row = findOrThrow(args.where);
+      rows.splice(rows.indexOf(row), 1);
+      return row;
+    },
+    deleteMany: async (args?: Row) => {
+      const matching = rows.filter(row => matchesWhere(row, args?.where));
+      matching.forEach(row => rows.splice(rows.indexOf(row), 1));
+      return { count: matching.length };
+    },
+  };
+}
+
+export type FakeModel = ReturnType<typeof createFakeModel>;
+
+/**
+ * Text of a tagged-template raw query, with the interpolated values as $1, $2, ...
+ */
+export function rawSql(strings: TemplateStringsArray): string {
+  return strings.reduce((sql, part, index) => (index === 0 ? part : `${sql}$${index}${part}`), '').replace(/\s+/g, ' ').trim();
+}
@@ -0,0 +1,61 @@
+// lib/__tests__/html-to-text.test.ts
+import { describe, expect, it } from 'vitest';
+import { htmlToText } from '../html-to-text';
+
+describe('htmlToText', () => {
+  it('turns block elements into paragraphs and drops hidden content', () => {
+    const html = `
+      <html><head><title>Newsletter</title><style>p { color: red; }</style></head>
+      <body><!-- tracking --><p>Hello   there,</p><div>second<br>line</div><script>alert(1)</script></body></html>`;
+
+    expect(htmlToText(html)).toBe('Hello there,\n\nsecond\nline');
+  });
+
+  it('numbers links as footnotes and reuses the number of a repeated URL', () => {
+    const html = '<p><a href="https://example.com/a">Read more</a> or <a href="https://example.com/b">this</a>, '
+      + 'then <a href="https://example.com/a">more</a>.</p>';
+
+    expect(htmlToText(html)).toBe('Read more [1] or this [2], then more [1].\n\n[1] https://example.com/a\n[2] https://example.com/b');
+  });
+
+  it('keeps links whose text is the URL inline and drops anchors and scripts', () => {
+    const html = '<p><a href="mailto:help@example.com">help@example.com</a> '
+      + '<a href="https://example.com">https://example.com</a> <a href="#top">Top</a> <a href="javascript:void(0)">Click</a></p>';
+
+    expect(htmlToText(html)).toBe('help@example.com https://example.com Top Click');
+  });
+
+  it('underlines headings and marks up lists', () => {
+    const html = '<h1>News</h1><h2>This week</h2><ul><li>One</li><li>Two</li></ul><ol><li>First</li><li>Second</li></ol>';
+
+    expect(htmlToText(html)).toBe('News\n====\n\nThis week\n---------\n\n* One\n* Two\n\n1. First\n2. Second');
+  });
+
+  it('uses the alt text of images', () => {
+    expect(htmlToText('<p><img src="logo.png" alt="Acme"> <img src="pixel.gif" alt=""></p>')).toBe('[Acme]');
+  });
+
+  it('decodes named and numeric entities', () => {
+    expect(htmlToText('<p>Fish &amp; chips &mdash; &#8364;5 &#x263A; &nbsp;&unknown;</p>')).toBe('Fish & chips — €5 ☺ &unknown;');
+  });
+
+  it('leaves numeric entities outside the Unicode range alone', () => {
+    expect(htmlToText('<p>&#99999999; &#x110000; &#0;</p>')).toBe('&#99999999; &#x110000; \ufffd');
+  });
+
+  it('wraps long lines at word boundaries without breaking URLs', () => {
+    const words = Array.from({ length: 30 }, (_, i) => `word${i}`).join(' ');
+    const url = `https://example.com/${'x'.repeat(100)}`;
+
+    const lines = htmlToText(`<p>${words}</p><p>${url}</p>`).split('\n');
+
+    expect(lines.filter(line => line.startsWith('word')).every(line => line.length <= 78)).toBe(true);
+    expect(lines).toContain(url);
+  });
+
+  it('indents wrapped list items under their bullet', () => {
+    const item = Array.from({ length: 20 }, () => 'lorem').join(' ');
+
+    expect(htmlToText(`<ul><li>${item}</li></ul>`).split('\n')[1]).toMatch(/^ {2}lorem/);
+  });
+});
@@ -0,0 +1,138 @@
+// lib/__tests__/imap.test.ts
+import net, { AddressInfo } from 'net';
+import { afterEach, describe, expect, it } from 'vitest';
+import { openImapConnection } from '../imap';
+
+const MESSAGE = 'Subject: Bounce\r\n\r\nBody with a\r\nsecond line\r\n';
+
+interface FakeServer {
+  port: number;
+  // Commands received, without their tags
+  commands: string[];
+  close(): Promise<void>;
+}
+
+/**
+ * Local stand-in for an IMAP server that answers the commands bounce processing uses
+ */
+async function startFakeImapServer(capabilities: string): Promise<FakeServer> {
+  const commands: string[] = [];
+  const sockets = new Set<net.Socket>();
+
+  const server = net.createServer(socket => {
+    sockets.add(socket);
+    socket.on('close', () => sockets.delete(socket));
+    socket.write('* OK Fake IMAP ready\r\n');
+
+    let buffer = '';
+    socket.on('data', chunk => {
+      buffer += chunk.toString('utf8');
+
+      let lineEnd: number;
+      while ((lineEnd = buffer.indexOf('\r\n')) !== -1) {
+        const line = buffer.slice(0, lineEnd);
+        buffer = buffer.slice(lineEnd + 2);
+
+        const [tag, ...rest] = line.split(' ');
+        const command = rest.join(' ');
+        commands.push(command);
+
+        const reply = (...lines: string[]) => socket.write([...lines, ''].join('\r\n'));
+
+        if (command === 'CAPABILITY') {
+          reply(`* CAPABILITY ${capabilities}`, `${tag} OK CAPABILITY completed`);
+        } else if (command.startsWith('LOGIN')) {
+          reply(command === 'LOGIN "bounces" "pa ss\\"word"' ? `${tag} OK LOGIN completed` : `${tag} NO [AUTHENTICATIONFAILED] Invalid credentials`);
+        } else if (command.startsWith('SELECT')) {
+          reply('* 3 EXISTS', '* OK [UIDVALIDITY 42] UIDs valid', `${tag} OK [READ-WRITE] SELECT completed`);
+        } else if (command.startsWith('UID SEARCH')) {
+          // `n:*` also matches the newest message, here UID 7
+          reply('* SEARCH 12 7 15', `${tag} OK SEARCH completed`);
+        } else if (command.startsWith('UID FETCH')) {
+          reply(`* 1 FETCH (UID 12 BODY[] {${Buffer.byteLength(MESSAGE)}}\r\n${MESSAGE})`, `${tag} OK FETCH completed`);
+        } else if (command.startsWith('UID STORE')) {
+          reply(`${tag} OK STORE completed`);
+        } else if (command === 'LOGOUT') {
+          reply('* BYE Logging out', `${tag} OK LOGOUT completed`);
+          socket.end();
+        } else {
+          reply(`${tag} BAD Unknown command`);
+        }
+      }
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+  return {
+    port: (server.address() as AddressInfo).port,
+    commands,
+    close: () => {
+      sockets.forEach(socket => socket.destroy());
+      return new Promise<void>(resolve => server.close(() => resolve()));
+    },
+  };
+}
+
+let fake: FakeServer | null = null;
+
+afterEach(async () => {
+  await fake?.close();
+  fake = null;
+});
+
+function connect(port: number, allowPlaintextLogin?: boolean, password = 'pa ss"word') {
+  return openImapConnection({
+    host: '127.0.0.1',
+    port,
+    secure: false,
+    username: 'bounces',
+    password,
+    allowPlaintextLogin,
+    timeoutMs: 5000,
+  });
+}
+
+describe('openImapConnection', () => {
+  it('refuses to log in without TLS when the server has no STARTTLS', async () => {
+    fake = await startFakeImapServer('IMAP4rev1 AUTH=PLAIN');
+
+    await expect(connect(fake.port)).rejects.toThrow('does not offer STARTTLS');
+    expect(fake.commands).toEqual(['CAPABILITY']);
+  });
+
+  it('logs in without TLS only when allowed', async () => {
+    fake = await startFakeImapServer('IMAP4rev1');
+
+    const connection = await connect(fake.port, true);
+    await connection.logout();
+
+    expect(fake.commands).toEqual(['CAPABILITY', 'LOGIN "bounces" "pa ss\\"word"', 'LOGOUT']);
+  });
+
+  it('reports rejected credentials', async () => {
+    fake = await startFakeImapServer('IMAP4rev1');
+
+    await expect(connect(fake.port, true, 'wrong')).rejects.toThrow('IMAP command failed: NO [AUTHENTICATIONFAILED]');
+  });
+
+  it('selects, searches, fetches and flags messages', async () => {
+    fake = await startFakeImapServer('IMAP4rev1');
+    const connection = await connect(fake.port, true);
+
+    expect(await connection.select('INBOX')).toBe(42);
+    expect(await connection.searchUidsAfter(10)).toEqual([12, 15]);
+    expect((await connection.fetchMessage(12))?.toString('utf8')).toBe(MESSAGE);
+
+    await connection.addFlags(12, ['\\Seen']);
+    await connection.logout();
+
+    expect(fake.commands.slice(2)).toEqual([
+      'SELECT "INBOX"',
+      'UID SEARCH UID 11:*',
+      'UID FETCH 12 BODY.PEEK[]',
+      'UID STORE 12 +FLAGS.SILENT (\\Seen)',
+      'LOGOUT',
+    ]);
+  });
+});
@@ -0,0 +1,116 @@
+// lib/__tests__/message-options.test.ts
+import { describe, expect, it, vi } from 'vitest';
+import {
+  applyPreheader,
+  getMessageOptionsContent,
+  MAX_CUSTOM_HEADERS,
+  parseMessageOptions,
+  renderMessageOptions,
+  resolveMessageOptions,
+} from '../message-options';
+
+// Pulled in through ./email
+vi.mock('../db', () => ({ prisma: {} }));
+
+describe('parseMessageOptions', () => {
+  it('trims the fields and drops empty ones', () => {
+    const { options, error } = parseMessageOptions({
+      replyTo: ' support@example.com ',
+      cc: '',
+      preheader: '  Big news inside  ',
+      customHeaders: { ' X-Campaign ': ' spring ', '': 'ignored' },
+    });
+
+    expect(error).toBeUndefined();
+    expect(options).toEqual({
+      replyTo: 'support@example.com',
+      cc: null,
+      bcc: null,
+      preheader: 'Big news inside',
+      listId: null,
+      customHeaders: { 'X-Campaign': 'spring' },
+    });
+  });
+
+  it('rejects invalid addresses but allows placeholders', () => {
+    expect(parseMessageOptions({ cc: 'a@example.com, {{manager_email}}' }).error).toBeUndefined();
+    expect(parseMessageOptions({ bcc: 'a@example.com; nope' }).error).toBe('Invalid BCC address: nope');
+    expect(parseMessageOptions({ replyTo: 'nope' }).error).toBe('Invalid Reply-To address: nope');
+  });
+
+  it('refuses header values that would start a new header line', () => {
+    expect(parseMessageOptions({ listId: 'news\r\nBcc: victim@example.org' }).error).toBe('Preheader and List-Id must be a single line');
+    expect(parseMessageOptions({ preheader: 'one\ntwo' }).error).toBe('Preheader and List-Id must be a single line');
+    expect(parseMessageOptions({ customHeaders: { 'X-Tag': 'a\r\nBcc: victim@example.org' } }).error).toBe('Header X-Tag must be a single line');
+  });
+
+  it('only allows X- custom headers, and only a few', () => {
+    expect(parseMessageOptions({ customHeaders: { 'Bcc': 'victim@example.org' } }).error).toBe('Custom header names must start with "X-": Bcc');
+    expect(parseMessageOptions({ customHeaders: { 'X-Bad Name': 'x' } }).error).toBe('Custom header names must start with "X-": X-Bad Name');
+
+    const tooMany = Object.fromEntries(Array.from({ length: MAX_CUSTOM_HEADERS + 1 }, (_, i) => [`X-H${i}`, 'x']));
+    expect(parseMessageOptions({ customHeaders: tooMany }).error).toBe(`At most ${MAX_CUSTOM_HEADERS} custom headers are allowed`);
+  });
+});
+
+describe('resolveMessageOptions', () => {
+  it('lets campaign fields override the template one by one', () => {
+    const resolved = resolveMessageOptions(
+      { replyTo: 'template@example.com', listId: 'news.example.com', customHeaders: { 'X-A': '1' } },
+      { replyTo: 'campaign@example.com', listId: null }
+    );
+
+    expect(resolved).toMatchObject({ replyTo: 'campaign@example.com', listId: 'news.example.com', customHeaders: { 'X-A': '1' } });
+    expect(getMessageOptionsContent(resolved)).toBe('campaign@example.com\nnews.example.com\n1');
+  });
+});
+
+describe('renderMessageOptions', () => {
+  const options = {
+    replyTo: '{{owner}}',
+    cc: '{{manager}}, team@example.com',
+    bcc: null,
+    preheader: 'Hi {{name}}',
+    listId: '{{list}}',
+    customHeaders: { 'X-Customer': '{{customer}}' },
+  };
+
+  it('personalizes addresses and headers', () => {
+    const rendered = renderMessageOptions(options, { owner: 'owner@example.com', manager: '', name: 'Jane', list: 'news.example.com', customer: '42' });
+
+    expect(rendered).toEqual({
+      replyTo: ['owner@example.com'],
+      cc: ['team@example.com'],
+      bcc: undefined,
+      headers: { 'X-Customer': '42', 'List-Id': '<news.example.com>' },
+      preheader: 'Hi Jane',
+    });
+  });
+
+  it('keeps recipient data from injecting header lines', () => {
+    const rendered = renderMessageOptions(options, {
+      owner: 'owner@example.com\r\nBcc: victim@example.org',
+      customer: '42\r\nBcc: victim@example.org',
+      list: 'News <news.example.com>\nBcc: victim@example.org',
+    });
+
+    expect(rendered.replyTo).toBeUndefined();
+    expect(rendered.headers).toEqual({
+      'X-Customer': '42 Bcc: victim@example.org',
+      'List-Id': 'News <news.example.com> Bcc: victim@example.org',
+    });
+  });
+});
+
+describe('applyPreheader', () => {
+  it('inserts escaped hidden text right after <body>', () => {
+    const html = applyPreheader('<html><body class="x"><p>Hi</p></body></html>', 'Save <50%> & more');
+
+    expect(html).toMatch(/^<html><body class="x"><div style="display:none;[^"]*">Save &lt;50%&gt; &amp; more(&#8203;&nbsp;){40}<\/div><p>Hi<\/p>/);
+  });
+
+  it('prepends it to fragments and leaves the HTML alone without one', () => {
+    expect(applyPreheader('<p>Hi</p>', 'Hello').endsWith('</div><p>Hi</p>')).toBe(true);
+    expect(applyPreheader('<p>Hi</p>', '')).toBe('<p>Hi</p>');
+  });
+});
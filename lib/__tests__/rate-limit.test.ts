@@ -0,0 +1,141 @@
+// lib/__tests__/rate-limit.test.ts
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { SmtpConfig } from '@prisma/client';
+import { rawSql, Row } from './fake-prisma';
+import { acquireCampaignSendSlot, acquireSmtpSendSlot, takeToken, waitForSmtpSendSlot } from '../rate-limit';
+
+const db = vi.hoisted(() => ({}) as Row);
+vi.mock('../db', () => ({ prisma: db }));
+
+const NOW = new Date('2025-01-06T09:00:00Z');
+
+// What the RateLimitBucket table holds
+let buckets: Map<string, { tokens: number; refilledAt: Date }>;
+
+beforeEach(() => {
+  vi.useFakeTimers({ now: NOW, toFake: ['Date', 'setTimeout'] });
+  buckets = new Map();
+
+  // Same refill-then-take as the upsert in takeToken, applied to the map
+  db.$queryRaw = vi.fn(async (_strings, key: string, initial: number, capacity: number, refillPerMs: number) => {
+    const bucket = buckets.get(key);
+
+    if (!bucket) {
+      buckets.set(key, { tokens: initial, refilledAt: new Date() });
+      return [{ tokens: initial }];
+    }
+
+    const available = Math.min(capacity, bucket.tokens + (Date.now() - bucket.refilledAt.getTime()) * refillPerMs);
+    if (available < 1) {
+      return [];
+    }
+
+    buckets.set(key, { tokens: available - 1, refilledAt: new Date() });
+    return [{ tokens: available - 1 }];
+  });
+
+  db.$executeRaw = vi.fn(async (_strings, capacity: number, key: string) => {
+    const bucket = buckets.get(key);
+    if (bucket) {
+      bucket.tokens = Math.min(capacity, bucket.tokens + 1);
+    }
+    return bucket ? 1 : 0;
+  });
+
+  db.rateLimitBucket = {
+    findUnique: vi.fn(async ({ where }: Row) => {
+      const bucket = buckets.get(where.key);
+      return bucket ? { key: where.key, ...bucket } : null;
+    }),
+  };
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+function smtpConfig(fields: Partial<SmtpConfig>): SmtpConfig {
+  return { id: 'smtp-1', perMinute: null, perHour: null, ...fields } as SmtpConfig;
+}
+
+describe('takeToken', () => {
+  it('refills and takes in one guarded statement', async () => {
+    await takeToken('smtp:1:minute', 10, 60000);
+
+    const sql = rawSql(db.$queryRaw.mock.calls[0][0]);
+    expect(sql).toContain('ON CONFLICT ("key") DO UPDATE');
+    expect(sql).toMatch(/WHERE LEAST\(.*\) >= 1 RETURNING "tokens"$/);
+  });
+
+  it('allows up to the capacity, then says when the next token arrives', async () => {
+    for (let i = 0; i < 3; i++) {
+      expect(await takeToken('k', 3, 60000)).toEqual({ allowed: true, retryAfterMs: 0 });
+    }
+
+    // One token every 20 seconds
+    expect(await takeToken('k', 3, 60000)).toEqual({ allowed: false, retryAfterMs: 20000 });
+
+    vi.setSystemTime(NOW.getTime() + 15000);
+    expect(await takeToken('k', 3, 60000)).toEqual({ allowed: false, retryAfterMs: 5000 });
+
+    vi.setSystemTime(NOW.getTime() + 20000);
+    expect((await takeToken('k', 3, 60000)).allowed).toBe(true);
+  });
+
+  it('never asks for a retry sooner than 100ms', async () => {
+    buckets.set('k', { tokens: 0.9999, refilledAt: NOW });
+
+    expect(await takeToken('k', 1000, 1000)).toEqual({ allowed: false, retryAfterMs: 100 });
+  });
+});
+
+describe('acquireSmtpSendSlot', () => {
+  it('is always allowed without limits', async () => {
+    expect(await acquireSmtpSendSlot(smtpConfig({}))).toEqual({ allowed: true, retryAfterMs: 0 });
+    expect(db.$queryRaw).not.toHaveBeenCalled();
+  });
+
+  it('takes from both the minute and the hour bucket', async () => {
+    expect((await acquireSmtpSendSlot(smtpConfig({ perMinute: 5, perHour: 100 }))).allowed).toBe(true);
+
+    expect(buckets.get('smtp:smtp-1:minute')?.tokens).toBe(4);
+    expect(buckets.get('smtp:smtp-1:hour')?.tokens).toBe(99);
+  });
+
+  it('gives the minute token back when the hour is used up', async () => {
+    buckets.set('smtp:smtp-1:minute', { tokens: 5, refilledAt: NOW });
+    buckets.set('smtp:smtp-1:hour', { tokens: 0, refilledAt: NOW });
+
+    const result = await acquireSmtpSendSlot(smtpConfig({ perMinute: 5, perHour: 100 }));
+
+    expect(result).toEqual({ allowed: false, retryAfterMs: 36000 });
+    expect(buckets.get('smtp:smtp-1:minute')?.tokens).toBe(5);
+  });
+});
+
+describe('waitForSmtpSendSlot', () => {
+  it('waits for a token that arrives in time', async () => {
+    buckets.set('smtp:smtp-1:minute', { tokens: 0, refilledAt: NOW });
+
+    const pending = waitForSmtpSendSlot(smtpConfig({ perMinute: 60 }), 5000);
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(await pending).toEqual({ allowed: true, retryAfterMs: 0 });
+  });
+
+  it('returns the denial when the wait would be too long', async () => {
+    buckets.set('smtp:smtp-1:minute', { tokens: 0, refilledAt: NOW });
+
+    expect(await waitForSmtpSendSlot(smtpConfig({ perMinute: 2 }), 5000)).toEqual({ allowed: false, retryAfterMs: 30000 });
+  });
+});
+
+describe('acquireCampaignSendSlot', () => {
+  it('only limits campaigns with a cap', async () => {
+    expect(await acquireCampaignSendSlot({ id: 'c1', maxPerMinute: null })).toEqual({ allowed: true, retryAfterMs: 0 });
+    expect(db.$queryRaw).not.toHaveBeenCalled();
+
+    await acquireCampaignSendSlot({ id: 'c1', maxPerMinute: 30 });
+    expect(db.$queryRaw.mock.calls[0].slice(1, 4)).toEqual(['campaign:c1:minute', 29, 30]);
+  });
+});
@@ -0,0 +1,59 @@
+// lib/__tests__/scheduler.test.ts
+import { describe, expect, it, vi } from 'vitest';
+import { matchesWhere, Row } from './fake-prisma';
+import { stalledCampaignWhere } from '../scheduler';
+
+vi.mock('../db', () => ({ prisma: {} }));
+vi.mock('../queue', () => ({}));
+vi.mock('../send-jobs', () => ({}));
+
+const NOW = new Date('2025-01-06T09:00:00Z');
+const later = (ms: number) => new Date(NOW.getTime() + ms);
+
+const STALLED_AFTER_MS = 5 * 60 * 1000;
+
+// A processing campaign that last sent ten minutes ago, with one due recipient left
+function campaign(fields: Row = {}): Row {
+  return {
+    status: 'processing',
+    lastProcessedAt: later(-10 * 60 * 1000),
+    abTestStatus: null,
+    sendJob: null,
+    recipients: [{ status: 'pending', nextAttemptAt: null }],
+    ...fields,
+  };
+}
+
+const isStalled = (row: Row) => matchesWhere(row, stalledCampaignWhere(STALLED_AFTER_MS, NOW));
+
+describe('stalledCampaignWhere', () => {
+  it('flags a quiet campaign with due recipients', () => {
+    expect(isStalled(campaign())).toBe(true);
+    expect(isStalled(campaign({ abTestStatus: 'testing' }))).toBe(true);
+  });
+
+  it('leaves recently active and finished campaigns alone', () => {
+    expect(isStalled(campaign({ lastProcessedAt: later(-60 * 1000) }))).toBe(false);
+    expect(isStalled(campaign({ status: 'completed' }))).toBe(false);
+  });
+
+  it('does not flag a campaign waiting for its A/B test winner', () => {
+    expect(isStalled(campaign({ abTestStatus: 'waiting' }))).toBe(false);
+  });
+
+  it('does not flag a campaign whose send job is deferred', () => {
+    expect(isStalled(campaign({ sendJob: { status: 'pending', runAt: later(60000) } }))).toBe(false);
+    expect(isStalled(campaign({ sendJob: { status: 'pending', runAt: later(-60000) } }))).toBe(true);
+  });
+
+  it('does not flag a campaign that only has scheduled retries left', () => {
+    const retrying = [{ status: 'sent', nextAttemptAt: null }, { status: 'pending', nextAttemptAt: later(60000) }];
+
+    expect(isStalled(campaign({ recipients: retrying }))).toBe(false);
+    expect(isStalled(campaign({ recipients: [...retrying, { status: 'pending', nextAttemptAt: later(-1000) }] }))).toBe(true);
+  });
+
+  it('flags a campaign with nothing left to send so it gets finalized', () => {
+    expect(isStalled(campaign({ recipients: [{ status: 'sent', nextAttemptAt: null }] }))).toBe(true);
+  });
+});
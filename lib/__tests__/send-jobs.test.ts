@@ -0,0 +1,205 @@
+// lib/__tests__/send-jobs.test.ts
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { SendJob } from '@prisma/client';
+import { createFakeModel, rawSql, Row } from './fake-prisma';
+import {
+  claimNextJob,
+  completeJob,
+  enqueueCampaignJob,
+  extendJobLease,
+  failJob,
+  getNextPendingRunAt,
+  JOB_LEASE_MS,
+  rescheduleJob,
+} from '../send-jobs';
+
+const db = vi.hoisted(() => ({}) as Row);
+vi.mock('../db', () => ({ prisma: db }));
+
+const NOW = new Date('2025-01-06T09:00:00Z');
+const later = (ms: number) => new Date(NOW.getTime() + ms);
+
+function jobRow(fields: Row = {}): Row {
+  return {
+    id: 'job-1',
+    campaignId: 'campaign-1',
+    status: 'pending',
+    runAt: NOW,
+    lockedUntil: null,
+    lockedBy: null,
+    rearmAt: null,
+    attempts: 0,
+    maxAttempts: 5,
+    lastError: null,
+    ...fields,
+  };
+}
+
+beforeEach(() => {
+  vi.useFakeTimers({ now: NOW, toFake: ['Date'] });
+  db.sendJob = createFakeModel([], { defaults: () => jobRow({ runAt: new Date() }) });
+  db.$queryRaw = vi.fn(async () => []);
+  db.$executeRaw = vi.fn(async () => 1);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('enqueueCampaignJob', () => {
+  it('creates a pending job for the campaign', async () => {
+    const job = await enqueueCampaignJob('campaign-9', later(5000));
+
+    expect(job).toMatchObject({ campaignId: 'campaign-9', status: 'pending', runAt: later(5000) });
+    expect(db.sendJob.rows).toHaveLength(1);
+  });
+
+  it('re-arms a job held under a live lease instead of taking it from the worker', async () => {
+    db.sendJob.rows.push(jobRow({ status: 'running', lockedBy: 'worker-a', lockedUntil: later(60000) }));
+
+    await enqueueCampaignJob('campaign-1', later(1000));
+
+    expect(db.sendJob.rows[0]).toMatchObject({ status: 'running', lockedBy: 'worker-a', rearmAt: later(1000) });
+  });
+
+  it('takes back a job whose lease has expired', async () => {
+    db.sendJob.rows.push(jobRow({ status: 'running', lockedBy: 'worker-a', lockedUntil: later(-1000), rearmAt: later(-5000) }));
+
+    await enqueueCampaignJob('campaign-1', later(1000));
+
+    expect(db.sendJob.rows[0]).toMatchObject({ status: 'pending', runAt: later(1000), lockedBy: null, lockedUntil: null, rearmAt: null });
+  });
+
+  it('gives a failed job a fresh set of attempts', async () => {
+    db.sendJob.rows.push(jobRow({ status: 'failed', attempts: 5 }));
+
+    await enqueueCampaignJob('campaign-1');
+
+    expect(db.sendJob.rows[0]).toMatchObject({ status: 'pending', attempts: 0 });
+  });
+
+  it('keeps the attempt count of a job that is only waiting', async () => {
+    db.sendJob.rows.push(jobRow({ attempts: 2, runAt: later(30000) }));
+
+    await enqueueCampaignJob('campaign-1');
+
+    expect(db.sendJob.rows[0]).toMatchObject({ attempts: 2, runAt: NOW });
+  });
+});
+
+describe('claimNextJob', () => {
+  it('leases the claimed job to the worker', async () => {
+    const claimed = jobRow({ status: 'running', lockedBy: 'worker-a' });
+    db.$queryRaw.mockResolvedValueOnce([claimed]);
+
+    expect(await claimNextJob('worker-a')).toBe(claimed);
+
+    const [strings, leaseUntil, workerId] = db.$queryRaw.mock.calls[0];
+    expect(leaseUntil).toEqual(later(JOB_LEASE_MS));
+    expect(workerId).toBe('worker-a');
+
+    // Due pending jobs or expired leases, without waiting on rows another worker is claiming
+    const sql = rawSql(strings);
+    expect(sql).toContain(`("status" = 'pending' AND "runAt" <= NOW())`);
+    expect(sql).toContain(`("status" = 'running' AND "lockedUntil" < NOW())`);
+    expect(sql).toContain('FOR UPDATE SKIP LOCKED');
+  });
+
+  it('can be limited to one campaign', async () => {
+    await claimNextJob('worker-a', 'campaign-7');
+
+    const [strings, , , campaignId] = db.$queryRaw.mock.calls[0];
+    expect(rawSql(strings)).toContain('"campaignId" = $3');
+    expect(campaignId).toBe('campaign-7');
+  });
+
+  it('returns null when nothing is due', async () => {
+    expect(await claimNextJob('worker-a')).toBeNull();
+  });
+});
+
+describe('extendJobLease', () => {
+  it('pushes back the lease for the holder only', async () => {
+    db.sendJob.rows.push(jobRow({ status: 'running', lockedBy: 'worker-a', lockedUntil: later(1000) }));
+
+    expect(await extendJobLease('job-1', 'worker-b')).toBe(false);
+    expect(db.sendJob.rows[0].lockedUntil).toEqual(later(1000));
+
+    expect(await extendJobLease('job-1', 'worker-a')).toBe(true);
+    expect(db.sendJob.rows[0].lockedUntil).toEqual(later(JOB_LEASE_MS));
+  });
+});
+
+describe('rescheduleJob', () => {
+  it('releases the job for its next batch', async () => {
+    db.sendJob.rows.push(jobRow({ status: 'running', lockedBy: 'worker-a', lockedUntil: later(1000), attempts: 2, lastError: 'x', rearmAt: later(5) }));
+
+    await rescheduleJob('job-1', 'worker-a', later(60000));
+
+    expect(db.sendJob.rows[0]).toMatchObject({
+      status: 'pending',
+      runAt: later(60000),
+      lockedBy: null,
+      lockedUntil: null,
+      rearmAt: null,
+      attempts: 0,
+      lastError: null,
+    });
+  });
+
+  it('leaves a job alone once another worker holds it', async () => {
+    db.sendJob.rows.push(jobRow({ status: 'running', lockedBy: 'worker-b', lockedUntil: later(1000) }));
+
+    await rescheduleJob('job-1', 'worker-a', later(60000));
+
+    expect(db.sendJob.rows[0]).toMatchObject({ status: 'running', lockedBy: 'worker-b' });
+  });
+});
+
+describe('completeJob', () => {
+  it('completes the job in one statement that honours a re-arm', async () => {
+    await completeJob('job-1', 'worker-a');
+
+    const [strings, jobId, workerId] = db.$executeRaw.mock.calls[0];
+    const sql = rawSql(strings);
+
+    expect([jobId, workerId]).toEqual(['job-1', 'worker-a']);
+    expect(sql).toContain(`CASE WHEN "rearmAt" IS NULL THEN 'completed' ELSE 'pending' END`);
+    expect(sql).toContain('"runAt" = COALESCE("rearmAt", "runAt")');
+    expect(sql).toContain('"lockedBy" = $2');
+  });
+});
+
+describe('failJob', () => {
+  it('backs off exponentially between attempts', async () => {
+    db.sendJob.rows.push(jobRow({ status: 'running', lockedBy: 'worker-a', attempts: 1 }));
+
+    const exhausted = await failJob(db.sendJob.rows[0] as SendJob, 'worker-a', 'SMTP down');
+
+    expect(exhausted).toBe(false);
+    expect(db.sendJob.rows[0]).toMatchObject({ status: 'pending', attempts: 2, runAt: later(60000), lastError: 'SMTP down', lockedBy: null });
+  });
+
+  it('gives up after the last attempt', async () => {
+    db.sendJob.rows.push(jobRow({ status: 'running', lockedBy: 'worker-a', attempts: 4 }));
+
+    expect(await failJob(db.sendJob.rows[0] as SendJob, 'worker-a', 'SMTP down')).toBe(true);
+    expect(db.sendJob.rows[0].status).toBe('failed');
+  });
+});
+
+describe('getNextPendingRunAt', () => {
+  it('returns the soonest pending run', async () => {
+    db.sendJob.rows.push(
+      jobRow({ id: 'a', runAt: later(90000) }),
+      jobRow({ id: 'b', runAt: later(30000) }),
+      jobRow({ id: 'c', status: 'running', runAt: later(1000) }),
+    );
+
+    expect(await getNextPendingRunAt()).toEqual(later(30000));
+  });
+
+  it('returns null without pending jobs', async () => {
+    expect(await getNextPendingRunAt()).toBeNull();
+  });
+});
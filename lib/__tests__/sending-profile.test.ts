@@ -0,0 +1,31 @@
+// lib/__tests__/sending-profile.test.ts
+import { describe, expect, it } from 'vitest';
+import { isSendingProfileName, resolveSendingProfile } from '../sending-profile';
+
+describe('isSendingProfileName', () => {
+  it('accepts the presets and custom', () => {
+    expect(['gentle', 'standard', 'fast', 'custom'].every(isSendingProfileName)).toBe(true);
+  });
+
+  it('rejects names inherited from Object.prototype', () => {
+    expect(isSendingProfileName('toString')).toBe(false);
+    expect(isSendingProfileName('__proto__')).toBe(false);
+    expect(isSendingProfileName('constructor')).toBe(false);
+    expect(isSendingProfileName(undefined)).toBe(false);
+  });
+});
+
+describe('resolveSendingProfile', () => {
+  it('returns the preset values', () => {
+    expect(resolveSendingProfile('gentle')).toEqual({ batchSize: 5, messageDelayMs: 2000, maxPerMinute: 20, concurrency: 1 });
+  });
+
+  it('clamps custom values and falls back to the default profile', () => {
+    expect(resolveSendingProfile('custom', { batchSize: '500', messageDelayMs: -5, maxPerMinute: 0, concurrency: 'x' })).toEqual({
+      batchSize: 100,
+      messageDelayMs: 0,
+      maxPerMinute: null,
+      concurrency: 1,
+    });
+  });
+});
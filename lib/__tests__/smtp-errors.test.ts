@@ -0,0 +1,73 @@
+// lib/__tests__/smtp-errors.test.ts
+import { describe, expect, it } from 'vitest';
+import { classifySmtpError } from '../smtp-errors';
+
+// Shaped like the errors nodemailer raises for a rejected command
+function smtpError(response: string, code = 'EENVELOPE') {
+  return Object.assign(new Error(`Can't send mail - ${response}`), {
+    code,
+    response,
+    responseCode: Number(response.slice(0, 3)),
+  });
+}
+
+describe('classifySmtpError', () => {
+  it('treats an unknown mailbox as a hard bounce', () => {
+    const failure = classifySmtpError(smtpError('550 5.1.1 The email account that you tried to reach does not exist'));
+
+    expect(failure).toMatchObject({ category: 'hard_bounce', retryable: false, code: '550', enhancedCode: '5.1.1' });
+  });
+
+  it('reads the code from multi-line replies', () => {
+    const failure = classifySmtpError(smtpError('550-5.1.1 The email account that you tried to reach does not exist.'));
+
+    expect(failure.enhancedCode).toBe('5.1.1');
+    expect(failure.category).toBe('hard_bounce');
+  });
+
+  it('rejects policy blocks without treating them as a bad address', () => {
+    expect(classifySmtpError(smtpError('550 5.7.1 Message rejected as spam')).category).toBe('rejected');
+    expect(classifySmtpError(smtpError('554 5.4.4 Unable to route')).category).toBe('rejected');
+    expect(classifySmtpError(smtpError('550 Requested action not taken')).category).toBe('rejected');
+    expect(classifySmtpError(smtpError('550 5.7.1 Message rejected as spam')).retryable).toBe(false);
+  });
+
+  it('retries a full mailbox', () => {
+    expect(classifySmtpError(smtpError('552 5.2.2 Mailbox full'))).toMatchObject({ category: 'soft_bounce', retryable: true });
+    expect(classifySmtpError(smtpError('452 4.2.2 Over quota')).category).toBe('soft_bounce');
+  });
+
+  it('recognises rate limiting', () => {
+    expect(classifySmtpError(smtpError('421 4.7.28 Our system has detected an unusual rate of mail')).category).toBe('throttled');
+    expect(classifySmtpError(smtpError('450 Too many messages, slow down')).category).toBe('throttled');
+    expect(classifySmtpError(smtpError('421 Service not available')).category).toBe('throttled');
+  });
+
+  it('separates authentication failures', () => {
+    expect(classifySmtpError(smtpError('535 5.7.8 Username and Password not accepted', 'EAUTH')).category).toBe('auth');
+    expect(classifySmtpError(smtpError('530 5.7.0 Authentication required')).category).toBe('auth');
+  });
+
+  it('treats connection problems as network failures', () => {
+    const refused = Object.assign(new Error('connect ECONNREFUSED 127.0.0.1:587'), { code: 'ECONNECTION' });
+
+    expect(classifySmtpError(refused)).toMatchObject({ category: 'network', retryable: true });
+    expect(classifySmtpError(new Error('Email sending timed out')).category).toBe('network');
+  });
+
+  it('maps API statuses before SMTP codes', () => {
+    const apiError = (httpStatus: number) => Object.assign(new Error(`Brevo API error ${httpStatus}`), { httpStatus });
+
+    expect(classifySmtpError(apiError(401)).category).toBe('auth');
+    expect(classifySmtpError(apiError(429)).category).toBe('throttled');
+    expect(classifySmtpError(apiError(503)).category).toBe('network');
+    expect(classifySmtpError(apiError(400))).toMatchObject({ category: 'unknown', retryable: false });
+  });
+
+  it('does not retry errors that never reached a server', () => {
+    expect(classifySmtpError(new TypeError('Cannot read properties of undefined'))).toMatchObject({
+      category: 'unknown',
+      retryable: false,
+    });
+  });
+});
@@ -0,0 +1,96 @@
+// lib/__tests__/suppression.test.ts
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createFakeModel, Row } from './fake-prisma';
+import { addSuppression, getSuppressedEmails, getSuppression } from '../suppression';
+import { addCampaignRecipients, CampaignRecipientInput, skipSuppressedRecipients } from '../campaign-recipients';
+
+const db = vi.hoisted(() => ({}) as Row);
+vi.mock('../db', () => ({ prisma: db }));
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+
+  db.suppression = createFakeModel([
+    { id: 's1', email: 'gone@example.org', reason: 'hard_bounce', userId: 'user-1', campaignId: null },
+    { id: 's2', email: 'left@example.org', reason: 'unsubscribe', userId: 'user-1', campaignId: null },
+    { id: 's3', email: 'other@example.org', reason: 'complaint', userId: 'user-2', campaignId: null },
+  ]);
+  db.campaign = createFakeModel([{ id: 'campaign-1', recipientCount: 0, skippedCount: 0, processedCount: 0 }]);
+  db.recipient = createFakeModel();
+});
+
+function recipient(email: string): CampaignRecipientInput {
+  return { email, name: null, metadata: {}, contactId: null };
+}
+
+describe('suppression list', () => {
+  it('matches addresses regardless of case and spacing', async () => {
+    expect((await getSuppression('user-1', ' Gone@Example.ORG '))?.reason).toBe('hard_bounce');
+    expect(await getSuppression('user-2', 'gone@example.org')).toBeNull();
+  });
+
+  it('keeps the first reason recorded for an address', async () => {
+    await addSuppression('user-1', 'GONE@example.org', 'unsubscribe');
+    await addSuppression('user-1', 'New@Example.org', 'manual', 'campaign-1');
+
+    expect((await getSuppression('user-1', 'gone@example.org'))?.reason).toBe('hard_bounce');
+    expect(db.suppression.rows.at(-1)).toMatchObject({ email: 'new@example.org', reason: 'manual', campaignId: 'campaign-1' });
+  });
+
+  it('looks up many addresses in chunks', async () => {
+    const findMany = vi.spyOn(db.suppression, 'findMany');
+    const emails = Array.from({ length: 2500 }, (_, i) => `reader${i}@example.org`).concat('Left@example.org');
+
+    const suppressed = await getSuppressedEmails('user-1', emails);
+
+    expect(findMany).toHaveBeenCalledTimes(3);
+    expect([...suppressed]).toEqual([['left@example.org', 'unsubscribe']]);
+  });
+});
+
+describe('addCampaignRecipients', () => {
+  it('adds suppressed addresses as skipped and counts them as processed', async () => {
+    const result = await addCampaignRecipients('campaign-1', 'user-1', [
+      recipient('reader@example.org'),
+      recipient('Gone@example.org'),
+      recipient('READER@example.org'),
+      recipient('left@example.org'),
+    ]);
+
+    expect(result).toEqual({ total: 3, suppressed: 2 });
+    expect(db.campaign.rows[0]).toMatchObject({ recipientCount: 3, skippedCount: 2, processedCount: 2 });
+    expect(db.recipient.rows.map((row: Row) => [row.email, row.status, row.errorMessage])).toEqual([
+      ['reader@example.org', 'pending', null],
+      ['Gone@example.org', 'skipped', 'Suppressed (hard_bounce)'],
+      ['left@example.org', 'skipped', 'Suppressed (unsubscribe)'],
+    ]);
+  });
+
+  it('counts every skipped row when variants only differ in spacing', async () => {
+    const result = await addCampaignRecipients('campaign-1', 'user-1', [recipient('gone@example.org'), recipient(' gone@example.org')]);
+
+    expect(result).toEqual({ total: 2, suppressed: 2 });
+    expect(db.campaign.rows[0].processedCount).toBe(2);
+  });
+});
+
+describe('skipSuppressedRecipients', () => {
+  it('skips pending recipients suppressed since the campaign was created', async () => {
+    db.recipient.rows.push(
+      { id: 'r1', campaignId: 'campaign-1', email: 'reader@example.org', status: 'pending', errorMessage: null },
+      { id: 'r2', campaignId: 'campaign-1', email: 'Gone@example.org', status: 'pending', errorMessage: null },
+      { id: 'r3', campaignId: 'campaign-1', email: 'left@example.org', status: 'sent', errorMessage: null },
+      { id: 'r4', campaignId: 'campaign-2', email: 'left@example.org', status: 'pending', errorMessage: null },
+      { id: 'r5', campaignId: 'campaign-1', email: 'left@example.org', status: 'pending', errorMessage: null },
+    );
+
+    expect(await skipSuppressedRecipients('campaign-1', 'user-1')).toBe(2);
+    expect(db.recipient.rows.map((row: Row) => [row.id, row.status, row.errorMessage])).toEqual([
+      ['r1', 'pending', null],
+      ['r2', 'skipped', 'Suppressed (hard_bounce)'],
+      ['r3', 'sent', null],
+      ['r4', 'pending', null],
+      ['r5', 'skipped', 'Suppressed (unsubscribe)'],
+    ]);
+  });
+});
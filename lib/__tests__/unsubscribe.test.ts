@@ -0,0 +1,113 @@
+// lib/__tests__/unsubscribe.test.ts
+import { NextRequest } from 'next/server';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createFakeModel, Row } from './fake-prisma';
+import { createUnsubscribeToken, getUnsubscribeUrl, unsubscribeRecipient, verifyUnsubscribeToken } from '../unsubscribe';
+import { GET, POST } from '@/app/api/unsubscribe/route';
+
+const db = vi.hoisted(() => ({}) as Row);
+vi.mock('../db', () => ({ prisma: db }));
+
+beforeAll(() => {
+  vi.stubEnv('UNSUBSCRIBE_SECRET', 'test-secret');
+  vi.stubEnv('NEXTAUTH_URL', 'https://mail.example.com');
+});
+
+afterAll(() => {
+  vi.unstubAllEnvs();
+});
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+
+  db.recipient = createFakeModel([
+    { id: 'r1', email: 'Reader@example.org', contactId: null, campaignId: 'campaign-1', campaign: { userId: 'user-1' } },
+    { id: 'r2', email: 'orphan@example.org', contactId: null, campaignId: 'campaign-9', campaign: null },
+  ]);
+  db.suppression = createFakeModel();
+  db.contact = createFakeModel([
+    { id: 'c1', email: 'reader@example.org', userId: 'user-1', subscriptionStatus: 'subscribed', unsubscribedAt: null },
+    { id: 'c2', email: 'reader@example.org', userId: 'user-2', subscriptionStatus: 'subscribed', unsubscribedAt: null },
+    { id: 'c3', email: 'someone@example.org', userId: 'user-1', subscriptionStatus: 'subscribed', unsubscribedAt: null },
+  ]);
+});
+
+function unsubscribeRequest(method: string, token: string) {
+  return new NextRequest(`https://mail.example.com/api/unsubscribe?token=${encodeURIComponent(token)}`, { method });
+}
+
+describe('unsubscribe tokens', () => {
+  it('round-trips the recipient id', () => {
+    expect(verifyUnsubscribeToken(createUnsubscribeToken('r1'))).toBe('r1');
+  });
+
+  it('rejects missing, malformed and tampered tokens', () => {
+    const [, signature] = createUnsubscribeToken('r1').split('.');
+
+    expect(verifyUnsubscribeToken(null)).toBeNull();
+    expect(verifyUnsubscribeToken('r1')).toBeNull();
+    expect(verifyUnsubscribeToken(`r2.${signature}`)).toBeNull();
+    expect(verifyUnsubscribeToken(`r1.${signature.slice(1)}`)).toBeNull();
+  });
+
+  it('stops verifying when the secret changes', () => {
+    const token = createUnsubscribeToken('r1');
+    vi.stubEnv('UNSUBSCRIBE_SECRET', 'rotated');
+
+    try {
+      expect(verifyUnsubscribeToken(token)).toBeNull();
+    } finally {
+      vi.stubEnv('UNSUBSCRIBE_SECRET', 'test-secret');
+    }
+  });
+
+  it('builds the public URL from NEXTAUTH_URL', () => {
+    expect(getUnsubscribeUrl('r1')).toBe(`https://mail.example.com/api/unsubscribe?token=${encodeURIComponent(createUnsubscribeToken('r1'))}`);
+  });
+});
+
+describe('unsubscribeRecipient', () => {
+  it("suppresses the address and unsubscribes the owner's matching contacts", async () => {
+    expect(await unsubscribeRecipient('r1')).toEqual({ email: 'Reader@example.org' });
+
+    expect(db.suppression.rows).toEqual([
+      expect.objectContaining({ email: 'reader@example.org', reason: 'unsubscribe', userId: 'user-1', campaignId: 'campaign-1' }),
+    ]);
+    expect(db.contact.rows.map((contact: Row) => contact.subscriptionStatus)).toEqual(['unsubscribed', 'subscribed', 'subscribed']);
+    expect(db.contact.rows[0].unsubscribedAt).toBeInstanceOf(Date);
+  });
+
+  it('returns null for a recipient without a campaign', async () => {
+    expect(await unsubscribeRecipient('r2')).toBeNull();
+    expect(await unsubscribeRecipient('missing')).toBeNull();
+    expect(db.suppression.rows).toHaveLength(0);
+  });
+});
+
+describe('/api/unsubscribe', () => {
+  it('unsubscribes in one click on POST', async () => {
+    const response = await POST(unsubscribeRequest('POST', createUnsubscribeToken('r1')));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ success: true, email: 'Reader@example.org' });
+    expect(db.suppression.rows).toHaveLength(1);
+  });
+
+  it('refuses a forged token', async () => {
+    const response = await POST(unsubscribeRequest('POST', 'r1.forged'));
+
+    expect(response.status).toBe(400);
+    expect(db.suppression.rows).toHaveLength(0);
+  });
+
+  it('only redirects to the confirmation page on GET', async () => {
+    const token = createUnsubscribeToken('r1');
+
+    const valid = await GET(unsubscribeRequest('GET', token));
+    const invalid = await GET(unsubscribeRequest('GET', 'r1.forged'));
+
+    expect(valid.headers.get('location')).toBe(`https://mail.example.com/unsubscribe?token=${encodeURIComponent(token)}`);
+    expect(invalid.headers.get('location')).toBe('https://mail.example.com/unsubscribe?error=invalid');
+    expect(db.suppression.rows).toHaveLength(0);
+  });
+});
@@ -0,0 +1,230 @@
+// lib/ab-test.ts
+import { Campaign, CampaignVariant, EmailTemplate, Recipient } from '@prisma/client';
+import { prisma } from './db';
+import { SENT_RECIPIENT_STATUSES } from './bounce-processing';
+
+export const AB_TEST_METRICS = ['open', 'click'] as const;
+
+export type AbTestMetric = typeof AB_TEST_METRICS[number];
+
+export interface VariantStats {
+  id: string;
+  name: string;
+  subject: string | null;
+  templateName: string | null;
+  isWinner: boolean;
+  recipients: number;
+  sent: number;
+  opened: number;
+  clicked: number;
+  openRate: number;
+  clickRate: number;
+}
+
+type CampaignWithVariants = Campaign & {
+  template: EmailTemplate;
+  variants: Array<CampaignVariant & { template: EmailTemplate | null }>;
+};
+
+// Keeps `id: { in: [...] }` lists well under Postgres' bind parameter limit
+const ASSIGN_CHUNK_SIZE = 1000;
+
+/**
+ * Check if a campaign is still holding back recipients for an A/B test winner
+ */
+export function isAbTestPending(campaign: Pick<Campaign, 'abTestStatus'>): boolean {
+  return campaign.abTestStatus === 'testing' || campaign.abTestStatus === 'waiting';
+}
+
+/**
+ * Spread a random sample of a campaign's pending recipients over its variants
+ * The rest keep variantId null until a winner is picked
+ */
+export async function assignTestVariants(
+  campaignId: string,
+  variantIds: string[],
+  samplePercent: number
+): Promise<number> {
+  const recipients = await prisma.recipient.findMany({
+    where: { campaignId, status: 'pending' },
+    select: { id: true },
+  });
+
+  const ids = recipients.map(recipient => recipient.id);
+
+  // Fisher-Yates shuffle so the sample isn't biased by upload order
+  for (let i = ids.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [ids[i], ids[j]] = [ids[j], ids[i]];
+  }
+
+  // Every variant gets at least one recipient
+  const sampleSize = Math.min(ids.length, Math.max(variantIds.length, Math.round(ids.length * samplePercent / 100)));
+  const sample = ids.slice(0, sampleSize);
+
+  for (const [index, variantId] of variantIds.entries()) {
+    const variantRecipientIds = sample.filter((_, position) => position % variantIds.length === index);
+
+    for (let i = 0; i < variantRecipientIds.length; i += ASSIGN_CHUNK_SIZE) {
+      await prisma.recipient.updateMany({
+        where: { id: { in: variantRecipientIds.slice(i, i + ASSIGN_CHUNK_SIZE) } },
+        data: { variantId },
+      });
+    }
+  }
+
+  return sampleSize;
+}
+
+/**
+ * Get the template a recipient should receive, with its variant's overrides applied
+ */
+export function applyVariant<T extends CampaignWithVariants>(campaign: T, recipient: Recipient): T {
+  const variant = campaign.variants.find(item => item.id === recipient.variantId);
+
+  if (!variant) {
+    return campaign;
+  }
+
+  const template = variant.template ?? campaign.template;
+
+  return {
+    ...campaign,
+    template: {
+      ...template,
+      subject: variant.subject || template.subject,
+    },
+  };
+}
+
+/**
+ * Sent, open and click counts per variant
+ */
+export async function getVariantStats(campaignId: string): Promise<VariantStats[]> {
+  const variants = await prisma.campaignVariant.findMany({
+    where: { campaignId },
+    include: { template: { select: { name: true } } },
+    orderBy: { name: 'asc' },
+  });
+
+  return Promise.all(variants.map(async variant => {
+    const [recipients, sent, opened, clicked] = await Promise.all([
+      prisma.recipient.count({ where: { variantId: variant.id } }),
+      prisma.recipient.count({ where: { variantId: variant.id, status: { in: SENT_RECIPIENT_STATUSES } } }),
+      prisma.recipient.count({
+        where: { variantId: variant.id, logs: { some: { openedAt: { not: null } } } },
+      }),
+      prisma.recipient.count({
+        where: { variantId: variant.id, logs: { some: { clickedAt: { not: null } } } },
+      }),
+    ]);
+
+    return {
+      id: variant.id,
+      name: variant.name,
+      subject: variant.subject,
+      templateName: variant.template?.name ?? null,
+      isWinner: variant.isWinner,
+      recipients,
+      sent,
+      opened,
+      clicked,
+      openRate: sent > 0 ? opened / sent : 0,
+      clickRate: sent > 0 ? clicked / sent : 0,
+    };
+  }));
+}
+
+/**
+ * Pick the variant with the best open or click rate and hand it the held-back recipients
+ * Ties go to the variant with more opens, then to the earliest variant
+ */
+export async function decideAbTest(campaign: Pick<Campaign, 'id' | 'abTestMetric'>): Promise<VariantStats | null> {
+  const stats = await getVariantStats(campaign.id);
+  const rateOf = (variant: VariantStats) => campaign.abTestMetric === 'click' ? variant.clickRate : variant.openRate;
+
+  const winner = stats.reduce<VariantStats | null>((best, variant) => {
+    if (!best) {
+      return variant;
+    }
+    if (rateOf(variant) !== rateOf(best)) {
+      return rateOf(variant) > rateOf(best) ? variant : best;
+    }
+    return variant.opened > best.opened ? variant : best;
+  }, null);
+
+  await prisma.$transaction([
+    ...(winner ? [
+      prisma.campaignVariant.update({
+        where: { id: winner.id },
+        data: { isWinner: true },
+      }),
+      prisma.recipient.updateMany({
+        where: { campaignId: campaign.id, variantId: null, status: 'pending' },
+        data: { variantId: winner.id },
+      }),
+    ] : []),
+    prisma.campaign.update({
+      where: { id: campaign.id },
+      data: { abTestStatus: 'decided' },
+    }),
+  ]);
+
+  if (winner) {
+    console.log(`A/B test for campaign ${campaign.id} won by variant ${winner.name} (${campaign.abTestMetric} rate ${rateOf(winner).toFixed(3)})`);
+  }
+
+  return winner;
+}
+
+/**
+ * Move an A/B test along once its sample has been sent
+ * Returns how long to wait before the next batch; 0 when there is more to send right away
+ */
+export async function advanceAbTest(
+  campaign: Pick<Campaign, 'id' | 'abTestStatus' | 'abTestMetric' | 'abTestWaitMinutes' | 'abTestDecideAt'>
+): Promise<number> {
+  const now = Date.now();
+
+  if (campaign.abTestStatus === 'testing') {
+    // Sample recipients waiting for a retry are still part of the test
+    const nextRetry = await prisma.recipient.findFirst({
+      where: { campaignId: campaign.id, variantId: { not: null }, status: 'pending' },
+      orderBy: { nextAttemptAt: { sort: 'asc', nulls: 'first' } },
+      select: { nextAttemptAt: true },
+    });
+
+    if (nextRetry) {
+      return Math.max((nextRetry.nextAttemptAt?.getTime() ?? now) - now, 0);
+    }
+
+    // Nothing in the sample went out (all suppressed or failed), so waiting can't tell the variants apart
+    const sampleSent = await prisma.recipient.count({
+      where: { campaignId: campaign.id, variantId: { not: null }, status: { in: SENT_RECIPIENT_STATUSES } },
+    });
+
+    if (sampleSent === 0) {
+      console.log(`A/B test sample for campaign ${campaign.id} reached nobody, sending the first variant`);
+      await decideAbTest(campaign);
+      return 0;
+    }
+
+    // Sample just finished: start the clock
+    const abTestDecideAt = new Date(now + campaign.abTestWaitMinutes * 60 * 1000);
+
+    await prisma.campaign.update({
+      where: { id: campaign.id },
+      data: { abTestStatus: 'waiting', abTestDecideAt },
+    });
+
+    console.log(`A/B test sample for campaign ${campaign.id} sent, picking a winner at ${abTestDecideAt.toISOString()}`);
+    return abTestDecideAt.getTime() - now;
+  }
+
+  if (campaign.abTestDecideAt && campaign.abTestDecideAt.getTime() > now) {
+    return campaign.abTestDecideAt.getTime() - now;
+  }
+
+  await decideAbTest(campaign);
+  return 0;
+}
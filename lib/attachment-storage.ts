@@ -0,0 +1,105 @@
+// lib/attachment-storage.ts
+import { promises as fs } from 'fs';
+import path from 'path';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+
+export interface AttachmentStorage {
+  put(storagePath: string, content: Buffer, contentType: string): Promise<void>;
+  get(storagePath: string): Promise<Buffer>;
+  remove(storagePath: string): Promise<void>;
+}
+
+// Private bucket; files are only ever read server-side
+const ATTACHMENT_BUCKET = process.env.ATTACHMENT_BUCKET ?? 'attachments';
+
+let supabase: SupabaseClient | null = null;
+
+// Created lazily so the local driver works without Supabase credentials
+function getSupabase(): SupabaseClient {
+  if (!supabase) {
+    supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_KEY!
+    );
+  }
+  return supabase;
+}
+
+const supabaseStorage: AttachmentStorage = {
+  async put(storagePath, content, contentType) {
+    const { error } = await getSupabase().storage
+      .from(ATTACHMENT_BUCKET)
+      .upload(storagePath, content, { contentType, upsert: false });
+
+    if (error) {
+      throw new Error(`Supabase upload failed: ${error.message}`);
+    }
+  },
+
+  async get(storagePath) {
+    const { data, error } = await getSupabase().storage
+      .from(ATTACHMENT_BUCKET)
+      .download(storagePath);
+
+    if (error || !data) {
+      throw new Error(`Supabase download failed: ${error?.message ?? 'no data'}`);
+    }
+
+    return Buffer.from(await data.arrayBuffer());
+  },
+
+  async remove(storagePath) {
+    const { error } = await getSupabase().storage
+      .from(ATTACHMENT_BUCKET)
+      .remove([storagePath]);
+
+    if (error) {
+      throw new Error(`Supabase delete failed: ${error.message}`);
+    }
+  },
+};
+
+/**
+ * Filesystem driver for development, rooted at ATTACHMENT_LOCAL_DIR
+ */
+function createLocalStorage(rootDir: string): AttachmentStorage {
+  const resolve = (storagePath: string) => {
+    const fullPath = path.resolve(rootDir, storagePath);
+    // Storage paths are generated by us, but never let one escape the root
+    if (!fullPath.startsWith(path.resolve(rootDir) + path.sep)) {
+      throw new Error(`Invalid storage path: ${storagePath}`);
+    }
+    return fullPath;
+  };
+
+  return {
+    async put(storagePath, content) {
+      const fullPath = resolve(storagePath);
+      await fs.mkdir(path.dirname(fullPath), { recursive: true });
+      await fs.writeFile(fullPath, content);
+    },
+
+    async get(storagePath) {
+      return fs.readFile(resolve(storagePath));
+    },
+
+    async remove(storagePath) {
+      await fs.rm(resolve(storagePath), { force: true });
+    },
+  };
+}
+
+/**
+ * Get the configured storage driver
+ * ATTACHMENT_STORAGE picks `supabase` or `local`; defaults to local outside production
+ */
+export function getAttachmentStorage(): AttachmentStorage {
+  const driver = process.env.ATTACHMENT_STORAGE
+    ?? (process.env.NODE_ENV === 'production' ? 'supabase' : 'local');
+
+  if (driver === 'local') {
+    return createLocalStorage(process.env.ATTACHMENT_LOCAL_DIR ?? path.join(process.cwd(), '.attachments'));
+  }
+
+  return supabaseStorage;
+}
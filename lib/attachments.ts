@@ -0,0 +1,185 @@
+// lib/attachments.ts
+import crypto from 'crypto';
+import { Attachment, Recipient, SmtpConfig } from '@prisma/client';
+import { prisma } from './db';
+import { getAttachmentStorage } from './attachment-storage';
+
+// Largest file accepted into the library
+export const MAX_ATTACHMENT_UPLOAD_BYTES = 10 * 1024 * 1024;
+
+// Per-email total when the SMTP config doesn't set maxAttachmentMb
+export const DEFAULT_MAX_ATTACHMENT_MB = 10;
+
+// Column in the recipient file naming library files for that recipient, separated by ; or ,
+export const RECIPIENT_ATTACHMENT_COLUMN = 'attachment';
+
+// Campaigns that would lose a file halfway through sending
+const UNFINISHED_CAMPAIGN_STATUSES = ['draft', 'queued', 'processing', 'paused'];
+
+// Keep recently sent files in memory so a campaign doesn't download them once per recipient
+const CONTENT_CACHE_MAX_BYTES = 50 * 1024 * 1024;
+const contentCache = new Map<string, Buffer>();
+let contentCacheBytes = 0;
+
+export interface MailAttachment {
+  filename: string;
+  content: Buffer;
+  contentType: string;
+}
+
+/**
+ * Strip path separators and control characters from an uploaded file name
+ */
+export function sanitizeFileName(fileName: string): string {
+  const base = fileName.split(/[\\/]/).pop() ?? '';
+  return base.replace(/[\x00-\x1f"<>|:*?]/g, '').trim().slice(0, 200) || 'attachment';
+}
+
+/**
+ * Store an uploaded file and add it to the user's library
+ */
+export async function saveAttachment(
+  userId: string,
+  fileName: string,
+  contentType: string,
+  content: Buffer
+): Promise<Attachment> {
+  const storagePath = `${userId}/${crypto.randomUUID()}-${fileName.replace(/[^\w.-]/g, '_')}`;
+
+  await getAttachmentStorage().put(storagePath, content, contentType);
+
+  return prisma.attachment.create({
+    data: {
+      fileName,
+      contentType,
+      size: content.length,
+      storagePath,
+      userId,
+    },
+  });
+}
+
+/**
+ * Remove a file from storage and the library
+ * Returns false, leaving the file in place, while a campaign that hasn't finished sending uses it
+ */
+export async function deleteAttachment(attachment: Attachment): Promise<boolean> {
+  // Checked in the delete itself so a campaign can't start between a check and the delete
+  const { count } = await prisma.attachment.deleteMany({
+    where: {
+      id: attachment.id,
+      campaigns: { none: { campaign: { status: { in: UNFINISHED_CAMPAIGN_STATUSES } } } },
+    },
+  });
+
+  if (count === 0) {
+    return false;
+  }
+
+  const cached = contentCache.get(attachment.id);
+  if (cached) {
+    contentCache.delete(attachment.id);
+    contentCacheBytes -= cached.length;
+  }
+
+  try {
+    await getAttachmentStorage().remove(attachment.storagePath);
+  } catch (error) {
+    // The row is gone either way; an orphaned file only costs storage
+    console.error(`Error removing stored attachment ${attachment.storagePath}:`, error);
+  }
+
+  return true;
+}
+
+async function getAttachmentContent(attachment: Attachment): Promise<Buffer> {
+  const cached = contentCache.get(attachment.id);
+  if (cached) {
+    return cached;
+  }
+
+  const content = await getAttachmentStorage().get(attachment.storagePath);
+
+  // Evict the oldest entries until the new file fits
+  for (const [id, buffer] of contentCache) {
+    if (contentCacheBytes + content.length <= CONTENT_CACHE_MAX_BYTES) {
+      break;
+    }
+    contentCache.delete(id);
+    contentCacheBytes -= buffer.length;
+  }
+
+  if (content.length <= CONTENT_CACHE_MAX_BYTES) {
+    contentCache.set(attachment.id, content);
+    contentCacheBytes += content.length;
+  }
+
+  return content;
+}
+
+/**
+ * Get the total attachment size an SMTP config accepts per email
+ */
+export function getAttachmentLimitBytes(smtpConfig: Pick<SmtpConfig, 'maxAttachmentMb'>): number {
+  return (smtpConfig.maxAttachmentMb ?? DEFAULT_MAX_ATTACHMENT_MB) * 1024 * 1024;
+}
+
+/**
+ * Get the library file names listed in a recipient's attachment column
+ */
+export function getRecipientAttachmentNames(metadata: unknown): string[] {
+  // Spreadsheet headers keep their original case
+  const entry = Object.entries((metadata ?? {}) as Record<string, unknown>)
+    .find(([key]) => key.trim().toLowerCase() === RECIPIENT_ATTACHMENT_COLUMN);
+  const value = entry?.[1];
+
+  if (typeof value !== 'string') {
+    return [];
+  }
+
+  return value.split(/[;,]/).map(name => name.trim()).filter(Boolean);
+}
+
+/**
+ * Collect the files for one email: the campaign's attachments plus any the recipient row names
+ * Throws if a named file isn't in the library or the total is over the SMTP config's limit,
+ * which fails the recipient without retrying.
+ */
+export async function getMailAttachments(
+  campaign: { userId: string; attachments?: Array<{ attachment: Attachment }> },
+  recipient: Pick<Recipient, 'metadata'>,
+  smtpConfig: Pick<SmtpConfig, 'id' | 'maxAttachmentMb'>
+): Promise<MailAttachment[]> {
+  const attachments = (campaign.attachments ?? []).map(link => link.attachment);
+  const recipientFiles = getRecipientAttachmentNames(recipient.metadata);
+
+  if (recipientFiles.length > 0) {
+    const found = await prisma.attachment.findMany({
+      where: { userId: campaign.userId, fileName: { in: recipientFiles } },
+    });
+
+    const missing = recipientFiles.filter(name => !found.some(attachment => attachment.fileName === name));
+    if (missing.length > 0) {
+      throw new Error(`Attachment not found in library: ${missing.join(', ')}`);
+    }
+
+    attachments.push(...found.filter(attachment => !attachments.some(item => item.id === attachment.id)));
+  }
+
+  if (attachments.length === 0) {
+    return [];
+  }
+
+  const totalBytes = attachments.reduce((sum, attachment) => sum + attachment.size, 0);
+  const limitBytes = getAttachmentLimitBytes(smtpConfig);
+
+  if (totalBytes > limitBytes) {
+    throw new Error(`Attachments total ${(totalBytes / 1024 / 1024).toFixed(1)} MB, over the ${limitBytes / 1024 / 1024} MB limit of SMTP config ${smtpConfig.id}`);
+  }
+
+  return Promise.all(attachments.map(async attachment => ({
+    filename: attachment.fileName,
+    content: await getAttachmentContent(attachment),
+    contentType: attachment.contentType,
+  })));
+}
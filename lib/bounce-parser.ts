@@ -0,0 +1,238 @@
+// lib/bounce-parser.ts
+
+/**
+ * Parser for delivery status notifications (RFC 3464) and complaint feedback reports (RFC 5965)
+ */
+
+export interface BounceRecipient {
+  email: string;
+  action: string | null;
+  // Enhanced status code, e.g. 5.1.1
+  status: string | null;
+  diagnostic: string | null;
+  permanent: boolean;
+}
+
+export interface BounceReport {
+  type: 'bounce' | 'complaint';
+  // Message-ID of the email we sent, from the returned original message or headers
+  originalMessageId: string | null;
+  recipients: BounceRecipient[];
+  // ARF Feedback-Type, e.g. abuse
+  feedbackType: string | null;
+}
+
+interface MimePart {
+  headers: Map<string, string>;
+  contentType: string;
+  params: Record<string, string>;
+  body: string;
+  parts: MimePart[];
+}
+
+/**
+ * Parse header lines into a map of lowercase name to the first value
+ */
+function parseHeaders(block: string): Map<string, string> {
+  const headers = new Map<string, string>();
+  // Unfold continuation lines
+  const lines = block.replace(/\r\n/g, '\n').replace(/\n[ \t]+/g, ' ').split('\n');
+
+  for (const line of lines) {
+    const colon = line.indexOf(':');
+    if (colon <= 0) {
+      continue;
+    }
+
+    const name = line.slice(0, colon).trim().toLowerCase();
+    if (!headers.has(name)) {
+      headers.set(name, line.slice(colon + 1).trim());
+    }
+  }
+
+  return headers;
+}
+
+function parseContentType(value: string | undefined): { type: string; params: Record<string, string> } {
+  const [type, ...rest] = (value ?? 'text/plain').split(';');
+  const params: Record<string, string> = {};
+
+  for (const param of rest) {
+    const eq = param.indexOf('=');
+    if (eq > 0) {
+      params[param.slice(0, eq).trim().toLowerCase()] = param.slice(eq + 1).trim().replace(/^"|"$/g, '');
+    }
+  }
+
+  return { type: type.trim().toLowerCase(), params };
+}
+
+function decodeBody(body: string, encoding: string | undefined): string {
+  switch ((encoding ?? '').trim().toLowerCase()) {
+    case 'base64':
+      return Buffer.from(body.replace(/\s+/g, ''), 'base64').toString('utf8');
+    case 'quoted-printable':
+      return body
+        .replace(/=\r?\n/g, '')
+        .replace(/=([0-9A-F]{2})/gi, (_, hex) => String.fromCharCode(parseInt(hex, 16)));
+    default:
+      return body;
+  }
+}
+
+function splitHeaderAndBody(raw: string): [string, string] {
+  const match = raw.match(/\r?\n\r?\n/);
+  if (!match || match.index === undefined) {
+    return [raw, ''];
+  }
+  return [raw.slice(0, match.index), raw.slice(match.index + match[0].length)];
+}
+
+function parseMimePart(raw: string): MimePart {
+  const [headerBlock, rawBody] = splitHeaderAndBody(raw);
+  const headers = parseHeaders(headerBlock);
+  const { type, params } = parseContentType(headers.get('content-type'));
+  const body = decodeBody(rawBody, headers.get('content-transfer-encoding'));
+  const parts: MimePart[] = [];
+
+  if (type.startsWith('multipart/') && params.boundary) {
+    const delimiter = `--${params.boundary}`;
+    const sections = body.split(delimiter).slice(1);
+
+    for (const section of sections) {
+      // The closing delimiter is followed by "--"
+      if (section.startsWith('--')) {
+        break;
+      }
+      parts.push(parseMimePart(section.replace(/^[ \t]*\r?\n/, '')));
+    }
+  } else if (type === 'message/rfc822') {
+    parts.push(parseMimePart(body));
+  }
+
+  return { headers, contentType: type, params, body, parts };
+}
+
+function findPart(part: MimePart, predicate: (item: MimePart) => boolean): MimePart | null {
+  if (predicate(part)) {
+    return part;
+  }
+
+  for (const child of part.parts) {
+    const found = findPart(child, predicate);
+    if (found) {
+      return found;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Strip the "rfc822;" type prefix and angle brackets from an address field
+ */
+function parseAddressField(value: string | undefined): string | null {
+  if (!value) {
+    return null;
+  }
+
+  const address = value.includes(';') ? value.slice(value.indexOf(';') + 1) : value;
+  const bracketed = address.match(/<([^>]+)>/);
+
+  return (bracketed ? bracketed[1] : address).trim().toLowerCase() || null;
+}
+
+/**
+ * Find the Message-ID of the original email returned inside a report
+ */
+function findOriginalMessageId(root: MimePart): string | null {
+  const original = findPart(root, part => part !== root && part.headers.has('message-id') && part.contentType !== 'message/delivery-status');
+  if (original) {
+    return original.headers.get('message-id') ?? null;
+  }
+
+  // text/rfc822-headers carries the headers as the part body
+  const headersPart = findPart(root, part => part.contentType === 'text/rfc822-headers');
+  if (headersPart) {
+    return parseHeaders(headersPart.body).get('message-id') ?? null;
+  }
+
+  return null;
+}
+
+function parseDeliveryStatus(body: string): BounceRecipient[] {
+  // First block is per-message fields, the rest are one block per recipient
+  const blocks = body.replace(/\r\n/g, '\n').trim().split(/\n\s*\n/).slice(1);
+
+  return blocks
+    .map(block => parseHeaders(block))
+    .map(fields => {
+      const status = fields.get('status')?.match(/\d\.\d{1,3}\.\d{1,3}/)?.[0] ?? null;
+
+      return {
+        email: parseAddressField(fields.get('final-recipient') ?? fields.get('original-recipient')) ?? '',
+        action: fields.get('action')?.toLowerCase() ?? null,
+        status,
+        diagnostic: fields.get('diagnostic-code')?.replace(/^smtp;\s*/i, '') ?? null,
+        permanent: status?.startsWith('5') ?? false,
+      };
+    })
+    .filter(recipient => recipient.email);
+}
+
+/**
+ * Parse a raw email into a bounce or complaint report
+ * Returns null for anything else, e.g. replies and out-of-office messages.
+ */
+export function parseBounceReport(raw: string | Buffer): BounceReport | null {
+  const root = parseMimePart(typeof raw === 'string' ? raw : raw.toString('utf8'));
+
+  if (root.contentType !== 'multipart/report') {
+    return null;
+  }
+
+  const reportType = root.params['report-type']?.toLowerCase();
+
+  if (reportType === 'delivery-status') {
+    const statusPart = findPart(root, part => part.contentType === 'message/delivery-status');
+    if (!statusPart) {
+      return null;
+    }
+
+    const recipients = parseDeliveryStatus(statusPart.body);
+
+    return {
+      type: 'bounce',
+      originalMessageId: findOriginalMessageId(root),
+      recipients,
+      feedbackType: null,
+    };
+  }
+
+  if (reportType === 'feedback-report') {
+    const feedbackPart = findPart(root, part => part.contentType === 'message/feedback-report');
+    if (!feedbackPart) {
+      return null;
+    }
+
+    const fields = parseHeaders(feedbackPart.body);
+    const original = findPart(root, part => part.contentType === 'message/rfc822' || part.contentType === 'text/rfc822-headers');
+    const originalHeaders = original?.contentType === 'text/rfc822-headers'
+      ? parseHeaders(original.body)
+      : original?.parts[0]?.headers;
+
+    // Providers often redact Original-Rcpt-To, the returned To header is the fallback
+    const email = parseAddressField(fields.get('original-rcpt-to')) ?? parseAddressField(originalHeaders?.get('to'));
+
+    return {
+      type: 'complaint',
+      originalMessageId: findOriginalMessageId(root),
+      recipients: email
+        ? [{ email, action: null, status: null, diagnostic: fields.get('feedback-type') ?? null, permanent: true }]
+        : [],
+      feedbackType: fields.get('feedback-type')?.toLowerCase() ?? null,
+    };
+  }
+
+  return null;
+}
@@ -0,0 +1,299 @@
+// lib/bounce-processing.ts
+import { SmtpConfig } from '@prisma/client';
+import { prisma } from './db';
+import { openImapConnection } from './imap';
+import { BounceRecipient, BounceReport, parseBounceReport } from './bounce-parser';
+import { addSuppression } from './suppression';
+
+// Recipient statuses of emails the SMTP server accepted, including ones reported later
+export const SENT_RECIPIENT_STATUSES = ['sent', 'bounced', 'complained'];
+
+// Keep one cron run well inside its time limit
+const MAX_MESSAGES_PER_RUN = 200;
+
+// How far back to look for the send when a report has no usable Message-ID
+const FALLBACK_MATCH_DAYS = 14;
+
+export interface BounceMailboxResult {
+  smtpConfigId: string;
+  scanned: number;
+  bounces: number;
+  complaints: number;
+  unmatched: number;
+  error?: string;
+}
+
+type ReportOutcome = 'bounce' | 'complaint' | 'unmatched' | 'ignored';
+
+/**
+ * Find the log of the email a report refers to
+ * Matches the stored Message-ID first, then the newest send to the address through this config.
+ */
+async function findReportedLog(smtpConfig: SmtpConfig, messageId: string | null, email: string) {
+  const include = { recipient: true, campaign: { select: { id: true, userId: true } } };
+
+  if (messageId) {
+    const bare = messageId.replace(/^<|>$/g, '');
+    const log = await prisma.emailLog.findFirst({
+      where: {
+        messageId: { in: [bare, `<${bare}>`] },
+        recipient: { email: { equals: email, mode: 'insensitive' } },
+      },
+      include,
+    });
+
+    if (log) {
+      return log;
+    }
+  }
+
+  return prisma.emailLog.findFirst({
+    where: {
+      smtpConfigId: smtpConfig.id,
+      messageId: { not: null },
+      sentAt: { gte: new Date(Date.now() - FALLBACK_MATCH_DAYS * 24 * 60 * 60 * 1000) },
+      recipient: { email: { equals: email, mode: 'insensitive' } },
+    },
+    orderBy: { sentAt: 'desc' },
+    include,
+  });
+}
+
+export interface ReportedLog {
+  id: string;
+  recipientId: string;
+  status: string;
+  recipient: { email: string };
+  campaign: { id: string; userId: string };
+}
+
+/**
+ * Mark a sent email as bounced or complained about, and suppress the address when permanent
+ * Returns false when the log already has that status, so repeated reports are harmless.
+ */
+export async function recordLateFailure(
+  log: ReportedLog,
+  type: 'bounce' | 'complaint',
+  details: { failureCategory: 'hard_bounce' | 'rejected' | 'soft_bounce'; errorMessage: string }
+): Promise<boolean> {
+  const status = type === 'bounce' ? 'bounced' : 'complained';
+
+  if (log.status === status) {
+    return false;
+  }
+
+  // Complaints keep the failure category of the send
+  const failureCategory = type === 'bounce' ? { failureCategory: details.failureCategory } : {};
+
+  await prisma.$transaction([
+    prisma.emailLog.update({
+      where: { id: log.id },
+      data: { status, errorMessage: details.errorMessage, ...failureCategory },
+    }),
+    prisma.recipient.update({
+      where: { id: log.recipientId },
+      data: { status, errorMessage: details.errorMessage, ...failureCategory },
+    }),
+    prisma.campaign.update({
+      where: { id: log.campaign.id },
+      data: type === 'bounce'
+        ? { bounceCount: { increment: 1 } }
+        : { complaintCount: { increment: 1 } },
+    }),
+  ]);
+
+  if (type === 'complaint') {
+    await addSuppression(log.campaign.userId, log.recipient.email, 'complaint', log.campaign.id);
+  } else if (details.failureCategory === 'hard_bounce') {
+    await addSuppression(log.campaign.userId, log.recipient.email, 'hard_bounce', log.campaign.id);
+  }
+
+  console.log(`Recorded ${status} for ${log.recipient.email} in campaign ${log.campaign.id}`);
+
+  return true;
+}
+
+/**
+ * Record one bounced or complaining recipient from a report
+ */
+async function applyReportRecipient(
+  smtpConfig: SmtpConfig,
+  report: BounceReport,
+  reported: BounceRecipient
+): Promise<ReportOutcome> {
+  // "delayed" and "relayed" notices are informational, only failures count as bounces
+  if (report.type === 'bounce' && reported.action !== 'failed') {
+    return 'ignored';
+  }
+
+  const log = await findReportedLog(smtpConfig, report.originalMessageId, reported.email);
+
+  // The report must concern mail this user sent
+  if (!log || log.campaign.userId !== smtpConfig.userId) {
+    return 'unmatched';
+  }
+
+  // Only a bad address (5.1.x) is suppressed, policy and content blocks may clear up
+  const failureCategory = !reported.permanent
+    ? 'soft_bounce'
+    : reported.status?.split('.')[1] === '1' ? 'hard_bounce' : 'rejected';
+  const errorMessage = report.type === 'bounce'
+    ? [reported.status, reported.diagnostic].filter(Boolean).join(' ') || 'Bounced after delivery'
+    : `Complaint (${report.feedbackType ?? 'abuse'})`;
+
+  // Mailboxes get re-scanned after a UIDVALIDITY change, so reports can repeat
+  const recorded = await recordLateFailure(log, report.type, { failureCategory, errorMessage });
+
+  if (!recorded) {
+    return 'ignored';
+  }
+
+  return report.type;
+}
+
+/**
+ * Poll one SMTP config's bounce mailbox
+ * Only messages above the last seen UID are read. Reports that were applied are
+ * flagged as seen; everything else (replies, auto-responders) is left untouched.
+ */
+async function pollBounceMailbox(smtpConfig: SmtpConfig): Promise<BounceMailboxResult> {
+  const result: BounceMailboxResult = {
+    smtpConfigId: smtpConfig.id,
+    scanned: 0,
+    bounces: 0,
+    complaints: 0,
+    unmatched: 0,
+  };
+
+  if (!smtpConfig.bounceImapHost || !smtpConfig.bounceImapUsername || !smtpConfig.bounceImapPassword) {
+    return result;
+  }
+
+  const connection = await openImapConnection({
+    host: smtpConfig.bounceImapHost,
+    port: smtpConfig.bounceImapPort,
+    secure: smtpConfig.bounceImapSecure,
+    username: smtpConfig.bounceImapUsername,
+    password: smtpConfig.bounceImapPassword,
+    allowPlaintextLogin: process.env.IMAP_ALLOW_PLAINTEXT === 'true',
+  });
+
+  let lastUid = smtpConfig.bounceLastUid;
+  let uidValidity = smtpConfig.bounceUidValidity;
+
+  try {
+    const mailboxUidValidity = await connection.select(smtpConfig.bounceImapMailbox);
+
+    // UIDs from a different UIDVALIDITY mean nothing, start over
+    if (uidValidity !== mailboxUidValidity) {
+      uidValidity = mailboxUidValidity;
+      lastUid = 0;
+    }
+
+    const uids = (await connection.searchUidsAfter(lastUid)).slice(0, MAX_MESSAGES_PER_RUN);
+
+    for (const uid of uids) {
+      const raw = await connection.fetchMessage(uid);
+      const report = raw ? parseBounceReport(raw) : null;
+
+      result.scanned++;
+
+      if (!report) {
+        lastUid = uid;
+        continue;
+      }
+
+      let applied = false;
+
+      for (const reported of report.recipients) {
+        const outcome = await applyReportRecipient(smtpConfig, report, reported);
+
+        if (outcome === 'bounce') {
+          result.bounces++;
+        } else if (outcome === 'complaint') {
+          result.complaints++;
+        } else if (outcome === 'unmatched') {
+          result.unmatched++;
+        }
+
+        applied = applied || outcome !== 'unmatched';
+      }
+
+      if (applied) {
+        await connection.addFlags(uid, ['\\Seen']);
+      }
+
+      lastUid = uid;
+    }
+  } finally {
+    // Save progress even if a later message failed
+    await prisma.smtpConfig.update({
+      where: { id: smtpConfig.id },
+      data: {
+        bounceLastUid: lastUid,
+        bounceUidValidity: uidValidity,
+        bounceCheckedAt: new Date(),
+      },
+    });
+
+    await connection.logout();
+  }
+
+  return result;
+}
+
+/**
+ * Check one SMTP config's bounce mailbox now
+ * Errors are recorded on the config rather than thrown.
+ */
+export async function processBounceMailbox(smtpConfig: SmtpConfig): Promise<BounceMailboxResult> {
+  try {
+    const result = await pollBounceMailbox(smtpConfig);
+
+    await prisma.smtpConfig.update({
+      where: { id: smtpConfig.id },
+      data: { bounceLastError: null },
+    });
+
+    return result;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error(`Error processing bounce mailbox of SMTP ${smtpConfig.id}:`, error);
+
+    await prisma.smtpConfig.update({
+      where: { id: smtpConfig.id },
+      data: { bounceLastError: message, bounceCheckedAt: new Date() },
+    });
+
+    return {
+      smtpConfigId: smtpConfig.id,
+      scanned: 0,
+      bounces: 0,
+      complaints: 0,
+      unmatched: 0,
+      error: message,
+    };
+  }
+}
+
+/**
+ * Poll the bounce mailbox of every SMTP config that has one
+ */
+export async function processBounceMailboxes(): Promise<BounceMailboxResult[]> {
+  const smtpConfigs = await prisma.smtpConfig.findMany({
+    where: {
+      bounceImapHost: { not: null },
+      bounceImapUsername: { not: null },
+      bounceImapPassword: { not: null },
+    },
+  });
+
+  const results: BounceMailboxResult[] = [];
+
+  // One at a time keeps the number of open IMAP connections low
+  for (const smtpConfig of smtpConfigs) {
+    results.push(await processBounceMailbox(smtpConfig));
+  }
+
+  return results;
+}
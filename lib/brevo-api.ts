@@ -0,0 +1,149 @@
+// lib/brevo-api.ts
+import { SmtpConfig } from '@prisma/client';
+import type { MailMessage, MailTransport, SentMail } from './mail-transport';
+
+// Same limit the queue puts on an SMTP send
+const REQUEST_TIMEOUT_MS = 15000;
+
+/**
+ * Base URL of the Brevo v3 API; BREVO_API_URL points it at a mock server in development
+ */
+export function getBrevoApiUrl(): string {
+  return (process.env.BREVO_API_URL ?? 'https://api.brevo.com/v3').replace(/\/+$/, '');
+}
+
+interface BrevoAddress {
+  email: string;
+  name?: string;
+}
+
+/**
+ * Turn "Name <user@example.com>" or a bare address into a Brevo contact
+ */
+function toBrevoAddress(value: string): BrevoAddress {
+  const match = value.match(/^\s*"?([^"<]*?)"?\s*<([^>]+)>\s*$/);
+
+  if (match) {
+    return match[1] ? { email: match[2].trim(), name: match[1] } : { email: match[2].trim() };
+  }
+
+  return { email: value.trim() };
+}
+
+/**
+ * Errors carry the HTTP status (httpStatus) or a nodemailer-style network code,
+ * so classifySmtpError treats them like any other failed send
+ */
+function createApiError(message: string, fields: { httpStatus?: number; code?: string; response?: string }): Error {
+  return Object.assign(new Error(message), fields);
+}
+
+async function brevoRequest<T>(apiKey: string, method: 'GET' | 'POST', path: string, body?: unknown): Promise<{ status: number; data: T }> {
+  let response: Response;
+
+  try {
+    response = await fetch(`${getBrevoApiUrl()}${path}`, {
+      method,
+      headers: {
+        'api-key': apiKey,
+        accept: 'application/json',
+        ...(body ? { 'content-type': 'application/json' } : {}),
+      },
+      body: body ? JSON.stringify(body) : undefined,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+  } catch (error) {
+    const timedOut = error instanceof Error && error.name === 'TimeoutError';
+    const cause = (error as { cause?: { message?: string } })?.cause?.message;
+
+    throw createApiError(
+      timedOut ? 'Brevo API request timed out' : `Could not reach the Brevo API${cause ? `: ${cause}` : ''}`,
+      { code: timedOut ? 'ETIMEDOUT' : 'ECONNECTION' }
+    );
+  }
+
+  const text = await response.text();
+  let data: unknown = null;
+
+  try {
+    data = text ? JSON.parse(text) : null;
+  } catch {
+    // Proxies in front of the API may answer with HTML
+  }
+
+  if (!response.ok) {
+    const detail = (data as { message?: string } | null)?.message ?? (text.slice(0, 200) || response.statusText);
+
+    throw createApiError(`Brevo API error ${response.status}: ${detail}`, {
+      httpStatus: response.status,
+      // Same "<code> <message>" shape as an SMTP reply, for the delivery log
+      response: `${response.status} ${detail}`,
+    });
+  }
+
+  return { status: response.status, data: data as T };
+}
+
+/**
+ * Transport that sends through Brevo's transactional email API (POST /smtp/email)
+ * Works where outbound SMTP ports are blocked and returns the message ID with the response.
+ */
+export function createBrevoApiTransport(smtpConfig: SmtpConfig): MailTransport {
+  const apiKey = smtpConfig.apiKey ?? '';
+
+  return {
+    async sendMail(message: MailMessage): Promise<SentMail> {
+      if (!apiKey) {
+        throw createApiError('No Brevo API key configured', { httpStatus: 401 });
+      }
+
+      const cc = message.cc ?? [];
+      const bcc = message.bcc ?? [];
+
+      const { status, data } = await brevoRequest<{ messageId?: string }>(apiKey, 'POST', '/smtp/email', {
+        sender: message.from.name ? { name: message.from.name, email: message.from.address } : { email: message.from.address },
+        to: [toBrevoAddress(message.to)],
+        ...(cc.length > 0 ? { cc: cc.map(toBrevoAddress) } : {}),
+        ...(bcc.length > 0 ? { bcc: bcc.map(toBrevoAddress) } : {}),
+        // Brevo takes a single Reply-To address
+        ...(message.replyTo?.length ? { replyTo: toBrevoAddress(message.replyTo[0]) } : {}),
+        subject: message.subject,
+        htmlContent: message.html,
+        ...(message.text ? { textContent: message.text } : {}),
+        ...(message.headers && Object.keys(message.headers).length > 0 ? { headers: message.headers } : {}),
+        ...(message.attachments?.length
+          ? {
+              attachment: message.attachments.map(attachment => ({
+                name: attachment.filename,
+                content: attachment.content.toString('base64'),
+              })),
+            }
+          : {}),
+      });
+
+      if (!data?.messageId) {
+        throw createApiError('Brevo API accepted the email but returned no message ID', { httpStatus: status });
+      }
+
+      return {
+        messageId: data.messageId,
+        response: `${status} ${data.messageId}`,
+        // The API accepts or rejects the request as a whole
+        accepted: [message.to, ...cc, ...bcc].map(address => toBrevoAddress(address).email),
+        rejected: [],
+      };
+    },
+
+    async verify() {
+      if (!apiKey) {
+        throw createApiError('No Brevo API key configured', { httpStatus: 401 });
+      }
+
+      await brevoRequest(apiKey, 'GET', '/account');
+    },
+
+    close() {
+      // Nothing to close, every request is its own HTTP call
+    },
+  };
+}
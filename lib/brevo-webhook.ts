@@ -0,0 +1,226 @@
+// lib/brevo-webhook.ts
+import crypto from 'crypto';
+import { Prisma } from '@prisma/client';
+import { prisma } from './db';
+import { recordLateFailure } from './bounce-processing';
+import { unsubscribeRecipient } from './unsubscribe';
+
+export const BREVO_WEBHOOK_EVENTS = [
+  'delivered',
+  'soft_bounce',
+  'hard_bounce',
+  'spam',
+  'blocked',
+  'invalid_email',
+  'opened',
+  'click',
+  'unsubscribed',
+] as const;
+
+export type BrevoWebhookEvent = typeof BREVO_WEBHOOK_EVENTS[number];
+
+export type BrevoEventOutcome = 'applied' | 'duplicate' | 'unmatched' | 'ignored';
+
+/**
+ * Transactional webhook payload; Brevo sends more fields than these
+ */
+export interface BrevoEventPayload {
+  event?: string;
+  email?: string;
+  'message-id'?: string;
+  date?: string;
+  ts_event?: number;
+  ts_epoch?: number;
+  reason?: string;
+  link?: string;
+}
+
+// Brevo reports the first open separately; both mean the email was opened
+const EVENT_ALIASES: Record<string, BrevoWebhookEvent> = {
+  unique_opened: 'opened',
+};
+
+/**
+ * Generate a new webhook token for a user, replacing the old one
+ */
+export async function rotateBrevoWebhookToken(userId: string): Promise<string> {
+  const token = crypto.randomBytes(24).toString('base64url');
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: { brevoWebhookToken: token },
+  });
+
+  return token;
+}
+
+function getEventDate(payload: BrevoEventPayload): Date {
+  if (payload.ts_epoch) {
+    return new Date(payload.ts_epoch);
+  }
+  if (payload.ts_event) {
+    return new Date(payload.ts_event * 1000);
+  }
+  return payload.date ? new Date(payload.date) : new Date();
+}
+
+/**
+ * Identify an event across redeliveries of the same webhook
+ */
+function getEventKey(event: string, payload: BrevoEventPayload): string {
+  const parts = [
+    payload['message-id'] ?? payload.email,
+    event,
+    payload.ts_epoch ?? payload.ts_event ?? payload.date,
+    payload.link ?? '',
+  ];
+
+  return crypto.createHash('sha256').update(parts.join('|')).digest('hex');
+}
+
+async function findEventLog(userId: string, messageId: string, email: string) {
+  const bare = messageId.replace(/^<|>$/g, '');
+
+  return prisma.emailLog.findFirst({
+    where: {
+      messageId: { in: [bare, `<${bare}>`] },
+      recipient: { email: { equals: email, mode: 'insensitive' } },
+      campaign: { userId },
+    },
+    include: { recipient: true, campaign: { select: { id: true, userId: true } } },
+  });
+}
+
+type EventLog = NonNullable<Awaited<ReturnType<typeof findEventLog>>>;
+
+async function applyEvent(event: BrevoWebhookEvent, payload: BrevoEventPayload, log: EventLog): Promise<void> {
+  const eventDate = getEventDate(payload);
+  const reason = payload.reason ? `: ${payload.reason}` : '';
+
+  switch (event) {
+    case 'delivered':
+      if (!log.deliveredAt) {
+        await prisma.$transaction([
+          prisma.emailLog.update({ where: { id: log.id }, data: { deliveredAt: eventDate } }),
+          prisma.campaign.update({ where: { id: log.campaign.id }, data: { deliveredCount: { increment: 1 } } }),
+        ]);
+      }
+      return;
+
+    case 'soft_bounce':
+      await recordLateFailure(log, 'bounce', {
+        failureCategory: 'soft_bounce',
+        errorMessage: `Brevo soft bounce${reason}`,
+      });
+      return;
+
+    case 'hard_bounce':
+    case 'invalid_email':
+      await recordLateFailure(log, 'bounce', {
+        failureCategory: 'hard_bounce',
+        errorMessage: `Brevo ${event.replace('_', ' ')}${reason}`,
+      });
+      return;
+
+    // Brevo refused to send it (its own blocklist or policy); the mailbox never rejected
+    // the address, so it isn't suppressed
+    case 'blocked':
+      await recordLateFailure(log, 'bounce', {
+        failureCategory: 'rejected',
+        errorMessage: `Brevo blocked${reason}`,
+      });
+      return;
+
+    case 'spam':
+      await recordLateFailure(log, 'complaint', {
+        failureCategory: 'hard_bounce',
+        errorMessage: 'Complaint (Brevo spam report)',
+      });
+      return;
+
+    // Our own pixel and redirect count every open and click, so only the first
+    // one the tracker missed is counted here
+    case 'opened':
+      if (!log.openedAt) {
+        await prisma.$transaction([
+          prisma.emailLog.update({
+            where: { id: log.id },
+            data: { openedAt: eventDate, ...(log.status === 'sent' ? { status: 'opened' } : {}) },
+          }),
+          prisma.campaign.update({ where: { id: log.campaign.id }, data: { openCount: { increment: 1 } } }),
+        ]);
+      }
+      return;
+
+    case 'click':
+      if (!log.clickedAt) {
+        await prisma.$transaction([
+          prisma.emailLog.update({
+            where: { id: log.id },
+            data: {
+              clickedAt: eventDate,
+              ...(log.status === 'sent' || log.status === 'opened' ? { status: 'clicked' } : {}),
+            },
+          }),
+          prisma.campaign.update({ where: { id: log.campaign.id }, data: { clickCount: { increment: 1 } } }),
+        ]);
+      }
+      return;
+
+    case 'unsubscribed':
+      await unsubscribeRecipient(log.recipientId);
+      return;
+  }
+}
+
+/**
+ * Apply one Brevo webhook event to the matching send
+ * Each event is recorded once per user, so redelivered webhooks are skipped.
+ */
+export async function handleBrevoEvent(userId: string, payload: BrevoEventPayload): Promise<BrevoEventOutcome> {
+  const rawEvent = payload.event ?? '';
+  const event = EVENT_ALIASES[rawEvent] ?? rawEvent;
+
+  if (!BREVO_WEBHOOK_EVENTS.includes(event as BrevoWebhookEvent) || !payload.email) {
+    return 'ignored';
+  }
+
+  const messageId = payload['message-id'] ?? null;
+  const log = messageId ? await findEventLog(userId, messageId, payload.email) : null;
+
+  // Not claimed, so a redelivery after the send is logged can still apply it
+  if (!log) {
+    return 'unmatched';
+  }
+
+  let claim;
+  try {
+    claim = await prisma.webhookEvent.create({
+      data: {
+        provider: 'brevo',
+        eventKey: getEventKey(event, payload),
+        event,
+        email: payload.email.toLowerCase(),
+        messageId,
+        emailLogId: log.id,
+        userId,
+        payload: payload as Prisma.InputJsonObject,
+      },
+    });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return 'duplicate';
+    }
+    throw error;
+  }
+
+  try {
+    await applyEvent(event as BrevoWebhookEvent, payload, log);
+  } catch (error) {
+    // Release the claim so Brevo's retry can apply the event
+    await prisma.webhookEvent.delete({ where: { id: claim.id } }).catch(() => undefined);
+    throw error;
+  }
+
+  return 'applied';
+}
@@ -0,0 +1,152 @@
+// lib/campaign-recipients.ts
+import { Prisma } from '@prisma/client';
+import { prisma } from './db';
+import { getSuppressedEmails, normalizeSuppressedEmail } from './suppression';
+
+export interface CampaignRecipientInput {
+  email: string;
+  name: string | null;
+  metadata: Record<string, unknown>;
+  contactId: string | null;
+}
+
+// Different from the email sending batch size
+const CREATION_BATCH_SIZE = 500;
+
+/**
+ * Get the current members of a user's contact groups as campaign recipients
+ */
+export async function getGroupRecipients(userId: string, groupIds: string[]): Promise<CampaignRecipientInput[]> {
+  const groupContacts = await prisma.contact.findMany({
+    where: {
+      userId,
+      groups: {
+        some: {
+          groupId: {
+            in: groupIds,
+          },
+        },
+      },
+    },
+    select: {
+      id: true,
+      email: true,
+      name: true,
+      metadata: true,
+    },
+  });
+
+  return groupContacts.map(contact => ({
+    email: contact.email,
+    name: contact.name,
+    metadata: contact.metadata as Record<string, unknown> || {},
+    contactId: contact.id,
+  }));
+}
+
+/**
+ * Deduplicate recipients by email and add them to a campaign
+ * Suppressed addresses are added as skipped so the campaign counts add up
+ */
+export async function addCampaignRecipients(
+  campaignId: string,
+  userId: string,
+  recipients: CampaignRecipientInput[]
+): Promise<{ total: number; suppressed: number }> {
+  const uniqueEmails = new Set<string>();
+  const uniqueRecipients = recipients.filter(recipient => {
+    const email = recipient.email.toLowerCase();
+    if (uniqueEmails.has(email)) {
+      return false;
+    }
+    uniqueEmails.add(email);
+    return true;
+  });
+
+  console.log(`Total unique recipients: ${uniqueRecipients.length}`);
+
+  const suppressedEmails = await getSuppressedEmails(
+    userId,
+    uniqueRecipients.map(recipient => recipient.email)
+  );
+
+  const rows = uniqueRecipients.map(recipient => {
+    const suppressionReason = suppressedEmails.get(normalizeSuppressedEmail(recipient.email));
+
+    return {
+      email: recipient.email,
+      name: recipient.name,
+      metadata: recipient.metadata as Prisma.JsonObject,
+      contactId: recipient.contactId,
+      campaignId,
+      status: suppressionReason ? 'skipped' : 'pending',
+      errorMessage: suppressionReason ? `Suppressed (${suppressionReason})` : null,
+    };
+  });
+
+  // Count rows, not addresses; variants of one address that only differ in spacing are both skipped
+  const skippedCount = rows.filter(row => row.status === 'skipped').length;
+
+  if (skippedCount > 0) {
+    console.log(`Skipping ${skippedCount} suppressed recipients`);
+  }
+
+  await prisma.campaign.update({
+    where: { id: campaignId },
+    data: {
+      recipientCount: uniqueRecipients.length,
+      skippedCount,
+      processedCount: skippedCount,
+    },
+  });
+
+  // Create recipients in batches to avoid timeout
+  for (let i = 0; i < rows.length; i += CREATION_BATCH_SIZE) {
+    const batch = rows.slice(i, i + CREATION_BATCH_SIZE);
+
+    console.log(`Creating batch of ${batch.length} recipients (${i+1}-${i+batch.length} of ${rows.length})`);
+
+    await prisma.recipient.createMany({ data: batch });
+  }
+
+  return { total: uniqueRecipients.length, suppressed: skippedCount };
+}
+
+/**
+ * Mark a campaign's pending recipients whose address is now suppressed as skipped
+ * Returns how many were skipped
+ */
+export async function skipSuppressedRecipients(campaignId: string, userId: string): Promise<number> {
+  const pending = await prisma.recipient.findMany({
+    where: { campaignId, status: 'pending' },
+    select: { id: true, email: true },
+  });
+
+  const suppressedEmails = await getSuppressedEmails(userId, pending.map(recipient => recipient.email));
+
+  // One update per reason so each row keeps the same message it gets on creation
+  const idsByReason = new Map<string, string[]>();
+
+  for (const recipient of pending) {
+    const reason = suppressedEmails.get(normalizeSuppressedEmail(recipient.email));
+    if (reason) {
+      const ids = idsByReason.get(reason) ?? [];
+      ids.push(recipient.id);
+      idsByReason.set(reason, ids);
+    }
+  }
+
+  let skipped = 0;
+
+  for (const [reason, ids] of idsByReason) {
+    for (let i = 0; i < ids.length; i += CREATION_BATCH_SIZE) {
+      const { count } = await prisma.recipient.updateMany({
+        where: { id: { in: ids.slice(i, i + CREATION_BATCH_SIZE) }, status: 'pending' },
+        data: { status: 'skipped', errorMessage: `Suppressed (${reason})` },
+      });
+      skipped += count;
+    }
+  }
+
+  return skipped;
+}
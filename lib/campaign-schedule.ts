@@ -0,0 +1,225 @@
+// lib/campaign-schedule.ts
+import { CampaignSchedule, Prisma } from '@prisma/client';
+import { prisma } from './db';
+import { getNextCronOccurrence, isValidTimezone, zonedTimeToDate } from './cron';
+import { addCampaignRecipients, getGroupRecipients } from './campaign-recipients';
+import { DEFAULT_SENDING_PROFILE, isSendingProfileName, resolveSendingProfile } from './sending-profile';
+import { startCampaignProcessing } from './queue';
+
+type ScheduleTiming = Pick<CampaignSchedule, 'cronExpression' | 'timezone' | 'startDate' | 'endDate'>;
+
+interface ScheduleRunResult {
+  scheduleId: string;
+  campaignId?: string;
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * Get a schedule's next occurrence after a given time, within its start and end dates
+ * Returns null once the schedule has no occurrences left
+ */
+export function getScheduleNextRunAt(schedule: ScheduleTiming, after: Date): Date | null {
+  // An occurrence exactly at the start date counts
+  const from = schedule.startDate && schedule.startDate > after
+    ? new Date(schedule.startDate.getTime() - 1)
+    : after;
+
+  const next = getNextCronOccurrence(schedule.cronExpression, schedule.timezone, from);
+
+  if (!next || (schedule.endDate && next > schedule.endDate)) {
+    return null;
+  }
+
+  return next;
+}
+
+/**
+ * Validate the time a one-off campaign is scheduled for
+ * `scheduledFor` is either a wall-clock "YYYY-MM-DDTHH:mm" in `timezone`, or an ISO timestamp with
+ * an offset. The timezone is kept on the campaign so the schedule is shown the way it was entered.
+ */
+export function parseCampaignSchedule(
+  scheduledFor: unknown,
+  timezone: unknown,
+  now = new Date()
+): { scheduledFor: Date | null; timezone: string | null; error?: string } {
+  const zone = typeof timezone === 'string' && timezone.trim() ? timezone.trim() : null;
+
+  if (zone && !isValidTimezone(zone)) {
+    return { scheduledFor: null, timezone: null, error: `Unknown timezone "${zone}"` };
+  }
+
+  if (typeof scheduledFor !== 'string' || !scheduledFor.trim()) {
+    return { scheduledFor: null, timezone: zone, error: 'Scheduled time is required' };
+  }
+
+  const value = scheduledFor.trim();
+  const hasOffset = /(Z|[+-]\d{2}:?\d{2})$/i.test(value);
+
+  // A wall-clock time without a zone would otherwise be read in the server's timezone
+  if (!hasOffset && !zone) {
+    return { scheduledFor: null, timezone: null, error: 'A timezone is required for a scheduled time without an offset' };
+  }
+
+  const date = hasOffset ? new Date(value) : zonedTimeToDate(value, zone!);
+
+  if (!date || isNaN(date.getTime())) {
+    return { scheduledFor: null, timezone: zone, error: `Invalid scheduled time "${value}"` };
+  }
+
+  if (date <= now) {
+    return { scheduledFor: null, timezone: zone, error: 'Scheduled time must be in the future' };
+  }
+
+  return { scheduledFor: date, timezone: zone };
+}
+
+/**
+ * Spawn the campaign for one occurrence of a schedule
+ * Group membership is resolved now, so contacts added since the last run are included
+ */
+async function spawnScheduledCampaign(
+  schedule: CampaignSchedule & { targetGroups: { groupId: string }[] },
+  occurrence: Date
+): Promise<string> {
+  const groupIds = schedule.targetGroups.map(group => group.groupId);
+  const [recipients, templateAttachments] = await Promise.all([
+    getGroupRecipients(schedule.userId, groupIds),
+    prisma.templateAttachment.findMany({
+      where: { templateId: schedule.templateId },
+      select: { attachmentId: true },
+    }),
+  ]);
+
+  if (recipients.length === 0) {
+    throw new Error('Target groups contain no contacts');
+  }
+
+  const sendingProfile = isSendingProfileName(schedule.sendingProfile) && schedule.sendingProfile !== 'custom'
+    ? schedule.sendingProfile
+    : DEFAULT_SENDING_PROFILE;
+  const { batchSize, messageDelayMs, maxPerMinute, concurrency } = resolveSendingProfile(sendingProfile);
+
+  const occurrenceLabel = new Intl.DateTimeFormat('en-US', {
+    timeZone: schedule.timezone,
+    dateStyle: 'medium',
+    timeStyle: 'short',
+  }).format(occurrence);
+
+  // Starts as a draft so no worker picks it up before its recipients exist
+  const campaign = await prisma.campaign.create({
+    data: {
+      name: `${schedule.name} (${occurrenceLabel})`,
+      status: 'draft',
+      templateId: schedule.templateId,
+      smtpConfigId: schedule.smtpConfigId,
+      parameterValues: (schedule.parameterValues ?? {}) as Prisma.JsonObject,
+      userId: schedule.userId,
+      batchSize,
+      sendingProfile,
+      messageDelayMs,
+      maxPerMinute,
+      concurrency,
+      scheduleId: schedule.id,
+      scheduledRunAt: occurrence,
+      targetGroups: {
+        createMany: {
+          data: groupIds.map(groupId => ({ groupId })),
+        },
+      },
+      attachments: {
+        createMany: {
+          data: templateAttachments,
+        },
+      },
+    },
+  });
+
+  try {
+    await addCampaignRecipients(campaign.id, schedule.userId, recipients);
+  } catch (error) {
+    // The occurrence is retried, so don't leave a half-filled draft behind
+    await prisma.campaign.delete({ where: { id: campaign.id } }).catch(() => undefined);
+    throw error;
+  }
+
+  await startCampaignProcessing(campaign.id);
+
+  return campaign.id;
+}
+
+/**
+ * Spawn campaigns for every active schedule whose next occurrence is due
+ * Occurrences missed while the cron was down are not backfilled; only one run happens per schedule.
+ * An occurrence that fails to spawn stays due and is retried on the next run.
+ */
+export async function processDueSchedules(now = new Date()): Promise<ScheduleRunResult[]> {
+  const schedules = await prisma.campaignSchedule.findMany({
+    where: {
+      isActive: true,
+      nextRunAt: { lte: now },
+      // A halted user's occurrence stays due and spawns once they resume
+      user: { sendingHaltedAt: null },
+    },
+    include: {
+      targetGroups: { select: { groupId: true } },
+    },
+  });
+
+  if (schedules.length > 0) {
+    console.log(`Found ${schedules.length} recurring schedules due to run`);
+  }
+
+  const results: ScheduleRunResult[] = [];
+
+  for (const schedule of schedules) {
+    const occurrence = schedule.nextRunAt!;
+    const nextRunAt = getScheduleNextRunAt(schedule, now);
+
+    // Claim the occurrence so overlapping cron runs can't spawn it twice
+    const { count } = await prisma.campaignSchedule.updateMany({
+      where: { id: schedule.id, nextRunAt: occurrence },
+      data: {
+        nextRunAt,
+        lastRunAt: now,
+      },
+    });
+
+    if (count === 0) {
+      continue;
+    }
+
+    try {
+      const campaignId = await spawnScheduledCampaign(schedule, occurrence);
+      console.log(`Schedule ${schedule.id} spawned campaign ${campaignId}`);
+
+      await prisma.campaignSchedule.update({
+        where: { id: schedule.id },
+        data: { lastError: null },
+      });
+
+      results.push({ scheduleId: schedule.id, campaignId, success: true });
+    } catch (error) {
+      console.error(`Error running schedule ${schedule.id}:`, error);
+      const message = error instanceof Error ? error.message : 'Unknown error';
+
+      // Hand the occurrence back so the next cron run tries it again, unless the schedule was edited meanwhile
+      const { count: released } = await prisma.campaignSchedule.updateMany({
+        where: { id: schedule.id, nextRunAt, lastRunAt: now },
+        data: { nextRunAt: occurrence, lastRunAt: schedule.lastRunAt, lastError: message },
+      });
+
+      if (released === 0) {
+        await prisma.campaignSchedule.update({
+          where: { id: schedule.id },
+          data: { lastError: message },
+        });
+      }
+
+      results.push({ scheduleId: schedule.id, success: false, error: message });
+    }
+  }
+
+  return results;
+}
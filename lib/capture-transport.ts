@@ -0,0 +1,92 @@
+// lib/capture-transport.ts
+import crypto from 'crypto';
+import { Prisma, SmtpConfig } from '@prisma/client';
+import { prisma } from './db';
+import type { MailMessage, MailTransport, SentMail } from './mail-transport';
+
+export interface CapturedAttachment {
+  filename: string;
+  contentType: string;
+  size: number;
+  // Base64 encoded
+  content: string;
+}
+
+/**
+ * Whether every config is forced into capture mode, e.g. on staging
+ * Set MAIL_CAPTURE=true so no email can reach a real inbox.
+ */
+export function isCaptureForced(): boolean {
+  return process.env.MAIL_CAPTURE === 'true';
+}
+
+/**
+ * Transport that stores each fully rendered email in the Outbox instead of sending it
+ * Tracking links and the open pixel are kept, so captured campaigns can be clicked through.
+ */
+export function createCaptureTransport(smtpConfig: Pick<SmtpConfig, 'id' | 'userId'>): MailTransport {
+  return {
+    async sendMail(message: MailMessage): Promise<SentMail> {
+      const domain = message.from.address.split('@')[1] || 'capture.local';
+      const messageId = `<${crypto.randomUUID()}@${domain}>`;
+      const from = message.from.name ? `"${message.from.name}" <${message.from.address}>` : message.from.address;
+
+      const attachments: CapturedAttachment[] = (message.attachments ?? []).map(attachment => ({
+        filename: attachment.filename,
+        contentType: attachment.contentType,
+        size: attachment.content.length,
+        content: attachment.content.toString('base64'),
+      }));
+
+      await prisma.capturedEmail.create({
+        data: {
+          messageId,
+          fromAddress: from,
+          toAddress: message.to,
+          cc: message.cc ?? [],
+          bcc: message.bcc ?? [],
+          replyTo: message.replyTo ?? [],
+          subject: message.subject,
+          html: message.html,
+          text: message.text ?? null,
+          headers: message.headers ?? {},
+          attachments: attachments as unknown as Prisma.InputJsonArray,
+          userId: smtpConfig.userId,
+          // Unsaved configs under test have no id
+          smtpConfigId: smtpConfig.id || null,
+        },
+      });
+
+      return {
+        messageId,
+        response: '250 Captured',
+        accepted: [message.to, ...(message.cc ?? []), ...(message.bcc ?? [])],
+        rejected: [],
+      };
+    },
+
+    async verify() {
+      // Nothing to connect to
+    },
+
+    close() {
+      // Nothing to close
+    },
+  };
+}
+
+/**
+ * Find the campaign each captured email was sent for, through its delivery log
+ */
+export async function getCampaignsByMessageId(messageIds: string[]): Promise<Map<string, { id: string; name: string }>> {
+  if (messageIds.length === 0) {
+    return new Map();
+  }
+
+  const logs = await prisma.emailLog.findMany({
+    where: { messageId: { in: messageIds } },
+    select: { messageId: true, campaign: { select: { id: true, name: true } } },
+  });
+
+  return new Map(logs.map(log => [log.messageId as string, log.campaign]));
+}
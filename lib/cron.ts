@@ -0,0 +1,243 @@
+// lib/cron.ts
+// 5-field cron expressions (minute hour day-of-month month day-of-week) evaluated in an IANA timezone
+
+interface CronFields {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // Standard cron: when both day fields are restricted, either one matching is enough
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+const FIELD_RANGES = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day of week', min: 0, max: 7 },
+];
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+// How far ahead to look before deciding an expression never fires (covers Feb 29)
+const SEARCH_LIMIT_MS = 5 * 366 * 24 * 60 * 60 * 1000;
+
+function parseValue(value: string, fieldIndex: number): number {
+  const lower = value.toLowerCase();
+
+  if (fieldIndex === 3 && MONTH_NAMES.includes(lower)) {
+    return MONTH_NAMES.indexOf(lower) + 1;
+  }
+
+  if (fieldIndex === 4 && DAY_NAMES.includes(lower)) {
+    return DAY_NAMES.indexOf(lower);
+  }
+
+  if (!/^\d+$/.test(value)) {
+    throw new Error(`Invalid ${FIELD_RANGES[fieldIndex].name} value "${value}"`);
+  }
+
+  return parseInt(value, 10);
+}
+
+function parseField(field: string, fieldIndex: number): Set<number> {
+  const { name, min, max } = FIELD_RANGES[fieldIndex];
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [range, stepStr] = part.split('/');
+    const step = stepStr === undefined ? 1 : (/^\d+$/.test(stepStr) ? parseInt(stepStr, 10) : 0);
+
+    if (step < 1) {
+      throw new Error(`Invalid ${name} step "${stepStr}"`);
+    }
+
+    let start: number;
+    let end: number;
+
+    if (range === '*') {
+      start = min;
+      end = max;
+    } else if (range.includes('-')) {
+      const [from, to] = range.split('-');
+      start = parseValue(from, fieldIndex);
+      end = parseValue(to, fieldIndex);
+    } else {
+      start = parseValue(range, fieldIndex);
+      // "5/15" means every 15 starting at 5
+      end = stepStr === undefined ? start : max;
+    }
+
+    if (start < min || end > max || start > end) {
+      throw new Error(`${name} "${range}" is outside ${min}-${max}`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      // Both 0 and 7 mean Sunday
+      values.add(fieldIndex === 4 && value === 7 ? 0 : value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parse a cron expression, throwing a readable error if it is invalid
+ */
+export function parseCronExpression(expression: string): CronFields {
+  const fields = expression.trim().split(/\s+/);
+
+  if (fields.length !== 5) {
+    throw new Error('Cron expression must have 5 fields: minute hour day-of-month month day-of-week');
+  }
+
+  return {
+    minutes: parseField(fields[0], 0),
+    hours: parseField(fields[1], 1),
+    daysOfMonth: parseField(fields[2], 2),
+    months: parseField(fields[3], 3),
+    daysOfWeek: parseField(fields[4], 4),
+    anyDayOfMonth: fields[2].startsWith('*'),
+    anyDayOfWeek: fields[4].startsWith('*'),
+  };
+}
+
+/**
+ * Check if a string is a usable IANA timezone
+ */
+export function isValidTimezone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Wall-clock time of an instant in a timezone, expressed as a UTC timestamp
+ */
+function toWallClock(instant: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+  }).formatToParts(new Date(instant));
+
+  const get = (type: string) => Number(parts.find(part => part.type === type)?.value);
+
+  return Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'));
+}
+
+/**
+ * Instant at which a timezone's clock shows the given wall-clock time
+ * Times skipped by a DST change move forward by the length of the gap (02:30 becomes 03:30)
+ */
+function fromWallClock(wall: number, timeZone: string): number {
+  const offsetAt = (instant: number) => toWallClock(instant, timeZone) - instant;
+  const guess = wall - offsetAt(wall);
+  const instant = wall - offsetAt(guess);
+
+  // In a DST gap the two estimates straddle the change; the later one is past it
+  return toWallClock(instant, timeZone) === wall ? instant : Math.max(guess, instant);
+}
+
+/**
+ * Instant a timezone's clock shows a "YYYY-MM-DDTHH:mm" time, as entered in a datetime-local input
+ * Returns null if the value isn't a valid date and time
+ */
+export function zonedTimeToDate(value: string, timeZone: string): Date | null {
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})(?::\d{2}(?:\.\d+)?)?$/);
+
+  if (!match) {
+    return null;
+  }
+
+  const [year, month, day, hour, minute] = match.slice(1).map(Number);
+  const wall = Date.UTC(year, month - 1, day, hour, minute);
+
+  // Reject values that roll over, like February 30th or 24:00
+  const check = new Date(wall);
+  if (check.getUTCMonth() !== month - 1 || check.getUTCDate() !== day || hour > 23 || minute > 59) {
+    return null;
+  }
+
+  return new Date(fromWallClock(wall, timeZone));
+}
+
+/**
+ * Wall-clock "YYYY-MM-DDTHH:mm" of an instant in a timezone, for datetime-local inputs
+ */
+export function dateToZonedTime(date: Date, timeZone: string): string {
+  return new Date(toWallClock(date.getTime(), timeZone)).toISOString().slice(0, 16);
+}
+
+function matchesDay(fields: CronFields, date: Date): boolean {
+  const dayOfMonth = fields.daysOfMonth.has(date.getUTCDate());
+  const dayOfWeek = fields.daysOfWeek.has(date.getUTCDay());
+
+  if (fields.anyDayOfMonth || fields.anyDayOfWeek) {
+    return dayOfMonth && dayOfWeek;
+  }
+
+  return dayOfMonth || dayOfWeek;
+}
+
+/**
+ * Get the first occurrence of a cron expression strictly after `after`
+ * Returns null if the expression never fires (e.g. "0 0 31 2 *")
+ */
+export function getNextCronOccurrence(expression: string, timeZone: string, after: Date): Date | null {
+  const fields = parseCronExpression(expression);
+
+  // Walk the timezone's wall clock, skipping whole months, days and hours that can't match
+  const afterWall = toWallClock(after.getTime(), timeZone);
+  const limit = afterWall + SEARCH_LIMIT_MS;
+  let wall = afterWall + 60 * 1000;
+
+  while (wall <= limit) {
+    const date = new Date(wall);
+    const year = date.getUTCFullYear();
+    const month = date.getUTCMonth();
+    const day = date.getUTCDate();
+    const hour = date.getUTCHours();
+
+    if (!fields.months.has(month + 1)) {
+      wall = Date.UTC(year, month + 1, 1);
+      continue;
+    }
+
+    if (!matchesDay(fields, date)) {
+      wall = Date.UTC(year, month, day + 1);
+      continue;
+    }
+
+    if (!fields.hours.has(hour)) {
+      wall = Date.UTC(year, month, day, hour + 1);
+      continue;
+    }
+
+    if (!fields.minutes.has(date.getUTCMinutes())) {
+      wall += 60 * 1000;
+      continue;
+    }
+
+    // A repeated hour when clocks go back can map to an instant we've already passed
+    const instant = fromWallClock(wall, timeZone);
+    if (instant > after.getTime()) {
+      return new Date(instant);
+    }
+
+    wall += 60 * 1000;
+  }
+
+  return null;
+}
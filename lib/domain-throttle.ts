@@ -0,0 +1,217 @@
+// lib/domain-throttle.ts
+import { Resolver } from 'dns/promises';
+import { prisma } from './db';
+import { refundToken, takeToken } from './rate-limit';
+
+export interface DomainLimit {
+  // Sends per minute to this provider across the user's campaigns; null means no cap
+  perMinute: number | null;
+  // Emails to this provider sent in parallel within a batch
+  concurrency: number;
+}
+
+export interface RecipientDomain {
+  domain: string;
+  // Provider family (gmail, outlook, yahoo) or the domain itself for everything else
+  throttleKey: string;
+}
+
+// Conservative defaults that stay under the big providers' 421 thresholds for a new sender
+const DEFAULT_DOMAIN_LIMITS: Record<string, DomainLimit> = {
+  default: { perMinute: null, concurrency: 5 },
+  gmail: { perMinute: 60, concurrency: 2 },
+  outlook: { perMinute: 30, concurrency: 2 },
+  yahoo: { perMinute: 20, concurrency: 1 },
+};
+
+// Consumer domains we can place without a DNS lookup
+const PROVIDER_DOMAINS: Record<string, string> = {
+  'gmail.com': 'gmail',
+  'googlemail.com': 'gmail',
+  'outlook.com': 'outlook',
+  'hotmail.com': 'outlook',
+  'hotmail.co.uk': 'outlook',
+  'live.com': 'outlook',
+  'msn.com': 'outlook',
+  'yahoo.com': 'yahoo',
+  'yahoo.co.id': 'yahoo',
+  'ymail.com': 'yahoo',
+  'rocketmail.com': 'yahoo',
+  'aol.com': 'yahoo',
+};
+
+// Hosted domains (Google Workspace, Microsoft 365, ...) are recognised by their MX hosts
+const PROVIDER_MX_PATTERNS: Array<[RegExp, string]> = [
+  [/(^|\.)(google|googlemail)\.com$/, 'gmail'],
+  [/(^|\.)(outlook|hotmail)\.com$/, 'outlook'],
+  [/(^|\.)(yahoodns\.net|yahoo\.com)$/, 'yahoo'],
+];
+
+const MX_CACHE_TTL_MS = 60 * 60 * 1000;
+
+const mxCache = new Map<string, { throttleKey: string; expiresAt: number }>();
+
+const resolver = new Resolver({ timeout: 3000, tries: 1 });
+
+let configuredLimits: Record<string, Partial<DomainLimit>> | null = null;
+
+/**
+ * Read per-provider overrides from DOMAIN_THROTTLE_LIMITS, e.g.
+ * {"gmail":{"perMinute":120},"example.com":{"perMinute":10,"concurrency":1}}
+ */
+function getConfiguredLimits(): Record<string, Partial<DomainLimit>> {
+  if (configuredLimits) {
+    return configuredLimits;
+  }
+
+  configuredLimits = {};
+
+  if (process.env.DOMAIN_THROTTLE_LIMITS) {
+    try {
+      configuredLimits = JSON.parse(process.env.DOMAIN_THROTTLE_LIMITS);
+    } catch (error) {
+      console.error('Invalid DOMAIN_THROTTLE_LIMITS, using defaults:', error);
+    }
+  }
+
+  return configuredLimits!;
+}
+
+/**
+ * Get the rate limit and concurrency cap for a throttle key
+ */
+export function getDomainLimit(throttleKey: string): DomainLimit {
+  const configured = getConfiguredLimits();
+  const limit = {
+    ...DEFAULT_DOMAIN_LIMITS.default,
+    ...configured.default,
+    ...DEFAULT_DOMAIN_LIMITS[throttleKey],
+    ...configured[throttleKey],
+  };
+
+  return {
+    perMinute: limit.perMinute && limit.perMinute > 0 ? limit.perMinute : null,
+    concurrency: Math.max(Math.round(limit.concurrency) || 1, 1),
+  };
+}
+
+/**
+ * Work out which provider a domain's mail goes to
+ */
+async function resolveThrottleKey(domain: string): Promise<string> {
+  if (PROVIDER_DOMAINS[domain]) {
+    return PROVIDER_DOMAINS[domain];
+  }
+
+  const cached = mxCache.get(domain);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.throttleKey;
+  }
+
+  let throttleKey = domain;
+
+  try {
+    const records = await resolver.resolveMx(domain);
+    const hosts = records.map(record => record.exchange.toLowerCase().replace(/\.$/, ''));
+    const match = PROVIDER_MX_PATTERNS.find(([pattern]) => hosts.some(host => pattern.test(host)));
+
+    if (match) {
+      throttleKey = match[1];
+    }
+  } catch {
+    // No MX or DNS trouble: throttle the domain on its own
+  }
+
+  mxCache.set(domain, { throttleKey, expiresAt: Date.now() + MX_CACHE_TTL_MS });
+
+  return throttleKey;
+}
+
+/**
+ * Resolve the throttle key for each email address, looking up every domain once
+ */
+export async function resolveRecipientDomains(emails: string[]): Promise<Map<string, RecipientDomain>> {
+  const domains = new Set(emails.map(email => email.split('@').pop()!.toLowerCase()));
+  const throttleKeys = new Map<string, string>();
+
+  await Promise.all([...domains].map(async domain => {
+    throttleKeys.set(domain, await resolveThrottleKey(domain));
+  }));
+
+  return new Map(emails.map(email => {
+    const domain = email.split('@').pop()!.toLowerCase();
+    return [email, { domain, throttleKey: throttleKeys.get(domain)! }];
+  }));
+}
+
+/**
+ * Reorder items so consecutive sends go to different providers
+ * Order within each provider is kept
+ */
+export function interleaveByDomain<T>(items: T[], getThrottleKey: (item: T) => string): T[] {
+  const groups = new Map<string, T[]>();
+
+  for (const item of items) {
+    const key = getThrottleKey(item);
+    groups.set(key, [...(groups.get(key) ?? []), item]);
+  }
+
+  const queues = [...groups.values()];
+  const interleaved: T[] = [];
+
+  for (let round = 0; interleaved.length < items.length; round++) {
+    for (const queue of queues) {
+      if (round < queue.length) {
+        interleaved.push(queue[round]);
+      }
+    }
+  }
+
+  return interleaved;
+}
+
+/**
+ * Take a send slot for a provider, honouring any cooldown after a 421
+ */
+export async function acquireDomainSendSlot(
+  userId: string,
+  throttleKey: string
+): Promise<{ allowed: boolean; retryAfterMs: number }> {
+  // Shared through the database so every instance backs off, not just the one that got the 421
+  const cooldown = await prisma.domainCooldown.findUnique({ where: { key: `${userId}:${throttleKey}` } });
+
+  if (cooldown && cooldown.until.getTime() > Date.now()) {
+    return { allowed: false, retryAfterMs: cooldown.until.getTime() - Date.now() };
+  }
+
+  const { perMinute } = getDomainLimit(throttleKey);
+
+  if (!perMinute) {
+    return { allowed: true, retryAfterMs: 0 };
+  }
+
+  return takeToken(`domain:${userId}:${throttleKey}:minute`, perMinute, 60 * 1000);
+}
+
+/**
+ * Give back a provider send slot that was taken but not used
+ */
+export async function releaseDomainSendSlot(userId: string, throttleKey: string): Promise<void> {
+  const { perMinute } = getDomainLimit(throttleKey);
+
+  if (perMinute) {
+    await refundToken(`domain:${userId}:${throttleKey}:minute`, perMinute);
+  }
+}
+
+/**
+ * Stop sending to a provider until the given time after it throttled us
+ */
+export async function coolDownDomain(userId: string, throttleKey: string, until: Date): Promise<void> {
+  // Never shortens a cooldown another send already set
+  await prisma.$executeRaw`
+    INSERT INTO "DomainCooldown" ("key", "until")
+    VALUES (${`${userId}:${throttleKey}`}, ${until})
+    ON CONFLICT ("key") DO UPDATE
+    SET "until" = GREATEST("DomainCooldown"."until", EXCLUDED."until")`;
+}
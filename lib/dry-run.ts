@@ -0,0 +1,190 @@
+// lib/dry-run.ts
+import { Recipient } from '@prisma/client';
+import { prisma } from './db';
+import { buildRecipientParams, renderPlainText, replaceTemplateParams, validateEmail } from './email';
+import { getSuppressedEmails, normalizeSuppressedEmail } from './suppression';
+import { getUnsubscribeUrl } from './unsubscribe';
+import { applyVariant } from './ab-test';
+import { getMessageOptionsContent, resolveMessageOptions } from './message-options';
+
+export const DRY_RUN_ISSUE_TYPES = [
+  'missing_parameter',
+  'empty_field',
+  'invalid_email',
+  'suppressed',
+  'duplicate',
+  'oversized',
+] as const;
+
+export type DryRunIssueType = typeof DRY_RUN_ISSUE_TYPES[number];
+
+export interface DryRunIssue {
+  recipientId: string;
+  email: string;
+  type: DryRunIssueType;
+  message: string;
+}
+
+export interface DryRunSample {
+  recipientId: string;
+  email: string;
+  subject: string;
+  html: string;
+  sizeBytes: number;
+}
+
+export interface DryRunReport {
+  campaignId: string;
+  checkedAt: string;
+  totalRecipients: number;
+  readyCount: number;
+  issueCounts: Record<DryRunIssueType, number>;
+  // Capped at MAX_REPORTED_ISSUES; issueCounts has the full totals
+  issues: DryRunIssue[];
+  size: {
+    averageBytes: number;
+    maxBytes: number;
+  };
+  samples: DryRunSample[];
+}
+
+// Gmail clips messages whose HTML is larger than this
+const CLIPPED_SIZE_BYTES = 102 * 1024;
+
+const RECIPIENT_PAGE_SIZE = 1000;
+const MAX_REPORTED_ISSUES = 500;
+const SAMPLE_COUNT = 10;
+
+const PLACEHOLDER_REGEX = /{{\s*([\w.-]+)\s*}}/g;
+
+/**
+ * Get the parameter names a template string refers to
+ */
+function getPlaceholders(content: string): string[] {
+  return Array.from(new Set(Array.from(content.matchAll(PLACEHOLDER_REGEX), match => match[1])));
+}
+
+/**
+ * Render every recipient of a campaign the way the queue would, without sending anything
+ * Reports recipients that would fail or render badly, plus a few rendered samples
+ */
+export async function runCampaignDryRun(campaignId: string, userId: string): Promise<DryRunReport | null> {
+  const campaign = await prisma.campaign.findFirst({
+    where: { id: campaignId, userId },
+    include: {
+      template: true,
+      variants: { include: { template: true } },
+    },
+  });
+
+  if (!campaign) {
+    return null;
+  }
+
+  const issueCounts = Object.fromEntries(DRY_RUN_ISSUE_TYPES.map(type => [type, 0])) as Record<DryRunIssueType, number>;
+  const issues: DryRunIssue[] = [];
+  const samples: DryRunSample[] = [];
+  const seenEmails = new Set<string>();
+
+  let totalRecipients = 0;
+  let readyCount = 0;
+  let totalBytes = 0;
+  let maxBytes = 0;
+  let issueTotal = 0;
+  let cursor: string | undefined;
+
+  const report = (recipient: Recipient, type: DryRunIssueType, message: string) => {
+    issueCounts[type]++;
+    issueTotal++;
+    if (issues.length < MAX_REPORTED_ISSUES) {
+      issues.push({ recipientId: recipient.id, email: recipient.email, type, message });
+    }
+  };
+
+  for (;;) {
+    const recipients = await prisma.recipient.findMany({
+      where: { campaignId },
+      orderBy: { id: 'asc' },
+      take: RECIPIENT_PAGE_SIZE,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+    });
+
+    if (recipients.length === 0) {
+      break;
+    }
+
+    cursor = recipients[recipients.length - 1].id;
+
+    const suppressedEmails = await getSuppressedEmails(userId, recipients.map(recipient => recipient.email));
+
+    for (const recipient of recipients) {
+      totalRecipients++;
+      const issueTotalBefore = issueTotal;
+      const normalizedEmail = normalizeSuppressedEmail(recipient.email);
+
+      if (!normalizedEmail) {
+        report(recipient, 'empty_field', 'Email address is empty');
+      } else if (!validateEmail(recipient.email.trim())) {
+        report(recipient, 'invalid_email', `"${recipient.email}" is not a valid email address`);
+      }
+
+      if (normalizedEmail && seenEmails.has(normalizedEmail)) {
+        report(recipient, 'duplicate', 'Address appears more than once in this campaign');
+      }
+      seenEmails.add(normalizedEmail);
+
+      const suppressionReason = suppressedEmails.get(normalizedEmail);
+      if (suppressionReason) {
+        report(recipient, 'suppressed', `Address is suppressed (${suppressionReason})`);
+      }
+
+      const { template } = applyVariant(campaign, recipient);
+      const params = buildRecipientParams(recipient, campaign.parameterValues, getUnsubscribeUrl(recipient.id));
+
+      const messageOptions = getMessageOptionsContent(resolveMessageOptions(template, campaign));
+
+      for (const key of getPlaceholders(`${template.subject}\n${template.htmlContent}\n${template.textContent ?? ''}\n${messageOptions}`)) {
+        if (params[key] === undefined || params[key] === null) {
+          report(recipient, 'missing_parameter', `No value for {{${key}}}`);
+        } else if (String(params[key]).trim() === '') {
+          report(recipient, 'empty_field', `{{${key}}} is empty`);
+        }
+      }
+
+      const subject = replaceTemplateParams(template.subject, params);
+      const html = replaceTemplateParams(template.htmlContent, params);
+      const text = renderPlainText(template.textContent, html, params);
+      const sizeBytes = Buffer.byteLength(subject) + Buffer.byteLength(html) + Buffer.byteLength(text);
+
+      totalBytes += sizeBytes;
+      maxBytes = Math.max(maxBytes, sizeBytes);
+
+      const htmlBytes = Buffer.byteLength(html);
+      if (htmlBytes > CLIPPED_SIZE_BYTES) {
+        report(recipient, 'oversized', `Rendered HTML is ${Math.round(htmlBytes / 1024)} KB; Gmail clips anything over 102 KB`);
+      }
+
+      if (samples.length < SAMPLE_COUNT) {
+        samples.push({ recipientId: recipient.id, email: recipient.email, subject, html, sizeBytes });
+      }
+
+      if (issueTotal === issueTotalBefore) {
+        readyCount++;
+      }
+    }
+  }
+
+  return {
+    campaignId,
+    checkedAt: new Date().toISOString(),
+    totalRecipients,
+    readyCount,
+    issueCounts,
+    issues,
+    size: {
+      averageBytes: totalRecipients > 0 ? Math.round(totalBytes / totalRecipients) : 0,
+      maxBytes,
+    },
+    samples,
+  };
+}
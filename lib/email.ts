@@ -1,7 +1,9 @@
 // lib/email.ts
 import { SmtpConfig } from '@prisma/client';
 import * as XLSX from 'xlsx';
-import nodemailer from 'nodemailer';
+import { waitForSmtpSendSlot } from './rate-limit';
+import { htmlToText } from './html-to-text';
+import { createMailTransport, MailTransport } from './mail-transport';
 // Simplified approach to suppress the punycode deprecation warning
 // This avoids dealing with the complex types of process.emitWarning
 if (typeof process !== 'undefined') {
@@ -40,30 +42,103 @@ export function sanitizeEmail(email: string): string {
   return email.replace(/[^\x00-\x7F]/g, '');
 }
 
-export async function createSmtpTransport(smtpConfig: SmtpConfig) {
-  const transporter = nodemailer.createTransport({
-    host: smtpConfig.host,
-    port: smtpConfig.port,
-    secure: smtpConfig.secure,
-    auth: {
-      user: smtpConfig.username,
-      pass: smtpConfig.password,
-    },
-    // Increase timeout for slow SMTP servers
-    connectionTimeout: 10000,
-    // Logger for debugging
-    ...(process.env.NODE_ENV === 'development' ? {
-      debug: true,
-      logger: true,
-    } : {}),
-  });
+/**
+ * Build a one-off transport for a sender config and check it can connect
+ */
+export async function createSmtpTransport(smtpConfig: SmtpConfig): Promise<MailTransport> {
+  const transporter = createMailTransport(smtpConfig);
   
   // Verify connection configuration
   await transporter.verify();
   
   return transporter;
 }
+
+// Pooled transports are kept per SMTP config and rebuilt whenever its connection settings change
+interface CachedTransport {
+  version: string;
+  transporter: MailTransport;
+  ready: Promise<void>;
+}
+
+const globalForTransports = global as unknown as { smtpTransports?: Map<string, CachedTransport> };
+
+const transportCache = globalForTransports.smtpTransports ?? new Map<string, CachedTransport>();
+
+if (process.env.NODE_ENV !== 'production') globalForTransports.smtpTransports = transportCache;
+
+/**
+ * Get a pooled transport for a saved SMTP config, verifying the connection only
+ * when the transport is first built
+ */
+export async function getSmtpTransport(smtpConfig: SmtpConfig): Promise<MailTransport> {
+  // Usage counters also touch updatedAt, so key on the connection settings instead
+  const version = [
+    smtpConfig.transportType,
+    smtpConfig.host,
+    smtpConfig.port,
+    smtpConfig.secure,
+    smtpConfig.username,
+    smtpConfig.password,
+    smtpConfig.apiKey,
+  ].join('|');
+  const cached = transportCache.get(smtpConfig.id);
+  
+  if (cached && cached.version === version) {
+    await cached.ready;
+    return cached.transporter;
+  }
+  
+  // Connection settings were edited since the transport was built
+  if (cached) {
+    invalidateSmtpTransport(smtpConfig.id);
+  }
+  
+  const transporter = createMailTransport(smtpConfig, { pool: true });
+  
+  const entry: CachedTransport = {
+    version,
+    transporter,
+    ready: transporter.verify(),
+  };
+  transportCache.set(smtpConfig.id, entry);
+  
+  try {
+    await entry.ready;
+  } catch (error) {
+    // Don't keep a transport that never connected
+    if (transportCache.get(smtpConfig.id) === entry) {
+      invalidateSmtpTransport(smtpConfig.id);
+    }
+    throw error;
+  }
+  
+  return transporter;
+}
+
+/**
+ * Close and forget the pooled transport for an SMTP config
+ */
+export function invalidateSmtpTransport(smtpConfigId: string): void {
+  const cached = transportCache.get(smtpConfigId);
+  
+  if (cached) {
+    transportCache.delete(smtpConfigId);
+    cached.transporter.close();
+  }
+}
+
+// Wait for room under the config's rate limits, failing only if the wait is unreasonable
+async function ensureSendSlot(smtpConfig: SmtpConfig) {
+  const slot = await waitForSmtpSendSlot(smtpConfig, 60000);
+  
+  if (!slot.allowed) {
+    throw new Error(`SMTP rate limit reached, try again in ${Math.ceil(slot.retryAfterMs / 1000)} seconds`);
+  }
+}
+
 export async function sendTestEmail(config: SmtpConfig) {
+  await ensureSendSlot(config);
   const transporter = await createSmtpTransport(config);
   
   // Sanitize fromEmail to avoid punycode issues
@@ -72,7 +147,7 @@ export async function sendTestEmail(config: SmtpConfig) {
   const sanitizedFromName = config.fromName ?? sanitizedFromEmail;
   
   const info = await transporter.sendMail({
-    from: `"${sanitizedFromName}" <${sanitizedFromEmail}>`,
+    from: { name: sanitizedFromName, address: sanitizedFromEmail },
     to: sanitizedFromEmail,
     subject: "SMTP Test",
     text: "This is a test email to verify SMTP configuration.",
@@ -215,12 +290,56 @@ export function replaceTemplateParams(template: string, params: Record<string, s
   return result;
 }
 
+/**
+ * Build the template parameters for one campaign recipient
+ * Recipient metadata wins; the campaign's default values only fill in blanks
+ */
+export function buildRecipientParams(
+  recipient: { email: string; name: string | null; metadata: unknown },
+  defaultParams: unknown,
+  unsubscribeUrl: string
+): Record<string, string> {
+  const metadata = recipient.metadata as Record<string, string> || {};
+  
+  const recipientParams: Record<string, string> = {
+    email: recipient.email,
+    name: recipient.name ?? recipient.email,
+    ...metadata,
+    unsubscribe_url: unsubscribeUrl,
+  };
+  
+  if (defaultParams) {
+    Object.entries(defaultParams as Record<string, unknown>).forEach(([key, value]) => {
+      if (!recipientParams[key] && typeof value === 'string') {
+        recipientParams[key] = value;
+      }
+    });
+  }
+  
+  return recipientParams;
+}
+
+/**
+ * Build the plain-text alternative for a personalized email
+ * Uses the template's own text version when it has one, otherwise converts the HTML
+ */
+export function renderPlainText(
+  textContent: string | null | undefined,
+  personalizedHtml: string,
+  params: Record<string, string>
+): string {
+  return textContent?.trim()
+    ? replaceTemplateParams(textContent, params)
+    : htmlToText(personalizedHtml);
+}
+
 export async function sendCampaignEmail(
   smtpConfig: SmtpConfig, 
   subject: string, 
   htmlContent: string, 
   recipient: RecipientData
 ) {
+  await ensureSendSlot(smtpConfig);
   const transporter = await createSmtpTransport(smtpConfig);
   
   // Sanitize email addresses to avoid punycode issues
@@ -247,9 +366,10 @@ export async function sendCampaignEmail(
   );
   
   const info = await transporter.sendMail({
-    from: `"${smtpConfig.fromName}" <${sanitizedFromEmail}>`,
+    from: { name: smtpConfig.fromName, address: sanitizedFromEmail },
     to: sanitizedToEmail,
     subject: personalizedSubject,
+    text: htmlToText(personalizedHtml),
     html: personalizedHtml,
   });
   
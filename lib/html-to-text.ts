@@ -0,0 +1,141 @@
+// lib/html-to-text.ts
+
+// Lines longer than this are wrapped, as many text clients don't
+const LINE_WIDTH = 78;
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  copy: '©',
+  reg: '®',
+  trade: '™',
+  hellip: '…',
+  mdash: '—',
+  ndash: '–',
+  lsquo: '‘',
+  rsquo: '’',
+  ldquo: '“',
+  rdquo: '”',
+  bull: '•',
+  euro: '€',
+};
+
+/**
+ * Decode the HTML entities that commonly appear in email templates
+ */
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      // fromCodePoint throws outside the Unicode range (&#99999999;); NUL becomes U+FFFD as in browsers
+      if (!Number.isFinite(code) || code < 0 || code > 0x10ffff) {
+        return match;
+      }
+      return code === 0 ? '\ufffd' : String.fromCodePoint(code);
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+/**
+ * Wrap a paragraph at word boundaries; words longer than the line (URLs) are left whole
+ */
+function wrapLine(line: string, indent = ''): string {
+  if (line.length <= LINE_WIDTH) {
+    return line;
+  }
+
+  const lines: string[] = [];
+  let current = '';
+
+  for (const word of line.split(' ')) {
+    if (current && current.length + word.length + 1 > LINE_WIDTH) {
+      lines.push(current);
+      current = indent + word;
+    } else {
+      current = current ? `${current} ${word}` : word;
+    }
+  }
+
+  lines.push(current);
+  return lines.join('\n');
+}
+
+/**
+ * Convert email HTML into a readable plain-text alternative
+ * Links become numbered footnotes, headings are underlined, list items get bullets or
+ * numbers, and block elements and <br> become line breaks.
+ */
+export function htmlToText(html: string): string {
+  const links: string[] = [];
+
+  let text = html
+    // Content that should never appear in the text part
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<(head|style|script|title)\b[^>]*>[\s\S]*?<\/\1>/gi, '')
+    // Source whitespace is not significant in HTML
+    .replace(/\s+/g, ' ');
+
+  // Images only contribute their alt text
+  text = text.replace(/<img\b[^>]*?alt=["']([^"']*)["'][^>]*>/gi, (_, alt: string) => alt ? `[${alt}]` : '');
+
+  // Links become footnotes, unless the text already is the URL
+  text = text.replace(/<a\b[^>]*?href=["']([^"']*)["'][^>]*>([\s\S]*?)<\/a>/gi, (_, href: string, content: string) => {
+    const label = content.replace(/<[^>]*>/g, '').trim();
+    const url = decodeEntities(href.trim());
+
+    if (!url || url.startsWith('#') || url.toLowerCase().startsWith('javascript:')) {
+      return label;
+    }
+
+    const target = url.replace(/^mailto:/i, '');
+    if (!label || decodeEntities(label) === target) {
+      return target;
+    }
+
+    const index = links.indexOf(url) + 1 || links.push(url);
+    return `${label} [${index}]`;
+  });
+
+  // Headings stand on their own, underlined
+  text = text.replace(/<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1>/gi, (_, level: string, content: string) => {
+    const heading = decodeEntities(content.replace(/<[^>]*>/g, '')).trim();
+    const underline = (level === '1' ? '=' : '-').repeat(Math.min(heading.length, LINE_WIDTH));
+    return heading ? `\n\n${heading}\n${underline}\n\n` : '';
+  });
+
+  // Number ordered list items; unordered ones get bullets
+  text = text.replace(/<ol\b[^>]*>([\s\S]*?)<\/ol>/gi, (_, content: string) => {
+    let index = 0;
+    return `\n${content.replace(/<li\b[^>]*>/gi, () => `\n${++index}. `)}\n`;
+  });
+  text = text
+    .replace(/<li\b[^>]*>/gi, '\n* ')
+    .replace(/<\/(ul|ol)>/gi, '\n')
+    .replace(/<hr\b[^>]*>/gi, `\n${'-'.repeat(20)}\n`)
+    .replace(/<br\b[^>]*>/gi, '\n')
+    .replace(/<\/?(p|div|table|tr|blockquote|section|article|header|footer|ul|center)\b[^>]*>/gi, '\n\n')
+    .replace(/<\/t[dh]>/gi, ' ')
+    .replace(/<[^>]*>/g, '');
+
+  text = decodeEntities(text);
+
+  const body = text
+    .split('\n')
+    .map(line => line.replace(/[ \t ]+/g, ' ').trim())
+    .map(line => wrapLine(line, /^(\*|\d+\.) /.test(line) ? '  ' : ''))
+    .join('\n')
+    // At most one blank line in a row
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+  if (links.length === 0) {
+    return body;
+  }
+
+  return `${body}\n\n${links.map((url, i) => `[${i + 1}] ${url}`).join('\n')}`;
+}
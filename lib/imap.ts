@@ -0,0 +1,245 @@
+// lib/imap.ts
+import net from 'net';
+import tls from 'tls';
+
+/**
+ * Minimal IMAP4rev1 client for polling a bounce mailbox
+ * Supports just what bounce processing needs: login, select, UID search/fetch/store.
+ */
+
+export interface ImapConnectionOptions {
+  host: string;
+  port: number;
+  // TLS from the start (993); otherwise plain, upgraded with STARTTLS
+  secure: boolean;
+  // Log in over a plain connection when the server has no STARTTLS (local test servers only)
+  allowPlaintextLogin?: boolean;
+  username: string;
+  password: string;
+  timeoutMs?: number;
+}
+
+interface ImapResponse {
+  text: string;
+  literals: Buffer[];
+}
+
+interface PendingCommand {
+  tag: string;
+  untagged: ImapResponse[];
+  resolve: (untagged: ImapResponse[]) => void;
+  reject: (error: Error) => void;
+}
+
+export interface ImapConnection {
+  // UIDVALIDITY of the selected mailbox
+  select(mailbox: string): Promise<number>;
+  // UIDs above `afterUid`, ascending
+  searchUidsAfter(afterUid: number): Promise<number[]>;
+  fetchMessage(uid: number): Promise<Buffer | null>;
+  addFlags(uid: number, flags: string[]): Promise<void>;
+  logout(): Promise<void>;
+}
+
+const DEFAULT_TIMEOUT_MS = 30000;
+
+const CRLF = Buffer.from('\r\n');
+
+/**
+ * Quote a string argument, e.g. a password with spaces
+ */
+function quote(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+/**
+ * Open an authenticated connection
+ */
+export async function openImapConnection(options: ImapConnectionOptions): Promise<ImapConnection> {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+
+  let socket: net.Socket = options.secure
+    ? tls.connect({ host: options.host, port: options.port, servername: options.host })
+    : net.connect({ host: options.host, port: options.port });
+
+  let buffer = Buffer.alloc(0);
+  let partial: ImapResponse | null = null;
+  let tagCounter = 0;
+  let pending: PendingCommand | null = null;
+  let greeting: { resolve: () => void; reject: (error: Error) => void } | null = null;
+  let closedError: Error | null = null;
+
+  const fail = (error: Error) => {
+    closedError = closedError ?? error;
+    pending?.reject(error);
+    pending = null;
+    greeting?.reject(error);
+    greeting = null;
+  };
+
+  const handleResponse = (response: ImapResponse) => {
+    if (greeting && response.text.startsWith('* ')) {
+      const ok = /^\* (OK|PREAUTH)/i.test(response.text);
+      if (ok) {
+        greeting.resolve();
+      } else {
+        greeting.reject(new Error(`IMAP server refused connection: ${response.text}`));
+      }
+      greeting = null;
+      return;
+    }
+
+    if (!pending) {
+      return;
+    }
+
+    if (response.text.startsWith(`${pending.tag} `)) {
+      const command = pending;
+      pending = null;
+      const status = response.text.slice(command.tag.length + 1);
+
+      if (/^OK\b/i.test(status)) {
+        command.resolve(command.untagged);
+      } else {
+        command.reject(new Error(`IMAP command failed: ${status}`));
+      }
+    } else if (response.text.startsWith('* ')) {
+      pending.untagged.push(response);
+    }
+  };
+
+  // Split the stream into responses, reading {n} literals as raw bytes
+  const handleData = (chunk: Buffer) => {
+    buffer = Buffer.concat([buffer, chunk]);
+
+    for (;;) {
+      const lineEnd = buffer.indexOf(CRLF);
+      if (lineEnd === -1) {
+        return;
+      }
+
+      const line = buffer.subarray(0, lineEnd).toString('utf8');
+      const literalSize = line.match(/\{(\d+)\}$/);
+
+      if (literalSize) {
+        const size = Number(literalSize[1]);
+        const literalStart = lineEnd + CRLF.length;
+
+        if (buffer.length < literalStart + size) {
+          return;
+        }
+
+        partial = partial ?? { text: '', literals: [] };
+        partial.text += line;
+        partial.literals.push(Buffer.from(buffer.subarray(literalStart, literalStart + size)));
+        buffer = buffer.subarray(literalStart + size);
+        continue;
+      }
+
+      const response: ImapResponse = partial ?? { text: '', literals: [] };
+      response.text += line;
+      partial = null;
+      buffer = buffer.subarray(lineEnd + CRLF.length);
+      handleResponse(response);
+    }
+  };
+
+  const attach = (target: net.Socket) => {
+    target.setTimeout(timeoutMs);
+    target.on('data', handleData);
+    target.on('timeout', () => {
+      fail(new Error(`IMAP connection to ${options.host} timed out`));
+      target.destroy();
+    });
+    target.on('error', error => fail(error));
+    target.on('close', () => fail(new Error('IMAP connection closed')));
+  };
+
+  const command = (text: string): Promise<ImapResponse[]> => {
+    if (closedError) {
+      return Promise.reject(closedError);
+    }
+
+    return new Promise((resolve, reject) => {
+      const tag = `A${String(++tagCounter).padStart(3, '0')}`;
+      pending = { tag, untagged: [], resolve, reject };
+      socket.write(`${tag} ${text}\r\n`);
+    });
+  };
+
+  attach(socket);
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      greeting = { resolve, reject };
+    });
+
+    if (!options.secure) {
+      const capabilities = await command('CAPABILITY');
+      const startTls = capabilities.some(response => /\bSTARTTLS\b/i.test(response.text));
+
+      if (startTls) {
+        await command('STARTTLS');
+        socket.removeAllListeners();
+        buffer = Buffer.alloc(0);
+        socket = tls.connect({ socket, servername: options.host });
+        attach(socket);
+        await new Promise<void>((resolve, reject) => {
+          (socket as tls.TLSSocket).once('secureConnect', resolve);
+          socket.once('error', reject);
+        });
+      } else if (!options.allowPlaintextLogin) {
+        throw new Error(`IMAP server ${options.host} does not offer STARTTLS, refusing to send the password unencrypted`);
+      }
+    }
+
+    await command(`LOGIN ${quote(options.username)} ${quote(options.password)}`);
+  } catch (error) {
+    socket.destroy();
+    throw error;
+  }
+
+  return {
+    async select(mailbox) {
+      const untagged = await command(`SELECT ${quote(mailbox)}`);
+      const uidValidity = untagged
+        .map(response => response.text.match(/\[UIDVALIDITY (\d+)\]/i))
+        .find(Boolean);
+
+      return uidValidity ? Number(uidValidity[1]) : 0;
+    },
+
+    async searchUidsAfter(afterUid) {
+      const untagged = await command(`UID SEARCH UID ${afterUid + 1}:*`);
+
+      return untagged
+        .filter(response => /^\* SEARCH\b/i.test(response.text))
+        .flatMap(response => response.text.replace(/^\* SEARCH/i, '').trim().split(/\s+/))
+        .map(Number)
+        // `n:*` always matches the newest message, even when its UID is lower than n
+        .filter(uid => Number.isInteger(uid) && uid > afterUid)
+        .sort((a, b) => a - b);
+    },
+
+    async fetchMessage(uid) {
+      const untagged = await command(`UID FETCH ${uid} BODY.PEEK[]`);
+      const response = untagged.find(item => /FETCH/i.test(item.text) && item.literals.length > 0);
+
+      return response?.literals[0] ?? null;
+    },
+
+    async addFlags(uid, flags) {
+      await command(`UID STORE ${uid} +FLAGS.SILENT (${flags.join(' ')})`);
+    },
+
+    async logout() {
+      try {
+        await command('LOGOUT');
+      } catch {
+        // The server may close the socket before the tagged reply
+      } finally {
+        socket.destroy();
+      }
+    },
+  };
+}
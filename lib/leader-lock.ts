@@ -0,0 +1,66 @@
+// lib/leader-lock.ts
+import { PrismaClient } from '@prisma/client';
+
+export interface LeaderLock {
+  // True while this process holds the lock; takes it over when the holder is gone
+  acquire(): Promise<boolean>;
+  release(): Promise<void>;
+}
+
+/**
+ * Leader election through a Postgres session advisory lock
+ * The lock lives on a dedicated single connection, so it is released the moment the holder's
+ * process or connection dies. It goes through DIRECT_URL because a transaction-mode pooler
+ * (Supabase's pgbouncer) would hand the session to someone else between queries.
+ */
+export function createLeaderLock(name: string): LeaderLock {
+  const url = new URL(process.env.DIRECT_URL || process.env.DATABASE_URL || '');
+  url.searchParams.set('connection_limit', '1');
+
+  const client = new PrismaClient({ datasources: { db: { url: url.toString() } } });
+  const key = `brevo-email-app:${name}`;
+
+  // Backend of the session holding the lock; a reconnect gets a new one without the lock
+  let heldByPid: number | null = null;
+
+  return {
+    async acquire() {
+      try {
+        if (heldByPid !== null) {
+          const [{ pid }] = await client.$queryRaw<{ pid: number }[]>`SELECT pg_backend_pid() AS pid`;
+
+          if (pid === heldByPid) {
+            return true;
+          }
+
+          console.warn(`Lost the ${name} lock with its database session, trying to take it again`);
+          heldByPid = null;
+        }
+
+        const [{ locked, pid }] = await client.$queryRaw<{ locked: boolean; pid: number }[]>`
+          SELECT pg_try_advisory_lock(hashtext(${key})) AS locked, pg_backend_pid() AS pid
+        `;
+
+        heldByPid = locked ? pid : null;
+        return locked;
+      } catch (error) {
+        console.error(`Error acquiring the ${name} lock:`, error);
+        heldByPid = null;
+        return false;
+      }
+    },
+
+    async release() {
+      try {
+        if (heldByPid !== null) {
+          await client.$queryRaw`SELECT pg_advisory_unlock(hashtext(${key}))`;
+        }
+      } catch (error) {
+        console.error(`Error releasing the ${name} lock:`, error);
+      } finally {
+        heldByPid = null;
+        await client.$disconnect();
+      }
+    },
+  };
+}
@@ -0,0 +1,126 @@
+// lib/mail-transport.ts
+import { SmtpConfig } from '@prisma/client';
+import nodemailer from 'nodemailer';
+import SMTPTransport from 'nodemailer/lib/smtp-transport';
+import type { MailAttachment } from './attachments';
+import { createBrevoApiTransport } from './brevo-api';
+import { createCaptureTransport, isCaptureForced } from './capture-transport';
+import { applyRecipientAllowlist } from './recipient-allowlist';
+
+/**
+ * How a sender config delivers mail
+ * - smtp: nodemailer over SMTP with the config's host and credentials
+ * - brevo-api: Brevo's transactional HTTP API with the config's API key
+ * - capture: nothing is sent, emails are stored for the Outbox
+ */
+export const TRANSPORT_TYPES = ['smtp', 'brevo-api', 'capture'] as const;
+
+export type TransportType = typeof TRANSPORT_TYPES[number];
+
+export interface MailMessage {
+  from: { name: string; address: string };
+  to: string;
+  subject: string;
+  text?: string;
+  html: string;
+  replyTo?: string[];
+  cc?: string[];
+  bcc?: string[];
+  attachments?: MailAttachment[];
+  headers?: Record<string, string>;
+}
+
+export interface SentMail {
+  messageId: string;
+  // Server reply kept in the delivery log
+  response: string;
+  accepted: string[];
+  rejected: string[];
+}
+
+export interface MailTransport {
+  sendMail(message: MailMessage): Promise<SentMail>;
+  // Check the connection and credentials without sending anything
+  verify(): Promise<void>;
+  close(): void;
+}
+
+export function isTransportType(value: unknown): value is TransportType {
+  return TRANSPORT_TYPES.includes(value as TransportType);
+}
+
+/**
+ * Flatten nodemailer's accepted/rejected lists to plain addresses
+ */
+export function toAddressList(addresses: SMTPTransport.SentMessageInfo['accepted'] | undefined): string[] {
+  return (addresses ?? []).map(address => typeof address === 'string' ? address : address.address);
+}
+
+function createNodemailerTransport(smtpConfig: SmtpConfig, pool: boolean): MailTransport {
+  const transporter = nodemailer.createTransport({
+    ...(pool ? { pool: true, maxConnections: 3, maxMessages: 100 } : {}),
+    host: smtpConfig.host,
+    port: smtpConfig.port,
+    secure: smtpConfig.secure,
+    auth: {
+      user: smtpConfig.username,
+      pass: smtpConfig.password,
+    },
+    // Increase timeout for slow SMTP servers
+    connectionTimeout: 10000,
+    // Logger for debugging
+    ...(process.env.NODE_ENV === 'development' ? {
+      debug: true,
+      logger: true,
+    } : {}),
+  });
+
+  return {
+    async sendMail(message) {
+      const info: SMTPTransport.SentMessageInfo = await transporter.sendMail(message);
+
+      return {
+        messageId: info.messageId,
+        response: info.response,
+        accepted: toAddressList(info.accepted),
+        rejected: toAddressList(info.rejected),
+      };
+    },
+    async verify() {
+      await transporter.verify();
+    },
+    close() {
+      transporter.close();
+    },
+  };
+}
+
+/**
+ * Run every outgoing message through the recipient allowlist first
+ */
+function withRecipientAllowlist(transport: MailTransport): MailTransport {
+  return {
+    ...transport,
+    sendMail(message) {
+      return transport.sendMail(applyRecipientAllowlist(message));
+    },
+  };
+}
+
+/**
+ * Build the transport for a sender config
+ * Only SMTP transports can be pooled; the Brevo API is stateless HTTP.
+ * With MAIL_CAPTURE=true every config captures, whatever its own type.
+ * Captured mail never leaves the app, so only real transports get the allowlist.
+ */
+export function createMailTransport(smtpConfig: SmtpConfig, options: { pool?: boolean } = {}): MailTransport {
+  if (smtpConfig.transportType === 'capture' || isCaptureForced()) {
+    return createCaptureTransport(smtpConfig);
+  }
+
+  if (smtpConfig.transportType === 'brevo-api') {
+    return withRecipientAllowlist(createBrevoApiTransport(smtpConfig));
+  }
+
+  return withRecipientAllowlist(createNodemailerTransport(smtpConfig, options.pool ?? false));
+}
@@ -0,0 +1,204 @@
+// lib/message-options.ts
+import { Prisma } from '@prisma/client';
+import { replaceTemplateParams } from './email';
+import { isValidEmail } from './utils';
+
+/**
+ * Envelope fields and extra headers set on a template and overridable per campaign
+ * Every string supports {{param}} personalization.
+ */
+export interface MessageOptions {
+  replyTo: string | null;
+  cc: string | null;
+  bcc: string | null;
+  // Hidden text shown by inboxes next to the subject
+  preheader: string | null;
+  listId: string | null;
+  customHeaders: Record<string, string> | null;
+}
+
+export const MESSAGE_OPTION_FIELDS = ['replyTo', 'cc', 'bcc', 'preheader', 'listId', 'customHeaders'] as const;
+
+export const MAX_CUSTOM_HEADERS = 10;
+
+const CUSTOM_HEADER_NAME = /^X-[A-Za-z0-9-]+$/;
+
+// Placeholders can't be validated until they are filled in per recipient
+const PLACEHOLDER = /{{[^{}]+}}/;
+
+const EMPTY_OPTIONS: MessageOptions = {
+  replyTo: null,
+  cc: null,
+  bcc: null,
+  preheader: null,
+  listId: null,
+  customHeaders: null,
+};
+
+function splitAddresses(value: string): string[] {
+  return value.split(/[,;]/).map(address => address.trim()).filter(Boolean);
+}
+
+function optionalString(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
+
+/**
+ * Validate message options from a request body
+ * Returns the cleaned options, or an error message for the first invalid field
+ */
+export function parseMessageOptions(input: unknown): { options: MessageOptions; error?: string } {
+  const raw = (input ?? {}) as Record<string, unknown>;
+  const options: MessageOptions = {
+    replyTo: optionalString(raw.replyTo),
+    cc: optionalString(raw.cc),
+    bcc: optionalString(raw.bcc),
+    preheader: optionalString(raw.preheader),
+    listId: optionalString(raw.listId),
+    customHeaders: null,
+  };
+
+  for (const field of ['replyTo', 'cc', 'bcc'] as const) {
+    const invalid = splitAddresses(options[field] ?? '')
+      .find(address => !PLACEHOLDER.test(address) && !isValidEmail(address));
+
+    if (invalid) {
+      return { options, error: `Invalid ${field === 'replyTo' ? 'Reply-To' : field.toUpperCase()} address: ${invalid}` };
+    }
+  }
+
+  // Header injection guard
+  if (/[\r\n]/.test(`${options.preheader ?? ''}${options.listId ?? ''}`)) {
+    return { options, error: 'Preheader and List-Id must be a single line' };
+  }
+
+  if (raw.customHeaders && typeof raw.customHeaders === 'object' && !Array.isArray(raw.customHeaders)) {
+    const entries = Object.entries(raw.customHeaders as Record<string, unknown>)
+      .map(([name, value]) => [name.trim(), typeof value === 'string' ? value.trim() : ''] as const)
+      .filter(([name]) => name);
+
+    if (entries.length > MAX_CUSTOM_HEADERS) {
+      return { options, error: `At most ${MAX_CUSTOM_HEADERS} custom headers are allowed` };
+    }
+
+    for (const [name, value] of entries) {
+      if (!CUSTOM_HEADER_NAME.test(name)) {
+        return { options, error: `Custom header names must start with "X-": ${name}` };
+      }
+      if (/[\r\n]/.test(value)) {
+        return { options, error: `Header ${name} must be a single line` };
+      }
+    }
+
+    options.customHeaders = entries.length > 0 ? Object.fromEntries(entries) : null;
+  }
+
+  return { options };
+}
+
+/**
+ * Pick the message options stored on a template or campaign row
+ */
+export function pickMessageOptions(source: Partial<Record<keyof MessageOptions, unknown>>): MessageOptions {
+  return {
+    replyTo: (source.replyTo as string | null) ?? null,
+    cc: (source.cc as string | null) ?? null,
+    bcc: (source.bcc as string | null) ?? null,
+    preheader: (source.preheader as string | null) ?? null,
+    listId: (source.listId as string | null) ?? null,
+    customHeaders: (source.customHeaders as Record<string, string> | null) ?? null,
+  };
+}
+
+/**
+ * Prisma data for saving message options on a template or campaign
+ */
+export function toMessageOptionData(options: MessageOptions) {
+  return {
+    ...options,
+    customHeaders: options.customHeaders ?? Prisma.DbNull,
+  };
+}
+
+/**
+ * All personalizable text in the options, for placeholder extraction
+ */
+export function getMessageOptionsContent(options: MessageOptions): string {
+  return [
+    options.replyTo,
+    options.cc,
+    options.bcc,
+    options.preheader,
+    options.listId,
+    ...Object.values(options.customHeaders ?? {}),
+  ].filter(Boolean).join('\n');
+}
+
+/**
+ * Campaign values win field by field; unset campaign fields fall back to the template
+ */
+export function resolveMessageOptions(
+  template: Partial<Record<keyof MessageOptions, unknown>>,
+  campaign: Partial<Record<keyof MessageOptions, unknown>>
+): MessageOptions {
+  const fromTemplate = pickMessageOptions(template);
+  const fromCampaign = pickMessageOptions(campaign);
+
+  return MESSAGE_OPTION_FIELDS.reduce((resolved, field) => ({
+    ...resolved,
+    [field]: fromCampaign[field] ?? fromTemplate[field],
+  }), EMPTY_OPTIONS);
+}
+
+/**
+ * Personalize message options into nodemailer fields
+ * Addresses that are empty after personalization are dropped.
+ */
+export function renderMessageOptions(options: MessageOptions, params: Record<string, string>) {
+  const render = (value: string | null) => value ? replaceTemplateParams(value, params).trim() : '';
+  const addresses = (value: string | null) => {
+    const list = splitAddresses(render(value)).filter(isValidEmail);
+    return list.length > 0 ? list : undefined;
+  };
+
+  const headers: Record<string, string> = {};
+
+  Object.entries(options.customHeaders ?? {}).forEach(([name, value]) => {
+    // Recipient data must not be able to inject extra header lines
+    headers[name] = render(value).replace(/[\r\n]+/g, ' ');
+  });
+
+  const listId = render(options.listId).replace(/[\r\n]+/g, ' ');
+  if (listId) {
+    headers['List-Id'] = listId.includes('<') ? listId : `<${listId}>`;
+  }
+
+  return {
+    replyTo: addresses(options.replyTo),
+    cc: addresses(options.cc),
+    bcc: addresses(options.bcc),
+    headers,
+    preheader: render(options.preheader),
+  };
+}
+
+/**
+ * Insert a preheader as hidden text at the top of the email body
+ */
+export function applyPreheader(html: string, preheader: string): string {
+  if (!preheader) {
+    return html;
+  }
+
+  const escaped = preheader.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  // Trailing zero-width spaces keep clients from filling the preview with body text
+  const block = `<div style="display:none;max-height:0;overflow:hidden;mso-hide:all;">${escaped}${'&#8203;&nbsp;'.repeat(40)}</div>`;
+
+  const bodyTag = html.match(/<body\b[^>]*>/i);
+  if (bodyTag?.index !== undefined) {
+    const insertAt = bodyTag.index + bodyTag[0].length;
+    return html.slice(0, insertAt) + block + html.slice(insertAt);
+  }
+
+  return block + html;
+}
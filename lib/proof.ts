@@ -0,0 +1,120 @@
+// lib/proof.ts
+import { EmailTemplate, ProofSend, SeedAddress, SmtpConfig } from '@prisma/client';
+import { prisma } from './db';
+import { buildRecipientParams, getSmtpTransport, renderPlainText, replaceTemplateParams, sanitizeEmail } from './email';
+import { waitForSmtpSendSlot } from './rate-limit';
+import { getMailAttachments } from './attachments';
+import { applyPreheader, MessageOptions, renderMessageOptions, resolveMessageOptions } from './message-options';
+
+// Keep a proof run to a handful of messages per reviewer
+export const MAX_PROOF_CONTACTS = 5;
+export const MAX_SEED_ADDRESSES = 20;
+
+export const PROOF_SUBJECT_PREFIX = '[Proof] ';
+
+export interface ProofContact {
+  email: string;
+  name: string | null;
+  metadata: unknown;
+}
+
+interface ProofOptions {
+  userId: string;
+  template: EmailTemplate;
+  smtpConfig: SmtpConfig;
+  campaignId?: string | null;
+  parameterValues?: unknown;
+  // Campaign overrides of the template's message options
+  messageOptions?: MessageOptions | null;
+  // Subject override, e.g. an A/B variant still being written in the campaign form
+  subject?: string | null;
+  contacts: ProofContact[];
+  seeds: SeedAddress[];
+}
+
+/**
+ * Send a personalized proof of a template to every seed address
+ * Each selected contact produces one proof per reviewer. Links and the open pixel are
+ * left untracked and the unsubscribe link is inert, so reviewers can click freely.
+ * Without contacts, each reviewer's own address and name are used as the data.
+ * CC and BCC are left off so proofs don't reach the real copy recipients or archive.
+ */
+export async function sendCampaignProof(options: ProofOptions): Promise<ProofSend[]> {
+  const { userId, template, smtpConfig, campaignId, parameterValues, contacts, seeds } = options;
+  const messageOptions = resolveMessageOptions(template, options.messageOptions ?? {});
+  const subjectTemplate = options.subject || template.subject;
+  const transporter = await getSmtpTransport(smtpConfig);
+  const fromEmail = sanitizeEmail(smtpConfig.fromEmail);
+
+  // Same files the real send would carry: the campaign's own list, or the template's
+  const attachments = campaignId
+    ? await prisma.campaignAttachment.findMany({ where: { campaignId }, include: { attachment: true } })
+    : await prisma.templateAttachment.findMany({ where: { templateId: template.id }, include: { attachment: true } });
+
+  const results: ProofSend[] = [];
+
+  for (const seed of seeds) {
+    const proofContacts: Array<ProofContact | null> = contacts.length > 0 ? contacts : [null];
+
+    for (const contact of proofContacts) {
+      const params = buildRecipientParams(
+        contact ?? { email: seed.email, name: seed.name, metadata: null },
+        parameterValues,
+        '#'
+      );
+
+      const subject = `${PROOF_SUBJECT_PREFIX}${replaceTemplateParams(subjectTemplate, params)}`;
+      const html = replaceTemplateParams(template.htmlContent, params);
+      const text = renderPlainText(template.textContent, html, params);
+      const { replyTo, headers, preheader } = renderMessageOptions(messageOptions, params);
+
+      let status = 'sent';
+      let messageId: string | null = null;
+      let errorMessage: string | null = null;
+
+      try {
+        // Proofs count against the config's rate limits like any other send
+        const slot = await waitForSmtpSendSlot(smtpConfig, 15000);
+
+        if (!slot.allowed) {
+          throw new Error(`SMTP rate limit reached, try again in ${Math.ceil(slot.retryAfterMs / 1000)} seconds`);
+        }
+
+        const info = await transporter.sendMail({
+          from: { name: smtpConfig.fromName, address: fromEmail },
+          to: sanitizeEmail(seed.email),
+          replyTo,
+          subject,
+          text,
+          html: applyPreheader(html, preheader),
+          headers,
+          attachments: await getMailAttachments({ userId, attachments }, { metadata: contact?.metadata ?? null }, smtpConfig),
+        });
+
+        messageId = info.messageId ?? null;
+        console.log(`Proof of template ${template.id} sent to ${seed.email}`);
+      } catch (error) {
+        console.error(`Error sending proof to ${seed.email}:`, error);
+        status = 'failed';
+        errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      }
+
+      results.push(await prisma.proofSend.create({
+        data: {
+          userId,
+          templateId: template.id,
+          campaignId: campaignId ?? null,
+          smtpConfigId: smtpConfig.id,
+          seedEmail: seed.email,
+          contactEmail: contact?.email ?? null,
+          subject,
+          status,
+          messageId,
+          errorMessage,
+        },
+      }));
+    }
+  }
+
+  return results;
+}
@@ -1,296 +1,399 @@
 // lib/queue.ts
-import { Campaign, SmtpConfig, Recipient, EmailTemplate } from '@prisma/client';
-import { createSmtpTransport, replaceTemplateParams, sanitizeEmail } from './email';
+import { Attachment, Campaign, SmtpConfig, Recipient, EmailTemplate } from '@prisma/client';
+import SMTPTransport from 'nodemailer/lib/smtp-transport';
+import {
+  buildRecipientParams,
+  getSmtpTransport,
+  invalidateSmtpTransport,
+  renderPlainText,
+  replaceTemplateParams,
+  sanitizeEmail,
+} from './email';
 import { prisma } from './db';
+import { sleep, generateRandomString } from './utils';
+import { acquireCampaignSendSlot, waitForSmtpSendSlot } from './rate-limit';
+import { classifySmtpError, getNextAttemptAt, SmtpFailureCategory } from './smtp-errors';
+import { addSuppression, getSuppression } from './suppression';
+import { getUnsubscribeUrl } from './unsubscribe';
+import {
+  loadSmtpPool,
+  orderSmtpCandidates,
+  releaseSmtpQuota,
+  reserveSmtpQuota,
+  markSmtpUnhealthy,
+  markSmtpHealthy,
+  SmtpPoolEntry,
+} from './smtp-routing';
+import {
+  resolveRecipientDomains,
+  interleaveByDomain,
+  getDomainLimit,
+  acquireDomainSendSlot,
+  releaseDomainSendSlot,
+  coolDownDomain,
+} from './domain-throttle';
+import { advanceAbTest, applyVariant, isAbTestPending } from './ab-test';
+import { getMailAttachments } from './attachments';
+import { SENT_RECIPIENT_STATUSES } from './bounce-processing';
+import { applyPreheader, renderMessageOptions, resolveMessageOptions } from './message-options';
+import { SentMail, toAddressList } from './mail-transport';
+import { isAllowlistBlocking, isRecipientAllowed } from './recipient-allowlist';
+import { describeSendingHalt, getInstanceHalt, getSendingHalt, HALT_RECHECK_MS } from './sending-halt';
+import {
+  enqueueCampaignJob,
+  claimNextJob,
+  rescheduleJob,
+  completeJob,
+  extendJobLease,
+  failJob,
+  getNextPendingRunAt,
+  JOB_LEASE_MS,
+} from './send-jobs';
 
 
+type SendableCampaign = Campaign & {
+  template: EmailTemplate;
+  attachments?: Array<{ attachment: Attachment }>;
+};
+
+interface SendResult {
+  success: boolean;
+  error?: string;
+  failureCategory?: SmtpFailureCategory;
+  // Set when a retryable failure left the recipient pending until this time
+  nextAttemptAt?: Date;
+  // Set when sending should pause (rate limit or server-side trouble); the recipient stays pending
+  deferredMs?: number;
+  // Set when this SMTP config couldn't send and the caller should try another one
+  switchSmtp?: boolean;
+}
+
+// Failures that concern the SMTP server rather than the recipient, so the rest of the batch waits too
+// Throttling is scoped to the recipient's provider and handled by the batch loop
+const SERVER_FAILURE_CATEGORIES: SmtpFailureCategory[] = ['auth', 'network'];
+
 /**
- * Send email with retry logic
+ * Send email to one recipient
+ * Retryable failures are scheduled via nextAttemptAt instead of retrying in place.
+ * With canFailover, auth/connection failures and rate limits leave the recipient
+ * untouched and ask the caller to try another SMTP config.
  */
 export async function sendEmailWithRetry(
-  campaign: Campaign & { template: EmailTemplate },
+  campaign: SendableCampaign,
   smtpConfig: SmtpConfig,
   recipient: Recipient,
-  maxRetries = 3
-): Promise<{ success: boolean; error?: string }> {
-  let attempt = 0;
+  maxRetries = 3,
+  canFailover = false
+): Promise<SendResult> {
+  // Respect the per-minute/per-hour limits of the SMTP config
+  const slot = await waitForSmtpSendSlot(smtpConfig);
   
-  while (attempt < maxRetries) {
-    try {
-      attempt++;
-      console.log(`Sending email to ${recipient.email}, attempt ${attempt}/${maxRetries}`);
+  if (!slot.allowed) {
+    console.log(`SMTP ${smtpConfig.id} is rate limited, deferring ${recipient.email} by ${slot.retryAfterMs}ms`);
+    return { success: false, deferredMs: slot.retryAfterMs, switchSmtp: canFailover };
+  }
+  
+  const attempt = recipient.retryCount + 1;
+  let sendStartedAt: number | undefined;
+  let sendTimeout: ReturnType<typeof setTimeout> | undefined;
+  
+  try {
+    console.log(`Sending email to ${recipient.email}, attempt ${attempt}/${maxRetries}`);
+    
+    // Reuse the pooled transport for this SMTP config
+    const transporter = await getSmtpTransport(smtpConfig);
+    
+    // Signed link used by both the template and the List-Unsubscribe header
+    const unsubscribeUrl = getUnsubscribeUrl(recipient.id);
+    
+    // Prepare parameters
+    const recipientParams = buildRecipientParams(recipient, campaign.parameterValues, unsubscribeUrl);
+    
+    // Replace parameters in template
+    const personalizedHtml = replaceTemplateParams(
+      campaign.template.htmlContent,
+      recipientParams
+    );
+    
+    const personalizedSubject = replaceTemplateParams(
+      campaign.template.subject,
+      recipientParams
+    );
+    
+    // Text alternative is built from the untracked HTML so its links stay readable
+    const personalizedText = renderPlainText(campaign.template.textContent, personalizedHtml, recipientParams);
+    
+    // Missing library files or an oversized total fail the recipient for good
+    const attachments = await getMailAttachments(campaign, recipient, smtpConfig);
+    
+    // Reply-To, CC/BCC, preheader and extra headers; campaign overrides win over the template
+    const messageOptions = renderMessageOptions(
+      resolveMessageOptions(campaign.template, campaign),
+      recipientParams
+    );
+    
+    // Sanitize email addresses
+    const sanitizedFromEmail = sanitizeEmail(smtpConfig.fromEmail);
+    const sanitizedToEmail = sanitizeEmail(recipient.email);
+    
+    // Add tracking pixel if the base URL is available
+    const baseUrl = process.env.NEXTAUTH_URL ?? 'http://localhost:3000';
+    const trackingPixel = `<img src="${baseUrl}/api/track/open?c=${campaign.id}&r=${recipient.id}" width="1" height="1" alt="" style="display:none;" />`;
+    
+    // Add tracking to links
+    let htmlWithTracking = applyPreheader(personalizedHtml, messageOptions.preheader);
+    
+    // Add tracking pixel before closing body tag or at the end if no body tag
+    if (htmlWithTracking.includes('</body>')) {
+      htmlWithTracking = htmlWithTracking.replace('</body>', `${trackingPixel}</body>`);
+    } else {
+      htmlWithTracking = htmlWithTracking + trackingPixel;
+    }
+    
+    // Process links to add click tracking
+    const linkRegex = /<a\s+(?:[^>]*?\s+)?href=["']([^"']*)["']([^>]*)>/gi;
+    htmlWithTracking = htmlWithTracking.replace(linkRegex, (match, url, rest) => {
+      if (url.startsWith('#') || url.startsWith('mailto:') || url.startsWith('tel:') || url === unsubscribeUrl) {
+        // Don't track anchor links, mailto/tel links or the unsubscribe link
+        return match;
+      }
+      
+      const trackingUrl = `${baseUrl}/api/track/click?c=${campaign.id}&r=${recipient.id}&url=${encodeURIComponent(url)}`;
+      return `<a href="${trackingUrl}"${rest}>`;
+    });
+    
+    // Define a timeout promise
+    const timeoutPromise = new Promise<never>((_, reject) => {
+      sendTimeout = setTimeout(() => reject(new Error('Email sending timed out')), 15000);
+    });
+    
+    // Send email with timeout
+    sendStartedAt = Date.now();
+    const sendPromise: Promise<SentMail> = transporter.sendMail({
+      from: { name: smtpConfig.fromName, address: sanitizedFromEmail },
+      to: sanitizedToEmail,
+      subject: personalizedSubject,
+      replyTo: messageOptions.replyTo,
+      cc: messageOptions.cc,
+      bcc: messageOptions.bcc,
+      text: personalizedText,
+      html: htmlWithTracking,
+      attachments,
+      // One-click unsubscribe (RFC 8058), required by Gmail and Yahoo for bulk senders
+      headers: {
+        ...messageOptions.headers,
+        'List-Unsubscribe': `<${unsubscribeUrl}>`,
+        'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+      },
+    });
+    
+    // Use Promise.race to implement timeout
+    const info = await Promise.race([sendPromise, timeoutPromise]);
+    const durationMs = Date.now() - sendStartedAt;
+    
+    console.log(`Email successfully sent to ${recipient.email}`);
+    
+    await markSmtpHealthy(smtpConfig);
+    
+    // Update recipient status
+    await prisma.recipient.update({
+      where: { id: recipient.id },
+      data: { 
+        status: 'sent',
+        sentAt: new Date(),
+        errorMessage: null,
+        failureCategory: null,
+        nextAttemptAt: null,
+      },
+    });
+    
+    // Log success in analytics
+    await prisma.emailLog.create({
+      data: {
+        campaignId: campaign.id,
+        recipientId: recipient.id,
+        smtpConfigId: smtpConfig.id,
+        status: 'sent',
+        sentAt: new Date(),
+        messageId: info.messageId,
+        smtpResponse: info.response,
+        accepted: info.accepted,
+        rejected: info.rejected,
+        attempt,
+        durationMs,
+      },
+    });
+    
+    return { success: true };
+  } catch (error) {
+    console.error(`Attempt ${attempt} failed for recipient ${recipient.id}:`, error);
+    
+    const failure = classifySmtpError(error);
+    const errorMessage = failure.code ? `${failure.code} ${failure.message}` : failure.message;
+    
+    // Whatever the server told us, for the delivery log
+    const receipt = {
+      smtpResponse: (error as { response?: string })?.response ?? null,
+      rejected: toAddressList((error as { rejected?: SMTPTransport.SentMessageInfo['rejected'] })?.rejected),
+      attempt,
+      durationMs: sendStartedAt ? Date.now() - sendStartedAt : null,
+    };
+    
+    // Drop the pooled transport and take the config out of rotation if the connection itself is broken
+    if (failure.category === 'network' || failure.category === 'auth') {
+      invalidateSmtpTransport(smtpConfig.id);
+      await markSmtpUnhealthy(smtpConfig, errorMessage);
       
-      // Add delay for rate limiting in production
-      if (process.env.NODE_ENV === 'production') {
-        const sentCount = await prisma.emailLog.count({
-          where: {
+      if (canFailover) {
+        console.log(`SMTP ${smtpConfig.id} failed (${failure.category}), failing over for ${recipient.email}`);
+        
+        await prisma.emailLog.create({
+          data: {
+            campaignId: campaign.id,
+            recipientId: recipient.id,
             smtpConfigId: smtpConfig.id,
-            status: 'sent',
-            sentAt: {
-              gte: new Date(new Date().setHours(0, 0, 0, 0)), // Since beginning of day
-            },
+            status: 'deferred',
+            errorMessage,
+            failureCategory: failure.category,
+            sentAt: new Date(),
+            ...receipt,
           },
         });
         
-        // Add progressive delay based on sent count
-        if (sentCount > 100) {
-          await new Promise(resolve => setTimeout(resolve, 1000)); // 1 second
-        } else if (sentCount > 50) {
-          await new Promise(resolve => setTimeout(resolve, 500)); // 0.5 second
-        }
-      }
-      
-      // Create transporter with timeout options
-      const transporter = await createSmtpTransport(smtpConfig);
-      
-      // Parse recipient metadata
-      const metadata = recipient.metadata as Record<string, string> || {};
-      
-      // Prepare parameters
-      const recipientParams: Record<string, string> = {
-        email: recipient.email,
-        name: recipient.name ?? recipient.email,
-        ...metadata,
-      };
-      
-      // Add default parameter values for missing parameters
-      if (campaign.parameterValues) {
-        const defaultParams = campaign.parameterValues as Record<string, string>;
-        Object.entries(defaultParams).forEach(([key, value]) => {
-          if (!recipientParams[key] && typeof value === 'string') {
-            recipientParams[key] = value;
-          }
-        });
-      }
-      
-      // Replace parameters in template
-      const personalizedHtml = replaceTemplateParams(
-        campaign.template.htmlContent,
-        recipientParams
-      );
-      
-      const personalizedSubject = replaceTemplateParams(
-        campaign.template.subject,
-        recipientParams
-      );
-      
-      // Sanitize email addresses
-      const sanitizedFromEmail = sanitizeEmail(smtpConfig.fromEmail);
-      const sanitizedToEmail = sanitizeEmail(recipient.email);
-      
-      // Add tracking pixel if the base URL is available
-      const baseUrl = process.env.NEXTAUTH_URL ?? 'http://localhost:3000';
-      const trackingPixel = `<img src="${baseUrl}/api/track/open?c=${campaign.id}&r=${recipient.id}" width="1" height="1" alt="" style="display:none;" />`;
-      
-      // Add tracking to links
-      let htmlWithTracking = personalizedHtml;
-      
-      // Add tracking pixel before closing body tag or at the end if no body tag
-      if (htmlWithTracking.includes('</body>')) {
-        htmlWithTracking = htmlWithTracking.replace('</body>', `${trackingPixel}</body>`);
-      } else {
-        htmlWithTracking = htmlWithTracking + trackingPixel;
+        return { success: false, error: errorMessage, failureCategory: failure.category, switchSmtp: true };
       }
+    }
+    
+    // Permanent failures and exhausted retries are final
+    if (!failure.retryable || attempt >= maxRetries) {
+      console.log(`Failed to send email to ${recipient.email} after ${attempt} attempts (${failure.category}), marking as failed`);
       
-      // Process links to add click tracking
-      const linkRegex = /<a\s+(?:[^>]*?\s+)?href=["']([^"']*)["']([^>]*)>/gi;
-      htmlWithTracking = htmlWithTracking.replace(linkRegex, (match, url, rest) => {
-        if (url.startsWith('#') || url.startsWith('mailto:') || url.startsWith('tel:')) {
-          // Don't track anchor links or mailto/tel links
-          return match;
-        }
-        
-        const trackingUrl = `${baseUrl}/api/track/click?c=${campaign.id}&r=${recipient.id}&url=${encodeURIComponent(url)}`;
-        return `<a href="${trackingUrl}"${rest}>`;
-      });
-      
-      // Define a timeout promise
-      const timeoutPromise = new Promise<never>((_, reject) => {
-        setTimeout(() => reject(new Error('Email sending timed out')), 15000);
-      });
-      
-      // Send email with timeout
-      const sendPromise = transporter.sendMail({
-        from: `"${smtpConfig.fromName}" <${sanitizedFromEmail}>`,
-        to: sanitizedToEmail,
-        subject: personalizedSubject,
-        html: htmlWithTracking,
-      });
-      
-      // Use Promise.race to implement timeout
-      await Promise.race([sendPromise, timeoutPromise]);
-      
-      console.log(`Email successfully sent to ${recipient.email}`);
-      
-      // Update recipient status
       await prisma.recipient.update({
         where: { id: recipient.id },
         data: { 
-          status: 'sent',
-          sentAt: new Date(),
+          status: 'failed',
+          errorMessage,
+          failureCategory: failure.category,
+          nextAttemptAt: null,
+          retryCount: { increment: 1 },
         },
       });
       
-      // Log success in analytics
+      // Never mail an address that hard-bounced again
+      if (failure.category === 'hard_bounce') {
+        await addSuppression(campaign.userId, recipient.email, 'hard_bounce', campaign.id);
+      }
+      
+      // Log failure in analytics
       await prisma.emailLog.create({
         data: {
           campaignId: campaign.id,
           recipientId: recipient.id,
           smtpConfigId: smtpConfig.id,
-          status: 'sent',
+          status: 'failed',
+          errorMessage,
+          failureCategory: failure.category,
           sentAt: new Date(),
+          ...receipt,
         },
       });
       
-      return { success: true };
-    } catch (error) {
-      console.error(`Attempt ${attempt} failed for recipient ${recipient.id}:`, error);
-      
-      // Check if this is a rate limiting error
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      const isRateLimitError = errorMessage.toLowerCase().includes('rate') || 
-                             errorMessage.toLowerCase().includes('limit') ||
-                             errorMessage.toLowerCase().includes('421');
-      
-      // If this is the last attempt or it's not a rate limiting error
-      if (attempt >= maxRetries || !isRateLimitError) {
-        console.log(`Failed to send email to ${recipient.email} after ${attempt} attempts, marking as failed`);
-        
-        // Update recipient status as failed
-        await prisma.recipient.update({
-          where: { id: recipient.id },
-          data: { 
-            status: 'failed',
-            errorMessage: errorMessage,
-            retryCount: { increment: 1 },
-          },
-        });
-        
-        // Log failure in analytics
-        await prisma.emailLog.create({
-          data: {
-            campaignId: campaign.id,
-            recipientId: recipient.id,
-            smtpConfigId: smtpConfig.id,
-            status: 'failed',
-            errorMessage: errorMessage,
-            sentAt: new Date(),
-          },
-        });
-        
-        return { 
-          success: false, 
-          error: errorMessage
-        };
-      }
-      
-      // For rate limiting, use exponential backoff
-      if (isRateLimitError) {
-        // Use more aggressive backoff in production
-        const delay = process.env.NODE_ENV === 'production'
-          ? Math.pow(2, attempt + 1) * 1000 // Longer in production
-          : Math.pow(2, attempt) * 1000;
-        
-        console.log(`Rate limiting detected, waiting ${delay}ms before retry...`);
-        await new Promise(resolve => setTimeout(resolve, delay));
-        
-        // Update SMTP usage counter on the last attempt
-        if (isRateLimitError && process.env.NODE_ENV === 'production' && attempt === maxRetries - 1) {
-          await prisma.smtpConfig.update({
-            where: { id: smtpConfig.id },
-            data: {
-              usedToday: { increment: 1 }
-            },
-          });
-        }
-      } else {
-        // For other errors, wait a shorter time
-        await new Promise(resolve => setTimeout(resolve, 1000));
-      }
+      return { 
+        success: false, 
+        error: errorMessage,
+        failureCategory: failure.category,
+      };
     }
+    
+    // Leave the recipient pending and come back to it later
+    const nextAttemptAt = getNextAttemptAt(failure.category, attempt);
+    console.log(`Deferring ${recipient.email} until ${nextAttemptAt.toISOString()} (${failure.category})`);
+    
+    await prisma.recipient.update({
+      where: { id: recipient.id },
+      data: {
+        errorMessage,
+        failureCategory: failure.category,
+        nextAttemptAt,
+        retryCount: { increment: 1 },
+      },
+    });
+    
+    await prisma.emailLog.create({
+      data: {
+        campaignId: campaign.id,
+        recipientId: recipient.id,
+        smtpConfigId: smtpConfig.id,
+        status: 'deferred',
+        errorMessage,
+        failureCategory: failure.category,
+        sentAt: new Date(),
+        ...receipt,
+      },
+    });
+    
+    return {
+      success: false,
+      error: errorMessage,
+      failureCategory: failure.category,
+      nextAttemptAt,
+      deferredMs: SERVER_FAILURE_CATEGORIES.includes(failure.category)
+        ? nextAttemptAt.getTime() - Date.now()
+        : undefined,
+    };
+  } finally {
+    // A pending timer would keep the process busy for the full timeout
+    clearTimeout(sendTimeout);
   }
-  
-  // This should never be reached due to the return in the catch block
-  return { success: false, error: 'Maximum retries exceeded' };
 }
 
+// How long to wait when every SMTP config in the pool is out of daily quota
+const QUOTA_RETRY_MS = 15 * 60 * 1000;
+
 /**
- * Get next available SMTP config
+ * Send to one recipient through the campaign's SMTP pool, failing over to the next
+ * config when one can't send
  */
-export async function getNextAvailableSmtp(userId: string): Promise<SmtpConfig | null> {
-  console.log(`Finding available SMTP config for user ${userId}`);
+async function sendWithFailover(
+  campaign: SendableCampaign,
+  smtpPool: SmtpPoolEntry[],
+  recipient: Recipient,
+  sequence: number
+): Promise<SendResult> {
+  const candidates = orderSmtpCandidates(smtpPool, campaign.smtpRoutingPolicy, sequence);
+  let result: SendResult | null = null;
   
-  try {
-    // Get all SMTP configs for the user, with smart ordering
-    const availableConfigs = await prisma.smtpConfig.findMany({
-      where: {
-        userId,
-      },
-      orderBy: [
-        // Prioritize configs with daily quota remaining
-        {
-          usedToday: 'asc',
-        },
-        // Then by last used timestamp (null values first)
-        { 
-          lastUsed: 'asc' 
-        }
-      ],
-    });
+  for (let i = 0; i < candidates.length; i++) {
+    const smtpConfig = candidates[i];
     
-    if (availableConfigs.length === 0) {
-      console.log('No SMTP configurations found');
-      return null;
+    if (!(await reserveSmtpQuota(smtpConfig))) {
+      console.log(`SMTP ${smtpConfig.id} has reached its daily quota`);
+      continue;
     }
     
-    // Find a config that hasn't exceeded its daily quota
-    for (const config of availableConfigs) {
-      // Check if quota reset is needed (new day)
-      if (config.lastQuotaReset) {
-        const lastResetDate = new Date(config.lastQuotaReset);
-        const currentDate = new Date();
-        
-        // If last reset was yesterday or earlier, reset the counter
-        if (lastResetDate.getDate() !== currentDate.getDate() || 
-            lastResetDate.getMonth() !== currentDate.getMonth() || 
-            lastResetDate.getFullYear() !== currentDate.getFullYear()) {
-          
-          await prisma.smtpConfig.update({
-            where: { id: config.id },
-            data: {
-              usedToday: 0,
-              lastQuotaReset: currentDate
-            }
-          });
-          
-          // Reset the local value too
-          config.usedToday = 0;
-        }
-      }
-      
-      // Check if this config has quota available
-      if (config.usedToday < config.dailyQuota) {
-        // Update the selected config's usage data
-        const updatedConfig = await prisma.smtpConfig.update({
-          where: { id: config.id },
-          data: {
-            lastUsed: new Date(),
-            usedToday: { increment: 1 }
-          }
-        });
-        
-        console.log(`Selected SMTP config: ${updatedConfig.name} (${updatedConfig.host})`);
-        return updatedConfig;
-      }
+    result = await sendEmailWithRetry(campaign, smtpConfig, recipient, 3, i < candidates.length - 1);
+    
+    // Only messages the server accepted count against the quota
+    if (!result.success) {
+      await releaseSmtpQuota(smtpConfig);
     }
     
-    // If all configs have reached their quota
-    console.log('All SMTP configurations have reached their daily quota');
-    return null;
-  } catch (error) {
-    console.error('Error selecting SMTP config:', error);
-    return null;
+    if (!result.switchSmtp) {
+      return result;
+    }
   }
+  
+  // The last config we reached asked to switch but the rest had no quota left
+  if (result?.switchSmtp) {
+    return { ...result, switchSmtp: false, deferredMs: result.deferredMs ?? 60 * 1000 };
+  }
+  
+  if (result) {
+    return result;
+  }
+  
+  console.log(`All SMTP configurations for campaign ${campaign.id} have reached their daily quota`);
+  return { success: false, deferredMs: QUOTA_RETRY_MS };
 }
 
 /**
@@ -324,6 +427,9 @@ export async function acquireCampaignLock(campaignId: string): Promise<boolean>
           // Campaign is actively being processed by another function
           return false;
         }
+      } else if (campaign.status === 'paused' || campaign.status === 'cancelled') {
+        // Paused campaigns wait for an explicit resume, cancelled ones never run again
+        return false;
       } else if (!['draft', 'queued', 'processing', 'failed'].includes(campaign.status)) {
         // Campaign is in a state that shouldn't be processed
         return false;
@@ -391,21 +497,8 @@ export async function startCampaignProcessing(campaignId: string): Promise<boole
       });
     }
     
-    // Trigger webhook for processing
-    const webhookTriggered = await triggerProcessBatch(campaignId, 0);
-    
-    // Also try direct processing as a fallback
-    if (!webhookTriggered) {
-      console.log(`Webhook trigger failed, attempting direct processing for campaign ${campaignId}`);
-      try {
-        await processBatchDirect(campaignId, 0);
-      } catch (directError) {
-        console.warn(`Direct processing attempt failed: ${directError}`);
-        // Continue even if direct processing fails, as webhook should handle it
-      }
-    }
-    
-    return true;
+    // Queue the campaign's send job and wake a worker
+    return await triggerProcessBatch(campaignId);
   } catch (error) {
     console.error(`Error starting campaign ${campaignId}:`, error);
     return false;
@@ -425,7 +518,7 @@ export async function isCampaignCompleted(campaignId: string): Promise<boolean>
       prisma.recipient.count({
         where: {
           campaignId,
-          status: { in: ['sent', 'failed'] },
+          status: { in: [...SENT_RECIPIENT_STATUSES, 'failed', 'skipped'] },
         },
       }),
     ]);
@@ -445,14 +538,14 @@ export async function finalizeCampaign(campaignId: string): Promise<boolean> {
     console.log(`Finalizing campaign ${campaignId}`);
     
     // Get counts
-    const [totalCount, sentCount, failedCount] = await Promise.all([
+    const [totalCount, sentCount, failedCount, skippedCount, campaign] = await Promise.all([
       prisma.recipient.count({
         where: { campaignId },
       }),
       prisma.recipient.count({
         where: {
           campaignId,
-          status: 'sent',
+          status: { in: SENT_RECIPIENT_STATUSES },
         },
       }),
       prisma.recipient.count({
@@ -461,12 +554,25 @@ export async function finalizeCampaign(campaignId: string): Promise<boolean> {
           status: 'failed',
         },
       }),
+      prisma.recipient.count({
+        where: {
+          campaignId,
+          status: 'skipped',
+        },
+      }),
+      prisma.campaign.findUnique({
+        where: { id: campaignId },
+        select: { status: true },
+      }),
     ]);
     
     // Determine final status
-    let finalStatus: 'sent' | 'failed' | 'partial';
+    let finalStatus: 'sent' | 'failed' | 'partial' | 'cancelled';
     
-    if (failedCount === 0) {
+    if (campaign?.status === 'cancelled') {
+      // A cancelled campaign stays cancelled, only its counts are settled
+      finalStatus = 'cancelled';
+    } else if (failedCount === 0) {
       finalStatus = 'sent';
     } else if (sentCount === 0) {
       finalStatus = 'failed';
@@ -482,12 +588,13 @@ export async function finalizeCampaign(campaignId: string): Promise<boolean> {
         completedAt: new Date(),
         successCount: sentCount,
         failCount: failedCount,
-        processedCount: sentCount + failedCount,
+        skippedCount,
+        processedCount: sentCount + failedCount + skippedCount,
       },
     });
     
     console.log(`Campaign ${campaignId} finalized with status: ${finalStatus}`);
-    console.log(`Results: ${sentCount} sent, ${failedCount} failed, ${totalCount} total`);
+    console.log(`Results: ${sentCount} sent, ${failedCount} failed, ${skippedCount} skipped, ${totalCount} total`);
     
     return true;
   } catch (error) {
@@ -497,147 +604,493 @@ export async function finalizeCampaign(campaignId: string): Promise<boolean> {
 }
 
 /**
- * Process batch directly (without webhook)
- * Useful for development environment or manual processing
+ * Cancel a campaign, skipping every recipient that hasn't been sent yet
  */
-export async function processBatchDirect(campaignId: string, batchIndex: number): Promise<boolean> {
-  try {
-    console.log(`Directly processing batch ${batchIndex} for campaign ${campaignId}`);
-    
-    // Check campaign status
-    const campaign = await prisma.campaign.findUnique({
-      where: { id: campaignId },
-      include: { 
-        template: true,
-        user: {
-          select: { id: true }
-        }
+export async function cancelCampaign(campaignId: string): Promise<number> {
+  // Stop workers first so no new sends start while recipients are being skipped
+  await prisma.campaign.update({
+    where: { id: campaignId },
+    data: {
+      status: 'cancelled',
+      isScheduled: false,
+    },
+  });
+  
+  const { count } = await prisma.recipient.updateMany({
+    where: {
+      campaignId,
+      status: 'pending',
+    },
+    data: {
+      status: 'skipped',
+      errorMessage: 'Campaign cancelled',
+    },
+  });
+  
+  await finalizeCampaign(campaignId);
+  
+  return count;
+}
+
+// Minimum pause between consecutive batches of the same campaign
+const BATCH_DELAY_MS = 1000;
+
+// How many batches' worth of recipients to look at when interleaving providers
+const DOMAIN_LOOKAHEAD_FACTOR = 4;
+
+// Time a single worker run may spend before yielding (function limit is 60s)
+const WORKER_TIME_BUDGET_MS = 50000;
+
+// Renew a held job's lease well before it runs out
+const LEASE_RENEW_MS = JOB_LEASE_MS / 4;
+
+interface BatchOutcome {
+  // True once the campaign needs no further batches
+  done: boolean;
+  sent: number;
+  failed: number;
+  // Set when sending stopped early because of a rate limit
+  retryAfterMs?: number;
+  // Pause the campaign's sending profile asks for before the next batch
+  nextBatchDelayMs?: number;
+}
+
+/**
+ * Process one batch of pending recipients for a campaign
+ * Callers must hold the campaign's send job lease
+ */
+export async function processBatchDirect(
+  campaignId: string,
+  deadline: number,
+  isLeaseLost: () => boolean = () => false
+): Promise<BatchOutcome> {
+  console.log(`Processing next batch for campaign ${campaignId}`);
+  
+  // Check campaign status
+  const campaign = await prisma.campaign.findUnique({
+    where: { id: campaignId },
+    include: { 
+      template: true,
+      variants: {
+        include: { template: true },
       },
-    });
-    
-    if (!campaign) {
-      console.error(`Campaign ${campaignId} not found`);
-      return false;
-    }
+      attachments: {
+        include: { attachment: true },
+      },
+      user: {
+        select: { id: true }
+      }
+    },
+  });
+  
+  if (!campaign) {
+    console.error(`Campaign ${campaignId} not found`);
+    return { done: true, sent: 0, failed: 0 };
+  }
+  
+  // Only campaigns in processing status are sent
+  if (campaign.status !== 'processing') {
+    console.log(`Campaign ${campaignId} is in ${campaign.status} status, not processing`);
+    return { done: true, sent: 0, failed: 0 };
+  }
+  
+  // A stop switch is on: keep the job and look again later
+  const halt = await getSendingHalt(campaign.userId);
+  
+  if (halt) {
+    console.log(`Campaign ${campaignId} is on hold: ${describeSendingHalt(halt)}`);
     
-    // Update last processed timestamp
+    // Touch lastProcessedAt so the campaign isn't mistaken for a stalled one
     await prisma.campaign.update({
       where: { id: campaignId },
-      data: { 
-        lastProcessedAt: new Date(),
-        status: campaign.status === 'draft' || campaign.status === 'queued' 
-          ? 'processing' 
-          : campaign.status
-      }
+      data: { lastProcessedAt: new Date(), lastError: describeSendingHalt(halt) },
     });
     
-    // Define timeout to ensure we don't exceed function limits
-    const startTime = Date.now();
-    const timeoutMs = 50000; // 50 seconds to be safe
-    
-    // Smaller batch size for direct processing
-    const DIRECT_BATCH_SIZE = 5;
+    return { done: false, sent: 0, failed: 0, retryAfterMs: HALT_RECHECK_MS };
+  }
+  
+  // Update last processed timestamp
+  await prisma.campaign.update({
+    where: { id: campaignId },
+    data: { 
+      lastProcessedAt: new Date(),
+      nextBatchIndex: { increment: 1 },
+    }
+  });
+  
+  // Get batch of recipients that haven't been processed and aren't waiting for a retry
+  const now = new Date();
+  const abTestPending = isAbTestPending(campaign);
+  const recipients = await prisma.recipient.findMany({
+    where: {
+      campaignId,
+      status: 'pending',
+      // During an A/B test only the sample is sent; the rest waits for the winner
+      ...(abTestPending ? { variantId: { not: null } } : {}),
+      OR: [
+        { nextAttemptAt: null },
+        { nextAttemptAt: { lte: now } },
+      ],
+    },
+    // Look further ahead than one batch so other providers can fill in for a throttled one
+    take: campaign.batchSize * DOMAIN_LOOKAHEAD_FACTOR,
+    orderBy: { createdAt: 'asc' }
+  });
+  
+  // If no more recipients to process
+  if (recipients.length === 0) {
+    if (abTestPending) {
+      const waitMs = await advanceAbTest(campaign);
+      return { done: false, sent: 0, failed: 0, retryAfterMs: waitMs };
+    }
     
-    // Get batch of recipients that haven't been processed
-    const recipients = await prisma.recipient.findMany({
+    // Only scheduled retries left: come back when the first one is due
+    const nextRetry = await prisma.recipient.findFirst({
       where: {
         campaignId,
         status: 'pending',
+        nextAttemptAt: { gt: now },
       },
-      take: DIRECT_BATCH_SIZE,
-      orderBy: { createdAt: 'asc' }
+      orderBy: { nextAttemptAt: 'asc' },
+      select: { nextAttemptAt: true },
     });
     
-    // If no more recipients to process
-    if (recipients.length === 0) {
-      const isCompleted = await isCampaignCompleted(campaignId);
-      if (isCompleted) {
-        // Finalize campaign if all recipients have been processed
-        await finalizeCampaign(campaignId);
-        return true;
-      }
-      return false;
+    if (nextRetry?.nextAttemptAt) {
+      return { done: false, sent: 0, failed: 0, retryAfterMs: nextRetry.nextAttemptAt.getTime() - now.getTime() };
     }
     
-    // Get an available SMTP config
-    const smtpConfig = await getNextAvailableSmtp(campaign.user.id);
+    const isCompleted = await isCampaignCompleted(campaignId);
+    if (isCompleted) {
+      // Finalize campaign if all recipients have been processed
+      await finalizeCampaign(campaignId);
+    } else {
+      console.log(`No pending recipients but campaign ${campaignId} not completed, possible anomaly`);
+    }
+    return { done: true, sent: 0, failed: 0 };
+  }
+  
+  // SMTP configs this campaign routes through
+  const smtpPool = await loadSmtpPool(campaign);
+  
+  if (smtpPool.length === 0) {
+    throw new Error('No SMTP configuration available');
+  }
+  
+  // Running send counter so round-robin continues where the previous batch stopped
+  let sequence = campaign.nextBatchIndex * campaign.batchSize;
+  
+  // Alternate providers so a throttled one doesn't hold up the rest
+  const recipientDomains = await resolveRecipientDomains(recipients.map(recipient => recipient.email));
+  const throttleKeyOf = (recipient: Recipient) => recipientDomains.get(recipient.email)!.throttleKey;
+  let remaining = interleaveByDomain(recipients, throttleKeyOf);
+  
+  // Push a provider's recipients out of this window so the next batch picks up other domains
+  const deferDomain = async (throttleKey: string, nextAttemptAt: Date) => {
+    const deferred = remaining.filter(recipient => throttleKeyOf(recipient) === throttleKey);
+    remaining = remaining.filter(recipient => throttleKeyOf(recipient) !== throttleKey);
     
-    if (!smtpConfig) {
-      throw new Error('No SMTP configuration available');
+    if (deferred.length > 0) {
+      console.log(`Deferring ${deferred.length} recipients at ${throttleKey} until ${nextAttemptAt.toISOString()}`);
+      await prisma.recipient.updateMany({
+        where: { id: { in: deferred.map(recipient => recipient.id) } },
+        data: { nextAttemptAt },
+      });
     }
+  };
+  
+  // Send the batch in groups of `concurrency`, pausing messageDelayMs after each group
+  const results: SendResult[] = [];
+  let attempted = 0;
+  let retryAfterMs: number | undefined;
+  let stoppedStatus: string | undefined;
+  let skippedCount = 0;
+  while (remaining.length > 0 && attempted < campaign.batchSize) {
+    // Leave the rest of the batch for the next run if we're out of time
+    if (Date.now() > deadline) {
+      console.log(`Approaching timeout limit after processing ${results.length} recipients`);
+      break;
+    }
+    
+    // Stop promptly if the campaign was paused or cancelled mid-batch
+    const current = await prisma.campaign.findUnique({
+      where: { id: campaignId },
+      select: { status: true },
+    });
     
-    // Send email to each recipient in the batch
-    const results = [];
-    for (const recipient of recipients) {
-      // Check if we're approaching the timeout
-      if (Date.now() - startTime > timeoutMs) {
-        console.log(`Approaching timeout limit after processing ${results.length} recipients`);
+    if (current?.status !== 'processing') {
+      stoppedStatus = current?.status;
+      console.log(`Campaign ${campaignId} is now ${stoppedStatus}, stopping batch`);
+      break;
+    }
+    
+    // ...or another worker took the job over, in which case it sends the rest
+    if (isLeaseLost()) {
+      console.log(`Lost the send job lease of campaign ${campaignId}, stopping batch`);
+      break;
+    }
+    
+    // ...or a stop switch was turned on; the rest of the batch waits
+    const halt = await getSendingHalt(campaign.userId);
+    
+    if (halt) {
+      console.log(`Stopping batch of campaign ${campaignId}: ${describeSendingHalt(halt)}`);
+      retryAfterMs = HALT_RECHECK_MS;
+      break;
+    }
+    
+    // Fill the group without going over any provider's concurrency cap
+    const group: Recipient[] = [];
+    const groupSize = Math.min(campaign.concurrency, campaign.batchSize - attempted);
+    const perDomain = new Map<string, number>();
+    for (const recipient of [...remaining]) {
+      if (group.length >= groupSize || retryAfterMs !== undefined) {
         break;
       }
       
-      const result = await sendEmailWithRetry(campaign, smtpConfig, recipient);
-      results.push({
-        recipientId: recipient.id,
-        email: recipient.email,
-        success: result.success,
-        error: result.error
-      });
+      // Deferred along with its provider earlier in this pass
+      if (!remaining.includes(recipient)) {
+        continue;
+      }
+      
+      const throttleKey = throttleKeyOf(recipient);
+      const inFlight = perDomain.get(throttleKey) ?? 0;
+      
+      if (inFlight >= getDomainLimit(throttleKey).concurrency) {
+        continue;
+      }
+      
+      // The address may have been suppressed after the campaign was created
+      const suppression = await getSuppression(campaign.userId, recipient.email);
+      
+      if (suppression) {
+        console.log(`Skipping suppressed recipient ${recipient.email} (${suppression.reason})`);
+        await prisma.recipient.update({
+          where: { id: recipient.id },
+          data: {
+            status: 'skipped',
+            errorMessage: `Suppressed (${suppression.reason})`,
+          },
+        });
+        remaining = remaining.filter(other => other !== recipient);
+        skippedCount++;
+        continue;
+      }
+      
+      // A blocking allowlist would only fail the send, so don't try it
+      if (isAllowlistBlocking() && !isRecipientAllowed(recipient.email)) {
+        console.log(`Skipping recipient ${recipient.email} outside the recipient allowlist`);
+        await prisma.recipient.update({
+          where: { id: recipient.id },
+          data: {
+            status: 'skipped',
+            errorMessage: 'Outside recipient allowlist',
+          },
+        });
+        remaining = remaining.filter(other => other !== recipient);
+        skippedCount++;
+        continue;
+      }
+      
+      // Respect the provider's per-minute limit and any 421 cooldown
+      const domainSlot = await acquireDomainSendSlot(campaign.userId, throttleKey);
+      
+      if (!domainSlot.allowed) {
+        await deferDomain(throttleKey, new Date(Date.now() + domainSlot.retryAfterMs));
+        continue;
+      }
       
-      // Add small delay between emails
-      await new Promise(resolve => setTimeout(resolve, 500));
+      // Respect the campaign's own per-minute cap
+      const slot = await acquireCampaignSendSlot(campaign);
+      
+      if (!slot.allowed) {
+        console.log(`Campaign ${campaignId} reached its per-minute cap, deferring by ${slot.retryAfterMs}ms`);
+        await releaseDomainSendSlot(campaign.userId, throttleKey);
+        retryAfterMs = slot.retryAfterMs;
+        break;
+      }
+      
+      group.push(recipient);
+      perDomain.set(throttleKey, inFlight + 1);
     }
     
-    // Calculate statistics
-    const successCount = results.filter(r => r.success).length;
-    const failCount = results.filter(r => !r.success).length;
+    remaining = remaining.filter(recipient => !group.includes(recipient));
+    attempted += group.length;
     
-    // Update campaign statistics
-    await prisma.campaign.update({
-      where: { id: campaignId },
-      data: {
-        successCount: { increment: successCount },
-        failCount: { increment: failCount },
-        processedCount: { increment: successCount + failCount },
-      },
-    });
+    const groupResults = await Promise.all(
+      group.map(recipient => sendWithFailover(applyVariant(campaign, recipient), smtpPool, recipient, sequence++))
+    );
     
-    // Check if campaign is complete
-    const isCompleted = await isCampaignCompleted(campaignId);
+    for (const [index, result] of groupResults.entries()) {
+      // Scheduled retries are neither sent nor failed yet
+      if (result.nextAttemptAt === undefined && result.deferredMs === undefined) {
+        results.push(result);
+      }
+      
+      // The provider asked us to slow down: hold back its other recipients, keep sending to the rest
+      if (result.failureCategory === 'throttled' && result.nextAttemptAt) {
+        const throttleKey = throttleKeyOf(group[index]);
+        await coolDownDomain(campaign.userId, throttleKey, result.nextAttemptAt);
+        await deferDomain(throttleKey, result.nextAttemptAt);
+      }
+      
+      // Rate limited or server trouble: leave the rest of the batch pending and come back later
+      if (result.deferredMs !== undefined) {
+        retryAfterMs = Math.max(retryAfterMs ?? 0, result.deferredMs);
+      }
+    }
     
-    if (isCompleted) {
-      // Finalize campaign
+    if (retryAfterMs !== undefined) {
+      break;
+    }
+    
+    if (group.length > 0) {
+      await sleep(campaign.messageDelayMs);
+    }
+  }
+  
+  // Calculate statistics
+  const successCount = results.filter(r => r.success).length;
+  const failCount = results.filter(r => !r.success).length;
+  
+  // Update campaign statistics
+  await prisma.campaign.update({
+    where: { id: campaignId },
+    data: {
+      successCount: { increment: successCount },
+      failCount: { increment: failCount },
+      skippedCount: { increment: skippedCount },
+      processedCount: { increment: successCount + failCount + skippedCount },
+      lastProcessedAt: new Date(),
+    },
+  });
+  
+  // Paused or cancelled: the job ends here and resume queues a new run
+  if (stoppedStatus !== undefined) {
+    if (stoppedStatus === 'cancelled') {
+      // Recount so sends that finished during cancellation are included
       await finalizeCampaign(campaignId);
-    } else {
-      // Process next batch with a delay
-      setTimeout(() => {
-        processBatchDirect(campaignId, batchIndex + 1).catch(err => {
-          console.error(`Error processing next batch: ${err}`);
-        });
-      }, 1000);
+    }
+    return { done: true, sent: successCount, failed: failCount };
+  }
+  
+  // Check if campaign is complete
+  const isCompleted = await isCampaignCompleted(campaignId);
+  
+  if (isCompleted) {
+    await finalizeCampaign(campaignId);
+  }
+  
+  return {
+    done: isCompleted,
+    sent: successCount,
+    failed: failCount,
+    retryAfterMs,
+    nextBatchDelayMs: campaign.messageDelayMs,
+  };
+}
+
+interface WorkerOptions {
+  // Only work on this campaign's job
+  campaignId?: string;
+  // Stop after this many batches
+  maxBatches?: number;
+  timeBudgetMs?: number;
+}
+
+interface WorkerResult {
+  batches: number;
+  sent: number;
+  failed: number;
+  // True if due work was left behind when the worker stopped
+  hasMoreWork: boolean;
+}
+
+/**
+ * Claim and run send jobs until there is no due work or the time budget runs out
+ */
+export async function runSendWorker(options: WorkerOptions = {}): Promise<WorkerResult> {
+  const {
+    campaignId,
+    maxBatches = Infinity,
+    timeBudgetMs = WORKER_TIME_BUDGET_MS,
+  } = options;
+  
+  const workerId = `worker-${process.pid}-${generateRandomString(6)}`;
+  const deadline = Date.now() + timeBudgetMs;
+  const result: WorkerResult = { batches: 0, sent: 0, failed: 0, hasMoreWork: false };
+  
+  while (Date.now() < deadline && result.batches < maxBatches) {
+    // Leave every job where it is while sending is stopped instance-wide
+    const instanceHalt = await getInstanceHalt();
+    
+    if (instanceHalt) {
+      console.log(`Send worker ${workerId} not running: ${describeSendingHalt(instanceHalt)}`);
+      break;
     }
     
-    return true;
-  } catch (error) {
-    console.error(`Error processing batch ${batchIndex} for campaign ${campaignId}:`, error);
+    const job = await claimNextJob(workerId, campaignId);
     
-    // Update campaign with error
-    await prisma.campaign.update({
-      where: { id: campaignId },
-      data: {
-        lastError: error instanceof Error ? error.message : 'Unknown error'
-      },
-    });
+    if (!job) {
+      // Wait for the next job if it becomes due while we still have time
+      const nextRunAt = campaignId ? null : await getNextPendingRunAt();
+      if (nextRunAt && nextRunAt.getTime() < deadline - 5000) {
+        await sleep(Math.max(nextRunAt.getTime() - Date.now(), 0));
+        continue;
+      }
+      break;
+    }
     
-    return false;
+    result.batches++;
+    
+    // Keep the lease alive through long batches so no other worker claims the job mid-send
+    let leaseLost = false;
+    const heartbeat = setInterval(() => {
+      extendJobLease(job.id, workerId)
+        .then(held => { leaseLost = leaseLost || !held; })
+        .catch(error => console.error(`Error extending the lease of send job ${job.id}:`, error));
+    }, LEASE_RENEW_MS);
+    
+    try {
+      const outcome = await processBatchDirect(job.campaignId, deadline, () => leaseLost);
+      result.sent += outcome.sent;
+      result.failed += outcome.failed;
+      
+      if (outcome.done) {
+        await completeJob(job.id, workerId);
+      } else {
+        const delayMs = Math.max(BATCH_DELAY_MS, outcome.nextBatchDelayMs ?? 0, outcome.retryAfterMs ?? 0);
+        await rescheduleJob(job.id, workerId, new Date(Date.now() + delayMs));
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`Error processing send job ${job.id} for campaign ${job.campaignId}:`, error);
+      
+      const gaveUp = await failJob(job, workerId, errorMessage);
+      
+      // Update campaign with error
+      await prisma.campaign.update({
+        where: { id: job.campaignId },
+        data: {
+          lastError: errorMessage,
+          ...(gaveUp ? { status: 'failed' } : {}),
+        },
+      });
+    } finally {
+      clearInterval(heartbeat);
+    }
   }
+  
+  // Report whether a follow-up run is needed
+  const nextRunAt = await getNextPendingRunAt();
+  result.hasMoreWork = nextRunAt !== null && nextRunAt.getTime() <= Date.now() + BATCH_DELAY_MS;
+  
+  console.log(`Send worker ${workerId} finished: ${result.batches} batches, ${result.sent} sent, ${result.failed} failed`);
+  
+  return result;
 }
 
-
-// lib/queue.ts (tambahkan fungsi ini)
-
 /**
- * Fungsi untuk memeriksa dan memulai ulang webhook
- * Berguna untuk Vercel Hobby Plan yang tidak mendukung cron jobs
+ * Requeue processing campaigns whose send job has gone missing or failed
  */
 export async function checkAndResumeWebhooks() {
   // Cek kampanye yang sedang berjalan tapi tidak ada aktivitas selama 5 menit
@@ -650,85 +1103,79 @@ export async function checkAndResumeWebhooks() {
     },
     select: {
       id: true,
-      nextBatchIndex: true,
     },
   });
   
-  // Restart webhook untuk kampanye yang aktif
   for (const campaign of activeCampaigns) {
-    await triggerProcessBatch(campaign.id, campaign.nextBatchIndex || 0);
+    await triggerProcessBatch(campaign.id);
   }
 }
 
 /**
- * Modifikasi triggerProcessBatch untuk lebih tahan terhadap kegagalan
+ * Wake a worker through the process-campaign webhook
  */
-export async function triggerProcessBatch(campaignId: string, batchIndex: number): Promise<boolean> {
+export async function kickSendWorker(): Promise<boolean> {
+  // Gunakan URL absolut untuk webhook
+  const baseUrl = process.env.NEXTAUTH_URL || 'http://localhost:3000';
+  const webhookUrl = `${baseUrl}/api/webhooks/process-campaign`;
+  
+  // Tambahkan header dan timeout yang sesuai
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), 10000); // 10 detik timeout
+  
   try {
-    // Gunakan URL absolut untuk webhook
-    const baseUrl = process.env.NEXTAUTH_URL || 'http://localhost:3000';
-    const webhookUrl = `${baseUrl}/api/webhooks/process-campaign`;
-    
-    console.log(`Triggering batch ${batchIndex} for campaign ${campaignId} at ${webhookUrl}`);
-    
-    // Tambahkan header dan timeout yang sesuai
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 10000); // 10 detik timeout
+    const response = await fetch(webhookUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'BrevoEmailApp/1.0',
+        'Cache-Control': 'no-store, no-cache, must-revalidate',
+      },
+      body: JSON.stringify({
+        secret: process.env.WEBHOOK_SECRET,
+        timestamp: Date.now() // Add timestamp to prevent caching
+      }),
+      signal: controller.signal
+    });
     
-    try {
-      const response = await fetch(webhookUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'User-Agent': 'BrevoEmailApp/1.0',
-          'Cache-Control': 'no-store, no-cache, must-revalidate',
-        },
-        body: JSON.stringify({
-          campaignId,
-          batchIndex,
-          secret: process.env.WEBHOOK_SECRET,
-          timestamp: Date.now() // Add timestamp to prevent caching
-        }),
-        signal: controller.signal
-      });
-      
-      clearTimeout(timeoutId);
-      
-      // Log status response untuk debugging
-      console.log(`Webhook response status: ${response.status}`);
-      
-      if (!response.ok) {
-        const responseText = await response.text();
-        console.warn(`Webhook responded with non-OK status: ${response.status}, body: ${responseText}`);
-        
-        // For Vercel Hobby Plan: If webhook fails, try direct processing
-        try {
-          await processBatchDirect(campaignId, batchIndex);
-          console.log(`Direct processing successful for campaign ${campaignId} batch ${batchIndex}`);
-          return true;
-        } catch (directError) {
-          console.error(`Direct processing failed: ${directError}`);
-          return false;
-        }
-      }
-      
-      return true;
-    } catch (fetchError) {
-      console.error(`Error calling webhook: ${fetchError}`);
-      clearTimeout(timeoutId);
-      
-      // For Vercel Hobby Plan: If webhook fails, try direct processing
-      try {
-        await processBatchDirect(campaignId, batchIndex);
-        console.log(`Direct processing successful after webhook failure for campaign ${campaignId}`);
-        return true;
-      } catch (directError) {
-        console.error(`Direct processing failed: ${directError}`);
-        return false;
-      }
+    if (!response.ok) {
+      const responseText = await response.text();
+      console.warn(`Webhook responded with non-OK status: ${response.status}, body: ${responseText}`);
+      return false;
     }
+    
+    return true;
+  } catch (fetchError) {
+    console.error(`Error calling webhook: ${fetchError}`);
+    return false;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * Queue a campaign's send job and wake a worker to run it
+ * The job is durable, so if no worker can be woken now the cron worker picks it up later
+ */
+export async function triggerProcessBatch(campaignId: string): Promise<boolean> {
+  try {
+    console.log(`Queueing send job for campaign ${campaignId}`);
+    await enqueueCampaignJob(campaignId);
   } catch (error) {
-    console.error(`Error triggering batch processing for campaign ${campaignId}:`, error);
+    console.error(`Error queueing send job for campaign ${campaignId}:`, error);
     return false;
   }
-}
\ No newline at end of file
+  
+  const kicked = await kickSendWorker();
+  
+  // For Vercel Hobby Plan: If webhook fails, run one batch inline
+  if (!kicked) {
+    try {
+      await runSendWorker({ campaignId, maxBatches: 1 });
+    } catch (directError) {
+      console.error(`Direct processing failed: ${directError}`);
+    }
+  }
+  
+  return true;
+}
@@ -0,0 +1,127 @@
+// lib/rate-limit.ts
+import { Campaign, SmtpConfig } from '@prisma/client';
+import { prisma } from './db';
+import { sleep } from './utils';
+
+interface TokenResult {
+  allowed: boolean;
+  // How long to wait before a token is likely to be available
+  retryAfterMs: number;
+}
+
+interface BucketLimit {
+  key: string;
+  capacity: number;
+  windowMs: number;
+}
+
+/**
+ * Try to take one token from a shared bucket that refills `capacity` tokens every `windowMs`
+ */
+export async function takeToken(key: string, capacity: number, windowMs: number): Promise<TokenResult> {
+  const refillPerMs = capacity / windowMs;
+
+  // Refill and consume in one statement so concurrent senders can't overdraw the bucket
+  const rows = await prisma.$queryRaw<{ tokens: number }[]>`
+    INSERT INTO "RateLimitBucket" ("key", "tokens", "refilledAt")
+    VALUES (${key}, ${capacity - 1}, NOW())
+    ON CONFLICT ("key") DO UPDATE
+    SET "tokens" = LEAST(${capacity}::float8, "RateLimitBucket"."tokens" + EXTRACT(EPOCH FROM (NOW() - "RateLimitBucket"."refilledAt")) * 1000 * ${refillPerMs}::float8) - 1,
+        "refilledAt" = NOW()
+    WHERE LEAST(${capacity}::float8, "RateLimitBucket"."tokens" + EXTRACT(EPOCH FROM (NOW() - "RateLimitBucket"."refilledAt")) * 1000 * ${refillPerMs}::float8) >= 1
+    RETURNING "tokens"`;
+
+  if (rows.length > 0) {
+    return { allowed: true, retryAfterMs: 0 };
+  }
+
+  // Bucket is empty: work out when the next token arrives
+  const bucket = await prisma.rateLimitBucket.findUnique({ where: { key } });
+  const available = bucket
+    ? Math.min(capacity, bucket.tokens + (Date.now() - bucket.refilledAt.getTime()) * refillPerMs)
+    : capacity;
+
+  return {
+    allowed: false,
+    retryAfterMs: Math.max(Math.ceil((1 - available) / refillPerMs), 100),
+  };
+}
+
+/**
+ * Put back a token that was taken but not used
+ */
+export async function refundToken(key: string, capacity: number): Promise<void> {
+  await prisma.$executeRaw`
+    UPDATE "RateLimitBucket"
+    SET "tokens" = LEAST(${capacity}::float8, "tokens" + 1)
+    WHERE "key" = ${key}`;
+}
+
+/**
+ * Get the per-minute and per-hour buckets configured for an SMTP config
+ */
+function getSmtpLimits(smtpConfig: SmtpConfig): BucketLimit[] {
+  const limits: BucketLimit[] = [];
+
+  if (smtpConfig.perMinute && smtpConfig.perMinute > 0) {
+    limits.push({ key: `smtp:${smtpConfig.id}:minute`, capacity: smtpConfig.perMinute, windowMs: 60 * 1000 });
+  }
+
+  if (smtpConfig.perHour && smtpConfig.perHour > 0) {
+    limits.push({ key: `smtp:${smtpConfig.id}:hour`, capacity: smtpConfig.perHour, windowMs: 60 * 60 * 1000 });
+  }
+
+  return limits;
+}
+
+/**
+ * Take a send slot from every limit on an SMTP config, or none of them
+ */
+export async function acquireSmtpSendSlot(smtpConfig: SmtpConfig): Promise<TokenResult> {
+  const taken: BucketLimit[] = [];
+
+  for (const limit of getSmtpLimits(smtpConfig)) {
+    const result = await takeToken(limit.key, limit.capacity, limit.windowMs);
+
+    if (!result.allowed) {
+      // Give back tokens from the windows that did have room
+      for (const previous of taken) {
+        await refundToken(previous.key, previous.capacity);
+      }
+      return result;
+    }
+
+    taken.push(limit);
+  }
+
+  return { allowed: true, retryAfterMs: 0 };
+}
+
+/**
+ * Wait for a send slot on an SMTP config for up to maxWaitMs
+ * Returns the last result so callers can reschedule when the wait would be too long
+ */
+export async function waitForSmtpSendSlot(smtpConfig: SmtpConfig, maxWaitMs = 10000): Promise<TokenResult> {
+  const deadline = Date.now() + maxWaitMs;
+
+  while (true) {
+    const result = await acquireSmtpSendSlot(smtpConfig);
+
+    if (result.allowed || Date.now() + result.retryAfterMs > deadline) {
+      return result;
+    }
+
+    await sleep(result.retryAfterMs);
+  }
+}
+
+/**
+ * Take a send slot from a campaign's own per-minute cap, if it has one
+ */
+export async function acquireCampaignSendSlot(campaign: Pick<Campaign, 'id' | 'maxPerMinute'>): Promise<TokenResult> {
+  if (!campaign.maxPerMinute || campaign.maxPerMinute <= 0) {
+    return { allowed: true, retryAfterMs: 0 };
+  }
+
+  return takeToken(`campaign:${campaign.id}:minute`, campaign.maxPerMinute, 60 * 1000);
+}
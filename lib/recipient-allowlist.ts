@@ -0,0 +1,106 @@
+// lib/recipient-allowlist.ts
+import type { MailMessage } from './mail-transport';
+
+/**
+ * Staging safeguard that keeps mail inside a known set of recipients
+ * RECIPIENT_ALLOWLIST is a comma separated list of addresses, domains ("example.com" or
+ * "@example.com") and * wildcards ("*@*.example.com"). With RECIPIENT_ALLOWLIST_REDIRECT set,
+ * recipients outside the list are rewritten to that address; otherwise they are blocked.
+ * Without RECIPIENT_ALLOWLIST nothing is filtered.
+ */
+function getAllowlistPatterns(): RegExp[] {
+  return (process.env.RECIPIENT_ALLOWLIST ?? '')
+    .split(',')
+    .map(entry => entry.trim().toLowerCase())
+    .filter(Boolean)
+    .map(entry => {
+      // A bare domain covers every address at it
+      const pattern = entry.includes('@') ? entry : `*@${entry}`;
+      const escaped = pattern
+        .split('*')
+        .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+        .join('.*');
+      return new RegExp(`^${escaped}$`);
+    });
+}
+
+export function isAllowlistEnabled(): boolean {
+  return getAllowlistPatterns().length > 0;
+}
+
+function getRedirectAddress(): string | null {
+  return process.env.RECIPIENT_ALLOWLIST_REDIRECT?.trim() || null;
+}
+
+/**
+ * Pull the bare address out of "Name <user@example.com>"
+ */
+function extractAddress(value: string): string {
+  const match = value.match(/<([^>]+)>/);
+  return (match ? match[1] : value).trim().toLowerCase();
+}
+
+/**
+ * Whether an address may receive mail, always true when no allowlist is set
+ */
+export function isRecipientAllowed(email: string): boolean {
+  const patterns = getAllowlistPatterns();
+
+  if (patterns.length === 0) {
+    return true;
+  }
+
+  const address = extractAddress(email);
+  return patterns.some(pattern => pattern.test(address));
+}
+
+/**
+ * Whether recipients outside the allowlist are blocked rather than redirected
+ */
+export function isAllowlistBlocking(): boolean {
+  return isAllowlistEnabled() && !getRedirectAddress();
+}
+
+/**
+ * Apply the allowlist to a message right before it goes out
+ * Redirected messages keep the original recipient in an X-Original-To header. A blocked
+ * primary recipient fails the send with code EALLOWLIST, which is never retried.
+ */
+export function applyRecipientAllowlist(message: MailMessage): MailMessage {
+  if (!isAllowlistEnabled()) {
+    return message;
+  }
+
+  const redirect = getRedirectAddress();
+  const cc = message.cc ?? [];
+  const bcc = message.bcc ?? [];
+
+  if (redirect) {
+    const rewritten = [message.to, ...cc, ...bcc].filter(address => !isRecipientAllowed(address));
+
+    if (rewritten.length === 0) {
+      return message;
+    }
+
+    return {
+      ...message,
+      to: isRecipientAllowed(message.to) ? message.to : redirect,
+      // Copies outside the list would all land in the redirect inbox, once is enough
+      cc: cc.filter(isRecipientAllowed),
+      bcc: bcc.filter(isRecipientAllowed),
+      headers: { ...message.headers, 'X-Original-To': rewritten.map(extractAddress).join(', ') },
+    };
+  }
+
+  if (!isRecipientAllowed(message.to)) {
+    throw Object.assign(new Error(`Recipient ${extractAddress(message.to)} is outside the recipient allowlist`), {
+      code: 'EALLOWLIST',
+    });
+  }
+
+  return {
+    ...message,
+    cc: cc.filter(isRecipientAllowed),
+    bcc: bcc.filter(isRecipientAllowed),
+  };
+}
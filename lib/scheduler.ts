@@ -0,0 +1,219 @@
+// lib/scheduler.ts
+import { Prisma } from '@prisma/client';
+import { prisma } from './db';
+import { enqueueCampaignJob } from './send-jobs';
+import { startCampaignProcessing, triggerProcessBatch } from './queue';
+
+/**
+ * Periodic campaign housekeeping shared by the cron routes and the standalone scheduler worker
+ * With `wake` the send job is handed to a worker through the process-campaign webhook; the
+ * standalone worker leaves it off because it drains the send jobs itself.
+ */
+interface SchedulerOptions {
+  wake?: boolean;
+}
+
+export interface DispatchResult {
+  id: string;
+  name: string;
+  success: boolean;
+  error: string | null;
+}
+
+export interface StalledCampaignResult {
+  id: string;
+  name: string;
+  action: 'restarted' | 'finalized' | 'failed';
+  reason: string;
+}
+
+/**
+ * Processing campaigns with no activity for `stalledAfterMs`
+ * Campaigns waiting for an A/B test winner, a scheduled retry or a delayed send job are quiet
+ * on purpose and don't count.
+ */
+export function stalledCampaignWhere(stalledAfterMs: number, now = new Date()): Prisma.CampaignWhereInput {
+  return {
+    status: 'processing',
+    lastProcessedAt: { lt: new Date(now.getTime() - stalledAfterMs) },
+    OR: [{ abTestStatus: null }, { abTestStatus: { not: 'waiting' } }],
+    NOT: [
+      { sendJob: { is: { status: 'pending', runAt: { gt: now } } } },
+      {
+        AND: [
+          { recipients: { some: { status: 'pending' } } },
+          { recipients: { none: { status: 'pending', OR: [{ nextAttemptAt: null }, { nextAttemptAt: { lte: now } }] } } },
+        ],
+      },
+    ],
+  };
+}
+
+/**
+ * Start scheduled campaigns whose time has come
+ * Users who stopped their own sending keep their campaigns queued.
+ */
+export async function dispatchScheduledCampaigns(now = new Date(), options: SchedulerOptions = {}): Promise<DispatchResult[]> {
+  const { wake = true } = options;
+
+  const dueCampaigns = await prisma.campaign.findMany({
+    where: {
+      isScheduled: true,
+      scheduledFor: { lte: now },
+      status: 'queued',
+      user: { sendingHaltedAt: null },
+    },
+    select: { id: true, name: true },
+  });
+
+  if (dueCampaigns.length > 0) {
+    console.log(`Found ${dueCampaigns.length} scheduled campaigns to process`);
+  }
+
+  const results: DispatchResult[] = [];
+
+  for (const campaign of dueCampaigns) {
+    try {
+      // Claim the campaign so another instance or cron run can't start it twice
+      const { count } = await prisma.campaign.updateMany({
+        where: { id: campaign.id, status: 'queued', isScheduled: true },
+        data: {
+          status: 'processing',
+          isScheduled: false,
+          startedAt: new Date(),
+          lastProcessedAt: new Date(),
+        },
+      });
+
+      if (count === 0) {
+        console.log(`Campaign ${campaign.id} has already been processed or status changed`);
+        continue;
+      }
+
+      console.log(`Starting scheduled campaign: ${campaign.id} (${campaign.name})`);
+
+      let success = true;
+
+      if (wake) {
+        success = await startCampaignProcessing(campaign.id);
+      } else {
+        await enqueueCampaignJob(campaign.id);
+      }
+
+      results.push({
+        id: campaign.id,
+        name: campaign.name,
+        success,
+        error: success ? null : 'Failed to start campaign processing',
+      });
+    } catch (error) {
+      console.error(`Error processing scheduled campaign ${campaign.id}:`, error);
+
+      results.push({
+        id: campaign.id,
+        name: campaign.name,
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Restart processing campaigns with no activity for a while, or finalize them if nothing is left
+ */
+export async function resumeStalledCampaigns(stalledAfterMs: number, options: SchedulerOptions = {}): Promise<StalledCampaignResult[]> {
+  const { wake = true } = options;
+
+  const stalledCampaigns = await prisma.campaign.findMany({
+    where: {
+      ...stalledCampaignWhere(stalledAfterMs),
+      user: { sendingHaltedAt: null },
+    },
+    select: { id: true, name: true, lastProcessedAt: true },
+  });
+
+  if (stalledCampaigns.length > 0) {
+    console.log(`Found ${stalledCampaigns.length} stalled campaigns`);
+  }
+
+  const results: StalledCampaignResult[] = [];
+
+  for (const campaign of stalledCampaigns) {
+    console.log(`Restarting stalled campaign: ${campaign.id}`);
+
+    try {
+      // Update timestamp to mark campaign as being processed
+      await prisma.campaign.update({
+        where: { id: campaign.id },
+        data: {
+          lastProcessedAt: new Date(),
+          lastError: `Auto-restarted after stalling at ${campaign.lastProcessedAt ? campaign.lastProcessedAt.toISOString() : 'unknown time'}`,
+        },
+      });
+
+      const pendingCount = await prisma.recipient.count({
+        where: { campaignId: campaign.id, status: 'pending' },
+      });
+
+      if (pendingCount === 0) {
+        // Mark as partial since it stalled
+        await prisma.campaign.update({
+          where: { id: campaign.id },
+          data: { status: 'partial', completedAt: new Date() },
+        });
+
+        results.push({ id: campaign.id, name: campaign.name, action: 'finalized', reason: 'No pending recipients found' });
+        continue;
+      }
+
+      if (wake) {
+        const triggered = await triggerProcessBatch(campaign.id);
+
+        results.push({
+          id: campaign.id,
+          name: campaign.name,
+          action: triggered ? 'restarted' : 'failed',
+          reason: triggered ? 'Stalled campaign restarted' : 'Failed to queue the send job',
+        });
+      } else {
+        await enqueueCampaignJob(campaign.id);
+        results.push({ id: campaign.id, name: campaign.name, action: 'restarted', reason: 'Stalled campaign restarted' });
+      }
+    } catch (error) {
+      console.error(`Error restarting stalled campaign ${campaign.id}:`, error);
+
+      results.push({
+        id: campaign.id,
+        name: campaign.name,
+        action: 'failed',
+        reason: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Reset the daily counters of configs not reset yet today
+ * Safe to call on every tick; sending also resets a config lazily on its first send of the day.
+ */
+export async function resetDailySmtpQuotas(now = new Date()): Promise<number> {
+  const startOfDay = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+
+  const { count } = await prisma.smtpConfig.updateMany({
+    where: {
+      OR: [{ lastQuotaReset: null }, { lastQuotaReset: { lt: startOfDay } }],
+    },
+    data: {
+      usedToday: 0,
+      lastUsed: null,
+      lastQuotaReset: now,
+    },
+  });
+
+  return count;
+}
@@ -0,0 +1,169 @@
+// lib/send-jobs.ts
+import { SendJob } from '@prisma/client';
+import { prisma } from './db';
+
+// How long a worker may hold a job before another worker is allowed to take it over
+export const JOB_LEASE_MS = 2 * 60 * 1000;
+
+/**
+ * Create or re-arm the send job for a campaign
+ */
+export async function enqueueCampaignJob(campaignId: string, runAt: Date = new Date()): Promise<SendJob> {
+  const job = await prisma.sendJob.upsert({
+    where: { campaignId },
+    create: { campaignId, runAt },
+    update: {},
+  });
+
+  // A worker holds a live lease: ask it to run the job again instead of completing it,
+  // e.g. a resume that arrives while the batch is stopping for the pause
+  const { count } = await prisma.sendJob.updateMany({
+    where: { id: job.id, status: 'running', lockedUntil: { gt: new Date() } },
+    data: { rearmAt: runAt },
+  });
+
+  if (count > 0) {
+    return job;
+  }
+
+  return prisma.sendJob.update({
+    where: { id: job.id },
+    data: {
+      status: 'pending',
+      runAt,
+      lockedUntil: null,
+      lockedBy: null,
+      rearmAt: null,
+      // A re-armed failed job starts with a clean slate
+      attempts: job.status === 'failed' ? 0 : job.attempts,
+    },
+  });
+}
+
+/**
+ * Atomically claim the next due job (or one whose lease has expired)
+ */
+export async function claimNextJob(workerId: string, campaignId?: string): Promise<SendJob | null> {
+  const leaseUntil = new Date(Date.now() + JOB_LEASE_MS);
+
+  // SKIP LOCKED lets concurrent workers claim different jobs without blocking each other
+  const jobs = campaignId
+    ? await prisma.$queryRaw<SendJob[]>`
+        UPDATE "SendJob"
+        SET "status" = 'running', "lockedUntil" = ${leaseUntil}, "lockedBy" = ${workerId}, "updatedAt" = NOW()
+        WHERE "id" = (
+          SELECT "id" FROM "SendJob"
+          WHERE "campaignId" = ${campaignId}
+            AND (("status" = 'pending' AND "runAt" <= NOW())
+              OR ("status" = 'running' AND "lockedUntil" < NOW()))
+          FOR UPDATE SKIP LOCKED
+        )
+        RETURNING *`
+    : await prisma.$queryRaw<SendJob[]>`
+        UPDATE "SendJob"
+        SET "status" = 'running', "lockedUntil" = ${leaseUntil}, "lockedBy" = ${workerId}, "updatedAt" = NOW()
+        WHERE "id" = (
+          SELECT "id" FROM "SendJob"
+          WHERE ("status" = 'pending' AND "runAt" <= NOW())
+             OR ("status" = 'running' AND "lockedUntil" < NOW())
+          ORDER BY "runAt" ASC
+          LIMIT 1
+          FOR UPDATE SKIP LOCKED
+        )
+        RETURNING *`;
+
+  return jobs[0] ?? null;
+}
+
+/**
+ * Push back a held job's lease while its batch is still running
+ * Returns false if the lease was lost to another worker
+ */
+export async function extendJobLease(jobId: string, workerId: string): Promise<boolean> {
+  const { count } = await prisma.sendJob.updateMany({
+    where: { id: jobId, lockedBy: workerId, status: 'running' },
+    data: { lockedUntil: new Date(Date.now() + JOB_LEASE_MS) },
+  });
+
+  return count > 0;
+}
+
+/**
+ * Release a job after a successful batch, scheduling the next one
+ */
+export async function rescheduleJob(jobId: string, workerId: string, runAt: Date): Promise<void> {
+  // Only the lease holder may release the job
+  await prisma.sendJob.updateMany({
+    where: { id: jobId, lockedBy: workerId },
+    data: {
+      status: 'pending',
+      runAt,
+      lockedUntil: null,
+      lockedBy: null,
+      rearmAt: null,
+      attempts: 0,
+      lastError: null,
+    },
+  });
+}
+
+/**
+ * Mark a job as finished once its campaign no longer needs processing
+ * A job re-armed during the batch goes back to pending instead.
+ */
+export async function completeJob(jobId: string, workerId: string): Promise<void> {
+  // One statement, so a re-arm can't slip in between reading and clearing rearmAt
+  await prisma.$executeRaw`
+    UPDATE "SendJob"
+    SET "status" = CASE WHEN "rearmAt" IS NULL THEN 'completed' ELSE 'pending' END,
+        "runAt" = COALESCE("rearmAt", "runAt"),
+        "rearmAt" = NULL,
+        "lockedUntil" = NULL,
+        "lockedBy" = NULL,
+        "attempts" = 0,
+        "lastError" = NULL,
+        "updatedAt" = NOW()
+    WHERE "id" = ${jobId} AND "lockedBy" = ${workerId}`;
+}
+
+/**
+ * Record a failed batch, backing off or giving up after maxAttempts
+ * Returns true if the job was given up on
+ */
+export async function failJob(job: SendJob, workerId: string, errorMessage: string): Promise<boolean> {
+  const attempts = job.attempts + 1;
+  const exhausted = attempts >= job.maxAttempts;
+
+
+  // Exponential backoff: 30s, 60s, 120s, ...
+  const backoffMs = Math.pow(2, attempts - 1) * 30 * 1000;
+
+  await prisma.sendJob.updateMany({
+    where: { id: job.id, lockedBy: workerId },
+    data: {
+      status: exhausted ? 'failed' : 'pending',
+      runAt: new Date(Date.now() + backoffMs),
+      lockedUntil: null,
+      lockedBy: null,
+      // Retried anyway, or the campaign is failed along with the job
+      rearmAt: null,
+      attempts,
+      lastError: errorMessage,
+    },
+  });
+
+  return exhausted;
+}
+
+/**
+ * Get the run time of the soonest pending job, if any
+ */
+export async function getNextPendingRunAt(): Promise<Date | null> {
+  const job = await prisma.sendJob.findFirst({
+    where: { status: 'pending' },
+    orderBy: { runAt: 'asc' },
+    select: { runAt: true },
+  });
+
+  return job?.runAt ?? null;
+}
@@ -0,0 +1,86 @@
+// lib/sending-halt.ts
+import { prisma } from './db';
+
+/**
+ * Stop switches for all outgoing mail
+ * The instance-wide switch is a SendingHalt row, or SENDING_HALTED=true when the database
+ * can't be reached; each user also has their own. Halted campaigns keep their status and
+ * pending recipients, and carry on once the switch is turned off.
+ */
+export interface SendingHaltStatus {
+  scope: 'instance' | 'user';
+  reason: string | null;
+  haltedAt: Date | null;
+}
+
+const INSTANCE_HALT_ID = 'instance';
+
+// How long a halted send job waits before looking again
+export const HALT_RECHECK_MS = 60 * 1000;
+
+/**
+ * Get the instance-wide halt, if sending is stopped for everyone
+ */
+export async function getInstanceHalt(): Promise<SendingHaltStatus | null> {
+  if (process.env.SENDING_HALTED === 'true') {
+    return { scope: 'instance', reason: 'SENDING_HALTED is set for this deployment', haltedAt: null };
+  }
+
+  const halt = await prisma.sendingHalt.findUnique({ where: { id: INSTANCE_HALT_ID } });
+
+  return halt ? { scope: 'instance', reason: halt.reason, haltedAt: halt.haltedAt } : null;
+}
+
+/**
+ * Get the halt that applies to a user's sending, instance-wide first
+ */
+export async function getSendingHalt(userId: string): Promise<SendingHaltStatus | null> {
+  const instanceHalt = await getInstanceHalt();
+
+  if (instanceHalt) {
+    return instanceHalt;
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { sendingHaltedAt: true, sendingHaltReason: true },
+  });
+
+  return user?.sendingHaltedAt
+    ? { scope: 'user', reason: user.sendingHaltReason, haltedAt: user.sendingHaltedAt }
+    : null;
+}
+
+/**
+ * Describe a halt for error messages and campaign logs
+ */
+export function describeSendingHalt(halt: SendingHaltStatus): string {
+  const scope = halt.scope === 'instance' ? 'Sending is stopped for all users' : 'Sending is stopped for this account';
+  return halt.reason ? `${scope}: ${halt.reason}` : scope;
+}
+
+export async function haltInstanceSending(reason: string | null): Promise<void> {
+  await prisma.sendingHalt.upsert({
+    where: { id: INSTANCE_HALT_ID },
+    create: { id: INSTANCE_HALT_ID, reason },
+    update: { reason, haltedAt: new Date() },
+  });
+}
+
+export async function resumeInstanceSending(): Promise<void> {
+  await prisma.sendingHalt.deleteMany({ where: { id: INSTANCE_HALT_ID } });
+}
+
+export async function haltUserSending(userId: string, reason: string | null): Promise<void> {
+  await prisma.user.update({
+    where: { id: userId },
+    data: { sendingHaltedAt: new Date(), sendingHaltReason: reason },
+  });
+}
+
+export async function resumeUserSending(userId: string): Promise<void> {
+  await prisma.user.update({
+    where: { id: userId },
+    data: { sendingHaltedAt: null, sendingHaltReason: null },
+  });
+}
@@ -0,0 +1,99 @@
+// lib/sending-profile.ts
+// Shared by CampaignForm and the server, so keep this free of server-only imports
+
+export interface SendingProfile {
+  // Recipients claimed per batch
+  batchSize: number;
+  // Pause after each group of concurrent sends
+  messageDelayMs: number;
+  // Campaign-wide cap across all workers; null means only the SMTP limits apply
+  maxPerMinute: number | null;
+  // Emails sent in parallel within a batch
+  concurrency: number;
+}
+
+export type SendingProfilePreset = 'gentle' | 'standard' | 'fast';
+
+export type SendingProfileName = SendingProfilePreset | 'custom';
+
+export const SENDING_PROFILE_PRESETS: Record<SendingProfilePreset, SendingProfile & { label: string; description: string }> = {
+  gentle: {
+    label: 'Gentle',
+    description: 'Slow and steady, for new domains or strict SMTP providers',
+    batchSize: 5,
+    messageDelayMs: 2000,
+    maxPerMinute: 20,
+    concurrency: 1,
+  },
+  standard: {
+    label: 'Standard',
+    description: 'Balanced speed for most campaigns',
+    batchSize: 10,
+    messageDelayMs: 500,
+    maxPerMinute: 60,
+    concurrency: 1,
+  },
+  fast: {
+    label: 'Fast',
+    description: 'High throughput for warmed-up domains and large quotas',
+    batchSize: 25,
+    messageDelayMs: 100,
+    maxPerMinute: 300,
+    concurrency: 3,
+  },
+};
+
+export const DEFAULT_SENDING_PROFILE: SendingProfilePreset = 'standard';
+
+// Bounds that keep a batch inside a single worker run
+const LIMITS = {
+  batchSize: { min: 1, max: 100 },
+  messageDelayMs: { min: 0, max: 60000 },
+  maxPerMinute: { min: 1, max: 10000 },
+  concurrency: { min: 1, max: 10 },
+};
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(Math.round(value), min), max);
+}
+
+function toNumber(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') {
+    return null;
+  }
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+/**
+ * Check if a string names a known sending profile
+ */
+export function isSendingProfileName(value: unknown): value is SendingProfileName {
+  return value === 'custom' || (typeof value === 'string' && Object.hasOwn(SENDING_PROFILE_PRESETS, value));
+}
+
+/**
+ * Build a sending profile from a preset name, with custom values filling in for 'custom'
+ * Values are clamped to safe bounds
+ */
+export function resolveSendingProfile(
+  name: SendingProfileName,
+  custom: Partial<Record<keyof SendingProfile, unknown>> = {}
+): SendingProfile {
+  if (name !== 'custom') {
+    const { batchSize, messageDelayMs, maxPerMinute, concurrency } = SENDING_PROFILE_PRESETS[name];
+    return { batchSize, messageDelayMs, maxPerMinute, concurrency };
+  }
+
+  const fallback = SENDING_PROFILE_PRESETS[DEFAULT_SENDING_PROFILE];
+  const maxPerMinute = toNumber(custom.maxPerMinute);
+
+  return {
+    batchSize: clamp(toNumber(custom.batchSize) ?? fallback.batchSize, LIMITS.batchSize.min, LIMITS.batchSize.max),
+    messageDelayMs: clamp(toNumber(custom.messageDelayMs) ?? fallback.messageDelayMs, LIMITS.messageDelayMs.min, LIMITS.messageDelayMs.max),
+    maxPerMinute: maxPerMinute && maxPerMinute > 0
+      ? clamp(maxPerMinute, LIMITS.maxPerMinute.min, LIMITS.maxPerMinute.max)
+      : null,
+    concurrency: clamp(toNumber(custom.concurrency) ?? fallback.concurrency, LIMITS.concurrency.min, LIMITS.concurrency.max),
+  };
+}
@@ -0,0 +1,179 @@
+// lib/smtp-errors.ts
+import { extractSmtpError } from './utils';
+
+export type SmtpFailureCategory =
+  | 'hard_bounce' // The address doesn't exist; it is suppressed
+  | 'rejected'    // Refused for policy, content or routing; the address itself may be fine
+  | 'soft_bounce' // Temporary problem on the recipient's side (mailbox full, greylisting)
+  | 'throttled'   // The server asked us to slow down
+  | 'auth'        // Our credentials were rejected
+  | 'network'     // Connection, DNS or timeout problem
+  | 'unknown';    // Not an SMTP failure (e.g. a bug while building the message)
+
+export interface SmtpFailure {
+  category: SmtpFailureCategory;
+  // Whether sending to the same recipient later may succeed
+  retryable: boolean;
+  code?: string;
+  enhancedCode?: string;
+  message: string;
+}
+
+// Nodemailer error codes raised before the server gave a reply
+const NETWORK_ERROR_CODES = ['ECONNECTION', 'ETIMEDOUT', 'ESOCKET', 'EDNS', 'ECONNREFUSED', 'ECONNRESET'];
+
+const THROTTLE_PATTERN = /rate|too many|throttl|try again later|slow down/i;
+
+/**
+ * Map an enhanced status code (class.subject.detail) to a category
+ */
+function classifyEnhancedCode(enhancedCode: string, message: string): SmtpFailureCategory | null {
+  const [statusClass, subject, detail] = enhancedCode.split('.').map(Number);
+  const permanent = statusClass === 5;
+
+  // X.7.8 invalid credentials, X.7.0 "authentication required"
+  if (subject === 7 && (detail === 8 || detail === 9 || (detail === 0 && /auth/i.test(message)))) {
+    return 'auth';
+  }
+
+  // 4.7.x is used by most providers for rate limiting (e.g. Gmail 4.7.28)
+  if (subject === 7 && !permanent) {
+    return 'throttled';
+  }
+
+  // 5.7.x policy rejections (5.7.1 relaying denied, spam blocks)
+  if (subject === 7) {
+    return 'rejected';
+  }
+
+  // X.1.x bad destination address (5.1.1 user unknown, 5.1.2 bad domain)
+  if (subject === 1) {
+    return permanent ? 'hard_bounce' : 'soft_bounce';
+  }
+
+  // X.2.x mailbox status; a full mailbox (X.2.2) may clear up later
+  if (subject === 2) {
+    if (detail === 2 || !permanent) {
+      return THROTTLE_PATTERN.test(message) ? 'throttled' : 'soft_bounce';
+    }
+    return 'rejected';
+  }
+
+  // X.4.x network and routing
+  if (subject === 4) {
+    return permanent ? 'rejected' : 'network';
+  }
+
+  return null;
+}
+
+/**
+ * Map a basic SMTP reply code to a category
+ */
+function classifyReplyCode(code: number, message: string): SmtpFailureCategory | null {
+  if (code === 530 || code === 534 || code === 535 || (code === 454 && /auth/i.test(message))) {
+    return 'auth';
+  }
+
+  if (code === 421 || code === 450 || code === 451) {
+    return THROTTLE_PATTERN.test(message) || code === 421 ? 'throttled' : 'soft_bounce';
+  }
+
+  // 552 exceeded storage allocation is usually a full mailbox
+  if (code === 552) {
+    return 'soft_bounce';
+  }
+
+  if (code >= 400 && code < 500) {
+    return 'soft_bounce';
+  }
+
+  // Without an enhanced code we can't tell a bad address from a policy block
+  if (code >= 500 && code < 600) {
+    return 'rejected';
+  }
+
+  return null;
+}
+
+/**
+ * Map the HTTP status of a failed API send (e.g. the Brevo transport) to a category
+ */
+function classifyHttpStatus(status: number): SmtpFailureCategory {
+  if (status === 401 || status === 403) {
+    return 'auth';
+  }
+
+  if (status === 429) {
+    return 'throttled';
+  }
+
+  if (status >= 500) {
+    return 'network';
+  }
+
+  // Any other 4xx means the request itself was rejected, retrying won't help
+  return 'unknown';
+}
+
+/**
+ * Classify a failed send into a category that decides whether and when to retry
+ */
+export function classifySmtpError(error: unknown): SmtpFailure {
+  const detail = extractSmtpError(error);
+  const errorCode = (error as { code?: string })?.code;
+  const httpStatus = (error as { httpStatus?: number })?.httpStatus;
+
+  let category: SmtpFailureCategory | null = null;
+
+  if (httpStatus) {
+    category = classifyHttpStatus(httpStatus);
+  } else if (errorCode === 'EAUTH') {
+    category = 'auth';
+  } else if (errorCode && NETWORK_ERROR_CODES.includes(errorCode)) {
+    category = 'network';
+  }
+
+  if (!category && detail.enhancedCode) {
+    category = classifyEnhancedCode(detail.enhancedCode, detail.message);
+  }
+
+  if (!category && detail.code) {
+    category = classifyReplyCode(Number(detail.code), detail.message);
+  }
+
+  // Our own send timeout in the queue
+  if (!category && /timed out/i.test(detail.message)) {
+    category = 'network';
+  }
+
+  const resolved = category ?? 'unknown';
+
+  return {
+    category: resolved,
+    retryable: resolved !== 'hard_bounce' && resolved !== 'rejected' && resolved !== 'unknown',
+    code: detail.code,
+    enhancedCode: detail.enhancedCode,
+    message: detail.message,
+  };
+}
+
+// Base delay before retrying each retryable category
+const RETRY_BASE_DELAY_MS: Record<SmtpFailureCategory, number> = {
+  hard_bounce: 0,
+  rejected: 0,
+  soft_bounce: 15 * 60 * 1000,
+  throttled: 5 * 60 * 1000,
+  auth: 10 * 60 * 1000,
+  network: 60 * 1000,
+  unknown: 0,
+};
+
+/**
+ * Get when a retryable failure should be attempted again
+ * Doubles the delay for every previous attempt
+ */
+export function getNextAttemptAt(category: SmtpFailureCategory, retryCount: number): Date {
+  const delayMs = RETRY_BASE_DELAY_MS[category] * Math.pow(2, Math.max(retryCount - 1, 0));
+  return new Date(Date.now() + delayMs);
+}
@@ -0,0 +1,169 @@
+// lib/smtp-routing.ts
+import { Campaign, SmtpConfig } from '@prisma/client';
+import { prisma } from './db';
+
+export const SMTP_ROUTING_POLICIES = ['pinned', 'round_robin', 'weighted', 'fallback'] as const;
+
+export type SmtpRoutingPolicy = typeof SMTP_ROUTING_POLICIES[number];
+
+export interface SmtpPoolEntry {
+  config: SmtpConfig;
+  weight: number;
+}
+
+// How long a config is skipped after an auth or connection failure
+const UNHEALTHY_COOLDOWN_MS = 5 * 60 * 1000;
+
+/**
+ * Check if a string names a known routing policy
+ */
+export function isSmtpRoutingPolicy(value: unknown): value is SmtpRoutingPolicy {
+  return typeof value === 'string' && (SMTP_ROUTING_POLICIES as readonly string[]).includes(value);
+}
+
+/**
+ * Load the SMTP configs a campaign may send through, in failover order
+ */
+export async function loadSmtpPool(
+  campaign: Pick<Campaign, 'id' | 'userId' | 'smtpConfigId' | 'smtpRoutingPolicy'>
+): Promise<SmtpPoolEntry[]> {
+  const entries: SmtpPoolEntry[] = [];
+
+  if (campaign.smtpConfigId) {
+    const primary = await prisma.smtpConfig.findUnique({ where: { id: campaign.smtpConfigId } });
+    if (primary) {
+      entries.push({ config: primary, weight: 1 });
+    }
+  }
+
+  if (campaign.smtpRoutingPolicy !== 'pinned') {
+    const pool = await prisma.campaignSmtpConfig.findMany({
+      where: { campaignId: campaign.id },
+      include: { smtpConfig: true },
+      orderBy: { position: 'asc' },
+    });
+
+    for (const member of pool) {
+      const existing = entries.find(entry => entry.config.id === member.smtpConfigId);
+      if (existing) {
+        existing.weight = member.weight;
+      } else {
+        entries.push({ config: member.smtpConfig, weight: member.weight });
+      }
+    }
+  }
+
+  // Campaigns without a usable config fall back to any of the user's configs, least used first
+  if (entries.length === 0) {
+    const configs = await prisma.smtpConfig.findMany({
+      where: { userId: campaign.userId },
+      orderBy: [{ usedToday: 'asc' }, { lastUsed: 'asc' }],
+    });
+    return configs.map(config => ({ config, weight: 1 }));
+  }
+
+  return entries;
+}
+
+/**
+ * Order the pool for one send: the first config is the one to use, the rest are failover targets
+ * `sequence` is a running counter of sends in the campaign, used by round-robin
+ */
+export function orderSmtpCandidates(
+  pool: SmtpPoolEntry[],
+  policy: string,
+  sequence: number
+): SmtpConfig[] {
+  let ordered = pool;
+
+  if (policy === 'round_robin' && pool.length > 1) {
+    const start = sequence % pool.length;
+    ordered = [...pool.slice(start), ...pool.slice(0, start)];
+  } else if (policy === 'weighted' && pool.length > 1) {
+    const totalWeight = pool.reduce((sum, entry) => sum + Math.max(entry.weight, 0), 0);
+    let pick = Math.random() * totalWeight;
+    const chosen = pool.find(entry => (pick -= Math.max(entry.weight, 0)) < 0) ?? pool[0];
+    ordered = [chosen, ...pool.filter(entry => entry !== chosen)];
+  }
+
+  // Healthy configs first; unhealthy ones stay as a last resort
+  const now = Date.now();
+  const isHealthy = (config: SmtpConfig) => !config.unhealthyUntil || config.unhealthyUntil.getTime() <= now;
+  const configs = ordered.map(entry => entry.config);
+
+  return [...configs.filter(isHealthy), ...configs.filter(config => !isHealthy(config))];
+}
+
+/**
+ * Count one send against a config's daily quota
+ * Returns false if the quota is used up for today
+ */
+export async function reserveSmtpQuota(config: SmtpConfig): Promise<boolean> {
+  const now = new Date();
+  const startOfDay = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+
+  // Reset the counter on the first send of a new day
+  if (!config.lastQuotaReset || config.lastQuotaReset < startOfDay) {
+    await prisma.smtpConfig.updateMany({
+      where: {
+        id: config.id,
+        OR: [{ lastQuotaReset: null }, { lastQuotaReset: { lt: startOfDay } }],
+      },
+      data: { usedToday: 0, lastQuotaReset: now },
+    });
+  }
+
+  // Conditional increment so concurrent senders can't overshoot the quota
+  const { count } = await prisma.smtpConfig.updateMany({
+    where: {
+      id: config.id,
+      usedToday: { lt: config.dailyQuota },
+    },
+    data: {
+      usedToday: { increment: 1 },
+      lastUsed: now,
+    },
+  });
+
+  return count > 0;
+}
+
+/**
+ * Give back a reservation for a message that wasn't accepted, so deferrals and failovers
+ * don't use up the daily quota
+ */
+export async function releaseSmtpQuota(config: SmtpConfig): Promise<void> {
+  await prisma.smtpConfig.updateMany({
+    where: { id: config.id, usedToday: { gt: 0 } },
+    data: { usedToday: { decrement: 1 } },
+  });
+}
+
+/**
+ * Take a config out of rotation for a while after an auth or connection failure
+ */
+export async function markSmtpUnhealthy(config: SmtpConfig, reason: string): Promise<void> {
+  const unhealthyUntil = new Date(Date.now() + UNHEALTHY_COOLDOWN_MS);
+  config.unhealthyUntil = unhealthyUntil;
+
+  await prisma.smtpConfig.update({
+    where: { id: config.id },
+    data: { unhealthyUntil, lastFailure: reason },
+  });
+}
+
+/**
+ * Put a config back into rotation once it sends successfully
+ */
+export async function markSmtpHealthy(config: SmtpConfig): Promise<void> {
+  if (!config.unhealthyUntil) {
+    return;
+  }
+
+  config.unhealthyUntil = null;
+
+  await prisma.smtpConfig.update({
+    where: { id: config.id },
+    data: { unhealthyUntil: null },
+  });
+}
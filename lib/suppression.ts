@@ -0,0 +1,73 @@
+// lib/suppression.ts
+import { Suppression } from '@prisma/client';
+import { prisma } from './db';
+
+export const SUPPRESSION_REASONS = ['hard_bounce', 'unsubscribe', 'complaint', 'manual'] as const;
+
+export type SuppressionReason = typeof SUPPRESSION_REASONS[number];
+
+// Keep `in` lists well below the Postgres bind parameter limit
+const LOOKUP_CHUNK_SIZE = 1000;
+
+/**
+ * Normalize an address so lookups are case-insensitive
+ */
+export function normalizeSuppressedEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+/**
+ * Suppress an address for a user
+ * The first reason recorded for an address is kept
+ */
+export async function addSuppression(
+  userId: string,
+  email: string,
+  reason: SuppressionReason,
+  campaignId?: string | null
+): Promise<Suppression> {
+  const normalized = normalizeSuppressedEmail(email);
+
+  return prisma.suppression.upsert({
+    where: { email_userId: { email: normalized, userId } },
+    create: {
+      email: normalized,
+      reason,
+      userId,
+      campaignId: campaignId ?? null,
+    },
+    update: {},
+  });
+}
+
+/**
+ * Check if a single address is suppressed for a user
+ */
+export async function getSuppression(userId: string, email: string): Promise<Suppression | null> {
+  return prisma.suppression.findUnique({
+    where: { email_userId: { email: normalizeSuppressedEmail(email), userId } },
+  });
+}
+
+/**
+ * Look up which of the given addresses are suppressed
+ * Returns a map of normalized email to suppression reason
+ */
+export async function getSuppressedEmails(userId: string, emails: string[]): Promise<Map<string, string>> {
+  const normalized = Array.from(new Set(emails.map(normalizeSuppressedEmail)));
+  const suppressed = new Map<string, string>();
+
+  for (let i = 0; i < normalized.length; i += LOOKUP_CHUNK_SIZE) {
+    const rows = await prisma.suppression.findMany({
+      where: {
+        userId,
+        email: { in: normalized.slice(i, i + LOOKUP_CHUNK_SIZE) },
+      },
+      select: { email: true, reason: true },
+    });
+
+    rows.forEach(row => suppressed.set(row.email, row.reason));
+  }
+
+  return suppressed;
+}
@@ -0,0 +1,105 @@
+// lib/unsubscribe.ts
+import crypto from 'crypto';
+import { prisma } from './db';
+import { addSuppression } from './suppression';
+
+function getUnsubscribeSecret(): string {
+  const secret = process.env.UNSUBSCRIBE_SECRET ?? process.env.NEXTAUTH_SECRET;
+
+  if (!secret) {
+    throw new Error('UNSUBSCRIBE_SECRET or NEXTAUTH_SECRET must be set to sign unsubscribe links');
+  }
+
+  return secret;
+}
+
+function signRecipientId(recipientId: string): string {
+  return crypto
+    .createHmac('sha256', getUnsubscribeSecret())
+    .update(`unsubscribe:${recipientId}`)
+    .digest('base64url');
+}
+
+/**
+ * Create a token that identifies a recipient without being guessable
+ */
+export function createUnsubscribeToken(recipientId: string): string {
+  return `${recipientId}.${signRecipientId(recipientId)}`;
+}
+
+/**
+ * Verify an unsubscribe token and return the recipient id it was issued for
+ */
+export function verifyUnsubscribeToken(token: string | null | undefined): string | null {
+  if (!token) {
+    return null;
+  }
+
+  const [recipientId, signature] = token.split('.');
+
+  if (!recipientId || !signature) {
+    return null;
+  }
+
+  const expected = Buffer.from(signRecipientId(recipientId));
+  const actual = Buffer.from(signature);
+
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  return recipientId;
+}
+
+/**
+ * Get the public unsubscribe URL for a recipient
+ * The same URL serves the List-Unsubscribe header (POST) and the link in the email (GET)
+ */
+export function getUnsubscribeUrl(recipientId: string): string {
+  const baseUrl = process.env.NEXTAUTH_URL ?? 'http://localhost:3000';
+  return `${baseUrl}/api/unsubscribe?token=${encodeURIComponent(createUnsubscribeToken(recipientId))}`;
+}
+
+/**
+ * Unsubscribe the address a recipient was sent to
+ * Suppresses it for the campaign owner and marks matching contacts as unsubscribed
+ */
+export async function unsubscribeRecipient(recipientId: string): Promise<{ email: string } | null> {
+  const recipient = await prisma.recipient.findUnique({
+    where: { id: recipientId },
+    select: {
+      email: true,
+      contactId: true,
+      campaignId: true,
+      campaign: {
+        select: { userId: true },
+      },
+    },
+  });
+
+  if (!recipient?.campaign) {
+    return null;
+  }
+
+  const userId = recipient.campaign.userId;
+
+  await addSuppression(userId, recipient.email, 'unsubscribe', recipient.campaignId);
+
+  // The recipient may come from a file upload, so match contacts by address too
+  await prisma.contact.updateMany({
+    where: {
+      userId,
+      subscriptionStatus: 'subscribed',
+      OR: [
+        ...(recipient.contactId ? [{ id: recipient.contactId }] : []),
+        { email: { equals: recipient.email, mode: 'insensitive' as const } },
+      ],
+    },
+    data: {
+      subscriptionStatus: 'unsubscribed',
+      unsubscribedAt: new Date(),
+    },
+  });
+
+  return { email: recipient.email };
+}
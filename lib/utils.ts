@@ -61,6 +61,35 @@ export function formatDateTime(date: DateLike): string {
   }
 }
 
+/**
+ * Formats a date and time in a timezone, with the zone's short name (e.g. "GMT+7")
+ * Without a timezone the browser's own is used
+ */
+export function formatDateTimeInZone(date: DateLike, timeZone?: string | null): string {
+  if (!date) return 'N/A';
+  
+  try {
+    const d = typeof date === 'string' ? new Date(date) : date;
+    if (!(d instanceof Date) || isNaN(d.getTime())) {
+      return 'Invalid date';
+    }
+    
+    return d.toLocaleString('en-US', {
+      timeZone: timeZone ?? undefined,
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
+      hour12: true,
+      timeZoneName: 'short',
+    });
+  } catch {
+    // Unknown timezone
+    return formatDateTime(date);
+  }
+}
+
 /**
  * Safely parse JSON with error handling
  */
@@ -124,8 +153,10 @@ export async function parseXmlToJson(xml: string): Promise<XmlParseResult> {
 }
 
 // Define a type for SMTP error
-interface SmtpErrorDetail {
+export interface SmtpErrorDetail {
   code?: string;
+  // Enhanced status code (RFC 3463), e.g. 5.1.1
+  enhancedCode?: string;
   message: string;
 }
 
@@ -134,20 +165,26 @@ interface SmtpErrorDetail {
  */
 export function extractSmtpError(error: unknown): SmtpErrorDetail {
   // Handle Nodemailer error format
-  const typedError = error as { response?: string; message?: string };
+  const typedError = error as { response?: string; responseCode?: number; message?: string };
   
   if (typedError?.response) {
-    const regex = /(\d+)\s+(.*)/;
-    const match = regex.exec(typedError.response);
+    // Multi-line replies use a dash after the code, e.g. "550-5.1.1 ..."
+    const regex = /^(\d{3})[\s-]+(.*)/;
+    const match = regex.exec(typedError.response.trim());
     if (match) {
+      const message = match[2] || typedError.message || 'Unknown SMTP error';
+      const enhancedMatch = /^([245]\.\d{1,3}\.\d{1,3})\b/.exec(message);
+      
       return {
         code: match[1],
-        message: match[2] ?? typedError.message ?? 'Unknown SMTP error',
+        enhancedCode: enhancedMatch?.[1],
+        message,
       };
     }
   }
   
   return {
+    code: typedError?.responseCode ? String(typedError.responseCode) : undefined,
     message: extractErrorMessage(error),
   };
 }
@@ -457,6 +494,10 @@ export function getCampaignStatusClass(status: string): string {
       return 'bg-blue-100 text-blue-800';
     case 'queued':
       return 'bg-purple-100 text-purple-800';
+    case 'paused':
+      return 'bg-orange-100 text-orange-800';
+    case 'cancelled':
+      return 'bg-gray-200 text-gray-600';
     default:
       return 'bg-gray-100 text-gray-800';
   }
@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "SendJob" (
+    "id" TEXT NOT NULL,
+    "campaignId" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "runAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lockedUntil" TIMESTAMP(3),
+    "lockedBy" TEXT,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "maxAttempts" INTEGER NOT NULL DEFAULT 5,
+    "lastError" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SendJob_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SendJob_campaignId_key" ON "SendJob"("campaignId");
+
+-- CreateIndex
+CREATE INDEX "SendJob_status_runAt_idx" ON "SendJob"("status", "runAt");
+
+-- AddForeignKey
+ALTER TABLE "SendJob" ADD CONSTRAINT "SendJob_campaignId_fkey" FOREIGN KEY ("campaignId") REFERENCES "Campaign"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "SmtpConfig" ADD COLUMN     "perHour" INTEGER,
+ADD COLUMN     "perMinute" INTEGER;
+
+-- CreateTable
+CREATE TABLE "RateLimitBucket" (
+    "key" TEXT NOT NULL,
+    "tokens" DOUBLE PRECISION NOT NULL,
+    "refilledAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "RateLimitBucket_pkey" PRIMARY KEY ("key")
+);
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "EmailLog" ADD COLUMN     "failureCategory" TEXT;
+
+-- AlterTable
+ALTER TABLE "Recipient" ADD COLUMN     "failureCategory" TEXT,
+ADD COLUMN     "nextAttemptAt" TIMESTAMP(3);
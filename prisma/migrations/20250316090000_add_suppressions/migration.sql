@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "Suppression" (
+    "id" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "reason" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "campaignId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Suppression_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Suppression_userId_createdAt_idx" ON "Suppression"("userId", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Suppression_email_userId_key" ON "Suppression"("email", "userId");
+
+-- AddForeignKey
+ALTER TABLE "Suppression" ADD CONSTRAINT "Suppression_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Suppression" ADD CONSTRAINT "Suppression_campaignId_fkey" FOREIGN KEY ("campaignId") REFERENCES "Campaign"("id") ON DELETE SET NULL ON UPDATE CASCADE;
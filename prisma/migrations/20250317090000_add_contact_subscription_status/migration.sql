@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Contact" ADD COLUMN     "subscriptionStatus" TEXT NOT NULL DEFAULT 'subscribed',
+ADD COLUMN     "unsubscribedAt" TIMESTAMP(3);
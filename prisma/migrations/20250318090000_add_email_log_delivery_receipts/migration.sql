@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "EmailLog" ADD COLUMN     "accepted" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "attempt" INTEGER,
+ADD COLUMN     "durationMs" INTEGER,
+ADD COLUMN     "messageId" TEXT,
+ADD COLUMN     "rejected" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "smtpResponse" TEXT;
+
+-- CreateIndex
+CREATE INDEX "EmailLog_messageId_idx" ON "EmailLog"("messageId");
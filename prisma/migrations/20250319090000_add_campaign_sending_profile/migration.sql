@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Campaign" ADD COLUMN     "concurrency" INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN     "maxPerMinute" INTEGER,
+ADD COLUMN     "messageDelayMs" INTEGER NOT NULL DEFAULT 500,
+ADD COLUMN     "sendingProfile" TEXT NOT NULL DEFAULT 'standard';
@@ -0,0 +1,22 @@
+-- AlterTable
+ALTER TABLE "Campaign" ADD COLUMN     "smtpRoutingPolicy" TEXT NOT NULL DEFAULT 'pinned';
+
+-- AlterTable
+ALTER TABLE "SmtpConfig" ADD COLUMN     "lastFailure" TEXT,
+ADD COLUMN     "unhealthyUntil" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "CampaignSmtpConfig" (
+    "campaignId" TEXT NOT NULL,
+    "smtpConfigId" TEXT NOT NULL,
+    "position" INTEGER NOT NULL DEFAULT 0,
+    "weight" INTEGER NOT NULL DEFAULT 1,
+
+    CONSTRAINT "CampaignSmtpConfig_pkey" PRIMARY KEY ("campaignId","smtpConfigId")
+);
+
+-- AddForeignKey
+ALTER TABLE "CampaignSmtpConfig" ADD CONSTRAINT "CampaignSmtpConfig_campaignId_fkey" FOREIGN KEY ("campaignId") REFERENCES "Campaign"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CampaignSmtpConfig" ADD CONSTRAINT "CampaignSmtpConfig_smtpConfigId_fkey" FOREIGN KEY ("smtpConfigId") REFERENCES "SmtpConfig"("id") ON DELETE CASCADE ON UPDATE CASCADE;
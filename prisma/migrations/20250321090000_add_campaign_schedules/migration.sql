@@ -0,0 +1,58 @@
+-- AlterTable
+ALTER TABLE "Campaign" ADD COLUMN     "scheduleId" TEXT,
+ADD COLUMN     "scheduledRunAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "CampaignSchedule" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "cronExpression" TEXT NOT NULL,
+    "timezone" TEXT NOT NULL DEFAULT 'UTC',
+    "startDate" TIMESTAMP(3),
+    "endDate" TIMESTAMP(3),
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "nextRunAt" TIMESTAMP(3),
+    "lastRunAt" TIMESTAMP(3),
+    "lastError" TEXT,
+    "templateId" TEXT NOT NULL,
+    "smtpConfigId" TEXT NOT NULL,
+    "parameterValues" JSONB,
+    "sendingProfile" TEXT NOT NULL DEFAULT 'standard',
+    "userId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CampaignSchedule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "CampaignScheduleGroup" (
+    "scheduleId" TEXT NOT NULL,
+    "groupId" TEXT NOT NULL,
+
+    CONSTRAINT "CampaignScheduleGroup_pkey" PRIMARY KEY ("scheduleId","groupId")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Campaign_scheduleId_scheduledRunAt_key" ON "Campaign"("scheduleId", "scheduledRunAt");
+
+-- CreateIndex
+CREATE INDEX "CampaignSchedule_isActive_nextRunAt_idx" ON "CampaignSchedule"("isActive", "nextRunAt");
+
+-- AddForeignKey
+ALTER TABLE "Campaign" ADD CONSTRAINT "Campaign_scheduleId_fkey" FOREIGN KEY ("scheduleId") REFERENCES "CampaignSchedule"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CampaignSchedule" ADD CONSTRAINT "CampaignSchedule_templateId_fkey" FOREIGN KEY ("templateId") REFERENCES "EmailTemplate"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CampaignSchedule" ADD CONSTRAINT "CampaignSchedule_smtpConfigId_fkey" FOREIGN KEY ("smtpConfigId") REFERENCES "SmtpConfig"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CampaignSchedule" ADD CONSTRAINT "CampaignSchedule_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CampaignScheduleGroup" ADD CONSTRAINT "CampaignScheduleGroup_scheduleId_fkey" FOREIGN KEY ("scheduleId") REFERENCES "CampaignSchedule"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CampaignScheduleGroup" ADD CONSTRAINT "CampaignScheduleGroup_groupId_fkey" FOREIGN KEY ("groupId") REFERENCES "ContactGroup"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,34 @@
+-- AlterTable
+ALTER TABLE "Campaign" ADD COLUMN     "abTestStatus" TEXT,
+ADD COLUMN     "abTestMetric" TEXT NOT NULL DEFAULT 'open',
+ADD COLUMN     "abTestSamplePercent" INTEGER NOT NULL DEFAULT 20,
+ADD COLUMN     "abTestWaitMinutes" INTEGER NOT NULL DEFAULT 240,
+ADD COLUMN     "abTestDecideAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "Recipient" ADD COLUMN     "variantId" TEXT;
+
+-- CreateTable
+CREATE TABLE "CampaignVariant" (
+    "id" TEXT NOT NULL,
+    "campaignId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "subject" TEXT,
+    "templateId" TEXT,
+    "isWinner" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CampaignVariant_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "CampaignVariant_campaignId_idx" ON "CampaignVariant"("campaignId");
+
+-- AddForeignKey
+ALTER TABLE "Recipient" ADD CONSTRAINT "Recipient_variantId_fkey" FOREIGN KEY ("variantId") REFERENCES "CampaignVariant"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CampaignVariant" ADD CONSTRAINT "CampaignVariant_campaignId_fkey" FOREIGN KEY ("campaignId") REFERENCES "Campaign"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CampaignVariant" ADD CONSTRAINT "CampaignVariant_templateId_fkey" FOREIGN KEY ("templateId") REFERENCES "EmailTemplate"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,49 @@
+-- CreateTable
+CREATE TABLE "SeedAddress" (
+    "id" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "name" TEXT,
+    "userId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SeedAddress_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ProofSend" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "templateId" TEXT,
+    "campaignId" TEXT,
+    "smtpConfigId" TEXT,
+    "seedEmail" TEXT NOT NULL,
+    "contactEmail" TEXT,
+    "subject" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "messageId" TEXT,
+    "errorMessage" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ProofSend_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SeedAddress_email_userId_key" ON "SeedAddress"("email", "userId");
+
+-- CreateIndex
+CREATE INDEX "ProofSend_userId_createdAt_idx" ON "ProofSend"("userId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "SeedAddress" ADD CONSTRAINT "SeedAddress_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ProofSend" ADD CONSTRAINT "ProofSend_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ProofSend" ADD CONSTRAINT "ProofSend_templateId_fkey" FOREIGN KEY ("templateId") REFERENCES "EmailTemplate"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ProofSend" ADD CONSTRAINT "ProofSend_campaignId_fkey" FOREIGN KEY ("campaignId") REFERENCES "Campaign"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ProofSend" ADD CONSTRAINT "ProofSend_smtpConfigId_fkey" FOREIGN KEY ("smtpConfigId") REFERENCES "SmtpConfig"("id") ON DELETE SET NULL ON UPDATE CASCADE;
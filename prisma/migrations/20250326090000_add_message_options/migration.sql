@@ -0,0 +1,15 @@
+-- AlterTable
+ALTER TABLE "EmailTemplate" ADD COLUMN     "bcc" TEXT,
+ADD COLUMN     "cc" TEXT,
+ADD COLUMN     "customHeaders" JSONB,
+ADD COLUMN     "listId" TEXT,
+ADD COLUMN     "preheader" TEXT,
+ADD COLUMN     "replyTo" TEXT;
+
+-- AlterTable
+ALTER TABLE "Campaign" ADD COLUMN     "bcc" TEXT,
+ADD COLUMN     "cc" TEXT,
+ADD COLUMN     "customHeaders" JSONB,
+ADD COLUMN     "listId" TEXT,
+ADD COLUMN     "preheader" TEXT,
+ADD COLUMN     "replyTo" TEXT;
@@ -0,0 +1,15 @@
+-- AlterTable
+ALTER TABLE "SmtpConfig" ADD COLUMN     "bounceCheckedAt" TIMESTAMP(3),
+ADD COLUMN     "bounceImapHost" TEXT,
+ADD COLUMN     "bounceImapMailbox" TEXT NOT NULL DEFAULT 'INBOX',
+ADD COLUMN     "bounceImapPassword" TEXT,
+ADD COLUMN     "bounceImapPort" INTEGER NOT NULL DEFAULT 993,
+ADD COLUMN     "bounceImapSecure" BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN     "bounceImapUsername" TEXT,
+ADD COLUMN     "bounceLastError" TEXT,
+ADD COLUMN     "bounceLastUid" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "bounceUidValidity" INTEGER;
+
+-- AlterTable
+ALTER TABLE "Campaign" ADD COLUMN     "bounceCount" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "complaintCount" INTEGER NOT NULL DEFAULT 0;
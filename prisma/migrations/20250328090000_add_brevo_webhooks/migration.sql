@@ -0,0 +1,36 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "brevoWebhookToken" TEXT;
+
+-- AlterTable
+ALTER TABLE "Campaign" ADD COLUMN     "deliveredCount" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "EmailLog" ADD COLUMN     "deliveredAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "WebhookEvent" (
+    "id" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "eventKey" TEXT NOT NULL,
+    "event" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "messageId" TEXT,
+    "emailLogId" TEXT,
+    "userId" TEXT NOT NULL,
+    "payload" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "WebhookEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "User_brevoWebhookToken_key" ON "User"("brevoWebhookToken");
+
+-- CreateIndex
+CREATE INDEX "WebhookEvent_userId_createdAt_idx" ON "WebhookEvent"("userId", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "WebhookEvent_userId_provider_eventKey_key" ON "WebhookEvent"("userId", "provider", "eventKey");
+
+-- AddForeignKey
+ALTER TABLE "WebhookEvent" ADD CONSTRAINT "WebhookEvent_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "SmtpConfig" ADD COLUMN     "transportType" TEXT NOT NULL DEFAULT 'smtp',
+ADD COLUMN     "apiKey" TEXT;
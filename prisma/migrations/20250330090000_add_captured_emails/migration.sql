@@ -0,0 +1,32 @@
+-- CreateTable
+CREATE TABLE "CapturedEmail" (
+    "id" TEXT NOT NULL,
+    "messageId" TEXT NOT NULL,
+    "fromAddress" TEXT NOT NULL,
+    "toAddress" TEXT NOT NULL,
+    "cc" TEXT[],
+    "bcc" TEXT[],
+    "replyTo" TEXT[],
+    "subject" TEXT NOT NULL,
+    "html" TEXT NOT NULL,
+    "text" TEXT,
+    "headers" JSONB NOT NULL,
+    "attachments" JSONB NOT NULL,
+    "userId" TEXT NOT NULL,
+    "smtpConfigId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CapturedEmail_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CapturedEmail_messageId_key" ON "CapturedEmail"("messageId");
+
+-- CreateIndex
+CREATE INDEX "CapturedEmail_userId_createdAt_idx" ON "CapturedEmail"("userId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "CapturedEmail" ADD CONSTRAINT "CapturedEmail_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CapturedEmail" ADD CONSTRAINT "CapturedEmail_smtpConfigId_fkey" FOREIGN KEY ("smtpConfigId") REFERENCES "SmtpConfig"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "sendingHaltedAt" TIMESTAMP(3),
+ADD COLUMN     "sendingHaltReason" TEXT;
+
+-- CreateTable
+CREATE TABLE "SendingHalt" (
+    "id" TEXT NOT NULL DEFAULT 'instance',
+    "reason" TEXT,
+    "haltedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SendingHalt_pkey" PRIMARY KEY ("id")
+);
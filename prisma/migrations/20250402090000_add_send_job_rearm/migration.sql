@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "SendJob" ADD COLUMN     "rearmAt" TIMESTAMP(3);
@@ -0,0 +1,7 @@
+-- CreateTable
+CREATE TABLE "DomainCooldown" (
+    "key" TEXT NOT NULL,
+    "until" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "DomainCooldown_pkey" PRIMARY KEY ("key")
+);
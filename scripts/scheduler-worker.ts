@@ -0,0 +1,156 @@
+// scripts/scheduler-worker.ts
+/**
+ * Standalone scheduler process, run next to `next start` with `npm run scheduler`
+ * Ticks every SCHEDULER_TICK_MS (5s by default): starts due scheduled and recurring campaigns,
+ * drains send jobs, restarts stalled campaigns and runs the periodic maintenance that the
+ * cron routes do on Vercel. Any number of copies can run; a Postgres advisory lock elects
+ * one leader and the others stand by to take over if it goes away.
+ */
+import { loadEnvConfig } from '@next/env';
+
+// Load .env files the way `next start` does, before anything reads process.env
+loadEnvConfig(process.cwd());
+
+const TICK_MS = parseInt(process.env.SCHEDULER_TICK_MS ?? '5000');
+
+// How long one tick may spend sending before it looks for newly due campaigns
+const SEND_BUDGET_MS = 20 * 1000;
+
+const STALLED_AFTER_MS = 10 * 60 * 1000;
+
+interface PeriodicTask {
+  name: string;
+  intervalMs: number;
+  // Held back while sending is stopped instance-wide
+  sends: boolean;
+  run: () => Promise<unknown>;
+  lastRunAt?: number;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+async function main() {
+  // Imported after the env is loaded, lib/db reads it at import time
+  const { prisma } = await import('../lib/db');
+  const { createLeaderLock } = await import('../lib/leader-lock');
+  const { runSendWorker } = await import('../lib/queue');
+  const { processDueSchedules } = await import('../lib/campaign-schedule');
+  const { processBounceMailboxes } = await import('../lib/bounce-processing');
+  const { cleanupUnusedImages } = await import('../lib/user-image');
+  const { describeSendingHalt, getInstanceHalt } = await import('../lib/sending-halt');
+  const { dispatchScheduledCampaigns, resetDailySmtpQuotas, resumeStalledCampaigns } = await import('../lib/scheduler');
+
+  const tasks: PeriodicTask[] = [
+    {
+      name: 'scheduled campaigns',
+      intervalMs: 0,
+      sends: true,
+      run: async () => {
+        const now = new Date();
+        await dispatchScheduledCampaigns(now, { wake: false });
+        await processDueSchedules(now);
+      },
+    },
+    {
+      name: 'send jobs',
+      intervalMs: 0,
+      sends: true,
+      run: () => runSendWorker({ timeBudgetMs: SEND_BUDGET_MS }),
+    },
+    {
+      name: 'stalled campaigns',
+      intervalMs: 60 * 1000,
+      sends: true,
+      run: () => resumeStalledCampaigns(STALLED_AFTER_MS, { wake: false }),
+    },
+    {
+      name: 'SMTP quotas',
+      intervalMs: 5 * 60 * 1000,
+      sends: false,
+      run: () => resetDailySmtpQuotas(),
+    },
+    {
+      name: 'bounce mailboxes',
+      intervalMs: 15 * 60 * 1000,
+      sends: false,
+      run: () => processBounceMailboxes(),
+    },
+    {
+      name: 'image cleanup',
+      intervalMs: 24 * 60 * 60 * 1000,
+      sends: false,
+      run: () => cleanupUnusedImages(),
+    },
+  ];
+
+  const lock = createLeaderLock('scheduler');
+  let isLeader = false;
+  let stopping = false;
+
+  const stop = () => {
+    console.log('Scheduler stopping after the current tick');
+    stopping = true;
+  };
+  process.on('SIGINT', stop);
+  process.on('SIGTERM', stop);
+
+  console.log(`Scheduler started (pid ${process.pid}, tick ${TICK_MS}ms)`);
+
+  while (!stopping) {
+    const leader = await lock.acquire();
+
+    if (leader !== isLeader) {
+      console.log(leader ? 'Scheduler is now the leader' : 'Another scheduler is the leader, standing by');
+      isLeader = leader;
+
+      // A new leader runs every task on its first tick
+      for (const task of tasks) {
+        task.lastRunAt = undefined;
+      }
+    }
+
+    if (isLeader) {
+      const halt = await getInstanceHalt().catch(error => {
+        console.error('Error checking the sending halt:', error);
+        return null;
+      });
+
+      if (halt) {
+        console.log(`Scheduler holding campaigns: ${describeSendingHalt(halt)}`);
+      }
+
+      for (const task of tasks) {
+        if (stopping || (halt && task.sends)) {
+          continue;
+        }
+
+        if (task.lastRunAt !== undefined && Date.now() - task.lastRunAt < task.intervalMs) {
+          continue;
+        }
+
+        task.lastRunAt = Date.now();
+
+        try {
+          await task.run();
+        } catch (error) {
+          console.error(`Scheduler task "${task.name}" failed:`, error);
+        }
+      }
+    }
+
+    if (!stopping) {
+      await sleep(TICK_MS);
+    }
+  }
+
+  await lock.release();
+  await prisma.$disconnect();
+  console.log('Scheduler stopped');
+}
+
+main().catch(error => {
+  console.error('Scheduler crashed:', error);
+  process.exit(1);
+});